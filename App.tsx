@@ -1,21 +1,37 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import GameContainer, { GameRef } from './components/GameContainer';
+import GameContainer, { GameRef, ResearchView } from './components/GameContainer';
 import { TransportModal } from './components/TransportModal';
 import { UnitType } from './Entities/Unit';
 import { City } from './Entities/City';
-import { HoverInfo } from './core/Game';
+import { HoverInfo, MapMode } from './core/Game';
+import { GameCommand } from './core/commands/Command';
+import { CommandHistoryInfo } from './core/commands/CommandHistory';
+import { ResearchTurnResult } from './core/systems/ResearchSystem';
+import { MarketState, MarketTurnResult } from './core/systems/MarketSystem';
+import { TreasuryState } from './core/systems/TreasurySystem';
+import { RuleSetData } from './core/rules/RuleSet';
+import { TurnReport } from './core/TurnReport';
+import { ShipmentPlan, TransportOptions } from './core/managers/CityManager';
+import { NetworkReport } from './Logistics/NetworkAnalysis';
+import { getTechName, getResourceName } from './utils/Localization';
 import { ImprovementType, TerrainType } from './Grid/GameMap';
 import Header from './components/UI/Header';
 import UnitActionBar from './components/UI/UnitActionBar';
 import UniversityModal from './components/UI/UniversityModal';
 import AdvisorWidget from './components/UI/AdvisorWidget';
 import IndustryModal from './components/UI/IndustryModal';
+import ResearchModal from './components/UI/ResearchModal';
+import TurnReportModal from './components/UI/TurnReportModal';
+import FinanceModal from './components/UI/FinanceModal';
+import NetworkModal from './components/UI/NetworkModal';
+import NewGameModal from './components/UI/NewGameModal';
 import AssetModal from './components/UI/AssetModal';
 import { useAdvisor } from './hooks/useAdvisor'; 
 import { DEFAULT_SPRITE_CONFIG } from './Renderer/assets/SpriteVisuals';
 import { Activity, Layers, Database } from 'lucide-react';
 import { QualityManager } from './core/quality/QualityManager';
+import { createRandomSeed } from './utils/Random';
 
 const getLocalResName = (t: number) => {
     const map: Record<number, string> = {
@@ -26,33 +42,61 @@ const getLocalResName = (t: number) => {
     return map[t] || 'Ресурс';
 };
 
+const SAVE_STORAGE_KEY = 'SAVE_GAME_QUICK';
+
+// World seed: taken from ?seed= so a map can be shared, otherwise random
+const getInitialSeed = (): number => {
+    const param = new URLSearchParams(window.location.search).get('seed');
+    const parsed = param ? parseInt(param, 10) : NaN;
+    return Number.isFinite(parsed) && parsed > 0 ? parsed >>> 0 : createRandomSeed();
+};
+
 const App: React.FC = () => {
   // Initialize Quality Manager Singleton on App start
   QualityManager.getInstance();
 
   const gameRef = useRef<GameRef>(null);
+  const [worldSeed, setWorldSeed] = useState<number>(getInitialSeed);
+  const [displaySeed, setDisplaySeed] = useState<number | null>(worldSeed);
+  const [gameKey, setGameKey] = useState(0); // Bumped to remount the engine for a new game
+  const [worldRules, setWorldRules] = useState<RuleSetData | undefined>(undefined);
+  const [showNewGame, setShowNewGame] = useState(false);
   const [turn, setTurn] = useState(1);
   const [year, setYear] = useState(1815);
   const [selectedUnit, setSelectedUnit] = useState<any | null>(null);
   const [hoverInfo, setHoverInfo] = useState<HoverInfo | null>(null);
+  const [mapMode, setMapMode] = useState<MapMode>('NONE');
   const [capital, setCapital] = useState<City | null>(null);
+  const [cities, setCities] = useState<City[]>([]);
+  const [activeCityId, setActiveCityId] = useState<string | null>(null); // City shown in Industry / University
   const [predictedYield, setPredictedYield] = useState<string | null>(null);
   const [actionMessage, setActionMessage] = useState<string | null>(null);
   const [gameWarnings, setGameWarnings] = useState<string[]>([]);
   const [vramStats, setVramStats] = useState<string>('');
+  const [historyInfo, setHistoryInfo] = useState<CommandHistoryInfo | null>(null);
 
   // --- Initialize Advisor Hook ---
   const advisor = useAdvisor({ gameRef, year });
 
   // Transport State
   const [showTransport, setShowTransport] = useState(false);
-  const [transportOptions, setTransportOptions] = useState<Map<any, number>>(new Map());
-  const [savedAllocations, setSavedAllocations] = useState<Map<any, number>>(new Map());
+  const [transportOptions, setTransportOptions] = useState<TransportOptions>(new Map());
+  const [transportCities, setTransportCities] = useState<City[]>([]);
+  const [savedAllocations, setSavedAllocations] = useState<ShipmentPlan>(new Map());
 
   // Modal States
   const [showUniversity, setShowUniversity] = useState(false);
   const [showIndustry, setShowIndustry] = useState(false);
   const [showAssets, setShowAssets] = useState(false);
+  const [showResearch, setShowResearch] = useState(false);
+  const [research, setResearch] = useState<ResearchView | null>(null);
+  const [market, setMarket] = useState<MarketState | null>(null);
+  const [showReport, setShowReport] = useState(false);
+  const [showFinance, setShowFinance] = useState(false);
+  const [treasury, setTreasury] = useState<TreasuryState | null>(null);
+  const [showNetwork, setShowNetwork] = useState(false);
+  const [networkReport, setNetworkReport] = useState<NetworkReport | null>(null);
+  const [turnReports, setTurnReports] = useState<TurnReport[]>([]);
   
   // VRAM Stats polling
   useEffect(() => {
@@ -69,6 +113,18 @@ const App: React.FC = () => {
   // Hotkeys
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      // Undo / Redo (Ctrl+Z, Ctrl+Y, Ctrl+Shift+Z)
+      if ((e.ctrlKey || e.metaKey) && (e.code === 'KeyZ' || e.code === 'KeyY')) {
+        if (document.activeElement?.tagName === 'INPUT' || document.activeElement?.tagName === 'TEXTAREA') {
+             return;
+        }
+        e.preventDefault();
+        if (showTransport) return;
+        if (e.code === 'KeyY' || e.shiftKey) handleRedo();
+        else handleUndo();
+        return;
+      }
+
       if (e.code === 'Space') {
         // Only trigger end turn if not typing in an input (like advisor chat)
         if (document.activeElement?.tagName === 'INPUT' || document.activeElement?.tagName === 'TEXTAREA') {
@@ -76,7 +132,7 @@ const App: React.FC = () => {
         }
 
         e.preventDefault(); 
-        if (!showTransport && !showIndustry && !showUniversity && !showAssets) {
+        if (!showTransport && !showIndustry && !showUniversity && !showAssets && !showResearch && !showReport && !showFinance && !showNetwork && !showNewGame) {
             triggerEndTurnSequence();
         }
       }
@@ -86,7 +142,7 @@ const App: React.FC = () => {
     return () => {
       window.removeEventListener('keydown', handleKeyDown);
     };
-  }, [showTransport, showIndustry, showUniversity, showAssets]);
+  }, [showTransport, showIndustry, showUniversity, showAssets, showResearch, showReport, showFinance, showNetwork, showNewGame]);
 
   const triggerEndTurnSequence = () => {
       if (!gameRef.current) return;
@@ -102,18 +158,22 @@ const App: React.FC = () => {
       }
       
       const options = gameRef.current.getTransportOptions();
-      if (options.size > 0) {
+      if (options.size > 0 && gameRef.current.isTransportAutomatic()) {
+          // Every city ships by its rules, nothing to ask
+          gameRef.current.resolveTurn(gameRef.current.planTransport());
+      } else if (options.size > 0) {
           setTransportOptions(options);
           // Fetch previous settings from City via GameRef
           const saved = gameRef.current.getSavedTransportAllocations();
           setSavedAllocations(saved);
+          setTransportCities(gameRef.current.getTransportCities());
           setShowTransport(true);
       } else {
           gameRef.current.resolveTurn(new Map());
       }
   };
 
-  const handleTransportConfirm = (allocations: Map<any, number>) => {
+  const handleTransportConfirm = (allocations: ShipmentPlan) => {
       setShowTransport(false);
       gameRef.current?.resolveTurn(allocations);
   };
@@ -125,7 +185,7 @@ const App: React.FC = () => {
 
   const handleRecruit = (type: UnitType) => {
       if (!gameRef.current) return;
-      const msg = gameRef.current.recruitUnit(type);
+      const msg = gameRef.current.recruitUnit(type, activeCity?.id);
       alert(msg); 
       // Force update UI
       if (gameRef.current.getRealCapital) {
@@ -193,25 +253,190 @@ const App: React.FC = () => {
       }
   };
 
+  const copyCity = (c: City): City => Object.assign(Object.create(Object.getPrototypeOf(c)), c);
+
   const updateCapitalState = (c: City) => {
-      const copy = Object.assign(Object.create(Object.getPrototypeOf(c)), c);
-      setCapital(copy);
+      setCapital(copyCity(c));
+      // Other cities are refreshed together with the capital
+      setCities((gameRef.current?.getCities() || [c]).map(copyCity));
       updateWarnings();
   };
 
-  // Safe wrapper for modify city state directly on the engine instance
-  const runCityAction = (action: (city: City) => string | undefined) => {
+  const activeCity = cities.find(c => c.id === activeCityId) || capital;
+
+  const showActionMessage = (msg: string) => {
+      setActionMessage(msg);
+      setTimeout(() => setActionMessage(null), 3000);
+  };
+
+  // Typed commands (undoable within the current turn)
+  const runCommand = (command: GameCommand) => {
+      const msg = gameRef.current?.executeCommand(command);
+      refreshMarket();
+      refreshTreasury();
+      return msg;
+  };
+
+  const handleUndo = () => {
+      const msg = gameRef.current?.undo();
+      if (msg) showActionMessage(msg);
+      refreshResearch();
+      refreshMarket();
+      refreshTreasury();
+  };
+
+  const handleRedo = () => {
+      const msg = gameRef.current?.redo();
+      if (msg) showActionMessage(msg);
+      refreshResearch();
+      refreshMarket();
+      refreshTreasury();
+  };
+
+  // Research
+  const refreshResearch = () => {
+      setResearch(gameRef.current?.getResearch() || null);
+  };
+
+  const openResearch = () => {
+      refreshResearch();
+      setShowResearch(true);
+  };
+
+  const handleQueueResearch = (techId: string) => {
+      const msg = gameRef.current?.queueResearch(techId);
+      if (msg) showActionMessage(msg);
+      refreshResearch();
+  };
+
+  const handleCancelResearch = (techId: string) => {
+      const msg = gameRef.current?.cancelResearch(techId);
+      if (msg) showActionMessage(msg);
+      refreshResearch();
+  };
+
+  const handleResearchUpdate = (result: ResearchTurnResult) => {
+      if (result.completed.length > 0) {
+          showActionMessage(`Исследовано: ${result.completed.map(getTechName).join(', ')}`);
+      } else if (result.stalled) {
+          showActionMessage(result.stalled);
+      }
+      refreshResearch();
+  };
+
+  // Market
+  const refreshMarket = () => {
+      setMarket(gameRef.current?.getMarket() || null);
+  };
+
+  const openIndustry = () => {
+      refreshMarket();
+      setShowIndustry(true);
+  };
+
+  const handleMarketUpdate = (result: MarketTurnResult) => {
+      if (result.trades.length > 0) {
+          const income = result.trades.reduce((sum, t) => sum + (t.side === 'SELL' ? t.total : -t.total), 0);
+          const parts = result.trades.map(t => `${t.side === 'BUY' ? '+' : '-'}${t.amount} ${getResourceName(t.resource)}`);
+          showActionMessage(`Рынок: ${parts.join(', ')} (${income >= 0 ? '+' : '-'}$${Math.abs(income)})`);
+      } else if (result.shortfalls.length > 0) {
+          showActionMessage(`Недостаточно средств или товара для заявок: ${result.shortfalls.map(s => getResourceName(s.order.resource)).join(', ')}`);
+      }
+      refreshMarket();
+  };
+
+  // Treasury
+  const refreshTreasury = () => {
+      setTreasury(gameRef.current?.getTreasury() || null);
+  };
+
+  const openFinance = () => {
+      refreshTreasury();
+      setShowFinance(true);
+  };
+
+  const openNetwork = () => {
+      setNetworkReport(gameRef.current?.analyzeNetwork() || null);
+      setShowNetwork(true);
+  };
+
+  // Turn reports: the summary opens after every turn
+  const handleTurnReport = () => {
+      const reports = gameRef.current?.getTurnReports() || [];
+      const latest = reports[reports.length - 1];
+      if (latest?.treasury.seized.length) {
+          showActionMessage(`Банкротство: кредиторы изъяли товары на $${latest.treasury.seized.reduce((sum, s) => sum + s.cash, 0)}`);
+      } else if (latest?.treasury.bankrupt) {
+          showActionMessage("Казна в долгах: погасите дефицит, иначе кредиторы изымут товары.");
+      }
+      setTurnReports(reports);
+      setShowReport(true);
+      refreshTreasury();
+  };
+
+  // Save / Load (single quick-save slot in localStorage)
+  const handleSaveGame = () => {
+      const json = gameRef.current?.saveGame();
+      if (!json) return;
+      try {
+          localStorage.setItem(SAVE_STORAGE_KEY, json);
+          showActionMessage("Игра сохранена.");
+      } catch (e) {
+          // The usual cause is a full browser storage quota
+          const full = e instanceof DOMException && e.name === 'QuotaExceededError';
+          showActionMessage(full
+              ? "Ошибка: в хранилище браузера нет места для сохранения."
+              : "Ошибка: не удалось записать сохранение.");
+      }
+  };
+
+  const handleLoadGame = async () => {
       if (!gameRef.current) return;
-      
-      const realCity = gameRef.current.getRealCapital && gameRef.current.getRealCapital();
-      if (!realCity) return;
+      const json = localStorage.getItem(SAVE_STORAGE_KEY);
+      if (!json) {
+          showActionMessage("Нет сохранённой игры.");
+          return;
+      }
+      if (!confirm("Загрузить сохранение? Несохранённый прогресс будет потерян.")) return;
 
-      const result = action(realCity);
-      
-      // Sync UI
-      updateCapitalState(realCity);
-      
-      return result;
+      setShowTransport(false);
+      const msg = await gameRef.current.loadGame(json);
+      setDisplaySeed(gameRef.current.getSeed());
+      refreshResearch();
+      refreshMarket();
+      refreshTreasury();
+      setTurnReports([]);
+      setShowReport(false);
+      showActionMessage(msg);
+  };
+
+  const handleNewGame = (seed: number, rules: RuleSetData) => {
+      // Reset UI state tied to the old session
+      setShowNewGame(false);
+      setShowTransport(false);
+      setShowIndustry(false);
+      setShowUniversity(false);
+      setShowResearch(false);
+      setResearch(null);
+      setMarket(null);
+      setTreasury(null);
+      setShowFinance(false);
+      setShowReport(false);
+      setTurnReports([]);
+      setSelectedUnit(null);
+      setCapital(null);
+      setCities([]);
+      setActiveCityId(null);
+      setTurn(1);
+      setYear(1815);
+      setHistoryInfo(null);
+      setMapMode('NONE');
+      setShowNetwork(false);
+
+      setWorldSeed(seed);
+      setWorldRules(rules);
+      setDisplaySeed(seed);
+      setGameKey(k => k + 1);
   };
 
   // Upload handler
@@ -259,10 +484,23 @@ const App: React.FC = () => {
         capital={capital}
         hoverInfo={hoverInfo}
         year={year}
-        onUniversityClick={() => setShowUniversity(true)}
-        onIndustryClick={() => setShowIndustry(true)}
+        seed={displaySeed}
+        onNewGameClick={() => setShowNewGame(true)}
+        onUniversityClick={() => { refreshResearch(); setShowUniversity(true); }}
+        onIndustryClick={openIndustry}
+        onResearchClick={openResearch}
+        onReportClick={() => setShowReport(true)}
+        onFinanceClick={openFinance}
         onEndTurnClick={handleEndTurnClick}
         onAssetsClick={() => setShowAssets(true)}
+        onSaveClick={handleSaveGame}
+        onLoadClick={handleLoadGame}
+        historyInfo={historyInfo}
+        onUndoClick={handleUndo}
+        onRedoClick={handleRedo}
+        mapMode={mapMode}
+        onMapModeClick={(mode) => setMapMode(gameRef.current?.toggleMapMode(mode) || 'NONE')}
+        onNetworkClick={openNetwork}
       />
 
       {/* Strategic Advisor Panel (Right Side - Static Warnings) */}
@@ -312,7 +550,10 @@ const App: React.FC = () => {
       {/* Main Game Area */}
       <main className="flex-1 relative overflow-hidden flex items-center justify-center bg-black">
          <GameContainer 
+            key={gameKey}
             ref={gameRef} 
+            seed={worldSeed}
+            rules={worldRules}
             onTurnChange={(t, y) => { setTurn(t); setYear(y); }}
             onSelectionChange={(u) => {
               setSelectedUnit(u ? Object.assign(Object.create(Object.getPrototypeOf(u)), u) : null);
@@ -321,6 +562,10 @@ const App: React.FC = () => {
                 setHoverInfo(info);
             }}
             onCapitalUpdate={updateCapitalState}
+            onHistoryChange={setHistoryInfo}
+            onResearchUpdate={handleResearchUpdate}
+            onMarketUpdate={handleMarketUpdate}
+            onTurnReport={handleTurnReport}
          />
          
          {/* Advisor Widget (Bottom Left) - Using Hook State */}
@@ -359,29 +604,79 @@ const App: React.FC = () => {
       {showTransport && (
           <TransportModal 
               availableResources={transportOptions}
+              cities={transportCities}
               previousAllocations={savedAllocations}
-              capacity={capital?.transportCapacity || 20}
               onConfirm={handleTransportConfirm}
+              onCommand={runCommand}
           />
       )}
 
       {showUniversity && (
           <UniversityModal 
-              capital={capital}
+              city={activeCity}
+              cities={cities}
+              onSelectCity={setActiveCityId}
               onClose={() => setShowUniversity(false)}
               onRecruit={(type) => handleRecruit(type)}
+              onCommand={runCommand}
+              technologies={research?.technologies}
               getSpriteSource={getSpriteSource}
           />
       )}
 
       {showIndustry && (
           <IndustryModal
-              capital={capital}
+              city={activeCity}
+              cities={cities}
+              onSelectCity={setActiveCityId}
               onClose={() => setShowIndustry(false)}
-              onAction={runCityAction}
+              onCommand={runCommand}
+              market={market}
+              technologies={research?.technologies}
           />
       )}
       
+      {showResearch && (
+          <ResearchModal
+              capital={capital}
+              research={research}
+              onClose={() => setShowResearch(false)}
+              onQueue={handleQueueResearch}
+              onCancel={handleCancelResearch}
+          />
+      )}
+
+      {showNewGame && (
+          <NewGameModal
+              onStart={handleNewGame}
+              onClose={() => setShowNewGame(false)}
+          />
+      )}
+
+      {showFinance && (
+          <FinanceModal
+              capital={capital}
+              cities={cities}
+              treasury={treasury}
+              onCommand={runCommand}
+              onClose={() => setShowFinance(false)}
+          />
+      )}
+
+      {showNetwork && (
+          <NetworkModal
+              report={networkReport}
+              onClose={() => setShowNetwork(false)}
+          />
+      )}
+
+      {showReport && turnReports.length > 0 && (
+          <TurnReportModal
+              reports={turnReports}
+              onClose={() => setShowReport(false)}
+          />
+      )}
+
       {showAssets && (
           <AssetModal 
               onClose={() => setShowAssets(false)}
@@ -75,6 +75,7 @@ export class AIHelpers {
 
             const tile = map.getTile(hex.q, hex.r);
             if (!tile) continue;
+            if (map.isForeignTerritory(hex.q, hex.r, unit.ownerId)) continue;
 
             // Validity Check
             const canBuild = tile.resource === ResourceType.NONE || tile.resource === ResourceType.WOOD || tile.isHidden;
@@ -127,7 +128,8 @@ export class AIHelpers {
     public static findOptimalDepotSpot(
         map: GameMap,
         resourceHex: Hex,
-        net: TransportNetwork
+        net: TransportNetwork,
+        ownerId: number
     ): Hex | null {
         const candidates = getHexRange(resourceHex, 1);
         let bestHex: Hex | null = null;
@@ -141,6 +143,7 @@ export class AIHelpers {
 
             const tile = map.getTile(hex.q, hex.r);
             if (!tile) continue;
+            if (map.isForeignTerritory(hex.q, hex.r, ownerId)) continue;
 
             // Strict Build Checks
             const canBuild = tile.resource === ResourceType.NONE || tile.resource === ResourceType.WOOD || tile.isHidden;
@@ -184,7 +187,7 @@ export class AIHelpers {
     }
 
     /**
-     * A generic target finder.
+     * A generic target finder. Tiles in other empires' territory are never targets.
      */
     public static findBestTarget(
         unit: Unit,
@@ -205,6 +208,7 @@ export class AIHelpers {
 
                 const tile = map.getTile(q, r);
                 if (!tile || tile.terrain === TerrainType.WATER) continue;
+                if (map.isForeignTerritory(q, r, unit.ownerId)) continue;
 
                 const score = scoreFn(hex, tile);
 
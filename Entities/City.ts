@@ -2,7 +2,8 @@
 
 import { Hex } from '../Grid/HexMath';
 import { ResourceType } from '../Grid/GameMap';
-import { GameConfig } from '../core/GameConfig';
+import { GameConfig, ProductionGoal, Recipe, RecipePriority, CostConfig, TransportRule } from '../core/GameConfig';
+import { UnitType } from './Unit';
 
 export interface Workforce {
     untrained: number;
@@ -10,6 +11,49 @@ export interface Workforce {
     expert: number;
 }
 
+/**
+ * A course at the city's university. It is paid up front and the student
+ * leaves the workforce (or the expert leaves to lead a unit) until it ends.
+ */
+export type TrainingOrder = {
+    id: number;
+    turns: number;
+    turnsLeft: number;
+    // What was paid; a cancelled course is refunded in full
+    cost: CostConfig;
+} & ({ kind: 'WORKER'; level: 'trained' | 'expert' } | { kind: 'UNIT'; unitType: UnitType });
+
+/**
+ * Plain JSON representation of a city used by the save system.
+ * Maps are stored as entry arrays.
+ */
+export interface CitySaveData {
+    id: string;
+    name: string;
+    ownerId: number;
+    location: Hex;
+    population: number;
+    workforce: Workforce;
+    cash: number;
+    inventory: [ResourceType, number][];
+    productionQueue: string[];
+    productionTargets: [string, number][];
+    productionGoals: ProductionGoal[];
+    autoPlan: boolean;
+    recipePriorities: [string, RecipePriority][];
+    trainingQueue: TrainingOrder[];
+    housingLevel: number;
+    growthProgress: number;
+    sickTurns: number;
+    happiness: number;
+    buildingLevels: [string, number][];
+    transportCapacity: number;
+    fleetCapacity: number;
+    lastTransportSettings: [ResourceType, number][];
+    transportRules: TransportRule[];
+    autoTransport: boolean;
+}
+
 export class City {
   public id: string;
   public name: string;
@@ -18,6 +62,12 @@ export class City {
   
   public population: number; // Total population count
   public workforce: Workforce; // Available labor pool
+
+  // Housing caps how far births and immigration can grow the population
+  public housingLevel: number = 1;
+  public growthProgress: number = 0; // Fractional births carried over between turns
+  public sickTurns: number = 0; // Epidemic turns in a row
+  public happiness: number = GameConfig.HAPPINESS.INITIAL; // Morale, 0-100 (fractional; shown rounded)
   
   public cash: number; // Treasury
   
@@ -27,14 +77,30 @@ export class City {
   // Production Targets: Key = Recipe Name, Value = Target Amount
   public productionTargets: Map<string, number>;
 
+  // Production planner goals (priority order); with autoPlan the targets are recomputed every turn
+  public productionGoals: ProductionGoal[];
+  public autoPlan: boolean = false;
+
+  // Recipe name -> priority; recipes not listed are NORMAL
+  public recipePriorities: Map<string, RecipePriority>;
+
+  // University courses in enrollment order
+  public trainingQueue: TrainingOrder[] = [];
+
   // Building Levels (Capacity): Key = Building Name
   public buildingLevels: Map<string, number>;
 
   public transportCapacity: number = 20;
+  // Merchant fleet cargo for goods shipped over water
+  public fleetCapacity: number = 0;
   
   // Stores the last transport distribution chosen by the player
   public lastTransportSettings: Map<ResourceType, number>;
 
+  // Transport planner rules (priority order); with autoTransport the plan is shipped without asking
+  public transportRules: TransportRule[];
+  public autoTransport: boolean = false;
+
   constructor(id: string, name: string, location: Hex, ownerId: number = 1) {
     this.id = id;
     this.name = name;
@@ -50,10 +116,13 @@ export class City {
     this.inventory = new Map<ResourceType, number>();
     this.productionQueue = [];
     this.productionTargets = new Map<string, number>();
+    this.recipePriorities = new Map<string, RecipePriority>();
+    this.productionGoals = GameConfig.PLANNER.DEFAULT_GOALS.map(g => ({ ...g }));
     this.buildingLevels = new Map<string, number>();
     
     // Initialize persistent settings map
     this.lastTransportSettings = new Map<ResourceType, number>();
+    this.transportRules = GameConfig.TRANSPORT_PLANNER.DEFAULT_RULES.map(City.copyRule);
 
     this.initInventory();
     this.initBuildings();
@@ -66,19 +135,103 @@ export class City {
       // Copy primitive and object properties
       clone.population = this.population;
       clone.workforce = { ...this.workforce };
+      clone.housingLevel = this.housingLevel;
+      clone.growthProgress = this.growthProgress;
+      clone.sickTurns = this.sickTurns;
+      clone.happiness = this.happiness;
       clone.cash = this.cash;
       clone.transportCapacity = this.transportCapacity;
+      clone.fleetCapacity = this.fleetCapacity;
       
       // Deep copy Maps
       clone.inventory = new Map(this.inventory);
       clone.productionQueue = [...this.productionQueue];
       clone.productionTargets = new Map(this.productionTargets);
+      clone.productionGoals = this.productionGoals.map(g => ({ ...g }));
+      clone.autoPlan = this.autoPlan;
+      clone.recipePriorities = new Map(this.recipePriorities);
+      clone.trainingQueue = this.trainingQueue.map(City.copyOrder);
       clone.buildingLevels = new Map(this.buildingLevels);
       clone.lastTransportSettings = new Map(this.lastTransportSettings);
+      clone.transportRules = this.transportRules.map(City.copyRule);
+      clone.autoTransport = this.autoTransport;
       
       return clone;
   }
 
+  public toSaveData(): CitySaveData {
+      return {
+          id: this.id,
+          name: this.name,
+          ownerId: this.ownerId,
+          location: { ...this.location },
+          population: this.population,
+          workforce: { ...this.workforce },
+          cash: this.cash,
+          inventory: Array.from(this.inventory.entries()),
+          productionQueue: [...this.productionQueue],
+          productionTargets: Array.from(this.productionTargets.entries()),
+          productionGoals: this.productionGoals.map(g => ({ ...g })),
+          autoPlan: this.autoPlan,
+          recipePriorities: Array.from(this.recipePriorities.entries()),
+          trainingQueue: this.trainingQueue.map(City.copyOrder),
+          housingLevel: this.housingLevel,
+          growthProgress: this.growthProgress,
+          sickTurns: this.sickTurns,
+          happiness: this.happiness,
+          buildingLevels: Array.from(this.buildingLevels.entries()),
+          transportCapacity: this.transportCapacity,
+          fleetCapacity: this.fleetCapacity,
+          lastTransportSettings: Array.from(this.lastTransportSettings.entries()),
+          transportRules: this.transportRules.map(City.copyRule),
+          autoTransport: this.autoTransport
+      };
+  }
+
+  public static fromSaveData(data: CitySaveData): City {
+      const city = new City(data.id, data.name, { ...data.location }, data.ownerId);
+      city.applySaveData(data);
+      return city;
+  }
+
+  /**
+   * Overwrites the city's state in place (used by fromSaveData and by undo/redo).
+   */
+  public applySaveData(data: CitySaveData) {
+      this.name = data.name;
+      this.ownerId = data.ownerId;
+      this.location = { ...data.location };
+      this.population = data.population;
+      this.workforce = { ...data.workforce };
+      this.housingLevel = data.housingLevel;
+      this.growthProgress = data.growthProgress;
+      this.sickTurns = data.sickTurns;
+      this.happiness = data.happiness;
+      this.cash = data.cash;
+      this.transportCapacity = data.transportCapacity;
+      this.fleetCapacity = data.fleetCapacity;
+
+      this.inventory = new Map(data.inventory);
+      this.productionQueue = [...data.productionQueue];
+      this.productionTargets = new Map(data.productionTargets);
+      this.productionGoals = data.productionGoals.map(g => ({ ...g }));
+      this.autoPlan = data.autoPlan;
+      this.recipePriorities = new Map(data.recipePriorities);
+      this.trainingQueue = data.trainingQueue.map(City.copyOrder);
+      this.buildingLevels = new Map(data.buildingLevels);
+      this.lastTransportSettings = new Map(data.lastTransportSettings);
+      this.transportRules = data.transportRules.map(City.copyRule);
+      this.autoTransport = data.autoTransport;
+  }
+
+  private static copyOrder(order: TrainingOrder): TrainingOrder {
+      return { ...order, cost: { ...order.cost, resources: order.cost.resources?.map(r => ({ ...r })) } };
+  }
+
+  public static copyRule(rule: TransportRule): TransportRule {
+      return rule.kind === 'RATIO' ? { ...rule, resources: [...rule.resources] } : { ...rule };
+  }
+
   private initInventory() {
     GameConfig.CITY.INITIAL_INVENTORY.forEach(item => {
         this.inventory.set(item.type, item.amount);
@@ -91,6 +244,19 @@ export class City {
     });
   }
 
+  public getRecipePriority(recipeName: string): RecipePriority {
+      return this.recipePriorities.get(recipeName) || 'NORMAL';
+  }
+
+  // Order in which recipes claim labor and inputs: HIGH, NORMAL, LOW, rule-set order within a priority
+  public getRecipeOrder(): Recipe[] {
+      const rank: Record<RecipePriority, number> = { HIGH: 0, NORMAL: 1, LOW: 2 };
+      return GameConfig.ECONOMY.RECIPES
+          .map((recipe, index) => ({ recipe, index, rank: rank[this.getRecipePriority(recipe.name)] }))
+          .sort((a, b) => a.rank - b.rank || a.index - b.index)
+          .map(entry => entry.recipe);
+  }
+
   // Helper for compatibility with old code
   get expertLabor(): number {
       return this.workforce.expert;
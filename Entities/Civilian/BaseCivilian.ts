@@ -1,6 +1,6 @@
 
 
-import { Unit, UnitType } from '../Unit';
+import { Unit, UnitType, UnitSaveData, SaveFieldCheck, SaveFieldChecks } from '../Unit';
 import { GameMap } from '../../Grid/GameMap';
 import { Pathfinder } from '../../Grid/Pathfinding';
 import { City } from '../City';
@@ -30,6 +30,23 @@ export class CivilianUnit extends Unit {
         return clone;
     }
 
+    public override getSaveFields(): Record<string, SaveFieldCheck> {
+        return { ...super.getSaveFields(), unreachableTargets: SaveFieldChecks.stringArray };
+    }
+
+    public override toSaveData(): UnitSaveData {
+        const data = super.toSaveData();
+        data.unreachableTargets = Array.from(this.unreachableTargets);
+        return data;
+    }
+
+    public override restoreSaveData(data: UnitSaveData) {
+        super.restoreSaveData(data);
+        // Saved as an array; super copied it over the Set
+        const targets = SaveFieldChecks.stringArray(data.unreachableTargets) ? data.unreachableTargets as string[] : [];
+        this.unreachableTargets = new Set(targets);
+    }
+
     public doAutoTurn(
         map: GameMap, 
         pathfinder: Pathfinder, 
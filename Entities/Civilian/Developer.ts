@@ -21,6 +21,7 @@ export class Developer extends CivilianUnit {
 
         const tile = map.getTile(this.location.q, this.location.r);
         if (tile?.owner === this.ownerId) return "Земля уже принадлежит нам.";
+        if (map.isForeignTerritory(this.location.q, this.location.r, this.ownerId)) return "Нет: чужая территория.";
 
         city.cash -= cost;
         map.setTile(this.location.q, this.location.r, { owner: this.ownerId });
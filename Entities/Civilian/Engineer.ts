@@ -1,5 +1,6 @@
 
 import { CivilianUnit } from './BaseCivilian';
+import { SaveFieldCheck, SaveFieldChecks } from '../Unit';
 import { Hex, areHexesEqual, getHexDistance, hexToString } from '../../Grid/HexMath';
 import { GameMap, ImprovementType, ResourceType, TerrainType } from '../../Grid/GameMap';
 import { City } from '../City';
@@ -25,6 +26,16 @@ export class Engineer extends CivilianUnit {
         super(id, 'Engineer' as any, location, ownerId);
     }
 
+    public override getSaveFields(): Record<string, SaveFieldCheck> {
+        return {
+            ...super.getSaveFields(),
+            autoPriority: SaveFieldChecks.oneOf(['GENERAL', ...SaveFieldChecks.enumValues(ResourceType)]),
+            terrainFilter: SaveFieldChecks.oneOf(['ALL', ...SaveFieldChecks.enumValues(TerrainType)]),
+            heedAdvice: SaveFieldChecks.boolean,
+            intentToBuildDepot: SaveFieldChecks.boolean
+        };
+    }
+
     public setPriority(priority: EngineerPriority) {
         this.autoPriority = priority;
         this.targetHex = null; 
@@ -85,8 +96,9 @@ export class Engineer extends CivilianUnit {
         
         const tile = map.getTile(this.location.q, this.location.r);
         if (!tile) return "Ошибка карты";
+        if (map.isForeignTerritory(this.location.q, this.location.r, this.ownerId)) return "Нет: чужая территория.";
         
-        if (tile.improvement === ImprovementType.RAILROAD && imp === ImprovementType.ROAD) {
+        if (tile.improvement === ImprovementType.RAILROAD && (imp === ImprovementType.ROAD || imp === ImprovementType.RAILROAD)) {
             return "Уже есть Ж/Д.";
         }
 
@@ -116,6 +128,9 @@ export class Engineer extends CivilianUnit {
         }
 
         map.setTile(this.location.q, this.location.r, { improvement: imp, improvementLevel: 1 });
+        // Stations claim their collection zone, everything else just the tile
+        const isStation = imp === ImprovementType.DEPOT || imp === ImprovementType.PORT;
+        map.claimTerritory(this.location, isStation ? 1 : 0, this.ownerId);
         this.movesLeft = 0;
         this.intentToBuildDepot = false; // Action completed
         return `Построено: ${ImprovementType[imp]}`;
@@ -175,7 +190,6 @@ export class Engineer extends CivilianUnit {
                  
                  if (this.canAfford(capital, cost)) {
                      techs.has('Railroad Transport') ? this.buildRailroad(map, capital) : this.buildRoad(map, capital);
-                     transportNetwork.markDirty();
                      return report("Авто: Дорога (для Депо)");
                  } else {
                      const missing = this.getMissingResString(capital, cost);
@@ -192,7 +206,6 @@ export class Engineer extends CivilianUnit {
                     this.targetHex = null;
                     return report("Ошибка Депо: " + result);
                 }
-                transportNetwork.markDirty();
                 return report("Авто: Строю Депо");
             } else {
                 const missing = this.getMissingResString(capital, depotCost);
@@ -211,7 +224,6 @@ export class Engineer extends CivilianUnit {
         if (currentTile.improvement === ImprovementType.ROAD && techs.has('Railroad Transport')) {
             if (this.canAfford(capital, GameConfig.INFRASTRUCTURE[ImprovementType.RAILROAD])) {
                 this.buildRailroad(map, capital);
-                transportNetwork.markDirty();
                 return report("Авто: Апгрейд Ж/Д");
             }
         }
@@ -226,7 +238,6 @@ export class Engineer extends CivilianUnit {
 
              if (this.canAfford(capital, cost)) {
                  techs.has('Railroad Transport') ? this.buildRailroad(map, capital) : this.buildRoad(map, capital);
-                 transportNetwork.markDirty();
              }
         }
 
@@ -288,6 +299,7 @@ export class Engineer extends CivilianUnit {
         if (!tile) return false;
         
         if (net.isConnectedToCapital(this.location)) return false;
+        if (map.isForeignTerritory(this.location.q, this.location.r, this.ownerId)) return false;
 
         // Strict Check: Cannot build on productive resources (except Wood/None)
         const canBuild = tile.resource === ResourceType.NONE || tile.resource === ResourceType.WOOD || tile.isHidden;
@@ -439,7 +451,7 @@ export class Engineer extends CivilianUnit {
                 const canBuildDepotOnTarget = tile.resource === ResourceType.NONE || tile.resource === ResourceType.WOOD || tile.isHidden;
                 
                 if (!canBuildDepotOnTarget) {
-                    const smartSpot = AIHelpers.findOptimalDepotSpot(map, target, net);
+                    const smartSpot = AIHelpers.findOptimalDepotSpot(map, target, net, this.ownerId);
                     if (smartSpot) {
                         this.intentToBuildDepot = true;
                         return smartSpot; 
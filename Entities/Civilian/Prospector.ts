@@ -1,6 +1,6 @@
 
 
-import { UnitType, Unit } from '../Unit';
+import { UnitType, Unit, SaveFieldCheck, SaveFieldChecks } from '../Unit';
 import { CivilianUnit } from './BaseCivilian';
 import { Hex, areHexesEqual, hexToString, getHexDistance } from '../../Grid/HexMath';
 import { GameMap, TerrainType, ResourceType } from '../../Grid/GameMap';
@@ -18,6 +18,10 @@ export class Prospector extends CivilianUnit {
         super(id, UnitType.PROSPECTOR, location, ownerId);
     }
 
+    public override getSaveFields(): Record<string, SaveFieldCheck> {
+        return { ...super.getSaveFields(), prospectFilter: SaveFieldChecks.oneOf(['ALL', 'HILLS', 'MOUNTAIN', 'DESERT']) };
+    }
+
     public setFilter(filter: ProspectFilter) {
         this.prospectFilter = filter;
         this.targetHex = null;
@@ -28,6 +32,7 @@ export class Prospector extends CivilianUnit {
 
         const tile = map.getTile(this.location.q, this.location.r);
         if (!tile) return "Неверная локация.";
+        if (map.isForeignTerritory(this.location.q, this.location.r, this.ownerId)) return "Нет: чужая территория.";
         
         const validTerrains = [TerrainType.HILLS, TerrainType.MOUNTAIN, TerrainType.DESERT, TerrainType.TUNDRA];
 
@@ -61,7 +66,8 @@ export class Prospector extends CivilianUnit {
         this.debugStatus = "Сканирование...";
 
         // 1. Check current tile
-        if (currentTile && !currentTile.isProspected && validTerrains.includes(currentTile.terrain)) {
+        const isForeign = map.isForeignTerritory(this.location.q, this.location.r, this.ownerId);
+        if (currentTile && !currentTile.isProspected && !isForeign && validTerrains.includes(currentTile.terrain)) {
             let passesFilter = this.checkFilter(currentTile.terrain);
             if (passesFilter) {
                 this.debugStatus = "Веду разведку...";
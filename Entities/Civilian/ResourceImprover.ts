@@ -1,6 +1,6 @@
 
 
-import { UnitType, Unit } from '../Unit';
+import { UnitType, Unit, SaveFieldCheck, SaveFieldChecks } from '../Unit';
 import { CivilianUnit } from './BaseCivilian';
 import { Hex, areHexesEqual, hexToString, getHexDistance, getHexNeighbors } from '../../Grid/HexMath';
 import { GameMap, ImprovementType, ResourceType, TerrainType } from '../../Grid/GameMap';
@@ -16,6 +16,10 @@ export class ResourceImprover extends CivilianUnit {
         super(id, type, location, ownerId);
     }
 
+    public override getSaveFields(): Record<string, SaveFieldCheck> {
+        return { ...super.getSaveFields(), autoTargetResource: SaveFieldChecks.oneOf(['ALL', ...SaveFieldChecks.enumValues(ResourceType)]) };
+    }
+
     public setFilter(filter: ResourceType | 'ALL') {
         this.autoTargetResource = filter;
         this.targetHex = null;
@@ -56,7 +60,8 @@ export class ResourceImprover extends CivilianUnit {
         
         // 1. Work Current Tile
         const tile = map.getTile(this.location.q, this.location.r);
-        if (tile && !tile.isHidden && this.canImproveResource(tile.resource, techs)) {
+        const isForeign = map.isForeignTerritory(this.location.q, this.location.r, this.ownerId);
+        if (tile && !tile.isHidden && !isForeign && this.canImproveResource(tile.resource, techs)) {
              if (this.autoTargetResource === 'ALL' || tile.resource === this.autoTargetResource) {
                  const isCompatible = this.isCompatibleImprovement(tile.improvement); 
                  
@@ -195,6 +200,7 @@ export class ResourceImprover extends CivilianUnit {
     public improve(map: GameMap, techs: Set<string>): string {
         const tile = map.getTile(this.location.q, this.location.r);
         if (!tile) return "Ошибка карты.";
+        if (map.isForeignTerritory(this.location.q, this.location.r, this.ownerId)) return "Нет: чужая территория.";
         
         if (tile.terrain === TerrainType.MOUNTAIN && tile.improvement === ImprovementType.NONE) {
             return "В горах нужна дорога!";
@@ -224,6 +230,7 @@ export class ResourceImprover extends CivilianUnit {
         if (isInfrastructure) {
             // Build Level 1
             map.setTile(this.location.q, this.location.r, { improvement: targetImp, improvementLevel: 1 });
+            map.claimTerritory(this.location, 0, this.ownerId);
             this.movesLeft = 0;
             return `Построено: ${ImprovementType[targetImp]}`;
         } else if (tile.improvement === targetImp) {
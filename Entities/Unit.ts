@@ -14,6 +14,33 @@ export enum UnitType {
   DEVELOPER = 'Developer'
 }
 
+/**
+ * Plain JSON representation of a unit used by the save system.
+ * Subclass-specific automation fields are stored alongside the base ones.
+ */
+export interface UnitSaveData {
+  id: string;
+  type: UnitType;
+  ownerId: number;
+  location: Hex;
+  [key: string]: unknown;
+}
+
+// Check a saved value must pass before it is restored (saves are untrusted input)
+export type SaveFieldCheck = (value: unknown) => boolean;
+
+export const SaveFieldChecks = {
+    number: (v: unknown) => typeof v === 'number' && Number.isFinite(v),
+    boolean: (v: unknown) => typeof v === 'boolean',
+    string: (v: unknown) => typeof v === 'string',
+    stringArray: (v: unknown) => Array.isArray(v) && v.every(x => typeof x === 'string'),
+    hex: (v: unknown) => typeof v === 'object' && v !== null &&
+        SaveFieldChecks.number((v as Hex).q) && SaveFieldChecks.number((v as Hex).r),
+    oneOf: (values: readonly unknown[]): SaveFieldCheck => (v: unknown) => values.includes(v),
+    // Members of a numeric enum (the enum object also maps them back to their names)
+    enumValues: (e: object): number[] => Object.values(e).filter((v): v is number => typeof v === 'number')
+};
+
 export class Unit {
   public id: string;
   public type: UnitType;
@@ -34,6 +61,8 @@ export class Unit {
   // New States
   public isSleeping: boolean = false;
   public isAutomated: boolean = false;
+  // Upkeep was not paid this turn: the unit stays put and its work is paused
+  public isUnpaid: boolean = false;
   
   // Automation State
   public targetHex: Hex | null = null;
@@ -86,6 +115,54 @@ export class Unit {
       return clone;
   }
 
+  /**
+   * Fields saved besides id, type, owner and location, with the check each saved value must pass.
+   * Subclasses add their automation settings.
+   */
+  public getSaveFields(): Record<string, SaveFieldCheck> {
+      return {
+          movesLeft: SaveFieldChecks.number,
+          maxMoves: SaveFieldChecks.number,
+          isWorking: SaveFieldChecks.boolean,
+          workTurnsRemaining: SaveFieldChecks.number,
+          isSleeping: SaveFieldChecks.boolean,
+          isAutomated: SaveFieldChecks.boolean,
+          isUnpaid: SaveFieldChecks.boolean,
+          targetHex: (v: unknown) => v === null || SaveFieldChecks.hex(v),
+          debugStatus: SaveFieldChecks.string
+      };
+  }
+
+  /**
+   * Serializes the saved fields (including subclass automation state) to plain JSON data.
+   */
+  public toSaveData(): UnitSaveData {
+      const values = new Map(Object.entries(this));
+      const data: UnitSaveData = { id: this.id, type: this.type, ownerId: this.ownerId, location: { ...this.location } };
+      for (const key of Object.keys(this.getSaveFields())) data[key] = values.get(key);
+      // Deep copy reference types
+      data.targetHex = this.targetHex ? { ...this.targetHex } : null;
+      return data;
+  }
+
+  /**
+   * Restores the saved fields produced by toSaveData; anything else in the data is ignored,
+   * and so is a value that fails its field's check (the field keeps its current value).
+   */
+  public restoreSaveData(data: UnitSaveData) {
+      const values: Record<string, unknown> = {};
+      for (const [key, check] of Object.entries(this.getSaveFields())) {
+          if (Object.hasOwn(data, key) && check(data[key])) values[key] = data[key];
+      }
+      Object.assign(this, values);
+
+      this.ownerId = data.ownerId;
+      this.location = { ...data.location };
+      this.targetHex = this.targetHex ? { ...this.targetHex } : null;
+      this.visualPos = { q: this.location.q, r: this.location.r };
+      this.movementQueue = [];
+  }
+
   public getEmoji(): string {
       switch (this.type) {
           case UnitType.SOLDIER: return '🛡️';
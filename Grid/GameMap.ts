@@ -1,5 +1,6 @@
 
-import { Hex, axialToOffset, offsetToAxial, getHexNeighbors, hexToString, getHexDistance } from './HexMath';
+import { Hex, axialToOffset, offsetToAxial, getHexNeighbors, hexToString, getHexDistance, getHexRange } from './HexMath';
+import { SeededRandom, createRandomSeed } from '../utils/Random';
 
 // --- Enums for Map Layers ---
 
@@ -39,7 +40,9 @@ export enum ResourceType {
   CLOTHING = 24,
   ARMAMENTS = 25,
   PAPER = 26,
-  CANNED_FOOD = 27
+  CANNED_FOOD = 27,
+  FUEL = 28,
+  LUXURY_GOODS = 29
 }
 
 export enum ImprovementType {
@@ -72,6 +75,11 @@ export interface TileData {
 // Event types
 export type TileChangeListener = (q: number, r: number, data: Partial<TileData>) => void;
 
+// Names of the raw data layers (used for persistence)
+export type MapLayerName = 'terrain' | 'resource' | 'improvement' | 'improvementLevel' | 'owner' | 'isHidden' | 'isProspected';
+
+export const MAP_LAYER_NAMES: MapLayerName[] = ['terrain', 'resource', 'improvement', 'improvementLevel', 'owner', 'isHidden', 'isProspected'];
+
 /**
  * GameMap
  * Handles the game world data using flat arrays for performance.
@@ -81,6 +89,10 @@ export class GameMap {
   public readonly height: number;
   public readonly size: number;
 
+  // World seed. Same seed + size => same map. Overwritten when a save is loaded.
+  public seed: number;
+  private rng: SeededRandom;
+
   // Data Layers
   private terrain: Uint8Array;
   private resource: Uint8Array;
@@ -91,11 +103,15 @@ export class GameMap {
   private isProspected: Uint8Array; // 0/1
 
   private listeners: TileChangeListener[] = [];
+  // Bumped on every tile write, so dependants can tell whether a cached result is stale
+  private revision: number = 0;
 
-  constructor(width: number, height: number) {
+  constructor(width: number, height: number, seed: number = createRandomSeed()) {
     this.width = width;
     this.height = height;
     this.size = width * height;
+    this.seed = seed;
+    this.rng = new SeededRandom(seed);
 
     // Initialize arrays
     this.terrain = new Uint8Array(this.size);
@@ -113,7 +129,16 @@ export class GameMap {
       this.listeners.push(callback);
   }
 
+  public offTileChanged(callback: TileChangeListener) {
+      this.listeners = this.listeners.filter(l => l !== callback);
+  }
+
+  public getRevision(): number {
+      return this.revision;
+  }
+
   private notifyChange(q: number, r: number, data: Partial<TileData>) {
+      this.revision++;
       for (const listener of this.listeners) {
           listener(q, r, data);
       }
@@ -124,7 +149,7 @@ export class GameMap {
    */
   public cloneDeep(): GameMap {
     // Create a new map instance (this will trigger generation, but we overwrite it immediately)
-    const clone = new GameMap(this.width, this.height);
+    const clone = new GameMap(this.width, this.height, this.seed);
     
     // Fast memory copy of all data layers
     clone.terrain.set(this.terrain);
@@ -138,6 +163,43 @@ export class GameMap {
     return clone;
   }
 
+  /**
+   * Returns copies of the raw data layers (for serialization).
+   */
+  public exportLayers(): Record<MapLayerName, Uint8Array> {
+    return {
+      terrain: this.terrain.slice(),
+      resource: this.resource.slice(),
+      improvement: this.improvement.slice(),
+      improvementLevel: this.improvementLevel.slice(),
+      owner: this.owner.slice(),
+      isHidden: this.isHidden.slice(),
+      isProspected: this.isProspected.slice()
+    };
+  }
+
+  /**
+   * Overwrites all data layers in place. Layer sizes must match the map size.
+   * Listeners are NOT notified per tile; callers are expected to refresh dependants.
+   */
+  public importLayers(layers: Record<MapLayerName, Uint8Array>): void {
+    for (const name of MAP_LAYER_NAMES) {
+      const layer = layers[name];
+      if (!layer || layer.length !== this.size) {
+        throw new Error(`Слой карты '${name}' не совпадает с размером карты (${this.width}x${this.height}).`);
+      }
+    }
+
+    this.terrain.set(layers.terrain);
+    this.resource.set(layers.resource);
+    this.improvement.set(layers.improvement);
+    this.improvementLevel.set(layers.improvementLevel);
+    this.owner.set(layers.owner);
+    this.isHidden.set(layers.isHidden);
+    this.isProspected.set(layers.isProspected);
+    this.revision++;
+  }
+
   // --- Core Data Access ---
 
   /**
@@ -197,6 +259,38 @@ export class GameMap {
     this.notifyChange(q, r, data);
   }
 
+  // --- Territory ---
+
+  /**
+   * Owner id of a tile (0 = nobody, also for out of bounds).
+   * Cheap accessor for per-frame and per-node checks.
+   */
+  public getOwner(q: number, r: number): number {
+    const idx = this.getIndex(q, r);
+    return idx === -1 ? 0 : this.owner[idx];
+  }
+
+  /**
+   * True if the tile belongs to an empire other than `ownerId`.
+   */
+  public isForeignTerritory(q: number, r: number, ownerId: number): boolean {
+    const owner = this.getOwner(q, r);
+    return owner !== 0 && owner !== ownerId;
+  }
+
+  /**
+   * Claims unowned land within `radius` of `center` for `ownerId`.
+   * Land that already belongs to someone is left alone.
+   */
+  public claimTerritory(center: Hex, radius: number, ownerId: number): void {
+    for (const hex of getHexRange(center, radius)) {
+      const idx = this.getIndex(hex.q, hex.r);
+      if (idx === -1 || this.owner[idx] !== 0) continue;
+      if (this.terrain[idx] === TerrainType.WATER) continue;
+      this.setTile(hex.q, hex.r, { owner: ownerId });
+    }
+  }
+
   // --- Generation Logic ---
 
   /**
@@ -204,7 +298,9 @@ export class GameMap {
    * to create an island shape.
    */
   public generateMap(): void {
-    const seed = Math.random() * 1000;
+    // Restart the stream so regeneration with the same seed is reproducible
+    this.rng = new SeededRandom(this.seed);
+    const seed = this.rng.next() * 1000;
     let habitableLandIndices: number[] = [];
 
     // Center coordinates
@@ -347,6 +443,7 @@ export class GameMap {
 
     // 8. GUARANTEE ESSENTIAL RESOURCES
     this.ensureStartingResources(capitalHex);
+    this.revision++;
   }
 
   /**
@@ -433,8 +530,8 @@ export class GameMap {
       // Helper to force spawn
       const spawn = (res: ResourceType) => {
           if (candidates.length === 0) return;
-          // Pick random candidate (deterministic-ish)
-          const idx = Math.floor(Math.random() * candidates.length);
+          // Pick random candidate (seeded)
+          const idx = this.rng.nextInt(candidates.length);
           const hex = candidates[idx];
           candidates.splice(idx, 1); // remove used
 
@@ -460,7 +557,7 @@ export class GameMap {
   }
 
   private generateResource(idx: number, terrain: TerrainType): void {
-     const rand = Math.random();
+     const rand = this.rng.next();
      let res = ResourceType.NONE;
      let hidden = false;
 
@@ -470,7 +567,7 @@ export class GameMap {
          }
      } else if (terrain === TerrainType.MOUNTAIN && rand > 0.8) {
          // Mountains: Coal, Iron, Gold, Gems (Hidden)
-         const r2 = Math.random();
+         const r2 = this.rng.next();
          if (r2 > 0.9) res = ResourceType.GEMS;
          else if (r2 > 0.7) res = ResourceType.GOLD;
          else if (r2 > 0.4) res = ResourceType.IRON;
@@ -480,7 +577,7 @@ export class GameMap {
          // Hills: Meat, Wool, Spices (Placeholder)
          if (rand > 0.85) {
              // 50/50 chance for Meat vs Wool on hills
-             if (Math.random() > 0.5) res = ResourceType.MEAT;
+             if (this.rng.next() > 0.5) res = ResourceType.MEAT;
              else res = ResourceType.WOOL;
          }
          // Spices placeholder - do nothing for now
@@ -0,0 +1,275 @@
+import { GameMap, ImprovementType, ResourceType, TerrainType } from '../Grid/GameMap';
+import { Hex, getHexNeighbors, getHexRange, offsetToAxial } from '../Grid/HexMath';
+import { CostConfig, GameConfig } from '../core/GameConfig';
+import { CityManager } from '../core/managers/CityManager';
+import { AIHelpers } from '../Entities/AI/AIHelpers';
+import { TransportNetwork } from './TransportNetwork';
+
+const PRODUCTIVE_IMPROVEMENTS = [
+    ImprovementType.MINE, ImprovementType.FARM, ImprovementType.LUMBER_MILL,
+    ImprovementType.RANCH, ImprovementType.PLANTATION, ImprovementType.OIL_WELL
+];
+
+const STATIONS = [ImprovementType.CITY, ImprovementType.DEPOT, ImprovementType.PORT];
+
+/**
+ * A single tile that holds the network together: losing it cuts stations off the capital.
+ */
+export interface ArticulationPoint {
+    hex: Hex;
+    improvement: ImprovementType;
+    stranded: Hex[]; // Stations that lose their link to the capital
+}
+
+/**
+ * Cheapest way to bring an unconnected productive improvement into a connected catchment.
+ */
+export interface ConnectionRoute {
+    roads: Hex[]; // New road tiles, from the network outwards
+    depot: Hex | null; // New depot; null when the roads link up an idle station instead
+    station: Hex; // Station that collects the improvement afterwards
+    cost: CostConfig;
+}
+
+export interface UnconnectedImprovement {
+    hex: Hex;
+    improvement: ImprovementType;
+    route: ConnectionRoute | null; // null when no buildable route reaches the network
+}
+
+export interface NetworkReport {
+    articulationPoints: ArticulationPoint[];
+    unconnected: UnconnectedImprovement[];
+}
+
+// Result of the road search from the network: new road tiles needed to reach each tile
+interface RoadSearch {
+    roads: Int32Array; // -1 = unreachable
+    parent: Int32Array;
+}
+
+/**
+ * NetworkAnalysis
+ * Diagnostics on top of an empire's TransportNetwork: bottleneck tiles whose loss strands
+ * stations, and road plans for productive land no connected station collects.
+ */
+export class NetworkAnalysis {
+
+    public static analyze(map: GameMap, network: TransportNetwork, cities: CityManager, ownerId: number): NetworkReport {
+        network.update();
+        return {
+            articulationPoints: this.findArticulationPoints(map, network),
+            unconnected: this.findUnconnected(map, network, cities, ownerId)
+        };
+    }
+
+    /**
+     * Land tiles whose removal disconnects at least one station (Tarjan's algorithm over the
+     * connected tiles, rooted at the capital), most stranded stations first.
+     */
+    public static findArticulationPoints(map: GameMap, network: TransportNetwork): ArticulationPoint[] {
+        network.update();
+        const capital = network.getCapital();
+        const root = capital ? map.getIndex(capital.q, capital.r) : -1;
+        if (root === -1 || !network.isConnectedToCapital(capital!)) return [];
+
+        const disc = new Int32Array(map.size).fill(-1);
+        const low = new Int32Array(map.size);
+        const last = new Int32Array(map.size); // Highest discovery time inside the subtree
+        const parent = new Int32Array(map.size).fill(-1);
+        const next = new Int32Array(map.size); // Next neighbor to visit
+        const links = new Map<number, number[]>();
+        const stations: number[] = [];
+        const cuts: [number, number][] = [];
+
+        const linksOf = (idx: number): number[] => {
+            let list = links.get(idx);
+            if (!list) {
+                list = network.getConnectedNeighbors(this.hexAt(map, idx)).map(h => map.getIndex(h.q, h.r));
+                links.set(idx, list);
+            }
+            return list;
+        };
+
+        let time = 0;
+        disc[root] = low[root] = time++;
+        const stack = [root];
+        while (stack.length > 0) {
+            const v = stack[stack.length - 1];
+            const list = linksOf(v);
+            if (next[v] < list.length) {
+                const w = list[next[v]++];
+                if (disc[w] === -1) {
+                    parent[w] = v;
+                    disc[w] = low[w] = time++;
+                    stack.push(w);
+                } else if (w !== parent[v]) {
+                    low[v] = Math.min(low[v], disc[w]);
+                }
+                continue;
+            }
+
+            stack.pop();
+            last[v] = time - 1;
+            const hex = this.hexAt(map, v);
+            if (v !== root && STATIONS.includes(map.getTile(hex.q, hex.r)!.improvement)) stations.push(v);
+
+            const p = parent[v];
+            if (p === -1) continue;
+            low[p] = Math.min(low[p], low[v]);
+            // Nothing in v's subtree reaches above p, so p is the subtree's only way out
+            if (p !== root && low[v] >= disc[p]) cuts.push([p, v]);
+        }
+
+        const stranded = new Map<number, number[]>();
+        for (const [cut, child] of cuts) {
+            const list = stranded.get(cut) || [];
+            stations.forEach(s => { if (disc[s] >= disc[child] && disc[s] <= last[child]) list.push(s); });
+            stranded.set(cut, list);
+        }
+
+        const result: ArticulationPoint[] = [];
+        stranded.forEach((list, idx) => {
+            const hex = this.hexAt(map, idx);
+            const tile = map.getTile(hex.q, hex.r)!;
+            // Water cannot be cut, only the ports at either end
+            if (list.length === 0 || tile.terrain === TerrainType.WATER) return;
+            result.push({ hex, improvement: tile.improvement, stranded: list.map(s => this.hexAt(map, s)) });
+        });
+        return result.sort((a, b) => b.stranded.length - a.stranded.length);
+    }
+
+    /**
+     * Our productive improvements outside every connected catchment, each with the cheapest
+     * fix: roads to an idle station that covers it, or roads and a depot next to it.
+     */
+    public static findUnconnected(map: GameMap, network: TransportNetwork, cities: CityManager, ownerId: number): UnconnectedImprovement[] {
+        const targets = cities.getCatchments().uncovered.filter(hex => {
+            const tile = map.getTile(hex.q, hex.r);
+            return tile !== null && PRODUCTIVE_IMPROVEMENTS.includes(tile.improvement);
+        });
+        if (targets.length === 0) return [];
+
+        const search = this.searchRoads(map, network, ownerId);
+        return targets.map(hex => ({
+            hex,
+            improvement: map.getTile(hex.q, hex.r)!.improvement,
+            route: this.findRoute(map, search, hex, ownerId)
+        }));
+    }
+
+    private static findRoute(map: GameMap, search: RoadSearch, target: Hex, ownerId: number): ConnectionRoute | null {
+        const roadCost = GameConfig.INFRASTRUCTURE[ImprovementType.ROAD];
+        const depotCost = GameConfig.INFRASTRUCTURE[ImprovementType.DEPOT];
+        let best: ConnectionRoute | null = null;
+
+        const consider = (station: Hex, depot: boolean) => {
+            const idx = map.getIndex(station.q, station.r);
+            if (search.roads[idx] === -1) return;
+
+            const tile = map.getTile(station.q, station.r)!;
+            // A depot goes straight onto open ground; only mountains need a road under it
+            const paved = !depot || tile.terrain === TerrainType.MOUNTAIN;
+            const roads = this.tracePath(map, search, idx).filter(r => paved || r.q !== station.q || r.r !== station.r);
+
+            const cost: CostConfig = { money: 0, resources: [], expertLabor: 0 };
+            for (let i = 0; i < roads.length; i++) this.addCost(cost, roadCost);
+            if (depot) this.addCost(cost, depotCost);
+
+            if (!best || (cost.money || 0) < (best.cost.money || 0)) {
+                best = { roads, depot: depot ? station : null, station, cost };
+            }
+        };
+
+        // Idle stations already in range
+        for (const hex of getHexRange(target, Math.max(...STATIONS.map(CityManager.getCatchmentRadius)))) {
+            const tile = map.getTile(hex.q, hex.r);
+            if (!tile || !STATIONS.includes(tile.improvement)) continue;
+            if (getHexRange(hex, CityManager.getCatchmentRadius(tile.improvement)).some(h => h.q === target.q && h.r === target.r)) {
+                consider(hex, false);
+            }
+        }
+
+        // New depot sites that would cover it
+        for (const hex of getHexRange(target, CityManager.getCatchmentRadius(ImprovementType.DEPOT))) {
+            if (this.canPlaceDepot(map, hex, ownerId)) consider(hex, true);
+        }
+        return best;
+    }
+
+    // The Engineer's depot rules
+    private static canPlaceDepot(map: GameMap, hex: Hex, ownerId: number): boolean {
+        const tile = map.getTile(hex.q, hex.r);
+        if (!tile || tile.terrain === TerrainType.WATER || map.isForeignTerritory(hex.q, hex.r, ownerId)) return false;
+        if (tile.improvement !== ImprovementType.NONE && tile.improvement !== ImprovementType.ROAD && tile.improvement !== ImprovementType.RAILROAD) return false;
+        if (tile.resource !== ResourceType.NONE && tile.resource !== ResourceType.WOOD && !tile.isHidden) return false;
+        return !AIHelpers.isImprovementNearby(map, hex, 2, STATIONS);
+    }
+
+    /**
+     * 0-1 breadth-first search over our and unowned land from the connected land tiles.
+     * Entering an unimproved tile takes a new road; every improvement already carries goods.
+     */
+    private static searchRoads(map: GameMap, network: TransportNetwork, ownerId: number): RoadSearch {
+        const roads = new Int32Array(map.size).fill(-1);
+        const parent = new Int32Array(map.size).fill(-1);
+        const deque: number[] = [];
+
+        const isLand = (hex: Hex) => {
+            const tile = map.getTile(hex.q, hex.r);
+            return tile !== null && tile.terrain !== TerrainType.WATER && !map.isForeignTerritory(hex.q, hex.r, ownerId);
+        };
+
+        for (let idx = 0; idx < map.size; idx++) {
+            const hex = this.hexAt(map, idx);
+            if (network.isConnectedToCapital(hex) && isLand(hex)) {
+                roads[idx] = 0;
+                deque.push(idx);
+            }
+        }
+
+        // Two-ended queue over an array: zero-cost steps reuse the slot just dequeued
+        let head = 0;
+        while (head < deque.length) {
+            const current = deque[head++];
+            for (const hex of getHexNeighbors(this.hexAt(map, current))) {
+                const idx = map.getIndex(hex.q, hex.r);
+                if (idx === -1 || !isLand(hex)) continue;
+
+                const step = map.getTile(hex.q, hex.r)!.improvement === ImprovementType.NONE ? 1 : 0;
+                const total = roads[current] + step;
+                if (roads[idx] !== -1 && roads[idx] <= total) continue;
+
+                roads[idx] = total;
+                parent[idx] = current;
+                if (step === 0) deque[--head] = idx;
+                else deque.push(idx);
+            }
+        }
+        return { roads, parent };
+    }
+
+    // Unimproved tiles on the searched path to `idx`, network end first
+    private static tracePath(map: GameMap, search: RoadSearch, idx: number): Hex[] {
+        const path: Hex[] = [];
+        for (let at = idx; at !== -1; at = search.parent[at]) {
+            const hex = this.hexAt(map, at);
+            if (map.getTile(hex.q, hex.r)!.improvement === ImprovementType.NONE) path.push(hex);
+        }
+        return path.reverse();
+    }
+
+    private static addCost(total: CostConfig, cost: CostConfig) {
+        total.money = (total.money || 0) + (cost.money || 0);
+        total.expertLabor = (total.expertLabor || 0) + (cost.expertLabor || 0);
+        cost.resources?.forEach(r => {
+            const entry = total.resources!.find(e => e.type === r.type);
+            if (entry) entry.amount += r.amount;
+            else total.resources!.push({ ...r });
+        });
+    }
+
+    private static hexAt(map: GameMap, idx: number): Hex {
+        return offsetToAxial({ col: idx % map.width, row: Math.floor(idx / map.width) });
+    }
+}
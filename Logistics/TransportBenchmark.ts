@@ -0,0 +1,101 @@
+import { GameMap, ImprovementType, TerrainType } from '../Grid/GameMap';
+import { Hex, getHexNeighbors, offsetToAxial } from '../Grid/HexMath';
+import { SeededRandom } from '../utils/Random';
+import { TransportNetwork } from './TransportNetwork';
+
+export interface TransportBenchmarkResult {
+    mapSize: number;
+    edits: number;
+    fullMs: number; // Total time of rebuilding the whole network after every edit
+    incrementalMs: number; // Total time of repairing it after every edit
+    speedup: number;
+    // The repaired network matches a full rebuild on every tile
+    consistent: boolean;
+}
+
+const EDIT_IMPROVEMENTS = [ImprovementType.NONE, ImprovementType.ROAD, ImprovementType.RAILROAD, ImprovementType.DEPOT];
+
+/**
+ * Compares full rebuilds with incremental repairs on a generated map crossed by
+ * rail lines, editing random track tiles one at a time (as engineers do).
+ * Run it with `npm run bench:transport`, or from the browser console of the dev server:
+ *   (await import('/Logistics/TransportBenchmark.ts')).runTransportBenchmark()
+ */
+export function runTransportBenchmark(size: number = 100, edits: number = 300, seed: number = 1): TransportBenchmarkResult {
+    const map = new GameMap(size, size, seed);
+    const rng = new SeededRandom(seed);
+
+    const capital = findCapital(map);
+    const track = layTrack(map, capital, rng, size * 4);
+
+    const full = new TransportNetwork(map);
+    const incremental = new TransportNetwork(map);
+    full.update();
+    incremental.update();
+
+    let fullMs = 0;
+    let incrementalMs = 0;
+    for (let i = 0; i < edits; i++) {
+        const hex = track[rng.nextInt(track.length)];
+        map.setTile(hex.q, hex.r, { improvement: EDIT_IMPROVEMENTS[rng.nextInt(EDIT_IMPROVEMENTS.length)] });
+
+        let start = performance.now();
+        full.markDirty();
+        full.update();
+        fullMs += performance.now() - start;
+
+        start = performance.now();
+        incremental.update();
+        incrementalMs += performance.now() - start;
+    }
+
+    let consistent = true;
+    for (let idx = 0; idx < map.size && consistent; idx++) {
+        const hex = offsetToAxial({ col: idx % size, row: Math.floor(idx / size) });
+        consistent = full.getTransportCost(hex) === incremental.getTransportCost(hex) &&
+            full.getRouteMode(hex) === incremental.getRouteMode(hex);
+    }
+
+    full.dispose();
+    incremental.dispose();
+
+    return {
+        mapSize: size,
+        edits,
+        fullMs: Math.round(fullMs),
+        incrementalMs: Math.round(incrementalMs),
+        speedup: Math.round(fullMs / Math.max(incrementalMs, 0.001) * 10) / 10,
+        consistent
+    };
+}
+
+function findCapital(map: GameMap): Hex {
+    for (let idx = 0; idx < map.size; idx++) {
+        const hex = offsetToAxial({ col: idx % map.width, row: Math.floor(idx / map.width) });
+        if (map.getTile(hex.q, hex.r)?.improvement === ImprovementType.CITY) return hex;
+    }
+    throw new Error('Ошибка: на карте нет столицы.');
+}
+
+// Random rail walks over land from the capital; returns the track tiles
+function layTrack(map: GameMap, capital: Hex, rng: SeededRandom, length: number): Hex[] {
+    const track: Hex[] = [];
+    let current = capital;
+    for (let i = 0; i < length; i++) {
+        const options = getHexNeighbors(current).filter(h => {
+            const tile = map.getTile(h.q, h.r);
+            return tile && tile.terrain !== TerrainType.WATER && tile.improvement !== ImprovementType.CITY;
+        });
+        // Dead end: branch off again from the capital or an earlier tile
+        if (options.length === 0) {
+            current = track.length > 0 ? track[rng.nextInt(track.length)] : capital;
+            continue;
+        }
+        current = options[rng.nextInt(options.length)];
+        map.setTile(current.q, current.r, { improvement: ImprovementType.RAILROAD, improvementLevel: 1 });
+        track.push(current);
+        // Now and then start a branch from somewhere on the existing line
+        if (rng.next() < 0.05) current = track[rng.nextInt(track.length)];
+    }
+    return track;
+}
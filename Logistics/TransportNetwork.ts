@@ -1,33 +1,66 @@
 
-import { GameMap, ImprovementType } from '../Grid/GameMap';
-import { Hex, getHexNeighbors } from '../Grid/HexMath';
+import { GameMap, ImprovementType, TerrainType, TileData } from '../Grid/GameMap';
+import { Hex, getHexNeighbors, offsetToAxial } from '../Grid/HexMath';
+import { GameConfig } from '../core/GameConfig';
 
-interface PathNode {
-  hex: Hex;
-  cost: number;
-}
+// How goods travel on a route: any water makes it a sea route, otherwise one road tile makes it a road haul
+export type RouteMode = 'RAIL' | 'ROAD' | 'SEA';
 
 /**
- * A Min-Priority Queue implementation for the Dijkstra algorithm.
+ * Binary min-heap of tile indices for the Dijkstra algorithm.
  */
-class PriorityQueue<T> {
-  private elements: { item: T; priority: number }[] = [];
-
-  enqueue(item: T, priority: number) {
-    this.elements.push({ item, priority });
-    this.sort();
+class PriorityQueue {
+  private items: number[] = [];
+  private priorities: number[] = [];
+
+  enqueue(item: number, priority: number) {
+    let i = this.items.length;
+    this.items.push(item);
+    this.priorities.push(priority);
+
+    // Sift up
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.priorities[parent] <= priority) break;
+      this.items[i] = this.items[parent];
+      this.priorities[i] = this.priorities[parent];
+      i = parent;
+    }
+    this.items[i] = item;
+    this.priorities[i] = priority;
   }
 
-  dequeue(): T | undefined {
-    return this.elements.shift()?.item;
+  peekPriority(): number {
+    return this.priorities[0];
   }
 
-  isEmpty(): boolean {
-    return this.elements.length === 0;
+  dequeue(): number | undefined {
+    if (this.items.length === 0) return undefined;
+    const top = this.items[0];
+    const lastItem = this.items.pop()!;
+    const lastPriority = this.priorities.pop()!;
+    const size = this.items.length;
+    if (size === 0) return top;
+
+    // Sift the last element down from the root
+    let i = 0;
+    while (true) {
+      const left = 2 * i + 1;
+      if (left >= size) break;
+      const right = left + 1;
+      const child = right < size && this.priorities[right] < this.priorities[left] ? right : left;
+      if (this.priorities[child] >= lastPriority) break;
+      this.items[i] = this.items[child];
+      this.priorities[i] = this.priorities[child];
+      i = child;
+    }
+    this.items[i] = lastItem;
+    this.priorities[i] = lastPriority;
+    return top;
   }
 
-  private sort() {
-    this.elements.sort((a, b) => a.priority - b.priority);
+  isEmpty(): boolean {
+    return this.items.length === 0;
   }
 }
 
@@ -35,39 +68,97 @@ class PriorityQueue<T> {
  * TransportNetwork
  * Manages the connectivity graph of the game world.
  * Calculates which resources are connected to the Capital/Depots.
+ * Each empire has its own network; it only runs over its own and unowned land.
+ * Ships sail between ports over connected water tiles, so separate seas and lakes
+ * do not link up.
+ *
+ * The network listens to map changes and repairs only the routes an edited tile
+ * affects. `markDirty()` forces a full rebuild; it is only needed when the map
+ * is replaced without notifications (loading a save) or the capital moves.
  */
 export class TransportNetwork {
+  // Changed tiles per update above which a full rebuild is cheaper than repairs
+  private static readonly INCREMENTAL_LIMIT = 64;
+
+  private static readonly TILE_ROAD = 1;
+  private static readonly TILE_WATER = 2;
+  private static readonly TILE_PORT = 4;
+
   private map: GameMap;
   private isDirty: boolean = true;
-  
-  // Stores movement cost FROM Capital TO index. 
+
+  // Stores movement cost FROM Capital TO index.
   // Infinity = not connected.
-  private connectionField: Float32Array; 
+  private connectionField: Float32Array;
+  // Road and water tiles on the cheapest route to the index
+  private roadField: Uint16Array;
+  private seaField: Uint16Array;
+  // Previous tile on the cheapest route (-1 = none); lets a changed tile find the routes through it
+  private parentField: Int32Array;
+
+  // Per-tile cache of the cost to enter it and its kind (TILE_* flags)
+  private moveCostField: Float32Array;
+  private tileFlags: Uint8Array;
+  // Six neighbor indices per tile (-1 = off the map)
+  private neighborTable: Int32Array;
+
+  // Tiles whose terrain, improvement or owner changed since the last update
+  private pendingTiles = new Set<number>();
+
+  // Bumped whenever routes are rebuilt or repaired, so dependants can tell whether a cached result is stale
+  private revision: number = 0;
 
   private capitalHex: Hex | null = null;
+  private startIdx: number = -1;
+  private ownerId: number;
 
-  constructor(map: GameMap) {
+  constructor(map: GameMap, ownerId: number = 1) {
     this.map = map;
+    this.ownerId = ownerId;
     this.connectionField = new Float32Array(map.size).fill(Infinity);
+    this.roadField = new Uint16Array(map.size);
+    this.seaField = new Uint16Array(map.size);
+    this.parentField = new Int32Array(map.size).fill(-1);
+    this.moveCostField = new Float32Array(map.size).fill(Infinity);
+    this.tileFlags = new Uint8Array(map.size);
+    this.neighborTable = this.buildNeighborTable();
+
+    map.onTileChanged(this.handleTileChange);
   }
 
   /**
-   * Mark the network as needing a recalculation.
+   * Stops listening to the map. Call when the network is thrown away but the map lives on.
+   */
+  public dispose() {
+    this.map.offTileChanged(this.handleTileChange);
+  }
+
+  /**
+   * Mark the network as needing a full recalculation.
    */
   public markDirty() {
     this.isDirty = true;
   }
 
   /**
-   * Main update loop. Only recalculates if dirty.
+   * Main update loop. Rebuilds when dirty, otherwise applies pending tile changes.
    */
   public update() {
     if (this.isDirty) {
       this.recalculate();
       this.isDirty = false;
+      this.pendingTiles.clear();
+      this.revision++;
+    } else if (this.pendingTiles.size > 0) {
+      this.applyTileChanges();
+      this.revision++;
     }
   }
 
+  public getRevision(): number {
+    return this.revision;
+  }
+
   /**
    * Checks if a specific tile is connected to the Capital.
    */
@@ -83,6 +174,37 @@ export class TransportNetwork {
       return this.connectionField[idx];
   }
 
+  /**
+   * How goods travel the cheapest route from the Capital, or null when not connected.
+   */
+  public getRouteMode(hex: Hex): RouteMode | null {
+      const idx = this.map.getIndex(hex.q, hex.r);
+      if (idx === -1 || this.connectionField[idx] === Infinity) return null;
+      if (this.seaField[idx] > 0) return 'SEA';
+      return this.roadField[idx] > 0 ? 'ROAD' : 'RAIL';
+  }
+
+  /**
+   * Connected tiles goods can move to from a connected tile (used by the network analysis).
+   */
+  public getConnectedNeighbors(hex: Hex): Hex[] {
+      const idx = this.map.getIndex(hex.q, hex.r);
+      if (idx === -1 || this.connectionField[idx] === Infinity) return [];
+
+      const result: Hex[] = [];
+      for (let k = 0; k < 6; k++) {
+          const next = this.neighborTable[idx * 6 + k];
+          if (next !== -1 && this.connectionField[next] !== Infinity && this.canTravel(idx, next)) {
+              result.push(this.hexAt(next));
+          }
+      }
+      return result;
+  }
+
+  public getCapital(): Hex | null {
+      return this.capitalHex;
+  }
+
   public setCapital(hex: Hex) {
     this.capitalHex = hex;
     this.markDirty();
@@ -93,7 +215,7 @@ export class TransportNetwork {
         for (let c = 0; c < this.map.width; c++) {
             const q = c - (r - (r & 1)) / 2;
             const t = this.map.getTile(q, r);
-            if (t && t.improvement === ImprovementType.CITY) {
+            if (t && t.improvement === ImprovementType.CITY && !this.map.isForeignTerritory(q, r, this.ownerId)) {
                 this.setCapital({q, r});
                 return;
             }
@@ -101,124 +223,236 @@ export class TransportNetwork {
     }
   }
 
+  // Only terrain, improvements and ownership change move costs
+  private handleTileChange = (q: number, r: number, data: Partial<TileData>) => {
+    if (this.isDirty) return;
+    if (data.terrain === undefined && data.improvement === undefined && data.owner === undefined) return;
+    const idx = this.map.getIndex(q, r);
+    if (idx !== -1) this.pendingTiles.add(idx);
+  };
+
   /**
    * Core Dijkstra Algorithm
    * Floods the map from the Capital outwards based on Move Cost.
-   * Implements "Global Port Connectivity": Reaching one port connects all others.
+   * Water is only entered and left through ports.
    */
   private recalculate() {
     if (!this.capitalHex) {
         this.findAndSetCapital();
-        if (!this.capitalHex) return; 
+        if (!this.capitalHex) return;
     }
 
     this.connectionField.fill(Infinity);
-    
-    if (!this.capitalHex) return;
+    this.roadField.fill(0);
+    this.seaField.fill(0);
+    this.parentField.fill(-1);
+
+    // Refresh the tile cache
+    for (let idx = 0; idx < this.map.size; idx++) {
+        const hex = this.hexAt(idx);
+        const tile = this.map.getTile(hex.q, hex.r);
+        this.moveCostField[idx] = this.calculateMoveCost(tile);
+        this.tileFlags[idx] = this.getTileFlags(tile);
+    }
 
-    const startIdx = this.map.getIndex(this.capitalHex.q, this.capitalHex.r);
-    if (startIdx === -1) return;
+    this.startIdx = this.map.getIndex(this.capitalHex.q, this.capitalHex.r);
+    if (this.startIdx === -1) return;
 
-    this.connectionField[startIdx] = 0;
+    this.connectionField[this.startIdx] = 0;
 
-    const frontier = new PriorityQueue<Hex>();
-    frontier.enqueue(this.capitalHex, 0);
+    const frontier = new PriorityQueue();
+    frontier.enqueue(this.startIdx, 0);
+    this.propagate(frontier);
+  }
 
-    // 1. Find all Ports on map for "Wormhole" logic
-    const allPorts: Hex[] = [];
-    for(let r=0; r<this.map.height; r++) {
-        for(let c=0; c<this.map.width; c++) {
-            const q = c - (r - (r&1)) / 2;
-            const tile = this.map.getTile(q, r);
-            if (tile && tile.improvement === ImprovementType.PORT) {
-                allPorts.push({q, r});
-            }
+  /**
+   * Repairs the field around changed tiles: routes running through them are
+   * dropped and rebuilt from the intact part of the network.
+   */
+  private applyTileChanges() {
+    const changed: number[] = [];
+    for (const idx of this.pendingTiles) {
+        const hex = this.hexAt(idx);
+        const tile = this.map.getTile(hex.q, hex.r);
+        const moveCost = this.calculateMoveCost(tile);
+        const flags = this.getTileFlags(tile);
+        if (moveCost === this.moveCostField[idx] && flags === this.tileFlags[idx]) continue;
+
+        this.moveCostField[idx] = moveCost;
+        this.tileFlags[idx] = flags;
+        changed.push(idx);
+    }
+    this.pendingTiles.clear();
+
+    if (changed.length === 0) return;
+    if (this.startIdx === -1 || changed.length > TransportNetwork.INCREMENTAL_LIMIT || changed.includes(this.startIdx)) {
+        this.recalculate();
+        return;
+    }
+
+    // 1. Drop every route that ran through a changed tile
+    const invalid: number[] = [];
+    for (const idx of changed) {
+        if (this.connectionField[idx] !== Infinity) this.collectSubtree(idx, invalid);
+    }
+
+    // 2. Reconnect dropped and changed tiles from their intact neighbors
+    const frontier = new PriorityQueue();
+    for (const idx of invalid) this.seedFromNeighbors(idx, frontier);
+    for (const idx of changed) {
+        this.seedFromNeighbors(idx, frontier);
+        // A tile that stays connected may still open new routes (e.g. a port onto the sea)
+        if (this.connectionField[idx] !== Infinity) frontier.enqueue(idx, this.connectionField[idx]);
+    }
+
+    // 3. Spread the repairs
+    this.propagate(frontier);
+  }
+
+  // Disconnects `root` and every tile whose cheapest route passes through it
+  private collectSubtree(root: number, out: number[]) {
+    const stack = [root];
+    this.disconnect(root);
+    out.push(root);
+
+    while (stack.length > 0) {
+        const current = stack.pop()!;
+        const visit = (child: number) => {
+            if (this.parentField[child] !== current) return;
+            this.disconnect(child);
+            out.push(child);
+            stack.push(child);
+        };
+        for (let k = 0; k < 6; k++) {
+            const next = this.neighborTable[current * 6 + k];
+            if (next !== -1) visit(next);
         }
     }
-    
-    // Tracks if we have already activated the "Port Wormhole"
-    let seaNetworkActive = false;
-    
-    let iterations = 0;
-    const maxIterations = this.map.size * 2; 
-
-    while (!frontier.isEmpty() && iterations < maxIterations) {
-      iterations++;
-      const current = frontier.dequeue();
-      if (!current) break;
-
-      const currentIdx = this.map.getIndex(current.q, current.r);
-      const currentCost = this.connectionField[currentIdx];
-
-      // --- Port / Sea Logic ---
-      const tile = this.map.getTile(current.q, current.r);
-      
-      // If we are at a PORT and haven't unlocked sea travel yet,
-      // instantly connect to all other ports.
-      if (tile && tile.improvement === ImprovementType.PORT && !seaNetworkActive) {
-          seaNetworkActive = true;
-          // Connect all other ports
-          for (const port of allPorts) {
-              const pIdx = this.map.getIndex(port.q, port.r);
-              if (pIdx !== -1) {
-                  // Sea travel cost is roughly negligible once at a port, 
-                  // but we add +1 to represent the hop.
-                  const seaCost = currentCost + 1; 
-                  if (seaCost < this.connectionField[pIdx]) {
-                      this.connectionField[pIdx] = seaCost;
-                      frontier.enqueue(port, seaCost);
-                  }
-              }
-          }
+  }
+
+  private disconnect(idx: number) {
+    this.connectionField[idx] = Infinity;
+    this.roadField[idx] = 0;
+    this.seaField[idx] = 0;
+    this.parentField[idx] = -1;
+  }
+
+  // Best route into `idx` from already connected tiles
+  private seedFromNeighbors(idx: number, frontier: PriorityQueue) {
+    const moveCost = this.moveCostField[idx];
+    if (moveCost === Infinity) return;
+
+    for (let k = 0; k < 6; k++) {
+        const prev = this.neighborTable[idx * 6 + k];
+        if (prev !== -1 && this.connectionField[prev] !== Infinity && this.canTravel(prev, idx)) {
+          this.relax(prev, idx, moveCost, frontier);
+        }
+    }
+  }
+
+  private propagate(frontier: PriorityQueue) {
+    while (!frontier.isEmpty()) {
+      const priority = frontier.peekPriority();
+      const current = frontier.dequeue()!;
+      // Stale entry: the tile was reached more cheaply after it was queued
+      if (priority > this.connectionField[current]) continue;
+
+      for (let k = 0; k < 6; k++) {
+        const next = this.neighborTable[current * 6 + k];
+        if (next === -1) continue;
+
+        const moveCost = this.moveCostField[next];
+        if (moveCost === Infinity || !this.canTravel(current, next)) continue;
+        this.relax(current, next, moveCost, frontier);
       }
+    }
+  }
 
-      // --- Standard Neighbors ---
-      const neighbors = getHexNeighbors(current);
-      
-      for (const next of neighbors) {
-        const nextIdx = this.map.getIndex(next.q, next.r);
-        if (nextIdx === -1) continue;
+  // Ships only load and unload at ports
+  private canTravel(from: number, to: number): boolean {
+    const fromWater = this.tileFlags[from] & TransportNetwork.TILE_WATER;
+    const toWater = this.tileFlags[to] & TransportNetwork.TILE_WATER;
+    if (fromWater === toWater) return true;
+    return (this.tileFlags[fromWater ? to : from] & TransportNetwork.TILE_PORT) !== 0;
+  }
 
-        const moveCost = this.calculateMoveCost(next);
-        if (moveCost === Infinity) continue;
+  private relax(from: number, to: number, edgeCost: number, frontier: PriorityQueue) {
+    const newCost = this.connectionField[from] + edgeCost;
+    const flags = this.tileFlags[to];
+    const newRoad = this.roadField[from] + (flags & TransportNetwork.TILE_ROAD ? 1 : 0);
+    const newSea = this.seaField[from] + (flags & TransportNetwork.TILE_WATER ? 1 : 0);
+
+    // On equal cost prefer fewer road tiles, then fewer water tiles
+    const current = this.connectionField[to];
+    if (newCost < current ||
+        (newCost === current && (newRoad < this.roadField[to] ||
+            (newRoad === this.roadField[to] && newSea < this.seaField[to])))) {
+      this.connectionField[to] = newCost;
+      this.roadField[to] = newRoad;
+      this.seaField[to] = newSea;
+      this.parentField[to] = from;
+      frontier.enqueue(to, newCost);
+    }
+  }
 
-        const newCost = currentCost + moveCost;
+  private hexAt(idx: number): Hex {
+    return offsetToAxial({ col: idx % this.map.width, row: Math.floor(idx / this.map.width) });
+  }
 
-        if (newCost < this.connectionField[nextIdx]) {
-          this.connectionField[nextIdx] = newCost;
-          frontier.enqueue(next, newCost);
+  private buildNeighborTable(): Int32Array {
+    const table = new Int32Array(this.map.size * 6);
+    for (let idx = 0; idx < this.map.size; idx++) {
+        const neighbors = getHexNeighbors(this.hexAt(idx));
+        for (let k = 0; k < 6; k++) {
+            table[idx * 6 + k] = this.map.getIndex(neighbors[k].q, neighbors[k].r);
         }
-      }
     }
+    return table;
   }
 
   /**
    * Determines the cost to ENTER a tile.
    * STRICT MODE: Only Infrastructure allows resource transport.
-   * NOTE: Productive improvements (Mines, Farms) are considered "Infrastructure" 
+   * Railroads and stations are cheap; roads cost more per tile. Water is open to ships.
+   * NOTE: Productive improvements (Mines, Farms) are considered "Infrastructure"
    * for transport purposes to allow chains to pass through them.
    */
-  private calculateMoveCost(hex: Hex): number {
-    const tile = this.map.getTile(hex.q, hex.r);
+  private calculateMoveCost(tile: TileData | null): number {
     if (!tile) return Infinity;
 
-    // Infrastructure allowed for transport
-    if (tile.improvement === ImprovementType.ROAD || 
-        tile.improvement === ImprovementType.RAILROAD || 
+    // Foreign infrastructure is closed to us
+    if (tile.owner !== 0 && tile.owner !== this.ownerId) return Infinity;
+
+    const costs = GameConfig.ECONOMY.TRANSPORT.MOVE_COST;
+    if (tile.terrain === TerrainType.WATER) return costs.SEA;
+    if (tile.improvement === ImprovementType.RAILROAD ||
         tile.improvement === ImprovementType.CITY ||
         tile.improvement === ImprovementType.DEPOT ||
-        tile.improvement === ImprovementType.PORT ||
-        // Productive Improvements imply a local road network
-        tile.improvement === ImprovementType.MINE ||
-        tile.improvement === ImprovementType.FARM ||
-        tile.improvement === ImprovementType.LUMBER_MILL ||
-        tile.improvement === ImprovementType.RANCH ||
-        tile.improvement === ImprovementType.PLANTATION ||
-        tile.improvement === ImprovementType.OIL_WELL
-        ) {
-      return 1;
+        tile.improvement === ImprovementType.PORT) {
+      return costs.RAIL;
     }
+    if (this.isRoad(tile.improvement)) return costs.ROAD;
 
     return Infinity;
   }
+
+  private getTileFlags(tile: TileData | null): number {
+    if (!tile) return 0;
+    let flags = 0;
+    if (this.isRoad(tile.improvement)) flags |= TransportNetwork.TILE_ROAD;
+    if (tile.terrain === TerrainType.WATER) flags |= TransportNetwork.TILE_WATER;
+    if (tile.improvement === ImprovementType.PORT) flags |= TransportNetwork.TILE_PORT;
+    return flags;
+  }
+
+  // Roads and the local roads implied by productive improvements
+  private isRoad(improvement: ImprovementType): boolean {
+    return improvement === ImprovementType.ROAD ||
+        improvement === ImprovementType.MINE ||
+        improvement === ImprovementType.FARM ||
+        improvement === ImprovementType.LUMBER_MILL ||
+        improvement === ImprovementType.RANCH ||
+        improvement === ImprovementType.PLANTATION ||
+        improvement === ImprovementType.OIL_WELL;
+  }
 }
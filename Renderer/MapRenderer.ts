@@ -11,7 +11,7 @@ import { AnimalManager } from './effects/AnimalManager';
 import { ForestManager } from './effects/ForestManager';
 import { AnimalInstancingManager } from './effects/AnimalInstancingManager';
 import { MapOverlayInstancingManager } from './effects/MapOverlayInstancingManager';
-import { UnitDrawer, OverlayDrawer } from './drawers/Drawers';
+import { UnitDrawer, OverlayDrawer, CatchmentOverlay, HeatmapOverlay } from './drawers/Drawers';
 import { WebGLProgramManager, GPUTextureHandle, GPUResourceRegistry } from './core/Core';
 import { TerrainErosion } from './assets/TerrainErosion';
 import { TerrainClustering } from './TerrainClustering';
@@ -27,6 +27,13 @@ export class MapRenderer {
     public hexSize: number;
 
     private overlayCtx: CanvasRenderingContext2D | null = null;
+
+    // Border/tint color per owner id (TileData.owner). Owners without a color are not drawn.
+    private territoryColors: Record<number, string> = {};
+    // Station catchment map mode (null = off)
+    private catchmentOverlay: CatchmentOverlay | null = null;
+    // Transport cost heatmap map mode (null = off)
+    private heatmapOverlay: HeatmapOverlay | null = null;
     
     // WebGL properties
     private gl: WebGLRenderingContext | WebGL2RenderingContext | null = null;
@@ -49,7 +56,7 @@ export class MapRenderer {
         this.map = map;
         this.hexSize = hexSize;
         this.assets = new AssetManager();
-        this.animalManager = new AnimalManager();
+        this.animalManager = new AnimalManager(this.map.seed);
         this.chunkManager = new ChunkManager(this.map, this.assets, this.hexSize);
         // Managers are initialized later, but instantiated here
         this.animalInstancingManager = new AnimalInstancingManager(this.map, this.assets, this.animalManager, this.hexSize);
@@ -111,6 +118,9 @@ export class MapRenderer {
     }
 
     public async initializeTerrain(onProgress: (pct: number, msg: string) => void) {
+        // Herds are scattered from the world seed, respawn them for the current map
+        this.animalManager.reset(this.map.seed);
+
         // 1. Analyze Clusters for Procedural Rules
         this.forestData = TerrainClustering.analyze(this.map, TerrainType.FOREST);
         this.desertData = TerrainClustering.analyze(this.map, TerrainType.DESERT);
@@ -176,6 +186,18 @@ export class MapRenderer {
         }
     }
 
+    public setTerritoryColors(colors: Record<number, string>) {
+        this.territoryColors = colors;
+    }
+
+    public setCatchmentOverlay(overlay: CatchmentOverlay | null) {
+        this.catchmentOverlay = overlay;
+    }
+
+    public setHeatmapOverlay(overlay: HeatmapOverlay | null) {
+        this.heatmapOverlay = overlay;
+    }
+
     public update(deltaTime: number) {
         this.animalManager.update(deltaTime);
     }
@@ -417,6 +439,22 @@ export class MapRenderer {
             }
         }
 
+        // --- Territory ---
+        const ownedHexes: Hex[] = [];
+        for (const chunk of visibleChunks) {
+            const startCol = chunk.key.col * CHUNK_SIZE;
+            const startRow = chunk.key.row * CHUNK_SIZE;
+            for (let r = startRow; r < startRow + CHUNK_SIZE; r++) {
+                for (let c = startCol; c < startCol + CHUNK_SIZE; c++) {
+                    const q = c - (r - (r & 1)) / 2;
+                    if (this.map.getOwner(q, r) !== 0) ownedHexes.push({ q, r });
+                }
+            }
+        }
+        OverlayDrawer.drawTerritory(ctx, camera, this.map, this.hexSize, ownedHexes, this.territoryColors);
+        if (this.catchmentOverlay) OverlayDrawer.drawCatchments(ctx, camera, this.hexSize, this.catchmentOverlay);
+        if (this.heatmapOverlay) OverlayDrawer.drawHeatmap(ctx, camera, this.hexSize, this.heatmapOverlay);
+
         // --- UI, Selection, Units, Cities ---
         if (previewHighlight || selectedHex) OverlayDrawer.drawRadiusHighlight(ctx, camera, this.map, this.hexSize, this.assets, previewHighlight, selectedHex);
         OverlayDrawer.drawValidMoves(ctx, camera, this.hexSize, this.assets, validMoves);
@@ -4,6 +4,7 @@ import { TerrainGenerator, DESERT_CONFIG, MOUNTAIN_CONFIG, HILLS_CONFIG, BiomeCo
 import { ISO_FACTOR } from '../RenderUtils';
 import { createTerrainWorkerUrl } from './terrainWorkerBlob';
 import { GPUTextureHandle } from '../core/Core';
+import { hashSeed } from '../../utils/Random';
 
 export interface TerrainSprite {
     x: number;
@@ -204,12 +205,14 @@ export class TerrainErosion {
             
             for (const cluster of clusters) {
                 const bounds = this.getClusterBounds(cluster, hexSize);
+                // Derive a stable per-cluster seed from the world seed (first tile identifies the cluster)
+                const clusterKey = cluster.values().next().value as string;
                 tasks.push({
                     clusterTiles: Array.from(cluster),
                     bounds,
                     hexSize,
                     config: t.config,
-                    seed: Math.random() * 10000,
+                    seed: (hashSeed(map.seed, t.type, clusterKey) % 10000) + 1,
                     padding
                 });
             }
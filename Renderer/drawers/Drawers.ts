@@ -5,6 +5,27 @@ import { Unit } from '../../Entities/Unit';
 import { AssetManager } from '../AssetManager';
 import { Camera, hexToScreen, ISO_FACTOR, getHexPath2D } from '../RenderUtils';
 
+// Neighbor across each hex edge, edge i running from corner i to corner i+1 (corners at 30° + 60°·i)
+const TERRITORY_EDGE_NEIGHBORS: Hex[] = [
+    { q: 0, r: 1 }, { q: -1, r: 1 }, { q: -1, r: 0 }, { q: 0, r: -1 }, { q: 1, r: -1 }, { q: 1, r: 0 }
+];
+
+// Map mode showing which station collects each tile
+export interface CatchmentOverlay {
+    tiles: { hex: Hex, color: string }[];
+    stations: { hex: Hex, color: string }[];
+    // Productive tiles no station collects
+    uncovered: Hex[];
+}
+
+export interface HeatmapOverlay {
+    // Connected tiles with their haul cost from the capital
+    tiles: { hex: Hex, cost: number }[];
+    maxCost: number;
+    // Tiles whose loss cuts stations off
+    bottlenecks: Hex[];
+}
+
 export class OverlayDrawer {
 
     public static drawPath(
@@ -69,6 +90,155 @@ export class OverlayDrawer {
         );
     }
 
+    /**
+     * Tints owned land and outlines each empire's border in its color.
+     * `hexes` are the owned tiles in view; only edges facing another owner are stroked.
+     */
+    public static drawTerritory(
+        ctx: CanvasRenderingContext2D,
+        camera: Camera,
+        map: GameMap,
+        hexSize: number,
+        hexes: Hex[],
+        colors: Record<number, string>
+    ) {
+        if (hexes.length === 0) return;
+
+        const size = hexSize * camera.zoom;
+        const fillPath = getHexPath2D(size, ISO_FACTOR);
+        // Borders sit slightly inside the hex so two neighbouring empires both show
+        const inset = size * 0.92;
+        const corners: { x: number, y: number }[] = [];
+        for (let i = 0; i < 6; i++) {
+            const angle = (Math.PI / 180) * (60 * i + 30);
+            corners.push({ x: inset * Math.cos(angle), y: inset * Math.sin(angle) * ISO_FACTOR });
+        }
+
+        ctx.save();
+        ctx.lineWidth = Math.max(1.5, 3 * camera.zoom);
+        ctx.lineCap = 'round';
+
+        for (const hex of hexes) {
+            const owner = map.getOwner(hex.q, hex.r);
+            const color = colors[owner];
+            if (!color) continue;
+
+            const { x, y } = hexToScreen(hex.q, hex.r, camera, hexSize);
+            ctx.translate(x, y);
+
+            ctx.globalAlpha = 0.12;
+            ctx.fillStyle = color;
+            ctx.fill(fillPath);
+
+            ctx.globalAlpha = 0.85;
+            ctx.strokeStyle = color;
+            ctx.beginPath();
+            for (let i = 0; i < 6; i++) {
+                const n = TERRITORY_EDGE_NEIGHBORS[i];
+                if (map.getOwner(hex.q + n.q, hex.r + n.r) === owner) continue;
+                const a = corners[i];
+                const b = corners[(i + 1) % 6];
+                ctx.moveTo(a.x, a.y);
+                ctx.lineTo(b.x, b.y);
+            }
+            ctx.stroke();
+
+            ctx.translate(-x, -y);
+        }
+        ctx.restore();
+    }
+
+    /**
+     * Tints collected tiles in their station's color, rings the stations and
+     * outlines uncollected productive tiles in dashed red.
+     */
+    public static drawCatchments(
+        ctx: CanvasRenderingContext2D,
+        camera: Camera,
+        hexSize: number,
+        overlay: CatchmentOverlay
+    ) {
+        const size = hexSize * camera.zoom;
+        const fillPath = getHexPath2D(size, ISO_FACTOR);
+        const ringPath = getHexPath2D(size * 0.8, ISO_FACTOR);
+        const margin = size * 2;
+        const visible = (x: number, y: number) =>
+            x > -margin && x < camera.width + margin && y > -margin && y < camera.height + margin;
+
+        ctx.save();
+        ctx.globalAlpha = 0.35;
+        for (const { hex, color } of overlay.tiles) {
+            const { x, y } = hexToScreen(hex.q, hex.r, camera, hexSize);
+            if (!visible(x, y)) continue;
+            ctx.translate(x, y);
+            ctx.fillStyle = color;
+            ctx.fill(fillPath);
+            ctx.translate(-x, -y);
+        }
+
+        ctx.globalAlpha = 0.95;
+        ctx.lineWidth = Math.max(2, 4 * camera.zoom);
+        for (const { hex, color } of overlay.stations) {
+            const { x, y } = hexToScreen(hex.q, hex.r, camera, hexSize);
+            if (!visible(x, y)) continue;
+            ctx.translate(x, y);
+            ctx.strokeStyle = color;
+            ctx.stroke(ringPath);
+            ctx.translate(-x, -y);
+        }
+
+        ctx.strokeStyle = '#ef4444';
+        ctx.lineWidth = Math.max(1.5, 3 * camera.zoom);
+        ctx.setLineDash([6 * camera.zoom, 4 * camera.zoom]);
+        for (const hex of overlay.uncovered) {
+            const { x, y } = hexToScreen(hex.q, hex.r, camera, hexSize);
+            if (!visible(x, y)) continue;
+            ctx.translate(x, y);
+            ctx.stroke(ringPath);
+            ctx.translate(-x, -y);
+        }
+        ctx.restore();
+    }
+
+    public static drawHeatmap(
+        ctx: CanvasRenderingContext2D,
+        camera: Camera,
+        hexSize: number,
+        overlay: HeatmapOverlay
+    ) {
+        const size = hexSize * camera.zoom;
+        const fillPath = getHexPath2D(size, ISO_FACTOR);
+        const ringPath = getHexPath2D(size * 0.8, ISO_FACTOR);
+        const margin = size * 2;
+        const visible = (x: number, y: number) =>
+            x > -margin && x < camera.width + margin && y > -margin && y < camera.height + margin;
+
+        ctx.save();
+        // Green next to the capital, red at the far end of the network
+        ctx.globalAlpha = 0.45;
+        for (const { hex, cost } of overlay.tiles) {
+            const { x, y } = hexToScreen(hex.q, hex.r, camera, hexSize);
+            if (!visible(x, y)) continue;
+            const share = overlay.maxCost > 0 ? cost / overlay.maxCost : 0;
+            ctx.translate(x, y);
+            ctx.fillStyle = `hsl(${Math.round(120 * (1 - share))}, 80%, 50%)`;
+            ctx.fill(fillPath);
+            ctx.translate(-x, -y);
+        }
+
+        ctx.globalAlpha = 0.95;
+        ctx.strokeStyle = '#f8fafc';
+        ctx.lineWidth = Math.max(2, 4 * camera.zoom);
+        for (const hex of overlay.bottlenecks) {
+            const { x, y } = hexToScreen(hex.q, hex.r, camera, hexSize);
+            if (!visible(x, y)) continue;
+            ctx.translate(x, y);
+            ctx.stroke(ringPath);
+            ctx.translate(-x, -y);
+        }
+        ctx.restore();
+    }
+
     public static drawRadiusHighlight(
         ctx: CanvasRenderingContext2D,
         camera: Camera,
@@ -3,6 +3,7 @@ import { Hex, hexToString } from '../../Grid/HexMath';
 import { ResourceType } from '../../Grid/GameMap';
 import { AssetManager } from '../AssetManager';
 import { QualityManager } from '../../core/quality/QualityManager';
+import { SeededRandom, hashSeed } from '../../utils/Random';
 
 export interface AnimalInstance {
     x: number; // relative to tile center (base coordinates)
@@ -20,6 +21,9 @@ export interface AnimalInstance {
 export class AnimalManager {
     private animals: Map<string, AnimalInstance[]> = new Map();
 
+    // World seed: initial herd placement is reproducible per tile (wandering stays random)
+    private seed: number;
+
     // Sprite Sheet Constants
     private readonly SHEET_COLS = 3;
     private readonly SHEET_ROWS = 3;
@@ -31,7 +35,8 @@ export class AnimalManager {
     private updateInterval: number = 1000 / 60;
     private accumulator: number = 0;
 
-    constructor() {
+    constructor(seed: number = 0) {
+        this.seed = seed;
         const qualityManager = QualityManager.getInstance();
         const settings = qualityManager.getSettings();
         this.updateInterval = settings.animalsUpdateHz > 0 ? 1000 / settings.animalsUpdateHz : Infinity;
@@ -45,6 +50,14 @@ export class AnimalManager {
         });
     }
 
+    /**
+     * Drops all herds and switches to a new world seed (e.g. after loading a save).
+     */
+    public reset(seed: number) {
+        this.seed = seed;
+        this.animals.clear();
+    }
+
     public update(deltaTime: number) {
         if (!isFinite(this.updateInterval)) return;
 
@@ -132,6 +145,7 @@ export class AnimalManager {
         }
 
         const newGroup: AnimalInstance[] = [];
+        const rng = new SeededRandom(hashSeed(this.seed, key));
         
         // Respect global quality limit even on spawn
         const maxClumps = QualityManager.getInstance().getSettings().maxClumpCount;
@@ -139,13 +153,13 @@ export class AnimalManager {
 
         if (resourceType === ResourceType.WOOL) {
             // Spawn Sheep
-            for(let i=0; i < spawnLimit; i++) this.spawn(newGroup, 0);
+            for(let i=0; i < spawnLimit; i++) this.spawn(newGroup, 0, rng);
         } else if (resourceType === ResourceType.MEAT) {
             // Spawn Cows/Bulls
             for(let i=0; i < spawnLimit; i++) {
-                if (i === 0) this.spawn(newGroup, 1); // Ensure at least 1 cow
-                else if (Math.random() > 0.7) this.spawn(newGroup, 2); // Bull chance
-                else this.spawn(newGroup, 1);
+                if (i === 0) this.spawn(newGroup, 1, rng); // Ensure at least 1 cow
+                else if (rng.next() > 0.7) this.spawn(newGroup, 2, rng); // Bull chance
+                else this.spawn(newGroup, 1, rng);
             }
         }
 
@@ -160,33 +174,34 @@ export class AnimalManager {
         // Force cap based on quality
         const maxClumps = QualityManager.getInstance().getSettings().maxClumpCount;
         const effectiveMin = maxClumps > 0 ? Math.min(minCount, maxClumps) : minCount;
+        const rng = new SeededRandom(hashSeed(this.seed, key, group.length));
 
         // If current count is less than required minimum, spawn more
         while (group.length < effectiveMin) {
             if (resourceType === ResourceType.WOOL) {
-                this.spawn(group, 0); // Sheep
+                this.spawn(group, 0, rng); // Sheep
             } else {
                 // Cow/Bull chance
-                if (Math.random() > 0.7) this.spawn(group, 2); // Bull
-                else this.spawn(group, 1); // Cow
+                if (rng.next() > 0.7) this.spawn(group, 2, rng); // Bull
+                else this.spawn(group, 1, rng); // Cow
             }
         }
     }
 
-    private spawn(group: AnimalInstance[], variant: number) {
-        const angle = Math.random() * Math.PI * 2;
-        const r = Math.random() * this.BOUNDS_RADIUS;
+    private spawn(group: AnimalInstance[], variant: number, rng: SeededRandom) {
+        const angle = rng.next() * Math.PI * 2;
+        const r = rng.next() * this.BOUNDS_RADIUS;
         const x = Math.cos(angle) * r;
         const y = Math.sin(angle) * r * 0.5;
 
         group.push({
             x, y,
             state: 'IDLE',
-            timer: Math.random() * 2000,
+            timer: rng.next() * 2000,
             targetX: x,
             targetY: y,
             variant,
-            flip: Math.random() > 0.5,
+            flip: rng.next() > 0.5,
             walkFrame: 0,
             walkFrameTimer: 0
         });
@@ -4,6 +4,7 @@ import { Hex, hexToString } from '../../Grid/HexMath';
 import { AssetManager } from '../AssetManager';
 import { Camera, ISO_FACTOR, hexToScreen } from '../RenderUtils';
 import { WebGLProgramManager, AtlasUVRect } from '../core/Core';
+import { hashSeed } from '../../utils/Random';
 
 // Helper to generate deterministic random numbers
 function pseudoRandom(seed: number): number {
@@ -214,7 +215,7 @@ export class ForestManager {
                 const hasBuilding = tile.improvement !== ImprovementType.NONE && !hasRoad;
                 const depth = forestData.get(key) || 1;
 
-                const seed = (q * 12345 + r * 67890);
+                const seed = hashSeed(map.seed, q, r) % 100000;
                 const rng = (offset: number) => pseudoRandom(seed + offset);
 
                 let minTrees = 3, randomAdd = 3, spreadMult = 0.75, sizeMultiplier = 1.0;
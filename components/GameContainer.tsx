@@ -2,28 +2,40 @@
 
 
 import React, { useEffect, useRef, useImperativeHandle, forwardRef, useState } from 'react';
-import { Game, HoverInfo } from '../core/Game';
+import { Game, HoverInfo, MapMode } from '../core/Game';
 import { Unit, UnitType } from '../Entities/Unit';
 import { City } from '../Entities/City';
 import { ImprovementType, ResourceType, TerrainType } from '../Grid/GameMap';
 import { Hex } from '../Grid/HexMath';
-import { ProspectFilter } from '../Entities/CivilianUnit';
-import { Engineer } from '../Entities/Civilian/Engineer';
+import { GameCommand } from '../core/commands/Command';
+import { CommandHistoryInfo } from '../core/commands/CommandHistory';
+import { ShipmentPlan, TransportOptions } from '../core/managers/CityManager';
+import { NetworkReport } from '../Logistics/NetworkAnalysis';
+import { ResearchSystem, ResearchState, ResearchTurnResult } from '../core/systems/ResearchSystem';
+import { MarketSystem, MarketState, MarketTurnResult } from '../core/systems/MarketSystem';
+import { TreasurySystem, TreasuryState } from '../core/systems/TreasurySystem';
+import { RuleSetData } from '../core/rules/RuleSet';
+import { TurnReport } from '../core/TurnReport';
 import { Loader2 } from 'lucide-react';
 import { SpriteVisualConfig, DEFAULT_SPRITE_CONFIG } from '../Renderer/assets/SpriteVisuals';
 import { QualityManager } from '../core/quality/QualityManager';
 
 export interface GameRef {
-  resolveTurn: (allocations: Map<ResourceType, number>) => void;
-  getTransportOptions: () => Map<ResourceType, number>;
-  getSavedTransportAllocations: () => Map<ResourceType, number>;
+  resolveTurn: (shipments: ShipmentPlan) => void;
+  getTransportOptions: () => TransportOptions;
+  getSavedTransportAllocations: () => ShipmentPlan;
+  // Shipments by the cities' transport rules; automatic once every connected city opted in
+  planTransport: () => ShipmentPlan;
+  isTransportAutomatic: () => boolean;
   getGameWarnings: () => string[];
+  // Bottlenecks and unconnected improvements of the player's network
+  analyzeNetwork: () => NetworkReport;
   buildImprovement: (type: ImprovementType) => void;
   getPotentialYield: (hex: Hex, type: ImprovementType) => Map<ResourceType, number>;
   setPreviewHighlight: (hex: Hex | null) => void;
   getGameStateAnalysis: () => any;
   selectedUnitHex: Hex | null;
-  recruitUnit: (type: UnitType) => string;
+  recruitUnit: (type: UnitType, cityId?: string) => string;
   disbandSelectedUnit: () => void;
   doUnitAction: (action: string) => string | undefined;
   setCityProduction: (resource: ResourceType, isActive: boolean) => void;
@@ -31,24 +43,60 @@ export interface GameRef {
   centerCameraOn: (unit: Unit) => void;
   selectUnit: (unit: Unit) => void;
   getRealCapital: () => City | null; 
+  getRealCity: (id: string) => City | null;
+  getCities: () => City[];
+  // Capital plus cities connected to its network (can receive goods)
+  getTransportCities: () => City[];
+  // Analysis map mode (catchments or cost heatmap); returns the mode now shown
+  toggleMapMode: (mode: MapMode) => MapMode;
   uploadSprite: (type: TerrainType, file: File) => Promise<void>;
   regenerateDeserts: () => Promise<void>;
   setWindStrength: (val: number) => void;
   getVRAMStats: () => string;
+  // Save / Load
+  saveGame: () => string | null;
+  loadGame: (json: string) => Promise<string>;
+  getSeed: () => number | null;
+  // Typed commands & Undo / Redo
+  executeCommand: (command: GameCommand) => string | undefined;
+  undo: () => string | undefined;
+  redo: () => string | undefined;
+  // Research
+  getResearch: () => ResearchView | null;
+  queueResearch: (techId: string) => string | undefined;
+  cancelResearch: (techId: string) => string | undefined;
+  // Market (detached copy for the UI; orders go through executeCommand)
+  getMarket: () => MarketState | null;
+  // Treasury (detached copy; borrowing and repayment go through executeCommand)
+  getTreasury: () => TreasuryState | null;
+  // End-of-turn reports, oldest first
+  getTurnReports: () => TurnReport[];
   // Sprite Configs
   getSpriteConfig: (key: string) => SpriteVisualConfig;
   setSpriteConfig: (key: string, config: SpriteVisualConfig) => void;
   getSpriteSource: (key: string) => string | null;
 }
 
+// Detached copy of the research state for the UI
+export interface ResearchView {
+  technologies: Set<string>;
+  research: ResearchState;
+}
+
 interface GameContainerProps {
   onTurnChange: (turn: number, year: number) => void;
   onSelectionChange: (unit: Unit | null) => void;
   onHoverChange: (info: HoverInfo | null) => void;
   onCapitalUpdate: (city: City) => void;
+  onHistoryChange: (info: CommandHistoryInfo) => void;
+  onResearchUpdate: (result: ResearchTurnResult) => void;
+  onMarketUpdate: (result: MarketTurnResult) => void;
+  onTurnReport: (report: TurnReport) => void;
+  seed?: number; // World seed. Remount the container (key) to start a new world.
+  rules?: RuleSetData; // Rule-set of a new world; omitted keeps the active one
 }
 
-const GameContainer = forwardRef<GameRef, GameContainerProps>(({ onTurnChange, onSelectionChange, onHoverChange, onCapitalUpdate }, ref) => {
+const GameContainer = forwardRef<GameRef, GameContainerProps>(({ onTurnChange, onSelectionChange, onHoverChange, onCapitalUpdate, onHistoryChange, onResearchUpdate, onMarketUpdate, onTurnReport, seed, rules }, ref) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const overlayRef = useRef<HTMLCanvasElement>(null);
@@ -63,8 +111,8 @@ const GameContainer = forwardRef<GameRef, GameContainerProps>(({ onTurnChange, o
   });
 
   useImperativeHandle(ref, () => ({
-    resolveTurn: (allocations) => {
-      gameRef.current?.resolveTurn(allocations);
+    resolveTurn: (shipments: ShipmentPlan) => {
+      gameRef.current?.resolveTurn(shipments);
     },
     getTransportOptions: () => {
         return gameRef.current?.getTransportOptions() || new Map();
@@ -72,9 +120,18 @@ const GameContainer = forwardRef<GameRef, GameContainerProps>(({ onTurnChange, o
     getSavedTransportAllocations: () => {
         return gameRef.current?.getSavedTransportAllocations() || new Map();
     },
+    planTransport: () => {
+        return gameRef.current?.planTransport() || new Map();
+    },
+    isTransportAutomatic: () => {
+        return gameRef.current?.isTransportAutomatic() || false;
+    },
     getGameWarnings: () => {
         return gameRef.current?.getGameWarnings() || [];
     },
+    analyzeNetwork: () => {
+        return gameRef.current?.analyzeNetwork() || { articulationPoints: [], unconnected: [] };
+    },
     buildImprovement: (type: ImprovementType) => {
       gameRef.current?.buildImprovement(type);
     },
@@ -88,61 +145,14 @@ const GameContainer = forwardRef<GameRef, GameContainerProps>(({ onTurnChange, o
       return gameRef.current?.getGameStateAnalysis() || {};
     },
     selectedUnitHex: gameRef.current?.selectedUnit?.location || null,
-    recruitUnit: (type: UnitType) => {
-        return gameRef.current?.recruitUnit(type) || "Ошибка игры";
+    recruitUnit: (type: UnitType, cityId?: string) => {
+        return gameRef.current?.recruitUnit(type, cityId) || "Ошибка игры";
     },
     disbandSelectedUnit: () => {
         gameRef.current?.disbandSelectedUnit();
     },
     doUnitAction: (action: string) => {
-        if (!gameRef.current) return;
-        if (action === 'prospect') return gameRef.current.doProspect();
-        if (action === 'road') return gameRef.current.doBuildRoad();
-        if (action === 'depot') return gameRef.current.doBuildDepot();
-        if (action === 'port') return gameRef.current.doBuildPort();
-        if (action === 'improve') return gameRef.current.doImproveResource();
-        if (action === 'buyland') return gameRef.current.doBuyLand();
-        // New actions
-        if (action === 'sleep') return gameRef.current.toggleSleep() as unknown as string;
-        if (action === 'auto') return gameRef.current.toggleAuto() as unknown as string;
-        
-        // Filter Actions
-        if (action.startsWith('set_filter_')) {
-            const filter = action.replace('set_filter_', '') as ProspectFilter;
-            gameRef.current.setProspectorFilter(filter);
-            return;
-        }
-
-        if (action.startsWith('set_res_filter_')) {
-            const val = action.replace('set_res_filter_', '');
-            const filter = val === 'ALL' ? 'ALL' : parseInt(val) as ResourceType;
-            gameRef.current.setImproverFilter(filter);
-            return;
-        }
-
-        if (action.startsWith('set_eng_priority_')) {
-            const val = action.replace('set_eng_priority_', '');
-            gameRef.current.setEngineerPriority(val);
-            return;
-        }
-
-        if (action.startsWith('set_eng_terrain_')) {
-            const val = action.replace('set_eng_terrain_', '');
-            gameRef.current.setEngineerTerrain(val);
-            return;
-        }
-
-        if (action === 'toggle_advice') {
-            const u = gameRef.current.selectedUnit;
-            if (u && u.type === UnitType.ENGINEER) {
-                (u as Engineer).toggleHeedAdvice();
-                // Trigger React Update
-                onSelectionChange(Object.assign(Object.create(Object.getPrototypeOf(u)), u));
-            }
-            return;
-        }
-
-        return undefined;
+        return gameRef.current?.doUnitAction(action);
     },
     setCityProduction: (resource: ResourceType, isActive: boolean) => {
         gameRef.current?.setCityProduction(resource, isActive);
@@ -159,6 +169,18 @@ const GameContainer = forwardRef<GameRef, GameContainerProps>(({ onTurnChange, o
     getRealCapital: () => {
         return gameRef.current?.cities[0] || null;
     },
+    getRealCity: (id: string) => {
+        return gameRef.current?.cityManager.getCity(id) || null;
+    },
+    getCities: () => {
+        return gameRef.current?.cities || [];
+    },
+    getTransportCities: () => {
+        return gameRef.current?.cityManager.getConnectedCities() || [];
+    },
+    toggleMapMode: (mode: MapMode) => {
+        return gameRef.current?.toggleMapMode(mode) || 'NONE';
+    },
     uploadSprite: async (type: TerrainType, file: File) => {
         if (gameRef.current) {
             await gameRef.current.mapRenderer.assets.uploadSprite(type, file);
@@ -177,6 +199,49 @@ const GameContainer = forwardRef<GameRef, GameContainerProps>(({ onTurnChange, o
     getVRAMStats: () => {
         return gameRef.current?.getVRAMStats() || '';
     },
+    saveGame: () => {
+        return gameRef.current?.saveGame() || null;
+    },
+    loadGame: async (json: string) => {
+        if (!gameRef.current) return "Ошибка игры";
+        return await gameRef.current.loadGame(json);
+    },
+    getSeed: () => {
+        return gameRef.current?.seed ?? null;
+    },
+    executeCommand: (command: GameCommand) => {
+        return gameRef.current?.state.executeCommand(command);
+    },
+    undo: () => {
+        return gameRef.current?.undo();
+    },
+    redo: () => {
+        return gameRef.current?.redo();
+    },
+    getResearch: () => {
+        if (!gameRef.current) return null;
+        return {
+            technologies: new Set(gameRef.current.technologies),
+            research: ResearchSystem.cloneState(gameRef.current.research)
+        };
+    },
+    queueResearch: (techId: string) => {
+        return gameRef.current?.queueResearch(techId);
+    },
+    cancelResearch: (techId: string) => {
+        return gameRef.current?.cancelResearch(techId);
+    },
+    getMarket: () => {
+        if (!gameRef.current) return null;
+        return MarketSystem.cloneState(gameRef.current.market);
+    },
+    getTreasury: () => {
+        if (!gameRef.current) return null;
+        return TreasurySystem.cloneState(gameRef.current.treasury);
+    },
+    getTurnReports: () => {
+        return gameRef.current ? [...gameRef.current.reports] : [];
+    },
     getSpriteConfig: (key: string) => {
         if (gameRef.current) return gameRef.current.mapRenderer.assets.getConfig(key);
         return DEFAULT_SPRITE_CONFIG;
@@ -224,6 +289,10 @@ const GameContainer = forwardRef<GameRef, GameContainerProps>(({ onTurnChange, o
       onSelectionChange: (u) => onSelectionChange(u),
       onHoverChange: (info) => onHoverChange(info),
       onCapitalUpdate: (c) => onCapitalUpdate(c),
+      onHistoryChange: (info) => onHistoryChange(info),
+      onResearchUpdate: (result) => onResearchUpdate(result),
+      onMarketUpdate: (result) => onMarketUpdate(result),
+      onTurnReport: (report) => onTurnReport(report),
       onLoading: (progress, msg) => {
           setLoading({
               active: progress < 100,
@@ -231,7 +300,7 @@ const GameContainer = forwardRef<GameRef, GameContainerProps>(({ onTurnChange, o
               msg
           });
       }
-    });
+    }, seed, rules);
     
     gameRef.current = game;
 
@@ -1,70 +1,125 @@
-
 import React, { useState, useEffect } from 'react';
 import { ResourceType } from '../Grid/GameMap';
-import { Box, Check, TrainFront } from 'lucide-react';
+import { Box, Check, Ship, TrainFront } from 'lucide-react';
 import { getResourceName } from '../utils/Localization';
+import { City } from '../Entities/City';
+import { CityManager, ShipmentPlan, ShipmentLoad, TransportOptions, ResourceSupply } from '../core/managers/CityManager';
+import { TransportPlanner } from '../core/TransportPlanner';
+import { TransportRule } from '../core/GameConfig';
+import { GameCommand } from '../core/commands/Command';
+import { SetTransportRulesCommand } from '../core/commands/CityCommands';
+import CitySelector from './UI/CitySelector';
+import TransportRulesPanel from './UI/TransportRulesPanel';
 
 interface TransportModalProps {
-  availableResources: Map<ResourceType, number>;
-  previousAllocations: Map<ResourceType, number>;
-  capacity: number;
-  onConfirm: (allocations: Map<ResourceType, number>) => void;
+  // Connected supply with its delivery cost in wagons and fleet cargo per unit
+  availableResources: TransportOptions;
+  // Cities that can receive goods (capital first). Each hauls with its own wagons and ships.
+  cities: City[];
+  previousAllocations: ShipmentPlan;
+  onConfirm: (shipments: ShipmentPlan) => void;
+  // Saves transport rules (undoable like other city orders)
+  onCommand: (command: GameCommand) => string | undefined;
 }
 
-export const TransportModal: React.FC<TransportModalProps> = ({ availableResources, previousAllocations, capacity, onConfirm }) => {
-  const [allocations, setAllocations] = useState<Map<ResourceType, number>>(new Map());
+const MODE_NAMES = { RAIL: 'ж/д', ROAD: 'дорога', SEA: 'море' };
+
+// Tooltip listing where a resource comes from, cheapest station first
+const describeSources = (supply: ResourceSupply) => supply.sources
+  .map(s => `(${s.station.q}, ${s.station.r}) ${MODE_NAMES[s.mode]}, путь ${s.distance}: ${s.amount} ед. × ` +
+    (s.cargoPerUnit > 0 ? `${s.cargoPerUnit} трюм` : `${s.wagonsPerUnit.toFixed(1)} ваг.`))
+  .join('\n');
+
+// Which stations hold the resource back; a station shares its throughput between everything it gathers
+const describeBlocked = (type: ResourceType, supply: ResourceSupply) =>
+  `${getResourceName(type)} не успевают вывезти (станция пропускает ограниченный объём за ход):\n` +
+  supply.blockedAt.map(b => `(${b.station.q}, ${b.station.r}): ${b.amount} ед.`).join('\n');
+
+export const TransportModal: React.FC<TransportModalProps> = ({ availableResources, cities, previousAllocations, onConfirm, onCommand }) => {
+  const [allocations, setAllocations] = useState<ShipmentPlan>(new Map());
+  const [activeCityId, setActiveCityId] = useState<string | null>(cities[0]?.id || null);
+  const [feedback, setFeedback] = useState<string | null>(null);
+  // Rules live on the cities themselves; bumped to re-render after they change
+  const [, setRulesVersion] = useState(0);
 
-  // Initialize allocations (prioritizing previous settings, falling back to max possible)
+  // Initialize allocations city by city (capital first), prioritizing previous settings, falling back to max possible
   useEffect(() => {
-    const initial = new Map<ResourceType, number>();
-    let used = 0;
-    
-    // First pass: Restore previous settings if valid
-    if (previousAllocations.size > 0) {
-        availableResources.forEach((availableAmount, type) => {
-            const previousAmount = previousAllocations.get(type) || 0;
-            // Can't take more than available, can't exceed remaining capacity
-            const desired = Math.min(previousAmount, availableAmount);
-            const canTake = Math.min(desired, capacity - used);
-            
-            if (canTake > 0) {
-                initial.set(type, canTake);
-                used += canTake;
-            }
-        });
-    }
+    const initial: ShipmentPlan = new Map();
+    const remaining = new Map<ResourceType, number>();
+    availableResources.forEach((supply, type) => remaining.set(type, supply.amount));
+
+    for (const city of cities) {
+      const cityAlloc = new Map<ResourceType, number>();
+      const previous = previousAllocations.get(city.id) || new Map<ResourceType, number>();
+      const free: ShipmentLoad = { wagons: city.transportCapacity, cargo: city.fleetCapacity };
+
+      remaining.forEach((availableAmount, type) => {
+          // First pass restores previous settings; with none, fill remaining capacity greedily
+          const desired = previous.size > 0 ? Math.min(previous.get(type) || 0, availableAmount) : availableAmount;
+          const canTake = Math.min(desired, CityManager.getShipmentLimit(type, free, availableResources));
+          if (canTake > 0) {
+              cityAlloc.set(type, canTake);
+              free.wagons -= canTake * availableResources.get(type)!.wagonsPerUnit;
+              free.cargo -= canTake * availableResources.get(type)!.cargoPerUnit;
+          }
+      });
 
-    // Second pass: If there is still capacity and no previous settings (or if we want to be greedy by default on new items)
-    // For now, let's just fill remaining capacity greedily if previous was empty, otherwise trust the restoration.
-    if (previousAllocations.size === 0) {
-         availableResources.forEach((amount, type) => {
-            const canTake = Math.min(amount, capacity - used);
-            if (canTake > 0) {
-                initial.set(type, canTake);
-                used += canTake;
-            }
-        });
+      cityAlloc.forEach((amount, type) => remaining.set(type, (remaining.get(type) || 0) - amount));
+      initial.set(city.id, cityAlloc);
     }
 
     setAllocations(initial);
-  }, [availableResources, previousAllocations, capacity]);
+  }, [availableResources, previousAllocations, cities]);
 
-  let totalAllocated = 0;
-  allocations.forEach((val) => totalAllocated += val);
+  const activeCity = cities.find(c => c.id === activeCityId) || cities[0];
+  const activeAlloc = (activeCity && allocations.get(activeCity.id)) || new Map<ResourceType, number>();
+  const capacity = activeCity?.transportCapacity || 0;
+  const fleet = activeCity?.fleetCapacity || 0;
+  const load = CityManager.getShipmentLoad(activeAlloc, availableResources);
+  const totalAllocated = load.wagons;
+  // The fleet gauge only matters once something can arrive by sea
+  const showFleet = fleet > 0 || Array.from(availableResources.values()).some((s: ResourceSupply) => s.cargoPerUnit > 0);
+
+  // Amount of a resource already taken by the other cities
+  const allocatedElsewhere = (type: ResourceType) => {
+      let total = 0;
+      allocations.forEach((m, id) => { if (id !== activeCity?.id) total += m.get(type) || 0; });
+      return total;
+  };
+
+  const handleRulesChange = (rules: TransportRule[], autoTransport: boolean) => {
+      if (!activeCity) return;
+      setFeedback(onCommand(new SetTransportRulesCommand(activeCity.id, rules, autoTransport)) || null);
+      setRulesVersion(v => v + 1);
+  };
+
+  // One-click loading of every city by its rules
+  const handleApplyRules = () => {
+      setAllocations(TransportPlanner.plan(cities, availableResources));
+  };
 
   const handleSliderChange = (type: ResourceType, newValue: number) => {
-      const currentVal = allocations.get(type) || 0;
-      const otherTotal = totalAllocated - currentVal;
-      const remainingCap = capacity - otherTotal;
-      
+      if (!activeCity) return;
+      // Wagons and cargo left once the other goods of this city are loaded
+      const free: ShipmentLoad = { wagons: capacity, cargo: fleet };
+      activeAlloc.forEach((amount, t) => {
+          if (t === type) return;
+          free.wagons -= amount * (availableResources.get(t)?.wagonsPerUnit ?? 1);
+          free.cargo -= amount * (availableResources.get(t)?.cargoPerUnit ?? 0);
+      });
+      const remainingCap = CityManager.getShipmentLimit(type, free, availableResources);
+      const remainingPool = (availableResources.get(type)?.amount || 0) - allocatedElsewhere(type);
+
       // Clamp value
-      const allowedValue = Math.min(newValue, remainingCap);
-      
-      const newMap = new Map(allocations);
-      newMap.set(type, allowedValue);
-      setAllocations(newMap);
+      const allowedValue = Math.max(0, Math.min(newValue, remainingCap, remainingPool));
+
+      const newCityMap = new Map(activeAlloc);
+      newCityMap.set(type, allowedValue);
+      const newPlan = new Map(allocations);
+      newPlan.set(activeCity.id, newCityMap);
+      setAllocations(newPlan);
   };
-  
+
   // Handle Spacebar to confirm
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -83,8 +138,8 @@ export const TransportModal: React.FC<TransportModalProps> = ({ availableResourc
 
   return (
     <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm animate-in fade-in duration-200">
-      <div className="w-[500px] bg-slate-800 border-2 border-amber-600/50 rounded-lg shadow-2xl overflow-hidden flex flex-col">
-        
+      <div className="w-[560px] bg-slate-800 border-2 border-amber-600/50 rounded-lg shadow-2xl overflow-hidden flex flex-col">
+
         {/* Header */}
         <div className="bg-slate-900 px-6 py-4 border-b border-slate-700 flex justify-between items-center">
             <div className="flex items-center gap-3">
@@ -93,39 +148,90 @@ export const TransportModal: React.FC<TransportModalProps> = ({ availableResourc
                 </div>
                 <div>
                     <h2 className="text-amber-100 font-bold text-lg uppercase tracking-wide">Управление Транспортом</h2>
-                    <p className="text-slate-400 text-xs">Распределите вагоны для доставки сырья</p>
+                    <p className="text-slate-400 text-xs">
+                        {cities.length > 1 ? `Доставка в: ${activeCity?.name}` : 'Распределите вагоны для доставки сырья'}
+                    </p>
                 </div>
             </div>
-            <div className="text-right">
-                <div className={`text-2xl font-mono font-bold ${totalAllocated > capacity ? 'text-red-400' : 'text-emerald-400'}`}>
-                    {totalAllocated} <span className="text-slate-500 text-base">/ {capacity}</span>
+            <div className="flex gap-4">
+                {showFleet && (
+                    <div className="text-right" title="Товары, пересекающие море, везут торговые суда">
+                        <div className={`text-2xl font-mono font-bold flex items-center justify-end gap-1 ${load.cargo > fleet ? 'text-red-400' : 'text-sky-400'}`}>
+                            <Ship size={16} />
+                            {load.cargo} <span className="text-slate-500 text-base">/ {fleet}</span>
+                        </div>
+                        <div className="text-[10px] uppercase text-slate-500 font-bold tracking-wider">Занято трюмов</div>
+                    </div>
+                )}
+                <div className="text-right">
+                    <div className={`text-2xl font-mono font-bold ${totalAllocated > capacity ? 'text-red-400' : 'text-emerald-400'}`}>
+                        {totalAllocated} <span className="text-slate-500 text-base">/ {capacity}</span>
+                    </div>
+                    <div className="text-[10px] uppercase text-slate-500 font-bold tracking-wider">Занято вагонов</div>
                 </div>
-                <div className="text-[10px] uppercase text-slate-500 font-bold tracking-wider">Занято вагонов</div>
             </div>
         </div>
 
+        {cities.length > 1 && (
+            <div className="px-6 pt-4">
+                <CitySelector cities={cities} activeId={activeCity?.id || null} onSelect={setActiveCityId} />
+            </div>
+        )}
+
+        {activeCity && (
+            <div className="px-6 pt-4 flex flex-col gap-1">
+                <TransportRulesPanel
+                    city={activeCity}
+                    resources={Array.from(availableResources.keys())}
+                    onChange={handleRulesChange}
+                    onApply={handleApplyRules}
+                />
+                {feedback && <div className="text-[11px] text-slate-400 px-1">{feedback}</div>}
+            </div>
+        )}
+
         {/* List */}
         <div className="p-6 flex flex-col gap-4 max-h-[60vh] overflow-y-auto">
-            {Array.from(availableResources.entries()).map(([type, available]) => {
-                const allocated = allocations.get(type) || 0;
-                
+            {Array.from(availableResources.entries()).map(([type, supply]) => {
+                const available = supply.amount;
+                const allocated = activeAlloc.get(type) || 0;
+                const elsewhere = allocatedElsewhere(type);
+                // More than one wagon per unit: far or road-bound sources
+                const expensive = supply.wagonsPerUnit > 1;
+
                 return (
                     <div key={type} className="bg-slate-900/50 p-3 rounded border border-slate-700 hover:border-slate-600 transition-colors">
                         <div className="flex justify-between items-end mb-2">
                             <span className="font-bold text-slate-200 flex items-center gap-2">
                                 <Box size={14} className="text-slate-500" />
                                 {getResourceName(type)}
+                                <span
+                                    title={describeSources(supply)}
+                                    className={`text-[10px] font-mono px-1.5 py-0.5 rounded border cursor-help ${expensive ? 'text-amber-300 border-amber-600/50 bg-amber-900/20' : 'text-slate-400 border-slate-700'}`}
+                                >
+                                    {supply.wagonsPerUnit.toFixed(1)} ваг./ед.
+                                </span>
+                                {supply.cargoPerUnit > 0 && (
+                                    <span
+                                        title={describeSources(supply)}
+                                        className={`text-[10px] font-mono px-1.5 py-0.5 rounded border cursor-help flex items-center gap-1 ${fleet > 0 ? 'text-sky-300 border-sky-600/50 bg-sky-900/20' : 'text-red-300 border-red-600/50 bg-red-900/20'}`}
+                                    >
+                                        <Ship size={10} /> {Math.round(supply.cargoPerUnit * 100)}% морем
+                                    </span>
+                                )}
                             </span>
                             <span className="text-xs font-mono text-slate-400">
                                 На карте: <span className="text-white">{available}</span>
+                                {elsewhere > 0 && <span className="text-slate-500"> (в др. города: {elsewhere})</span>}
+                                {supply.blocked > 0 && <span className="text-red-400 cursor-help" title={describeBlocked(type, supply)}> (застряло: {supply.blocked})</span>}
                             </span>
                         </div>
-                        
+
                         <div className="flex items-center gap-4">
-                            <input 
-                                type="range" 
-                                min="0" 
-                                max={available} 
+                            <input
+                                type="range"
+                                min="0"
+                                max={available}
                                 value={allocated}
                                 onChange={(e) => handleSliderChange(type, parseInt(e.target.value))}
                                 className="flex-1 h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-amber-500 hover:accent-amber-400"
@@ -137,7 +243,7 @@ export const TransportModal: React.FC<TransportModalProps> = ({ availableResourc
                     </div>
                 );
             })}
-            
+
             {availableResources.size === 0 && (
                 <div className="text-center py-8 text-slate-500 italic">
                     Нет доступных ресурсов, соединенных с транспортной сетью.
@@ -147,7 +253,7 @@ export const TransportModal: React.FC<TransportModalProps> = ({ availableResourc
 
         {/* Footer */}
         <div className="p-4 bg-slate-900 border-t border-slate-700 flex justify-end">
-            <button 
+            <button
                 onClick={() => onConfirm(allocations)}
                 className="flex items-center gap-2 px-6 py-3 bg-emerald-600 hover:bg-emerald-500 active:bg-emerald-700 text-white font-bold rounded shadow-lg transition-all border border-emerald-500/50"
             >
@@ -0,0 +1,40 @@
+import React from 'react';
+import { Landmark } from 'lucide-react';
+import { City } from '../../Entities/City';
+
+interface CitySelectorProps {
+    cities: City[];
+    activeId: string | null;
+    onSelect: (cityId: string) => void;
+    theme?: 'dark' | 'parchment';
+}
+
+// Tab row for switching between cities in modals. Hidden while there is only the capital.
+const CitySelector: React.FC<CitySelectorProps> = ({ cities, activeId, onSelect, theme = 'dark' }) => {
+    if (cities.length < 2) return null;
+
+    const base = theme === 'dark'
+        ? 'border-slate-700 text-slate-400 hover:text-white hover:bg-slate-800'
+        : 'border-[#cbbca0] text-[#8b5a2b] hover:bg-white/60';
+    const active = theme === 'dark'
+        ? 'border-amber-500 bg-amber-600/20 text-amber-100'
+        : 'border-[#8b5a2b] bg-[#8b5a2b] text-white';
+
+    return (
+        <div className="flex flex-wrap gap-2">
+            {cities.map((c, i) => (
+                <button
+                    key={c.id}
+                    onClick={() => onSelect(c.id)}
+                    className={`flex items-center gap-1 px-3 py-1 rounded border text-xs font-bold transition-colors ${c.id === activeId ? active : base}`}
+                    title={i === 0 ? 'Столица' : undefined}
+                >
+                    {i === 0 && <Landmark size={12} />}
+                    {c.name}
+                </button>
+            ))}
+        </div>
+    );
+};
+
+export default CitySelector;
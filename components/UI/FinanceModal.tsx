@@ -0,0 +1,188 @@
+import React, { useEffect } from 'react';
+import { X, Landmark, Coins, AlertTriangle, Banknote, ScrollText } from 'lucide-react';
+import { City } from '../../Entities/City';
+import { GameConfig } from '../../core/GameConfig';
+import { GameCommand } from '../../core/commands/Command';
+import { BorrowCommand, RepayDebtCommand } from '../../core/commands/TreasuryCommands';
+import { TreasurySystem, TreasuryState, DebtKind } from '../../core/systems/TreasurySystem';
+
+interface FinanceModalProps {
+    capital: City | null;
+    cities: City[];
+    treasury: TreasuryState | null;
+    onCommand: (command: GameCommand) => string | undefined;
+    onClose: () => void;
+}
+
+const KIND_LABELS: Record<DebtKind, string> = {
+    LOAN: 'Заём',
+    BOND: 'Облигации'
+};
+
+const formatMoney = (amount: number) => `${amount >= 0 ? '+' : '-'}$${Math.abs(amount)}`;
+
+const moneyColor = (amount: number) => amount > 0 ? 'text-emerald-400' : amount < 0 ? 'text-red-400' : 'text-slate-500';
+
+// Ministry of finance: tax estimate, outstanding debts, credit offers and the income history
+const FinanceModal: React.FC<FinanceModalProps> = ({ capital, cities, treasury, onCommand, onClose }) => {
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.code === 'Escape') {
+                e.preventDefault();
+                onClose();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    if (!treasury) return null;
+
+    const cash = capital?.cash ?? 0;
+    const taxes = cities.reduce((sum, c) => sum + TreasurySystem.getTax(c), 0);
+    const debtService = treasury.debts.reduce((sum, d) => sum + TreasurySystem.getPayment(d), 0);
+    const history = [...treasury.history].reverse();
+
+    const renderOffers = (kind: DebtKind, description: string) => (
+        <div className="bg-slate-900 border border-slate-700 rounded-lg p-3 flex flex-col gap-2">
+            <div className="text-slate-500 uppercase font-bold text-[10px]">{KIND_LABELS[kind]}</div>
+            <div className="text-[11px] text-slate-500 leading-tight">{description}</div>
+            {TreasurySystem.getOffers(kind).map((offer, i) => {
+                const error = TreasurySystem.canBorrow(treasury, capital, kind, i);
+                const payment = TreasurySystem.getPayment({ id: 0, kind, principal: offer.amount, interest: offer.interest, turns: offer.turns, turnsLeft: offer.turns });
+                return (
+                    <div key={i} className="flex items-center justify-between gap-2 bg-slate-800/60 rounded px-2 py-1.5">
+                        <div className="flex flex-col">
+                            <span className="font-mono font-bold text-amber-200">${offer.amount}</span>
+                            <span className="text-[10px] text-slate-400">
+                                {offer.turns} ход. · {Math.round(offer.interest * 100)}% · ${payment}/ход
+                            </span>
+                        </div>
+                        <button
+                            onClick={() => onCommand(new BorrowCommand(kind, i))}
+                            disabled={!!error}
+                            title={error || undefined}
+                            className="px-3 py-1 rounded bg-amber-700 hover:bg-amber-600 text-white text-[10px] font-bold uppercase disabled:opacity-40 disabled:cursor-not-allowed"
+                        >
+                            Взять
+                        </button>
+                    </div>
+                );
+            })}
+        </div>
+    );
+
+    return (
+        <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm animate-in fade-in duration-200">
+            <div className="w-[900px] max-h-[88vh] bg-slate-950 border border-slate-700 rounded-xl shadow-2xl flex flex-col overflow-hidden text-slate-200">
+                <div className="bg-slate-900 px-6 py-3 border-b border-slate-800 flex justify-between items-center">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 bg-yellow-600/20 rounded-lg border border-yellow-600/40">
+                            <Landmark className="text-yellow-500" size={20} />
+                        </div>
+                        <h2 className="text-amber-100 font-bold text-lg uppercase tracking-widest">Министерство финансов</h2>
+                    </div>
+                    <button onClick={onClose} className="text-slate-500 hover:text-white p-2 hover:bg-slate-800 rounded-full">
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className="p-6 overflow-y-auto flex flex-col gap-4 text-xs">
+                    <div className="grid grid-cols-3 gap-4">
+                        <div className="bg-slate-900 border border-slate-700 rounded-lg p-3">
+                            <div className="flex items-center gap-1 text-slate-500 uppercase font-bold text-[10px] mb-1"><Coins size={12} /> Казна</div>
+                            <div className={`font-mono font-bold text-xl ${cash < 0 ? 'text-red-400' : 'text-amber-300'}`}>${cash}</div>
+                        </div>
+                        <div className="bg-slate-900 border border-slate-700 rounded-lg p-3">
+                            <div className="flex items-center gap-1 text-slate-500 uppercase font-bold text-[10px] mb-1"><Banknote size={12} /> Налоги за ход</div>
+                            <div className="font-mono font-bold text-xl text-emerald-400">+${taxes}</div>
+                            <div className="text-[10px] text-slate-500">
+                                ${GameConfig.TREASURY.TAX_PER_WORKER.untrained} / ${GameConfig.TREASURY.TAX_PER_WORKER.trained} / ${GameConfig.TREASURY.TAX_PER_WORKER.expert} с рабочего по квалификации
+                            </div>
+                        </div>
+                        <div className="bg-slate-900 border border-slate-700 rounded-lg p-3">
+                            <div className="flex items-center gap-1 text-slate-500 uppercase font-bold text-[10px] mb-1"><ScrollText size={12} /> Платежи по долгам</div>
+                            <div className={`font-mono font-bold text-xl ${debtService > 0 ? 'text-red-400' : 'text-slate-500'}`}>-${debtService}</div>
+                            <div className="text-[10px] text-slate-500">Всего к погашению: ${TreasurySystem.getTotalPayoff(treasury)}</div>
+                        </div>
+                    </div>
+
+                    {treasury.bankruptTurns > 0 && (
+                        <div className="bg-red-950/60 border border-red-700 rounded-lg px-4 py-2 text-red-300 flex items-center gap-2">
+                            <AlertTriangle size={14} />
+                            {treasury.bankruptTurns > GameConfig.TREASURY.BANKRUPTCY_GRACE_TURNS
+                                ? 'Банкротство: кредиторы изымают товары столицы каждый ход, пока казна в минусе.'
+                                : `Казна в минусе ${treasury.bankruptTurns} ход. Через ${GameConfig.TREASURY.BANKRUPTCY_GRACE_TURNS - treasury.bankruptTurns + 1} ход. кредиторы начнут изымать товары.`}
+                        </div>
+                    )}
+
+                    <div className="bg-slate-900 border border-slate-700 rounded-lg overflow-hidden">
+                        <div className="grid grid-cols-[1fr_0.8fr_0.8fr_0.8fr_0.8fr_110px] gap-2 px-3 py-2 bg-slate-800/80 border-b border-slate-700 text-[10px] uppercase font-bold text-slate-500">
+                            <div>Долг</div>
+                            <div className="text-right">Сумма</div>
+                            <div className="text-right">Платёж</div>
+                            <div className="text-right">Осталось</div>
+                            <div className="text-right">Погасить</div>
+                            <div />
+                        </div>
+                        {treasury.debts.length === 0 && <div className="px-3 py-3 text-slate-600 italic">Долгов нет</div>}
+                        {treasury.debts.map(debt => {
+                            const payoff = TreasurySystem.getPayoff(debt);
+                            const error = TreasurySystem.canRepay(treasury, capital, debt.id);
+                            return (
+                                <div key={debt.id} className="grid grid-cols-[1fr_0.8fr_0.8fr_0.8fr_0.8fr_110px] gap-2 px-3 py-2 border-b border-slate-800 items-center">
+                                    <div className="text-slate-300">{KIND_LABELS[debt.kind]} №{debt.id} <span className="text-slate-500">({Math.round(debt.interest * 100)}%)</span></div>
+                                    <div className="text-right font-mono">${debt.principal}</div>
+                                    <div className="text-right font-mono text-red-400">${TreasurySystem.getPayment(debt)}</div>
+                                    <div className="text-right font-mono">{debt.turnsLeft} ход.</div>
+                                    <div className="text-right font-mono text-amber-200" title="Остаток долга и проценты за текущий ход">${payoff}</div>
+                                    <button
+                                        onClick={() => onCommand(new RepayDebtCommand(debt.id))}
+                                        disabled={!!error}
+                                        title={error || undefined}
+                                        className="px-2 py-1 rounded bg-emerald-700 hover:bg-emerald-600 text-white text-[10px] font-bold uppercase disabled:opacity-40 disabled:cursor-not-allowed"
+                                    >
+                                        Погасить
+                                    </button>
+                                </div>
+                            );
+                        })}
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                        {renderOffers('LOAN', 'Банк выдаёт сумму сразу; платёж с процентами равными долями каждый ход.')}
+                        {renderOffers('BOND', 'Каждый ход выплачивается купон, вся сумма возвращается в конце срока.')}
+                    </div>
+
+                    <div className="bg-slate-900 border border-slate-700 rounded-lg overflow-hidden">
+                        <div className="grid grid-cols-[0.6fr_repeat(7,1fr)] gap-2 px-3 py-2 bg-slate-800/80 border-b border-slate-700 text-[10px] uppercase font-bold text-slate-500">
+                            <div>Год</div>
+                            <div className="text-right">Налоги</div>
+                            <div className="text-right">Казна</div>
+                            <div className="text-right">Рынок</div>
+                            <div className="text-right">Содержание</div>
+                            <div className="text-right">Долги</div>
+                            <div className="text-right">Прочее</div>
+                            <div className="text-right">Итог</div>
+                        </div>
+                        {history.length === 0 && <div className="px-3 py-3 text-slate-600 italic">История появится после первого хода</div>}
+                        {history.map(r => (
+                            <div key={r.turn} className="grid grid-cols-[0.6fr_repeat(7,1fr)] gap-2 px-3 py-1.5 border-b border-slate-800 font-mono">
+                                <div className="text-slate-400">{r.year}</div>
+                                <div className={`text-right ${moneyColor(r.taxes)}`}>{formatMoney(r.taxes)}</div>
+                                <div className={`text-right ${moneyColor(r.conversion)}`}>{formatMoney(r.conversion)}</div>
+                                <div className={`text-right ${moneyColor(r.market)}`}>{formatMoney(r.market)}</div>
+                                <div className={`text-right ${moneyColor(r.upkeep)}`}>{formatMoney(r.upkeep)}</div>
+                                <div className={`text-right ${moneyColor(r.debt)}`}>{formatMoney(r.debt)}</div>
+                                <div className={`text-right ${moneyColor(r.other)}`}>{formatMoney(r.other)}</div>
+                                <div className={`text-right font-bold ${r.cashEnd < 0 ? 'text-red-400' : 'text-slate-200'}`}>${r.cashEnd}</div>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default FinanceModal;
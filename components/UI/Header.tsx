@@ -1,22 +1,36 @@
 
 import React from 'react';
-import { SkipForward, Wheat, Pickaxe, Axe, Box, Scroll, Coins, UserCheck, School, Anvil, Armchair, MapPin, Factory, Fish, Beef, Archive, Link2, Link2Off, TrendingUp, Image as ImageIcon, Monitor } from 'lucide-react';
+import { SkipForward, Wheat, Pickaxe, Axe, Box, Scroll, Coins, UserCheck, School, Anvil, Armchair, MapPin, Factory, Fish, Beef, Archive, Link2, Link2Off, TrendingUp, Image as ImageIcon, Monitor, Save, FolderOpen, Dices, Undo2, Redo2, FlaskConical, ClipboardList, Landmark, Layers, Thermometer, Network } from 'lucide-react';
 import { City } from '../../Entities/City';
-import { HoverInfo } from '../../core/Game';
+import { HoverInfo, MapMode } from '../../core/Game';
+import { CommandHistoryInfo } from '../../core/commands/CommandHistory';
 import { ResourceType, ImprovementType } from '../../Grid/GameMap';
-import { getResourceName, getTerrainName, getImprovementName } from '../../utils/Localization';
+import { getResourceName, getTerrainName, getImprovementName, getOwnerName } from '../../utils/Localization';
 
 interface HeaderProps {
     capital: City | null;
     hoverInfo: HoverInfo | null;
     year: number;
+    seed: number | null;
+    onNewGameClick: () => void;
     onUniversityClick: () => void;
     onIndustryClick: () => void;
+    onResearchClick: () => void;
+    onReportClick: () => void;
+    onFinanceClick: () => void;
     onEndTurnClick: (e: React.MouseEvent) => void;
     onAssetsClick: () => void;
+    onSaveClick: () => void;
+    onLoadClick: () => void;
+    historyInfo: CommandHistoryInfo | null;
+    onUndoClick: () => void;
+    onRedoClick: () => void;
+    mapMode: MapMode;
+    onMapModeClick: (mode: MapMode) => void;
+    onNetworkClick: () => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ capital, hoverInfo, year, onUniversityClick, onIndustryClick, onEndTurnClick, onAssetsClick }) => {
+const Header: React.FC<HeaderProps> = ({ capital, hoverInfo, year, seed, onNewGameClick, onUniversityClick, onIndustryClick, onResearchClick, onReportClick, onFinanceClick, onEndTurnClick, onAssetsClick, onSaveClick, onLoadClick, historyInfo, onUndoClick, onRedoClick, mapMode, onMapModeClick, onNetworkClick }) => {
     
     const ResourceItem = ({ type, icon: Icon, color }: { type: ResourceType, icon: any, color: string }) => {
         const count = capital?.inventory.get(type) || 0;
@@ -28,6 +42,8 @@ const Header: React.FC<HeaderProps> = ({ capital, hoverInfo, year, onUniversityC
         );
     };
 
+    const mapModeClass = (mode: MapMode) => `flex flex-col items-center justify-center w-10 h-10 rounded border transition-all ${mapMode === mode ? 'bg-amber-700/60 border-amber-500 text-amber-100' : 'bg-slate-800 hover:bg-slate-700 border-slate-600 text-slate-400 hover:text-white'}`;
+
     const renderYields = (yields: Map<ResourceType, number>) => {
         const items: React.ReactElement[] = [];
         yields.forEach((amount, type) => {
@@ -85,12 +101,17 @@ const Header: React.FC<HeaderProps> = ({ capital, hoverInfo, year, onUniversityC
                {hoverInfo && hoverInfo.tileData ? (
                  <div className="flex items-center gap-6 px-6 py-2 bg-slate-900/60 rounded-xl border border-slate-700/50 backdrop-blur-sm shadow-inner transition-all">
                     
-                    {/* Coords */}
+                    {/* Coords & Owner */}
                     <div className="flex items-center gap-2">
                        <MapPin size={16} className="text-slate-500"/>
-                       <span className="text-xs font-mono text-slate-400">
-                         {hoverInfo.hex.q}, {hoverInfo.hex.r}
-                       </span>
+                       <div className="flex flex-col items-start">
+                         <span className="text-xs font-mono text-slate-400 leading-none">
+                           {hoverInfo.hex.q}, {hoverInfo.hex.r}
+                         </span>
+                         <span className={`text-[10px] uppercase leading-none mt-1 ${hoverInfo.tileData.owner === 0 ? 'text-slate-500' : 'text-slate-300'}`}>
+                           {getOwnerName(hoverInfo.tileData.owner)}
+                         </span>
+                       </div>
                     </div>
                     
                     <div className="w-px h-6 bg-slate-700"></div>
@@ -118,6 +139,16 @@ const Header: React.FC<HeaderProps> = ({ capital, hoverInfo, year, onUniversityC
                                     </span>
                                 </span>
                                 {hoverInfo.yields && renderYields(hoverInfo.yields)}
+                                {hoverInfo.collector && !(hoverInfo.collector.q === hoverInfo.hex.q && hoverInfo.collector.r === hoverInfo.hex.r) && (
+                                    <span className="text-[10px] text-slate-400 font-mono leading-none mt-1">
+                                        Сбор: станция {hoverInfo.collector.q}, {hoverInfo.collector.r}
+                                    </span>
+                                )}
+                                {mapMode === 'HEATMAP' && hoverInfo.transportCost !== Infinity && (
+                                    <span className="text-[10px] text-slate-400 font-mono leading-none mt-1">
+                                        Путь до столицы: {hoverInfo.transportCost}
+                                    </span>
+                                )}
                             </div>
                             
                             {/* Connectivity Status */}
@@ -154,6 +185,66 @@ const Header: React.FC<HeaderProps> = ({ capital, hoverInfo, year, onUniversityC
                   <Monitor size={18} />
                </button>
 
+               <button 
+                 onClick={onSaveClick}
+                 className="flex flex-col items-center justify-center w-10 h-10 rounded bg-slate-800 hover:bg-slate-700 border border-slate-600 text-slate-400 hover:text-white transition-all"
+                 title="Сохранить игру"
+               >
+                  <Save size={18} />
+               </button>
+
+               <button 
+                 onClick={onLoadClick}
+                 className="flex flex-col items-center justify-center w-10 h-10 rounded bg-slate-800 hover:bg-slate-700 border border-slate-600 text-slate-400 hover:text-white transition-all"
+                 title="Загрузить игру"
+               >
+                  <FolderOpen size={18} />
+               </button>
+
+               <div className="w-px h-8 bg-slate-700 mx-2"></div>
+
+               <button 
+                 onClick={onUndoClick}
+                 disabled={!historyInfo?.canUndo}
+                 className="flex flex-col items-center justify-center w-10 h-10 rounded bg-slate-800 hover:bg-slate-700 border border-slate-600 text-slate-400 hover:text-white transition-all disabled:opacity-30 disabled:pointer-events-none"
+                 title={historyInfo?.undoLabel ? `Отменить: ${historyInfo.undoLabel} (Ctrl+Z)` : "Нечего отменять"}
+               >
+                  <Undo2 size={18} />
+               </button>
+
+               <button 
+                 onClick={onRedoClick}
+                 disabled={!historyInfo?.canRedo}
+                 className="flex flex-col items-center justify-center w-10 h-10 rounded bg-slate-800 hover:bg-slate-700 border border-slate-600 text-slate-400 hover:text-white transition-all disabled:opacity-30 disabled:pointer-events-none"
+                 title={historyInfo?.redoLabel ? `Повторить: ${historyInfo.redoLabel} (Ctrl+Y)` : "Нечего повторять"}
+               >
+                  <Redo2 size={18} />
+               </button>
+
+               <button 
+                 onClick={() => onMapModeClick('CATCHMENTS')}
+                 className={mapModeClass('CATCHMENTS')}
+                 title="Зоны сбора станций (красным — ваши клетки с добычей вне зон; ничейные клетки не отмечаются)"
+               >
+                  <Layers size={18} />
+               </button>
+
+               <button 
+                 onClick={() => onMapModeClick('HEATMAP')}
+                 className={mapModeClass('HEATMAP')}
+                 title="Стоимость перевозки до столицы (белым — узкие места сети)"
+               >
+                  <Thermometer size={18} />
+               </button>
+
+               <button 
+                 onClick={onNetworkClick}
+                 className="flex flex-col items-center justify-center w-10 h-10 rounded bg-slate-800 hover:bg-slate-700 border border-slate-600 text-slate-400 hover:text-white transition-all"
+                 title="Анализ сети"
+               >
+                  <Network size={18} />
+               </button>
+
                <div className="w-px h-8 bg-slate-700 mx-2"></div>
 
                <button 
@@ -173,12 +264,47 @@ const Header: React.FC<HeaderProps> = ({ capital, hoverInfo, year, onUniversityC
                   <School size={20} />
                   <span className="text-[9px] font-bold">ВУЗ</span>
                </button>
+
+               <button 
+                 onClick={onResearchClick}
+                 className="flex flex-col items-center justify-center w-12 h-12 rounded bg-teal-900/50 hover:bg-teal-800 border border-teal-500/30 text-teal-200 transition-all"
+                 title="Исследования"
+               >
+                  <FlaskConical size={20} />
+                  <span className="text-[9px] font-bold">НИР</span>
+               </button>
+
+               <button 
+                 onClick={onReportClick}
+                 className="flex flex-col items-center justify-center w-12 h-12 rounded bg-slate-700 hover:bg-slate-600 border border-slate-500/30 text-slate-200 transition-all"
+                 title="Итоги хода"
+               >
+                  <ClipboardList size={20} />
+                  <span className="text-[9px] font-bold">ОТЧ</span>
+               </button>
+
+               <button 
+                 onClick={onFinanceClick}
+                 className="flex flex-col items-center justify-center w-12 h-12 rounded bg-yellow-900/50 hover:bg-yellow-800 border border-yellow-500/30 text-yellow-200 transition-all"
+                 title="Финансы"
+               >
+                  <Landmark size={20} />
+                  <span className="text-[9px] font-bold">ФИН</span>
+               </button>
                
                <div className="w-px h-8 bg-slate-700 mx-2"></div>
 
                <div className="flex flex-col items-center px-2">
                  <span className="text-[10px] text-slate-400 uppercase tracking-wide leading-none mb-1">Год</span>
                  <span className="text-base font-mono font-bold text-white leading-none">{year} г.</span>
+                 <button
+                   onClick={onNewGameClick}
+                   className="flex items-center gap-1 mt-1 text-[9px] font-mono text-slate-500 hover:text-amber-300 transition-colors"
+                   title="Сид карты. Нажмите, чтобы начать новую игру с другим сидом"
+                 >
+                   <Dices size={10} />
+                   {seed ?? '—'}
+                 </button>
                </div>
 
               <button 
@@ -5,22 +5,45 @@ import {
     ArrowUpCircle, Wheat, Beef, Fish, Trees, Box, Pickaxe, Coins, 
     Gem, Droplet, Cloud, Flower, Scroll, Anchor, Shirt, Armchair, 
     Utensils, Sword, Settings, Zap, AlertTriangle, CheckCircle,
-    Grip
+    Grip, Store, Home, Flame, Crown, Lock, Warehouse, Smile, Frown, Ship
 } from 'lucide-react';
 import { City } from '../../Entities/City';
 import { ResourceType } from '../../Grid/GameMap';
-import { Economy } from '../../core/Economy';
-import { GameConfig } from '../../core/GameConfig';
-import { getResourceName } from '../../utils/Localization';
+import { GameCommand } from '../../core/commands/Command';
+import { ExpandBuildingCommand, ConstructBuildingCommand, RecruitWorkerCommand, ExpandHousingCommand, TrainWorkerCommand, BuildTransportCapacityCommand, BuildMerchantShipCommand, SetProductionGoalsCommand, ApplyProductionPlanCommand, SetRecipePriorityCommand, SetProductionTargetCommand } from '../../core/commands/CityCommands';
+import { PlaceMarketOrderCommand, CancelMarketOrderCommand } from '../../core/commands/MarketCommands';
+import { MarketState, MarketSide } from '../../core/systems/MarketSystem';
+import { GameConfig, ProductionGoal, RecipePriority, getInputTypes } from '../../core/GameConfig';
+import { PopulationSystem } from '../../core/systems/PopulationSystem';
+import { StorageSystem } from '../../core/systems/StorageSystem';
+import { HappinessSystem } from '../../core/systems/HappinessSystem';
+import { getResourceName, getTechName } from '../../utils/Localization';
+import CitySelector from './CitySelector';
+import MarketPanel from './MarketPanel';
+import PlannerPanel from './PlannerPanel';
+
+// Clicking the priority badge cycles NORMAL -> HIGH -> LOW
+const PRIORITY_CYCLE: Record<RecipePriority, { next: RecipePriority; text: string; color: string }> = {
+    NORMAL: { next: 'HIGH', text: 'Обычн.', color: 'text-slate-400 border-slate-600' },
+    HIGH: { next: 'LOW', text: 'Высок.', color: 'text-emerald-300 border-emerald-600' },
+    LOW: { next: 'NORMAL', text: 'Низк.', color: 'text-slate-500 border-slate-700' }
+};
 
 interface IndustryModalProps {
-    capital: City | null;
+    city: City | null;
+    cities: City[];
+    onSelectCity: (cityId: string) => void;
     onClose: () => void;
-    onAction: (actionFn: (city: City) => string | undefined) => string | undefined;
+    // Undoable economy actions (expand, recruit, train, transport)
+    onCommand: (command: GameCommand) => string | undefined;
+    market: MarketState | null;
+    // Researched technologies (some buildings need one before construction)
+    technologies?: Set<string>;
 }
 
-const IndustryModal: React.FC<IndustryModalProps> = ({ capital, onClose, onAction }) => {
+const IndustryModal: React.FC<IndustryModalProps> = ({ city, cities, onSelectCity, onClose, onCommand, market, technologies }) => {
     const [feedback, setFeedback] = useState<{msg: string, isError: boolean} | null>(null);
+    const [tab, setTab] = useState<'factories' | 'market'>('factories');
 
     // Auto-clear feedback
     useEffect(() => {
@@ -30,7 +53,7 @@ const IndustryModal: React.FC<IndustryModalProps> = ({ capital, onClose, onActio
         }
     }, [feedback]);
 
-    if (!capital) return null;
+    if (!city) return null;
 
     // Inline implementation of formatCost since it was removed from imports
     const formatCost = (cost: any): string => {
@@ -58,46 +81,68 @@ const IndustryModal: React.FC<IndustryModalProps> = ({ capital, onClose, onActio
     };
 
     const handleExpand = (building: string) => {
-        const msg = onAction((c) => Economy.expandBuilding(c, building));
+        const msg = onCommand(new ExpandBuildingCommand(city.id, building));
+        handleResult(msg);
+    };
+
+    const handleConstruct = (building: string) => {
+        const msg = onCommand(new ConstructBuildingCommand(city.id, building));
         handleResult(msg);
     };
 
     const handleRecruit = () => {
-        const msg = onAction((c) => Economy.recruitWorker(c));
+        const msg = onCommand(new RecruitWorkerCommand(city.id));
+        handleResult(msg);
+    };
+
+    const handleHousing = () => {
+        const msg = onCommand(new ExpandHousingCommand(city.id));
         handleResult(msg);
     };
 
     const handleTrain = (level: 'trained' | 'expert') => {
-        const msg = onAction((c) => Economy.trainWorker(c, level));
+        const msg = onCommand(new TrainWorkerCommand(city.id, level));
         handleResult(msg);
     };
 
     const handleTransportBuild = () => {
-        const msg = onAction((c) => Economy.buildTransportCapacity(c));
+        const msg = onCommand(new BuildTransportCapacityCommand(city.id));
         handleResult(msg);
     };
 
-    const handleTargetChange = (recipeName: string, val: number, buildingName: string) => {
-        onAction((c) => {
-            // Strictly enforce capacity constraints to prevent slider jitter/bugs
-            const buildingRecipes = GameConfig.ECONOMY.RECIPES.filter(r => r.building === buildingName);
-            let othersAssigned = 0;
-            
-            buildingRecipes.forEach(r => {
-                if (r.name !== recipeName) {
-                    othersAssigned += (c.productionTargets.get(r.name) || 0);
-                }
-            });
+    const handleFleetBuild = () => {
+        const msg = onCommand(new BuildMerchantShipCommand(city.id));
+        handleResult(msg);
+    };
 
-            const capacity = c.buildingLevels.get(buildingName) || 1;
-            const available = Math.max(0, capacity - othersAssigned);
-            
-            // Clamp value to what is physically available
-            const clampedVal = Math.min(Math.max(0, val), available);
-            
-            c.productionTargets.set(recipeName, clampedVal);
-            return undefined;
-        });
+    const handlePlaceOrder = (resource: ResourceType, side: MarketSide, amount: number) => {
+        const msg = onCommand(new PlaceMarketOrderCommand(city.id, resource, side, amount));
+        handleResult(msg);
+    };
+
+    const handleCancelOrder = (orderId: number) => {
+        const msg = onCommand(new CancelMarketOrderCommand(orderId));
+        handleResult(msg);
+    };
+
+    const handleGoalsChange = (goals: ProductionGoal[], autoPlan: boolean) => {
+        const msg = onCommand(new SetProductionGoalsCommand(city.id, goals, autoPlan));
+        handleResult(msg);
+    };
+
+    const handlePriority = (recipeName: string, priority: RecipePriority) => {
+        const msg = onCommand(new SetRecipePriorityCommand(city.id, recipeName, priority));
+        handleResult(msg);
+    };
+
+    const handleApplyPlan = () => {
+        const msg = onCommand(new ApplyProductionPlanCommand(city.id));
+        handleResult(msg);
+    };
+
+    const handleTargetChange = (recipeName: string, val: number) => {
+        const msg = onCommand(new SetProductionTargetCommand(city.id, recipeName, val));
+        handleResult(msg);
     };
 
     const recipes = GameConfig.ECONOMY.RECIPES;
@@ -108,12 +153,20 @@ const IndustryModal: React.FC<IndustryModalProps> = ({ capital, onClose, onActio
         buildingGroups.set(r.building, list);
     });
 
-    const totalLaborPoints = (capital.workforce.untrained * 1) + (capital.workforce.trained * 2) + (capital.workforce.expert * 4);
+    const housingCapacity = PopulationSystem.getHousingCapacity(city);
+    const storageCapacity = StorageSystem.getCapacity(city);
+    const warehouseName = GameConfig.STORAGE.WAREHOUSE;
+    const warehouseLevel = city.buildingLevels.get(warehouseName) || 0;
+    const housingFree = PopulationSystem.getFreeHousing(city);
+    const isContent = city.happiness >= GameConfig.HAPPINESS.NEUTRAL;
+    const formatEffect = (factor: number) => `${factor >= 1 ? '+' : ''}${Math.round((factor - 1) * 100)}%`;
+    const demandText = Array.from(HappinessSystem.getDemand(city).entries()).map(([type, amount]) => `${amount} ${getResourceName(type)}`).join(', ');
+    const totalLaborPoints = (city.workforce.untrained * 1) + (city.workforce.trained * 2) + (city.workforce.expert * 4);
     
     // Calculate labor currently used
     let laborUsed = 0;
     recipes.forEach(r => {
-        const allocated = capital.productionTargets.get(r.name) || 0;
+        const allocated = city.productionTargets.get(r.name) || 0;
         laborUsed += allocated * r.laborCost;
     });
     
@@ -124,7 +177,8 @@ const IndustryModal: React.FC<IndustryModalProps> = ({ capital, onClose, onActio
         ResourceType.WOOD, ResourceType.LUMBER, ResourceType.PAPER, ResourceType.FURNITURE,
         ResourceType.COAL, ResourceType.IRON, ResourceType.STEEL, ResourceType.ARMAMENTS,
         ResourceType.COTTON, ResourceType.WOOL, ResourceType.FABRIC, ResourceType.CLOTHING,
-        ResourceType.OIL, ResourceType.GOLD, ResourceType.GEMS, ResourceType.SPICE
+        ResourceType.OIL, ResourceType.FUEL, ResourceType.SPICE, ResourceType.LUXURY_GOODS,
+        ResourceType.GOLD, ResourceType.GEMS
     ];
 
     // --- Icon Helpers ---
@@ -153,17 +207,26 @@ const IndustryModal: React.FC<IndustryModalProps> = ({ capital, onClose, onActio
             case ResourceType.FURNITURE: return <Armchair {...props} className="text-amber-800" />;
             case ResourceType.CANNED_FOOD: return <Utensils {...props} className="text-red-300" />;
             case ResourceType.ARMAMENTS: return <Sword {...props} className="text-slate-200" />;
+            case ResourceType.FUEL: return <Flame {...props} className="text-orange-500" />;
+            case ResourceType.LUXURY_GOODS: return <Crown {...props} className="text-fuchsia-300" />;
             default: return <Package {...props} />;
         }
     };
 
     const renderResourceItem = (type: ResourceType) => {
-        const amount = capital.inventory.get(type) || 0;
+        const amount = city.inventory.get(type) || 0;
         const isLow = amount === 0;
+        const isFull = amount >= storageCapacity;
+        const spoilage = StorageSystem.getSpoilageRate(type);
         return (
-            <div key={type} className={`flex flex-col items-center justify-center p-2 rounded border min-h-[5.5rem] transition-colors ${isLow ? 'border-slate-800 bg-slate-900/50 text-slate-600' : 'border-slate-700 bg-slate-800/80'}`}>
+            <div
+                key={type}
+                title={spoilage > 0 ? `Портится ${Math.round(spoilage * 100)}% за ход` : undefined}
+                className={`relative flex flex-col items-center justify-center p-2 rounded border min-h-[5.5rem] transition-colors ${isLow ? 'border-slate-800 bg-slate-900/50 text-slate-600' : isFull ? 'border-orange-600/60 bg-slate-800/80' : 'border-slate-700 bg-slate-800/80'}`}
+            >
+                {spoilage > 0 && <span className="absolute top-1 right-1 w-1.5 h-1.5 rounded-full bg-lime-500" />}
                 {getResourceIcon(type, 18)}
-                <span className={`font-mono font-bold text-sm mt-1 leading-none ${isLow ? 'text-slate-700' : 'text-emerald-400'}`}>
+                <span className={`font-mono font-bold text-sm mt-1 leading-none ${isLow ? 'text-slate-700' : isFull ? 'text-orange-400' : 'text-emerald-400'}`}>
                     {amount}
                 </span>
                 <span className={`text-[10px] leading-tight mt-1 w-full text-center break-words whitespace-normal ${isLow ? 'text-slate-800' : 'text-slate-500'}`}>
@@ -197,6 +260,8 @@ const IndustryModal: React.FC<IndustryModalProps> = ({ capital, onClose, onActio
                             </div>
                         </div>
 
+                        <CitySelector cities={cities} activeId={city.id} onSelect={onSelectCity} />
+
                         {/* Top Stats */}
                         <div className="h-8 w-px bg-slate-700 mx-2"></div>
                         
@@ -210,18 +275,40 @@ const IndustryModal: React.FC<IndustryModalProps> = ({ capital, onClose, onActio
 
                             <div className="flex items-center gap-2" title="Транспортные вагоны">
                                 <TrainFront size={16} className="text-slate-400"/>
-                                <span className="text-xl font-mono font-bold text-amber-400">{capital.transportCapacity}</span>
+                                <span className="text-xl font-mono font-bold text-amber-400">{city.transportCapacity}</span>
+                            </div>
+
+                            <div className="flex items-center gap-2" title="Торговый флот (трюм)">
+                                <Ship size={16} className="text-slate-400"/>
+                                <span className="text-xl font-mono font-bold text-sky-400">{city.fleetCapacity}</span>
+                            </div>
+
+                            <div className="flex items-center gap-2" title="Население / Жильё">
+                                <Home size={16} className="text-slate-400"/>
+                                <span className={`text-xl font-mono font-bold ${housingFree > 0 ? 'text-sky-300' : 'text-orange-400'}`}>
+                                    {city.population} <span className="text-slate-600 text-sm">/ {housingCapacity}</span>
+                                </span>
+                            </div>
+
+                            <div
+                                className="flex items-center gap-2"
+                                title={`Настроение: труд ${formatEffect(HappinessSystem.getLaborFactor(city))}, рождаемость ${formatEffect(HappinessSystem.getGrowthFactor(city))}. Спрос за ход: ${demandText || '—'}`}
+                            >
+                                {isContent ? <Smile size={16} className="text-slate-400"/> : <Frown size={16} className="text-slate-400"/>}
+                                <span className={`text-xl font-mono font-bold ${city.happiness < GameConfig.HAPPINESS.UNREST ? 'text-red-400' : isContent ? 'text-emerald-400' : 'text-amber-400'}`}>
+                                    {Math.round(city.happiness)}
+                                </span>
                             </div>
 
                             <div className="flex gap-2">
                                 <span className="px-2 py-0.5 rounded bg-slate-800 border border-slate-700 text-xs text-slate-400">
-                                    Необ: <b className="text-white">{capital.workforce.untrained}</b>
+                                    Необ: <b className="text-white">{city.workforce.untrained}</b>
                                 </span>
                                 <span className="px-2 py-0.5 rounded bg-slate-800 border border-slate-700 text-xs text-slate-300">
-                                    Спец: <b className="text-white">{capital.workforce.trained}</b>
+                                    Спец: <b className="text-white">{city.workforce.trained}</b>
                                 </span>
                                 <span className="px-2 py-0.5 rounded bg-slate-800 border border-slate-700 text-xs text-amber-200">
-                                    Эксп: <b className="text-white">{capital.workforce.expert}</b>
+                                    Эксп: <b className="text-white">{city.workforce.expert}</b>
                                 </span>
                             </div>
                         </div>
@@ -251,28 +338,50 @@ const IndustryModal: React.FC<IndustryModalProps> = ({ capital, onClose, onActio
                                 title={`Построить вагоны (${formatCost(GameConfig.ECONOMY.TRANSPORT.BUILD_COST)})`}
                                 className="flex items-center justify-center gap-2 bg-slate-800 hover:bg-slate-700 text-slate-200 py-2 rounded border border-slate-600 text-xs font-bold transition-all"
                              >
-                                <TrainFront size={14} /> +5 Вагонов
+                                <TrainFront size={14} /> +{GameConfig.ECONOMY.TRANSPORT.CAPACITY_INCREASE} Вагонов
                              </button>
                              <button 
                                 onClick={() => handleTrain('trained')}
-                                title={`Обучить специалиста (${formatCost(GameConfig.ECONOMY.WORKER.TRAIN_TRAINED_COST)})`}
+                                title={`Обучить специалиста за ${GameConfig.UNIVERSITY.WORKER_TURNS.trained} ход. (${formatCost(GameConfig.ECONOMY.WORKER.TRAIN_TRAINED_COST)})`}
                                 className="flex items-center justify-center gap-2 bg-emerald-900/40 hover:bg-emerald-800/60 text-emerald-200 py-2 rounded border border-emerald-500/30 text-xs font-bold transition-all"
                              >
                                 <ArrowUpCircle size={14} /> Спец.
                              </button>
                              <button 
                                 onClick={() => handleTrain('expert')}
-                                title={`Обучить эксперта (${formatCost(GameConfig.ECONOMY.WORKER.TRAIN_EXPERT_COST)})`}
+                                title={`Обучить эксперта за ${GameConfig.UNIVERSITY.WORKER_TURNS.expert} ход. (${formatCost(GameConfig.ECONOMY.WORKER.TRAIN_EXPERT_COST)})`}
                                 className="flex items-center justify-center gap-2 bg-amber-900/40 hover:bg-amber-800/60 text-amber-200 py-2 rounded border border-amber-500/30 text-xs font-bold transition-all"
                              >
                                 <ArrowUpCircle size={14} /> Эксперт
                              </button>
+                             <button 
+                                onClick={handleHousing}
+                                title={`Построить жильё на ${GameConfig.POPULATION.HOUSING_PER_LEVEL} чел. (${formatCost(GameConfig.POPULATION.HOUSING_UPGRADE)})`}
+                                className="col-span-2 flex items-center justify-center gap-2 bg-sky-900/40 hover:bg-sky-800/60 text-sky-200 py-2 rounded border border-sky-500/30 text-xs font-bold transition-all"
+                             >
+                                <Home size={14} /> Жильё (Ур. {city.housingLevel})
+                             </button>
+                             <button 
+                                onClick={() => warehouseLevel > 0 ? handleExpand(warehouseName) : handleConstruct(warehouseName)}
+                                title={`${warehouseLevel > 0 ? 'Расширить склад' : 'Построить склад'} на ${GameConfig.STORAGE.CAPACITY_PER_LEVEL} ед. каждого товара (${formatCost(warehouseLevel > 0 ? GameConfig.ECONOMY.EXPANSION.COST : GameConfig.ECONOMY.BUILDINGS[warehouseName].cost)})`}
+                                className="col-span-2 flex items-center justify-center gap-2 bg-stone-800/60 hover:bg-stone-700/60 text-stone-200 py-2 rounded border border-stone-500/30 text-xs font-bold transition-all"
+                             >
+                                <Warehouse size={14} /> Склад (Ур. {warehouseLevel})
+                             </button>
+                             <button 
+                                onClick={handleFleetBuild}
+                                title={`Построить торговое судно для перевозок по морю (${formatCost(GameConfig.ECONOMY.FLEET.BUILD_COST)})`}
+                                className="col-span-2 flex items-center justify-center gap-2 bg-cyan-900/40 hover:bg-cyan-800/60 text-cyan-200 py-2 rounded border border-cyan-500/30 text-xs font-bold transition-all"
+                             >
+                                <Ship size={14} /> +{GameConfig.ECONOMY.FLEET.CARGO_PER_SHIP} Трюм
+                             </button>
                         </div>
 
                         {/* Resource Grid */}
                         <div className="flex-1 overflow-y-auto custom-scrollbar p-3">
                             <h3 className="text-[10px] font-bold text-slate-500 uppercase mb-2 px-1 flex items-center gap-2">
                                 <Grip size={12} /> Склад Ресурсов
+                                <span className="ml-auto normal-case font-normal">до {storageCapacity} ед. каждого</span>
                             </h3>
                             {/* Switched to 3 columns to allow more space for Russian labels */}
                             <div className="grid grid-cols-3 gap-2">
@@ -281,19 +390,57 @@ const IndustryModal: React.FC<IndustryModalProps> = ({ capital, onClose, onActio
                         </div>
                     </div>
 
-                    {/* Right Panel: Factories */}
+                    {/* Right Panel: Factories / Market */}
                     <div className="flex-1 bg-black/20 p-6 overflow-y-auto custom-scrollbar">
+                        <div className="flex gap-2 mb-4">
+                            <button
+                                onClick={() => setTab('factories')}
+                                className={`flex items-center gap-2 px-3 py-1 rounded border text-xs font-bold transition-colors ${tab === 'factories' ? 'border-amber-500 bg-amber-600/20 text-amber-100' : 'border-slate-700 text-slate-400 hover:text-white hover:bg-slate-800'}`}
+                            >
+                                <Factory size={14} /> Заводы
+                            </button>
+                            <button
+                                onClick={() => setTab('market')}
+                                className={`flex items-center gap-2 px-3 py-1 rounded border text-xs font-bold transition-colors ${tab === 'market' ? 'border-amber-500 bg-amber-600/20 text-amber-100' : 'border-slate-700 text-slate-400 hover:text-white hover:bg-slate-800'}`}
+                            >
+                                <Store size={14} /> Рынок
+                            </button>
+                        </div>
+
+                        {tab === 'market' && (
+                            <MarketPanel
+                                city={city}
+                                market={market}
+                                renderIcon={getResourceIcon}
+                                onPlace={handlePlaceOrder}
+                                onCancel={handleCancelOrder}
+                            />
+                        )}
+
+                        {tab === 'factories' && (
+                            <PlannerPanel
+                                city={city}
+                                resources={allResources}
+                                renderIcon={getResourceIcon}
+                                onChange={handleGoalsChange}
+                                onApply={handleApplyPlan}
+                            />
+                        )}
+
+                        {tab === 'factories' && (
                         <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
                             
                             {Array.from(buildingGroups.entries()).map(([buildingName, recipes]) => {
-                                const capacity = capital.buildingLevels.get(buildingName) || 1;
+                                const capacity = city.buildingLevels.get(buildingName) || 0;
+                                const definition = GameConfig.ECONOMY.BUILDINGS[buildingName];
+                                const lockedBy = definition?.tech && !technologies?.has(definition.tech) ? definition.tech : null;
                                 let totalAssigned = 0;
                                 recipes.forEach(r => {
-                                    totalAssigned += (capital.productionTargets.get(r.name) || 0);
+                                    totalAssigned += (city.productionTargets.get(r.name) || 0);
                                 });
 
                                 // Get Unique Outputs for Icon Display
-                                const uniqueOutputs = Array.from(new Set(recipes.map(r => r.output)));
+                                const uniqueOutputs = Array.from(new Set(recipes.flatMap(r => r.outputs.map(o => o.type))));
 
                                 return (
                                     <div key={buildingName} className="bg-slate-900 border border-slate-700 rounded-lg overflow-hidden shadow-sm flex flex-col">
@@ -312,6 +459,7 @@ const IndustryModal: React.FC<IndustryModalProps> = ({ capital, onClose, onActio
                                                 </div>
                                             </div>
 
+                                            {capacity > 0 && (
                                             <div className="flex items-center gap-2 shrink-0">
                                                 <div className={`text-xs font-mono font-bold ${totalAssigned > capacity ? 'text-red-400' : 'text-emerald-400'}`}>
                                                     {totalAssigned}/{capacity}
@@ -324,36 +472,63 @@ const IndustryModal: React.FC<IndustryModalProps> = ({ capital, onClose, onActio
                                                     <Plus size={14} />
                                                 </button>
                                             </div>
+                                            )}
                                         </div>
 
+                                        {/* Not built yet: construction instead of recipes */}
+                                        {capacity === 0 && (
+                                            <div className="p-3 flex-1 flex flex-col items-center justify-center gap-2 text-xs">
+                                                <span className="text-slate-500 italic">Не построено</span>
+                                                {lockedBy && (
+                                                    <span className="text-red-400 flex items-center gap-1"><Lock size={12} /> Требуется: {getTechName(lockedBy)}</span>
+                                                )}
+                                                <button
+                                                    onClick={() => handleConstruct(buildingName)}
+                                                    disabled={!!lockedBy || !definition}
+                                                    className="flex items-center gap-2 px-3 py-1 rounded border border-amber-500/40 bg-amber-900/30 hover:bg-amber-800/60 text-amber-200 font-bold disabled:opacity-40 disabled:cursor-not-allowed"
+                                                >
+                                                    <Hammer size={12} /> Построить
+                                                </button>
+                                                {definition && <span className="text-slate-500">{formatCost(definition.cost)}</span>}
+                                            </div>
+                                        )}
+
                                         {/* Recipes List */}
+                                        {capacity > 0 && (
                                         <div className="p-2 space-y-2 flex-1">
                                             {recipes.map(recipe => {
-                                                const currentTarget = capital.productionTargets.get(recipe.name) || 0;
+                                                const currentTarget = city.productionTargets.get(recipe.name) || 0;
                                                 
                                                 // Dynamic Max Logic
                                                 // We can use any remaining capacity in the building.
                                                 // The current recipe's allocation is also "available" to be re-allocated to itself.
                                                 const remainingBuildingCap = capacity - (totalAssigned - currentTarget);
                                                 const dynamicMax = Math.max(currentTarget, remainingBuildingCap);
+                                                const priority = PRIORITY_CYCLE[city.getRecipePriority(recipe.name)];
 
                                                 return (
                                                     <div key={recipe.name} className="bg-slate-950/40 p-2 rounded border border-slate-800/50">
                                                         <div className="flex justify-between items-center mb-1">
                                                             <div className="text-xs text-amber-100 font-medium truncate">{recipe.name}</div>
+                                                            <button
+                                                                onClick={() => handlePriority(recipe.name, priority.next)}
+                                                                className={`shrink-0 px-1.5 rounded border text-[9px] font-bold uppercase hover:bg-slate-800 ${priority.color}`}
+                                                                title="Приоритет при нехватке рабочих и сырья"
+                                                            >
+                                                                {priority.text}
+                                                            </button>
                                                         </div>
 
                                                         {/* Requirements Row */}
                                                         <div className="flex items-center gap-2 mb-2 overflow-hidden">
                                                             {recipe.inputs.map((input, idx) => {
-                                                                const stock = capital.inventory.get(input.type) || 0;
-                                                                const altStock = input.alternative ? (capital.inventory.get(input.alternative) || 0) : 0;
-                                                                const totalStock = stock + altStock;
+                                                                const types = getInputTypes(input);
+                                                                const totalStock = types.reduce((sum, type) => sum + (city.inventory.get(type) || 0), 0);
                                                                 // Check if we have enough for the *current* target setting
                                                                 const hasEnough = totalStock >= (input.amount * Math.max(1, currentTarget));
                                                                 return (
-                                                                    <div key={idx} className="flex items-center gap-0.5" title={`Req: ${input.amount} ${getResourceName(input.type)}`}>
-                                                                        {getResourceIcon(input.type, 12)}
+                                                                    <div key={idx} className="flex items-center gap-0.5" title={`Req: ${input.amount} ${types.map(getResourceName).join(' / ')}`}>
+                                                                        {types.map(type => <React.Fragment key={type}>{getResourceIcon(type, 12)}</React.Fragment>)}
                                                                         <span className={`text-[10px] font-mono ${hasEnough ? 'text-slate-400' : 'text-red-400'}`}>{input.amount}</span>
                                                                     </div>
                                                                 );
@@ -363,6 +538,13 @@ const IndustryModal: React.FC<IndustryModalProps> = ({ capital, onClose, onActio
                                                                 <User size={12} className="text-blue-400" />
                                                                 <span className="text-[10px] text-slate-400">-{recipe.laborCost}</span>
                                                             </div>
+                                                            <ArrowRight size={10} className="text-slate-600" />
+                                                            {recipe.outputs.map((output, idx) => (
+                                                                <div key={output.type} className="flex items-center gap-0.5" title={`${idx === 0 ? 'Out' : 'By-product'}: ${output.amount} ${getResourceName(output.type)}`}>
+                                                                    {getResourceIcon(output.type, 12)}
+                                                                    <span className={`text-[10px] font-mono ${idx === 0 ? 'text-emerald-400' : 'text-slate-500'}`}>+{output.amount}</span>
+                                                                </div>
+                                                            ))}
                                                         </div>
 
                                                         {/* Slider */}
@@ -372,7 +554,7 @@ const IndustryModal: React.FC<IndustryModalProps> = ({ capital, onClose, onActio
                                                                 min="0"
                                                                 max={dynamicMax}
                                                                 value={currentTarget}
-                                                                onChange={(e) => handleTargetChange(recipe.name, parseInt(e.target.value), buildingName)}
+                                                                onChange={(e) => handleTargetChange(recipe.name, parseInt(e.target.value))}
                                                                 className="flex-1 h-1.5 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-amber-500 hover:accent-amber-400"
                                                                 disabled={dynamicMax === 0 && currentTarget === 0}
                                                             />
@@ -384,10 +566,12 @@ const IndustryModal: React.FC<IndustryModalProps> = ({ capital, onClose, onActio
                                                 );
                                             })}
                                         </div>
+                                        )}
                                     </div>
                                 );
                             })}
                         </div>
+                        )}
                     </div>
                 </div>
             </div>
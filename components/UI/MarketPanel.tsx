@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { TrendingUp, TrendingDown, X, Coins, Store } from 'lucide-react';
+import { City } from '../../Entities/City';
+import { ResourceType } from '../../Grid/GameMap';
+import { MarketSystem, MarketState, MarketSide } from '../../core/systems/MarketSystem';
+import { GameConfig } from '../../core/GameConfig';
+import { getResourceName } from '../../utils/Localization';
+
+interface MarketPanelProps {
+    city: City;
+    market: MarketState | null;
+    renderIcon: (type: ResourceType, size?: number) => React.ReactNode;
+    onPlace: (resource: ResourceType, side: MarketSide, amount: number) => void;
+    onCancel: (orderId: number) => void;
+}
+
+const DEFAULT_AMOUNT = 10;
+
+// Small price history line; green when the last price is above the first
+const Sparkline: React.FC<{ values: number[] }> = ({ values }) => {
+    const width = 120;
+    const height = 28;
+    if (values.length < 2) {
+        return <svg width={width} height={height}><line x1={0} y1={height / 2} x2={width} y2={height / 2} stroke="#475569" strokeDasharray="2 2" /></svg>;
+    }
+
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    const range = max - min || 1;
+    const points = values.map((v, i) => {
+        const x = (i / (values.length - 1)) * width;
+        const y = height - 2 - ((v - min) / range) * (height - 4);
+        return `${x.toFixed(1)},${y.toFixed(1)}`;
+    }).join(' ');
+    const rising = values[values.length - 1] >= values[0];
+
+    return (
+        <svg width={width} height={height}>
+            <polyline points={points} fill="none" stroke={rising ? '#34d399' : '#f87171'} strokeWidth={1.5} />
+        </svg>
+    );
+};
+
+// World market tab of the Industry modal: prices, history and this city's orders for the next turn
+const MarketPanel: React.FC<MarketPanelProps> = ({ city, market, renderIcon, onPlace, onCancel }) => {
+    const [amounts, setAmounts] = useState<Record<number, number>>({});
+
+    if (!market) return null;
+
+    const resources = MarketSystem.getTradedResources();
+    const cityOrders = market.orders.filter(o => o.cityId === city.id);
+
+    return (
+        <div className="flex flex-col gap-3">
+            <div className="flex items-center justify-between">
+                <h3 className="text-xs font-bold text-slate-400 uppercase flex items-center gap-2">
+                    <Store size={14} /> Мировой рынок
+                </h3>
+                <div className="flex items-center gap-4 text-xs text-slate-500">
+                    <span>Заявки исполняются в конце хода. Продажа — {Math.round(GameConfig.MARKET.SELL_RATIO * 100)}% цены.</span>
+                    <span className="flex items-center gap-1 text-amber-300 font-mono font-bold text-sm">
+                        <Coins size={14} /> ${city.cash}
+                    </span>
+                </div>
+            </div>
+
+            <div className="bg-slate-900 border border-slate-700 rounded-lg overflow-hidden">
+                <div className="grid grid-cols-[1.6fr_0.6fr_0.8fr_0.7fr_130px_1.8fr] gap-2 px-3 py-2 bg-slate-800/80 border-b border-slate-700 text-[10px] uppercase font-bold text-slate-500">
+                    <div>Товар</div>
+                    <div className="text-right">Склад</div>
+                    <div className="text-right">Купить / Продать</div>
+                    <div className="text-right">Изм.</div>
+                    <div>История</div>
+                    <div>Заявка</div>
+                </div>
+
+                {resources.map(type => {
+                    const history = market.history[type] || [];
+                    const previous = history.length > 1 ? history[history.length - 2] : history[0];
+                    const price = market.prices[type];
+                    const change = previous ? ((price - previous) / previous) * 100 : 0;
+                    const stock = city.inventory.get(type) || 0;
+                    const order = cityOrders.find(o => o.resource === type);
+                    const amount = amounts[type] ?? DEFAULT_AMOUNT;
+
+                    return (
+                        <div key={type} className="grid grid-cols-[1.6fr_0.6fr_0.8fr_0.7fr_130px_1.8fr] gap-2 px-3 py-1.5 items-center border-b border-slate-800/60 text-xs hover:bg-slate-800/40">
+                            <div className="flex items-center gap-2 text-slate-200 font-medium">
+                                {renderIcon(type, 14)}
+                                {getResourceName(type)}
+                            </div>
+                            <div className={`text-right font-mono ${stock > 0 ? 'text-emerald-400' : 'text-slate-600'}`}>{stock}</div>
+                            <div className="text-right font-mono text-slate-200">
+                                ${MarketSystem.getBuyPrice(market, type)} <span className="text-slate-500">/ ${MarketSystem.getSellPrice(market, type)}</span>
+                            </div>
+                            <div className={`text-right font-mono flex items-center justify-end gap-1 ${change > 0.05 ? 'text-emerald-400' : change < -0.05 ? 'text-red-400' : 'text-slate-500'}`}>
+                                {change > 0.05 && <TrendingUp size={12} />}
+                                {change < -0.05 && <TrendingDown size={12} />}
+                                {change.toFixed(1)}%
+                            </div>
+                            <div title={`Последние ${history.length} ходов`}>
+                                <Sparkline values={history} />
+                            </div>
+                            <div className="flex items-center gap-1">
+                                {order ? (
+                                    <>
+                                        <span className={`px-2 py-0.5 rounded border font-bold ${order.side === 'BUY' ? 'border-sky-500/50 bg-sky-900/40 text-sky-200' : 'border-amber-500/50 bg-amber-900/40 text-amber-200'}`}>
+                                            {order.side === 'BUY' ? 'Покупка' : 'Продажа'}: {order.amount}
+                                        </span>
+                                        <button onClick={() => onCancel(order.id)} className="p-1 text-slate-500 hover:text-white hover:bg-slate-700 rounded" title="Отменить заявку">
+                                            <X size={12} />
+                                        </button>
+                                    </>
+                                ) : (
+                                    <>
+                                        <input
+                                            type="number"
+                                            min={1}
+                                            value={amount}
+                                            onChange={(e) => setAmounts({ ...amounts, [type]: Math.max(1, parseInt(e.target.value) || 1) })}
+                                            className="w-14 bg-slate-800 border border-slate-600 rounded px-1 py-0.5 font-mono text-white"
+                                        />
+                                        <button
+                                            onClick={() => onPlace(type, 'BUY', amount)}
+                                            className="px-2 py-0.5 rounded border border-sky-500/40 bg-sky-900/30 hover:bg-sky-800/60 text-sky-200 font-bold"
+                                        >
+                                            Купить
+                                        </button>
+                                        <button
+                                            onClick={() => onPlace(type, 'SELL', amount)}
+                                            disabled={stock === 0}
+                                            className="px-2 py-0.5 rounded border border-amber-500/40 bg-amber-900/30 hover:bg-amber-800/60 text-amber-200 font-bold disabled:opacity-30"
+                                        >
+                                            Продать
+                                        </button>
+                                    </>
+                                )}
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+export default MarketPanel;
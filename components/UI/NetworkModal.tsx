@@ -0,0 +1,110 @@
+import React, { useEffect } from 'react';
+import { X, Network, AlertTriangle, Link2Off } from 'lucide-react';
+import { Hex } from '../../Grid/HexMath';
+import { NetworkReport } from '../../Logistics/NetworkAnalysis';
+import { formatCost, getImprovementName } from '../../utils/Localization';
+
+interface NetworkModalProps {
+    report: NetworkReport | null;
+    onClose: () => void;
+}
+
+const formatHex = (hex: Hex) => `${hex.q}, ${hex.r}`;
+
+// Network analysis: tiles the network hangs on and the cheapest way to connect idle improvements
+const NetworkModal: React.FC<NetworkModalProps> = ({ report, onClose }) => {
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.code === 'Escape') {
+                e.preventDefault();
+                onClose();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    if (!report) return null;
+
+    return (
+        <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm animate-in fade-in duration-200">
+            <div className="w-[760px] max-h-[88vh] bg-slate-950 border border-slate-700 rounded-xl shadow-2xl flex flex-col overflow-hidden text-slate-200">
+                <div className="bg-slate-900 px-6 py-3 border-b border-slate-800 flex justify-between items-center">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 bg-sky-600/20 rounded-lg border border-sky-600/40">
+                            <Network className="text-sky-400" size={20} />
+                        </div>
+                        <h2 className="text-amber-100 font-bold text-lg uppercase tracking-widest">Анализ сети</h2>
+                    </div>
+                    <button onClick={onClose} className="text-slate-500 hover:text-white p-2 hover:bg-slate-800 rounded-full">
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className="p-6 overflow-y-auto flex flex-col gap-4 text-xs">
+                    <div className="bg-slate-900 border border-slate-700 rounded-lg overflow-hidden">
+                        <div className="flex items-center gap-2 px-3 py-2 bg-slate-800/80 border-b border-slate-700 text-[10px] uppercase font-bold text-slate-400">
+                            <AlertTriangle size={12} /> Узкие места
+                            <span className="normal-case font-normal text-slate-500">— без этих клеток станции теряют связь со столицей</span>
+                        </div>
+                        <div className="grid grid-cols-[0.6fr_1fr_2fr] gap-2 px-3 py-1.5 border-b border-slate-800 text-[10px] uppercase font-bold text-slate-500">
+                            <div>Клетка</div>
+                            <div>Постройка</div>
+                            <div>Отрезанные станции</div>
+                        </div>
+                        {report.articulationPoints.length === 0 && <div className="px-3 py-3 text-slate-600 italic">Узких мест нет</div>}
+                        {report.articulationPoints.map(point => (
+                            <div key={formatHex(point.hex)} className="grid grid-cols-[0.6fr_1fr_2fr] gap-2 px-3 py-1.5 border-b border-slate-800 items-center">
+                                <div className="font-mono text-slate-300">{formatHex(point.hex)}</div>
+                                <div className="text-slate-300">{getImprovementName(point.improvement)}</div>
+                                <div className="font-mono">
+                                    <span className="text-red-400 font-bold mr-2">{point.stranded.length}</span>
+                                    <span className="text-slate-500">{point.stranded.map(formatHex).join('; ')}</span>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="bg-slate-900 border border-slate-700 rounded-lg overflow-hidden">
+                        <div className="flex items-center gap-2 px-3 py-2 bg-slate-800/80 border-b border-slate-700 text-[10px] uppercase font-bold text-slate-400">
+                            <Link2Off size={12} /> Без подключения
+                            <span className="normal-case font-normal text-slate-500">— на вашей земле, ни одна станция не собирает их добычу</span>
+                        </div>
+                        <div className="grid grid-cols-[0.6fr_1fr_1.6fr_1.2fr] gap-2 px-3 py-1.5 border-b border-slate-800 text-[10px] uppercase font-bold text-slate-500">
+                            <div>Клетка</div>
+                            <div>Постройка</div>
+                            <div>Дешевле всего</div>
+                            <div className="text-right">Стоимость</div>
+                        </div>
+                        {report.unconnected.length === 0 && <div className="px-3 py-3 text-slate-600 italic">Все постройки подключены</div>}
+                        {report.unconnected.map(item => (
+                            <div key={formatHex(item.hex)} className="grid grid-cols-[0.6fr_1fr_1.6fr_1.2fr] gap-2 px-3 py-1.5 border-b border-slate-800 items-center">
+                                <div className="font-mono text-slate-300">{formatHex(item.hex)}</div>
+                                <div className="text-slate-300">{getImprovementName(item.improvement)}</div>
+                                {item.route ? (
+                                    <>
+                                        <div className="text-slate-400">
+                                            {item.route.roads.length > 0 && <span>Дорога: {item.route.roads.length} кл. </span>}
+                                            {item.route.depot
+                                                ? <span>Депо на {formatHex(item.route.depot)}</span>
+                                                : <span>к станции {formatHex(item.route.station)}</span>}
+                                        </div>
+                                        <div className="text-right font-mono text-amber-200">{formatCost(item.route.cost)}</div>
+                                    </>
+                                ) : (
+                                    <div className="col-span-2 text-red-400">Нет пути по своей земле</div>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="text-[10px] text-slate-500">
+                        Тепловая карта на панели сверху показывает стоимость перевозки до столицы; узкие места обведены белым.
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default NetworkModal;
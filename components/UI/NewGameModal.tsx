@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from 'react';
+import { X, Dices, BookOpen, Upload, AlertTriangle, Play } from 'lucide-react';
+import { RuleSetData } from '../../core/rules/RuleSet';
+import { RuleSystem } from '../../core/systems/RuleSystem';
+import { createRandomSeed } from '../../utils/Random';
+
+interface NewGameModalProps {
+    onStart: (seed: number, rules: RuleSetData) => void;
+    onClose: () => void;
+}
+
+// New game setup: world seed and the rule-set to play with (built-in or a JSON file)
+const NewGameModal: React.FC<NewGameModalProps> = ({ onStart, onClose }) => {
+    const [seedInput, setSeedInput] = useState('');
+    const [ruleSets, setRuleSets] = useState<RuleSetData[]>(RuleSystem.BUILT_IN);
+    const [selected, setSelected] = useState<RuleSetData>(RuleSystem.getActive());
+    const [errors, setErrors] = useState<string[]>([]);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.code === 'Escape') {
+                e.preventDefault();
+                onClose();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        const { rules, errors } = RuleSystem.load(await file.text());
+        setErrors(errors);
+        if (!rules) return;
+        setRuleSets(list => [...list.filter(r => r.name !== rules.name), rules]);
+        setSelected(rules);
+    };
+
+    const handleStart = () => {
+        let seed = createRandomSeed();
+        if (seedInput.trim() !== '') {
+            const parsed = parseInt(seedInput.trim(), 10);
+            if (!Number.isFinite(parsed) || parsed <= 0) {
+                setErrors(["Ошибка: сид должен быть положительным числом."]);
+                return;
+            }
+            seed = parsed >>> 0;
+        }
+        onStart(seed, selected);
+    };
+
+    // The active rule-set may be a custom one from a loaded save
+    const options = ruleSets.includes(selected) ? ruleSets : [...ruleSets, selected];
+
+    return (
+        <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm animate-in fade-in duration-200">
+            <div className="w-[560px] max-h-[88vh] bg-slate-950 border border-slate-700 rounded-xl shadow-2xl flex flex-col overflow-hidden text-slate-200">
+                <div className="bg-slate-900 px-6 py-3 border-b border-slate-800 flex justify-between items-center">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 bg-amber-600/20 rounded-lg border border-amber-600/40">
+                            <Dices className="text-amber-500" size={20} />
+                        </div>
+                        <h2 className="text-amber-100 font-bold text-lg uppercase tracking-widest">Новая игра</h2>
+                    </div>
+                    <button onClick={onClose} className="text-slate-500 hover:text-white p-2 hover:bg-slate-800 rounded-full">
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className="p-6 overflow-y-auto flex flex-col gap-4 text-xs">
+                    <label className="flex flex-col gap-1">
+                        <span className="text-slate-500 uppercase font-bold text-[10px]">Сид карты</span>
+                        <input
+                            type="text"
+                            value={seedInput}
+                            onChange={e => setSeedInput(e.target.value)}
+                            placeholder="пусто = случайный"
+                            className="bg-slate-900 border border-slate-700 rounded px-3 py-2 font-mono text-sm focus:outline-none focus:border-amber-500"
+                        />
+                    </label>
+
+                    <div className="flex flex-col gap-2">
+                        <span className="text-slate-500 uppercase font-bold text-[10px] flex items-center gap-1"><BookOpen size={12} /> Правила</span>
+                        {options.map(r => (
+                            <button
+                                key={r.name}
+                                onClick={() => setSelected(r)}
+                                className={`text-left rounded-lg border px-3 py-2 transition-colors ${r === selected ? 'border-amber-500 bg-amber-600/10' : 'border-slate-700 bg-slate-900 hover:bg-slate-800'}`}
+                            >
+                                <div className="font-bold text-slate-200">{r.name}</div>
+                                {r.description && <div className="text-slate-500">{r.description}</div>}
+                            </button>
+                        ))}
+                        <label className="flex items-center justify-center gap-2 rounded-lg border border-dashed border-slate-600 px-3 py-2 text-slate-400 hover:text-white hover:border-slate-400 cursor-pointer">
+                            <Upload size={14} /> Загрузить правила из JSON...
+                            <input type="file" accept=".json,application/json" onChange={handleFile} className="hidden" />
+                        </label>
+                    </div>
+
+                    {errors.length > 0 && (
+                        <div className="bg-red-950/60 border border-red-700 rounded-lg px-3 py-2 text-red-300 max-h-40 overflow-y-auto">
+                            <div className="flex items-center gap-2 font-bold mb-1"><AlertTriangle size={14} /> Правила не приняты</div>
+                            {errors.map((e, i) => <div key={i} className="font-mono text-[11px]">{e}</div>)}
+                        </div>
+                    )}
+
+                    <button
+                        onClick={handleStart}
+                        className="flex items-center justify-center gap-2 bg-amber-700 hover:bg-amber-600 text-white py-2 rounded font-bold uppercase"
+                    >
+                        <Play size={14} /> Начать
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default NewGameModal;
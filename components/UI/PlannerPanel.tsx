@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { ArrowUp, ArrowDown, X, Plus, Calculator, Target, Shield } from 'lucide-react';
+import { City } from '../../Entities/City';
+import { ResourceType } from '../../Grid/GameMap';
+import { GameConfig, ProductionGoal } from '../../core/GameConfig';
+import { ProductionPlanner } from '../../core/ProductionPlanner';
+import { getResourceName } from '../../utils/Localization';
+
+interface PlannerPanelProps {
+    city: City;
+    // Resources a reserve can be set for
+    resources: ResourceType[];
+    renderIcon: (type: ResourceType, size?: number) => React.ReactNode;
+    onChange: (goals: ProductionGoal[], autoPlan: boolean) => void;
+    onApply: () => void;
+}
+
+// Goods a recipe can make (what "maximise" makes sense for); read on every render as the rule-set may change
+const getProducible = () => Array.from(new Set(GameConfig.ECONOMY.RECIPES.flatMap(r => r.outputs.map(o => o.type))));
+
+// Production planner block of the Industry modal: ordered goals, auto mode and a preview of the plan
+const PlannerPanel: React.FC<PlannerPanelProps> = ({ city, resources, renderIcon, onChange, onApply }) => {
+    const producible = getProducible();
+    const [kind, setKind] = useState<ProductionGoal['kind']>('MAXIMIZE');
+    const [resource, setResource] = useState<ResourceType>(producible[0]);
+    const [amount, setAmount] = useState(20);
+
+    const goals = city.productionGoals;
+    const preview = ProductionPlanner.plan(city);
+    const options = kind === 'MAXIMIZE' ? producible : resources;
+    const selected = options.includes(resource) ? resource : options[0];
+
+    const move = (index: number, delta: number) => {
+        const next = [...goals];
+        const target = index + delta;
+        if (target < 0 || target >= next.length) return;
+        [next[index], next[target]] = [next[target], next[index]];
+        onChange(next, city.autoPlan);
+    };
+
+    const add = () => {
+        const goal: ProductionGoal = kind === 'MAXIMIZE' ? { kind, resource: selected } : { kind, resource: selected, amount };
+        onChange([...goals, goal], city.autoPlan);
+    };
+
+    return (
+        <div className="bg-slate-900 border border-slate-700 rounded-lg p-3 mb-4 flex flex-col gap-3">
+            <div className="flex items-center justify-between">
+                <h3 className="text-xs font-bold text-slate-400 uppercase flex items-center gap-2">
+                    <Calculator size={14} /> Планировщик производства
+                </h3>
+                <div className="flex items-center gap-2">
+                    <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={city.autoPlan}
+                            onChange={(e) => onChange(goals, e.target.checked)}
+                            className="accent-amber-500"
+                        />
+                        Каждый ход
+                    </label>
+                    <button
+                        onClick={onApply}
+                        className="px-3 py-1 rounded border border-emerald-500/40 bg-emerald-900/30 hover:bg-emerald-800/60 text-emerald-200 text-xs font-bold"
+                    >
+                        Применить сейчас
+                    </button>
+                </div>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+                {goals.map((g, i) => (
+                    <div key={i} className="flex items-center gap-1 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs">
+                        <span className="text-slate-500 font-mono">{i + 1}.</span>
+                        {g.kind === 'MAXIMIZE' ? <Target size={12} className="text-amber-400" /> : <Shield size={12} className="text-sky-400" />}
+                        {renderIcon(g.resource, 12)}
+                        <span className="text-slate-200" title={g.kind === 'RESERVE' ? "При автопланировании этот запас не тратится ни в производстве, ни на еду и товары" : undefined}>
+                            {g.kind === 'MAXIMIZE' ? `Максимум: ${getResourceName(g.resource)}` : `Резерв ${g.amount}: ${getResourceName(g.resource)}`}
+                        </span>
+                        <button onClick={() => move(i, -1)} className="p-0.5 text-slate-500 hover:text-white" title="Выше"><ArrowUp size={12} /></button>
+                        <button onClick={() => move(i, 1)} className="p-0.5 text-slate-500 hover:text-white" title="Ниже"><ArrowDown size={12} /></button>
+                        <button onClick={() => onChange(goals.filter((_, j) => j !== i), city.autoPlan)} className="p-0.5 text-slate-500 hover:text-red-400" title="Удалить"><X size={12} /></button>
+                    </div>
+                ))}
+                {goals.length === 0 && <span className="text-xs text-slate-600 italic">Нет целей</span>}
+            </div>
+
+            <div className="flex items-center gap-2 text-xs">
+                <select
+                    value={kind}
+                    onChange={(e) => setKind(e.target.value as ProductionGoal['kind'])}
+                    className="bg-slate-800 border border-slate-600 rounded px-1 py-0.5 text-white"
+                >
+                    <option value="MAXIMIZE">Максимум</option>
+                    <option value="RESERVE">Резерв</option>
+                </select>
+                <select
+                    value={selected}
+                    onChange={(e) => setResource(parseInt(e.target.value) as ResourceType)}
+                    className="bg-slate-800 border border-slate-600 rounded px-1 py-0.5 text-white"
+                >
+                    {options.map(r => <option key={r} value={r}>{getResourceName(r)}</option>)}
+                </select>
+                {kind === 'RESERVE' && (
+                    <input
+                        type="number"
+                        min={0}
+                        value={amount}
+                        onChange={(e) => setAmount(Math.max(0, parseInt(e.target.value) || 0))}
+                        className="w-16 bg-slate-800 border border-slate-600 rounded px-1 py-0.5 font-mono text-white"
+                    />
+                )}
+                <button
+                    onClick={add}
+                    className="flex items-center gap-1 px-2 py-0.5 rounded border border-slate-600 bg-slate-800 hover:bg-slate-700 text-slate-200 font-bold"
+                >
+                    <Plus size={12} /> Добавить
+                </button>
+
+                <div className="ml-auto flex items-center gap-2 text-slate-500">
+                    Прогноз:
+                    {Array.from(preview.netOutput.entries()).map(([type, delta]) => (
+                        <span key={type} className={`flex items-center gap-0.5 font-mono ${delta > 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                            {renderIcon(type, 12)}{delta > 0 ? '+' : ''}{delta}
+                        </span>
+                    ))}
+                    {preview.netOutput.size === 0 && <span className="italic">ничего</span>}
+                    <span className="text-slate-600">({preview.laborUsed} труда)</span>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default PlannerPanel;
@@ -0,0 +1,127 @@
+import React from 'react';
+import { X, FlaskConical, Coins, Scroll, UserCheck, CheckCircle, Lock, Clock, Plus } from 'lucide-react';
+import { City } from '../../Entities/City';
+import { ResourceType } from '../../Grid/GameMap';
+import { GameConfig } from '../../core/GameConfig';
+import { ResearchView } from '../GameContainer';
+import { formatCost, getTechName } from '../../utils/Localization';
+
+interface ResearchModalProps {
+    capital: City | null;
+    research: ResearchView | null;
+    onClose: () => void;
+    onQueue: (techId: string) => void;
+    onCancel: (techId: string) => void;
+}
+
+const ResearchModal: React.FC<ResearchModalProps> = ({ capital, research, onClose, onQueue, onCancel }) => {
+    if (!research) return null;
+
+    const { technologies, research: state } = research;
+    // Starting techs with no cost are not worth a card
+    const techs = GameConfig.RESEARCH.TECHNOLOGIES.filter(t => t.turns > 0);
+
+    const getStatus = (id: string, prerequisites: string[]) => {
+        if (technologies.has(id)) return 'known';
+        if (state.queue.includes(id)) return 'queued';
+        if (prerequisites.every(p => technologies.has(p) || state.queue.includes(p))) return 'available';
+        return 'locked';
+    };
+
+    return (
+        <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-md animate-in fade-in duration-200">
+            <div className="w-[800px] h-[600px] bg-[#f0e6d2] text-slate-800 rounded-lg shadow-2xl border-4 border-[#8b5a2b] flex flex-col font-serif relative">
+                <button onClick={onClose} className="absolute top-2 right-2 p-2 hover:bg-red-500/10 rounded-full">
+                    <X className="text-[#8b5a2b]" />
+                </button>
+
+                <div className="p-8 border-b border-[#cbbca0] bg-[#e6d8b8]">
+                    <div className="flex items-center gap-4">
+                        <FlaskConical size={40} className="text-[#8b5a2b]" />
+                        <div>
+                            <h2 className="text-3xl font-bold text-[#5c3a1e] tracking-tight">Академия Наук</h2>
+                            <p className="text-[#8b5a2b] italic">Исследования идут по очереди, оплата каждый ход</p>
+                        </div>
+                    </div>
+                    <div className="mt-4 flex gap-6 text-sm">
+                        <span className="flex items-center gap-2 bg-white/50 px-3 py-1 rounded-full border border-[#cbbca0]">
+                            <Coins size={14}/> Бюджет: ${capital?.cash}
+                        </span>
+                        <span className="flex items-center gap-2 bg-white/50 px-3 py-1 rounded-full border border-[#cbbca0]">
+                            <Scroll size={14}/> Бумага: {capital?.inventory.get(ResourceType.PAPER) || 0}
+                        </span>
+                        <span className="flex items-center gap-2 bg-white/50 px-3 py-1 rounded-full border border-[#cbbca0]">
+                            <UserCheck size={14}/> Экспертов: {capital?.expertLabor}
+                        </span>
+                    </div>
+                    <div className="mt-3 text-xs text-[#5c3a1e]">
+                        Очередь: {state.queue.length > 0 ? state.queue.map(getTechName).join(' → ') : 'пусто'}
+                    </div>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-8 grid grid-cols-2 gap-4">
+                    {techs.map(t => {
+                        const status = getStatus(t.id, t.prerequisites);
+                        const progress = state.progress[t.id] || 0;
+                        const queueIndex = state.queue.indexOf(t.id);
+
+                        return (
+                            <div key={t.id} className={`bg-white p-3 rounded border shadow-sm flex flex-col justify-between ${status === 'known' ? 'border-emerald-400' : status === 'queued' ? 'border-[#8b5a2b]' : 'border-[#cbbca0]'} ${status === 'locked' ? 'opacity-60' : ''}`}>
+                                <div>
+                                    <div className="flex justify-between items-start mb-1">
+                                        <h3 className="font-bold text-lg text-[#5c3a1e]">{t.name}</h3>
+                                        {status === 'known' && <CheckCircle size={18} className="text-emerald-600" />}
+                                        {status === 'locked' && <Lock size={16} className="text-slate-400" />}
+                                        {status === 'queued' && (
+                                            <span className="text-[10px] text-white bg-[#8b5a2b] px-2 py-0.5 rounded uppercase">
+                                                {queueIndex === 0 ? 'Изучается' : `№${queueIndex + 1}`}
+                                            </span>
+                                        )}
+                                    </div>
+                                    <p className="text-xs text-slate-600 leading-tight">{t.description}</p>
+                                    {t.prerequisites.length > 0 && (
+                                        <p className="text-[10px] text-slate-500 mt-1">
+                                            Требует: {t.prerequisites.map(getTechName).join(', ')}
+                                        </p>
+                                    )}
+                                </div>
+
+                                {status !== 'known' && (
+                                    <div className="border-t border-slate-100 pt-2 mt-2">
+                                        <div className="w-full h-1.5 bg-slate-200 rounded overflow-hidden mb-2">
+                                            <div className="h-full bg-[#8b5a2b]" style={{ width: `${(progress / t.turns) * 100}%` }} />
+                                        </div>
+                                        <div className="flex justify-between items-center">
+                                            <div className="text-xs text-slate-500 flex flex-col font-mono">
+                                                <span className="flex items-center gap-1"><Clock size={12}/> {progress}/{t.turns} ход.</span>
+                                                <span>{formatCost(t.costPerTurn)} / ход</span>
+                                            </div>
+                                            {status === 'queued' ? (
+                                                <button
+                                                    onClick={() => onCancel(t.id)}
+                                                    className="border border-[#8b5a2b] text-[#8b5a2b] px-3 py-2 rounded hover:bg-[#8b5a2b]/10 transition-colors text-xs font-bold uppercase"
+                                                >
+                                                    Отменить
+                                                </button>
+                                            ) : (
+                                                <button
+                                                    onClick={() => onQueue(t.id)}
+                                                    disabled={status === 'locked'}
+                                                    className="flex items-center gap-1 bg-[#8b5a2b] text-white px-3 py-2 rounded hover:bg-[#6b4521] disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-xs font-bold uppercase"
+                                                >
+                                                    <Plus size={12}/> В очередь
+                                                </button>
+                                            )}
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ResearchModal;
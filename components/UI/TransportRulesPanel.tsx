@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { ArrowUp, ArrowDown, X, Plus, ListOrdered, Wand2 } from 'lucide-react';
+import { City } from '../../Entities/City';
+import { ResourceType } from '../../Grid/GameMap';
+import { TransportRule } from '../../core/GameConfig';
+import { getResourceName } from '../../utils/Localization';
+
+interface TransportRulesPanelProps {
+    city: City;
+    // Resources a rule can name (the connected supply)
+    resources: ResourceType[];
+    onChange: (rules: TransportRule[], autoTransport: boolean) => void;
+    // Loads every city's wagons by its rules
+    onApply: () => void;
+}
+
+const describeRule = (rule: TransportRule): string => {
+    switch (rule.kind) {
+        case 'INPUTS': return 'Сырьё для производства';
+        case 'ALL': return `Всё: ${getResourceName(rule.resource)}`;
+        case 'RATIO': return `Поровну: ${rule.resources.map(getResourceName).join(' + ')}`;
+    }
+};
+
+// Transport planner block of the Transport modal: ordered rules, auto mode and one-click loading
+const TransportRulesPanel: React.FC<TransportRulesPanelProps> = ({ city, resources, onChange, onApply }) => {
+    const [kind, setKind] = useState<TransportRule['kind']>('ALL');
+    const [first, setFirst] = useState<ResourceType>(resources[0]);
+    const [second, setSecond] = useState<ResourceType>(resources[1] ?? resources[0]);
+
+    const rules = city.transportRules;
+    const selectedFirst = resources.includes(first) ? first : resources[0];
+    const selectedSecond = resources.includes(second) ? second : resources[1] ?? resources[0];
+
+    const move = (index: number, delta: number) => {
+        const next = [...rules];
+        const target = index + delta;
+        if (target < 0 || target >= next.length) return;
+        [next[index], next[target]] = [next[target], next[index]];
+        onChange(next, city.autoTransport);
+    };
+
+    const add = () => {
+        const rule: TransportRule = kind === 'INPUTS' ? { kind }
+            : kind === 'ALL' ? { kind, resource: selectedFirst }
+            : { kind, resources: [selectedFirst, selectedSecond] };
+        onChange([...rules, rule], city.autoTransport);
+    };
+
+    const resourceSelect = (value: ResourceType, onSelect: (type: ResourceType) => void) => (
+        <select
+            value={value}
+            onChange={(e) => onSelect(parseInt(e.target.value) as ResourceType)}
+            className="bg-slate-800 border border-slate-600 rounded px-1 py-0.5 text-white"
+        >
+            {resources.map(r => <option key={r} value={r}>{getResourceName(r)}</option>)}
+        </select>
+    );
+
+    return (
+        <div className="bg-slate-900 border border-slate-700 rounded-lg p-3 flex flex-col gap-3">
+            <div className="flex items-center justify-between">
+                <h3 className="text-xs font-bold text-slate-400 uppercase flex items-center gap-2">
+                    <ListOrdered size={14} /> Правила погрузки
+                </h3>
+                <div className="flex items-center gap-2">
+                    <label
+                        className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer"
+                        title="Когда правила включены во всех городах, окно транспорта не открывается"
+                    >
+                        <input
+                            type="checkbox"
+                            checked={city.autoTransport}
+                            onChange={(e) => onChange(rules, e.target.checked)}
+                            className="accent-amber-500"
+                        />
+                        Каждый ход
+                    </label>
+                    <button
+                        onClick={onApply}
+                        className="flex items-center gap-1 px-3 py-1 rounded border border-emerald-500/40 bg-emerald-900/30 hover:bg-emerald-800/60 text-emerald-200 text-xs font-bold"
+                    >
+                        <Wand2 size={12} /> Распределить
+                    </button>
+                </div>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+                {rules.map((rule, i) => (
+                    <div key={i} className="flex items-center gap-1 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs">
+                        <span className="text-slate-500 font-mono">{i + 1}.</span>
+                        <span className="text-slate-200">{describeRule(rule)}</span>
+                        <button onClick={() => move(i, -1)} className="p-0.5 text-slate-500 hover:text-white" title="Выше"><ArrowUp size={12} /></button>
+                        <button onClick={() => move(i, 1)} className="p-0.5 text-slate-500 hover:text-white" title="Ниже"><ArrowDown size={12} /></button>
+                        <button onClick={() => onChange(rules.filter((_, j) => j !== i), city.autoTransport)} className="p-0.5 text-slate-500 hover:text-red-400" title="Удалить"><X size={12} /></button>
+                    </div>
+                ))}
+                {rules.length === 0 && <span className="text-xs text-slate-600 italic">Нет правил</span>}
+            </div>
+
+            <div className="flex items-center gap-2 text-xs">
+                <select
+                    value={kind}
+                    onChange={(e) => setKind(e.target.value as TransportRule['kind'])}
+                    className="bg-slate-800 border border-slate-600 rounded px-1 py-0.5 text-white"
+                >
+                    <option value="ALL">Всё</option>
+                    <option value="RATIO">Поровну</option>
+                    <option value="INPUTS">Сырьё для производства</option>
+                </select>
+                {kind !== 'INPUTS' && resourceSelect(selectedFirst, setFirst)}
+                {kind === 'RATIO' && resourceSelect(selectedSecond, setSecond)}
+                <button
+                    onClick={add}
+                    disabled={kind !== 'INPUTS' && resources.length === 0}
+                    className="flex items-center gap-1 px-2 py-0.5 rounded border border-slate-600 bg-slate-800 hover:bg-slate-700 text-slate-200 font-bold disabled:opacity-50"
+                >
+                    <Plus size={12} /> Добавить
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default TransportRulesPanel;
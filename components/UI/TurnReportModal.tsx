@@ -0,0 +1,272 @@
+import React, { useEffect, useState } from 'react';
+import { X, ClipboardList, ChevronLeft, ChevronRight, Coins, Heart, Hammer, Factory, Store, FlaskConical, Home, Wrench, Landmark, Smile } from 'lucide-react';
+import { ResourceType } from '../../Grid/GameMap';
+import { TurnReport, CityTurnReport, ProductionLimit } from '../../core/TurnReport';
+import { University } from '../../core/University';
+import { getResourceName, getTechName } from '../../utils/Localization';
+
+interface TurnReportModalProps {
+    // Oldest first; the newest is shown when the modal opens
+    reports: TurnReport[];
+    onClose: () => void;
+}
+
+const LIMIT_LABELS: Record<ProductionLimit, { text: string; color: string }> = {
+    NONE: { text: 'выполнено', color: 'text-emerald-400' },
+    CAPACITY: { text: 'мощность', color: 'text-amber-400' },
+    INPUTS: { text: 'нет сырья', color: 'text-red-400' },
+    LABOR: { text: 'нет рабочих', color: 'text-orange-400' }
+};
+
+const formatMoney = (amount: number) => `${amount >= 0 ? '+' : '-'}$${Math.abs(amount)}`;
+
+const formatGoods = (goods: Map<ResourceType, number>) => {
+    const parts: string[] = [];
+    goods.forEach((amount, type) => parts.push(`${amount} ${getResourceName(type)}`));
+    return parts.length > 0 ? parts.join(', ') : '—';
+};
+
+const CityReportCard: React.FC<{ report: CityTurnReport }> = ({ report }) => {
+    const { cash } = report;
+    const { births, immigrants, departed, after, housing } = report.population;
+    const { happiness } = report;
+    // Morale is fractional; colour the change the player can actually see
+    const moodBefore = Math.round(happiness.before);
+    const moodAfter = Math.round(happiness.after);
+    const population = report.healthy + report.sick + report.starving;
+
+    return (
+        <div className="bg-slate-900 border border-slate-700 rounded-lg p-4 flex flex-col gap-3 text-xs">
+            <div className="flex justify-between items-center">
+                <h3 className="text-amber-100 font-bold text-sm">{report.cityName}</h3>
+                <span className={`font-mono font-bold ${cash.end >= cash.start ? 'text-emerald-400' : 'text-red-400'}`}>
+                    ${cash.start} → ${cash.end}
+                </span>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+                <div className="bg-slate-800/60 rounded p-2">
+                    <div className="flex items-center gap-1 text-slate-500 uppercase font-bold text-[10px] mb-1"><Coins size={12} /> Казна</div>
+                    <div className="flex justify-between"><span className="text-slate-400">Золото и самоцветы</span><span className="font-mono">{formatMoney(cash.conversion)}</span></div>
+                    <div className="flex justify-between"><span className="text-slate-400">Рынок</span><span className="font-mono">{formatMoney(cash.market)}</span></div>
+                    {cash.taxes !== 0 && <div className="flex justify-between"><span className="text-slate-400">Налоги</span><span className="font-mono">{formatMoney(cash.taxes)}</span></div>}
+                    {cash.upkeep !== 0 && <div className="flex justify-between"><span className="text-slate-400">Содержание</span><span className="font-mono">{formatMoney(cash.upkeep)}</span></div>}
+                    {cash.debt !== 0 && <div className="flex justify-between"><span className="text-slate-400">Долги</span><span className="font-mono">{formatMoney(cash.debt)}</span></div>}
+                    <div className="flex justify-between"><span className="text-slate-400">Прочее</span><span className="font-mono">{formatMoney(cash.other)}</span></div>
+                </div>
+
+                <div className="bg-slate-800/60 rounded p-2">
+                    <div className="flex items-center gap-1 text-slate-500 uppercase font-bold text-[10px] mb-1"><Heart size={12} /> Население ({population})</div>
+                    <div className="flex justify-between"><span className="text-slate-400">Здоровы</span><span className="font-mono text-emerald-400">{report.healthy}</span></div>
+                    <div className="flex justify-between"><span className="text-slate-400">Больны</span><span className="font-mono text-amber-400">{report.sick}</span></div>
+                    <div className="flex justify-between"><span className="text-slate-400">Умерли от голода</span><span className={`font-mono ${report.starving > 0 ? 'text-red-400 font-bold' : 'text-slate-500'}`}>{report.starving}</span></div>
+                </div>
+            </div>
+
+            <div className="flex items-center gap-3 text-slate-400">
+                <span className="flex items-center gap-1 text-slate-500 uppercase font-bold text-[10px]"><Home size={12} /> Жители</span>
+                <span>Родилось <b className={births > 0 ? 'text-emerald-400' : 'text-slate-500'}>{births}</b></span>
+                <span>Прибыло <b className={immigrants > 0 ? 'text-emerald-400' : 'text-slate-500'}>{immigrants}</b></span>
+                <span>Уехало <b className={departed > 0 ? 'text-red-400' : 'text-slate-500'}>{departed}</b></span>
+                <span className={`ml-auto font-mono ${after >= housing ? 'text-orange-400' : 'text-slate-300'}`} title="Население / Жильё">{after} / {housing}</span>
+            </div>
+
+            {(report.training.completed.length > 0 || report.training.waiting > 0) && (
+                <div className="text-slate-400">
+                    <span className="text-slate-500">Университет:</span>
+                    {report.training.completed.length > 0 && <span className="text-emerald-400"> выпущены {report.training.completed.map(o => University.getCourseName(o)).join(', ')}</span>}
+                    {report.training.waiting > 0 && <span className="text-amber-400">{report.training.completed.length > 0 && ' ·'} ждут места: {report.training.waiting}</span>}
+                </div>
+            )}
+            <div className="text-slate-400">
+                <span className="text-slate-500">Съедено:</span> {formatGoods(report.foodEaten)}
+            </div>
+            <div className="flex items-center gap-3 text-slate-400">
+                <span className="flex items-center gap-1 text-slate-500 uppercase font-bold text-[10px]"><Smile size={12} /> Настроение</span>
+                <span className={`font-mono font-bold ${moodAfter > moodBefore ? 'text-emerald-400' : moodAfter < moodBefore ? 'text-red-400' : 'text-slate-300'}`}>
+                    {moodBefore} → {moodAfter}
+                </span>
+                <span>питание {Math.round(happiness.diet * 100)}%</span>
+                <span>товары {Math.round(happiness.goods * 100)}%</span>
+                <span className="ml-auto truncate" title="Потреблено / спрос">{formatGoods(happiness.consumed)}</span>
+            </div>
+            {(report.storage.spoiled.size > 0 || report.storage.overflow.size > 0) && (
+                <div className="text-slate-400">
+                    <span className="text-slate-500">Потери на складе:</span>
+                    {report.storage.spoiled.size > 0 && <span className="text-lime-400"> испортилось {formatGoods(report.storage.spoiled)}</span>}
+                    {report.storage.overflow.size > 0 && <span className="text-orange-400">{report.storage.spoiled.size > 0 && ' ·'} не поместилось (склад {report.storage.capacity}): {formatGoods(report.storage.overflow)}</span>}
+                </div>
+            )}
+            <div className="text-slate-400">
+                <span className="text-slate-500">Доставлено:</span> {formatGoods(report.received)}
+                {report.converted.length > 0 && (
+                    <span className="text-yellow-300"> · продано казне: {report.converted.map(c => `${c.amount} ${getResourceName(c.resource)}`).join(', ')}</span>
+                )}
+            </div>
+
+            <div>
+                <div className="flex items-center justify-between mb-1">
+                    <span className="flex items-center gap-1 text-slate-500 uppercase font-bold text-[10px]"><Hammer size={12} /> Труд</span>
+                    <span className="font-mono text-slate-300">
+                        {report.expertsReserved > 0 && <span className="text-sky-300 mr-2">эксперты в исследованиях: {report.expertsReserved}</span>}
+                        {report.laborUsed} / {report.laborAvailable}
+                    </span>
+                </div>
+                <div className="h-1.5 bg-slate-800 rounded overflow-hidden">
+                    <div className="h-full bg-amber-500" style={{ width: `${report.laborAvailable > 0 ? Math.min(100, 100 * report.laborUsed / report.laborAvailable) : 0}%` }} />
+                </div>
+            </div>
+
+            <div>
+                <div className="flex items-center gap-1 text-slate-500 uppercase font-bold text-[10px] mb-1"><Factory size={12} /> Производство</div>
+                {report.recipes.length === 0 && <div className="text-slate-600 italic">Заводы простаивали</div>}
+                {report.recipes.map(r => (
+                    <div key={r.recipe}>
+                        <div className="flex justify-between gap-2">
+                            <span className="text-slate-300 truncate">{r.recipe}</span>
+                            <span className="font-mono shrink-0">
+                                {r.runs}/{r.target}{' '}
+                                <span className={LIMIT_LABELS[r.limit].color}>{LIMIT_LABELS[r.limit].text}</span>
+                            </span>
+                        </div>
+                        {r.runs > 0 && (
+                            <div className="text-[10px] text-slate-500 truncate">
+                                {formatGoods(r.consumed)} → <span className="text-emerald-400">{formatGoods(r.produced)}</span>
+                            </div>
+                        )}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+const TurnReportModal: React.FC<TurnReportModalProps> = ({ reports, onClose }) => {
+    const [index, setIndex] = useState(reports.length - 1);
+
+    // Jump to the newest report when a turn ends while the modal is open
+    useEffect(() => {
+        setIndex(reports.length - 1);
+    }, [reports.length]);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.code === 'Space' || e.code === 'Escape') {
+                e.preventDefault();
+                e.stopPropagation();
+                onClose();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    const report = reports[index];
+    if (!report) return null;
+
+    const { market, research, upkeep, treasury } = report;
+
+    return (
+        <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm animate-in fade-in duration-200">
+            <div className="w-[900px] max-h-[88vh] bg-slate-950 border border-slate-700 rounded-xl shadow-2xl flex flex-col overflow-hidden text-slate-200">
+                <div className="bg-slate-900 px-6 py-3 border-b border-slate-800 flex justify-between items-center">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 bg-amber-600/20 rounded-lg border border-amber-600/40">
+                            <ClipboardList className="text-amber-500" size={20} />
+                        </div>
+                        <h2 className="text-amber-100 font-bold text-lg uppercase tracking-widest">Итоги {report.year} года</h2>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <button
+                            onClick={() => setIndex(i => Math.max(0, i - 1))}
+                            disabled={index === 0}
+                            className="p-1 rounded text-slate-400 hover:text-white hover:bg-slate-800 disabled:opacity-30"
+                            title="Предыдущий ход"
+                        >
+                            <ChevronLeft size={18} />
+                        </button>
+                        <span className="text-xs font-mono text-slate-500">{index + 1} / {reports.length}</span>
+                        <button
+                            onClick={() => setIndex(i => Math.min(reports.length - 1, i + 1))}
+                            disabled={index === reports.length - 1}
+                            className="p-1 rounded text-slate-400 hover:text-white hover:bg-slate-800 disabled:opacity-30"
+                            title="Следующий ход"
+                        >
+                            <ChevronRight size={18} />
+                        </button>
+                        <button onClick={onClose} className="ml-2 text-slate-500 hover:text-white p-2 hover:bg-slate-800 rounded-full">
+                            <X size={20} />
+                        </button>
+                    </div>
+                </div>
+
+                <div className="p-6 overflow-y-auto flex flex-col gap-4">
+                    {treasury.bankrupt && (
+                        <div className="bg-red-950/60 border border-red-700 rounded-lg px-4 py-2 text-xs text-red-300 flex items-center gap-2">
+                            <Landmark size={14} />
+                            <span>
+                                Казна в долгах: кредиторы ждут оплаты.
+                                {treasury.seized.length > 0 && <> Изъято в счёт долга: {treasury.seized.map(s => `${s.amount} ${getResourceName(s.resource)} ($${s.cash})`).join(', ')}.</>}
+                            </span>
+                        </div>
+                    )}
+                    {treasury.repaid.length > 0 && (
+                        <div className="text-xs text-emerald-400 flex items-center gap-2">
+                            <Landmark size={14} /> Погашено долгов: {treasury.repaid.length}
+                        </div>
+                    )}
+                    <div className="grid grid-cols-3 gap-4 text-xs">
+                        <div className="bg-slate-900 border border-slate-700 rounded-lg p-3">
+                            <div className="flex items-center gap-1 text-slate-500 uppercase font-bold text-[10px] mb-1"><FlaskConical size={12} /> Исследования</div>
+                            {research.completed.length > 0 && <div className="text-emerald-400">Изучено: {research.completed.map(getTechName).join(', ')}</div>}
+                            {research.stalled && <div className="text-red-400">{research.stalled}</div>}
+                            {research.completed.length === 0 && !research.stalled && <div className="text-slate-600 italic">Без новостей</div>}
+                        </div>
+                        <div className="bg-slate-900 border border-slate-700 rounded-lg p-3">
+                            <div className="flex items-center gap-1 text-slate-500 uppercase font-bold text-[10px] mb-1"><Store size={12} /> Рынок</div>
+                            {market.trades.map((t, i) => (
+                                <div key={i} className="flex justify-between">
+                                    <span className="text-slate-300">{t.side === 'BUY' ? 'Куплено' : 'Продано'}: {t.amount} {getResourceName(t.resource)}</span>
+                                    <span className="font-mono">{formatMoney(t.side === 'BUY' ? -t.total : t.total)}</span>
+                                </div>
+                            ))}
+                            {market.shortfalls.map((s, i) => (
+                                <div key={`s${i}`} className="text-red-400">
+                                    Не исполнено: {getResourceName(s.order.resource)} {s.filled}/{s.order.amount}
+                                </div>
+                            ))}
+                            {market.trades.length === 0 && market.shortfalls.length === 0 && <div className="text-slate-600 italic">Сделок не было</div>}
+                        </div>
+                        <div className="bg-slate-900 border border-slate-700 rounded-lg p-3">
+                            <div className="flex items-center justify-between text-slate-500 uppercase font-bold text-[10px] mb-1">
+                                <span className="flex items-center gap-1"><Wrench size={12} /> Содержание</span>
+                                <span className={`font-mono ${upkeep.paid < upkeep.due ? 'text-red-400' : 'text-slate-300'}`}>${upkeep.paid} / ${upkeep.due}</span>
+                            </div>
+                            {upkeep.entries.map(e => (
+                                <div key={e.name} className="flex justify-between gap-2">
+                                    <span className="text-slate-300">
+                                        {e.name} ×{e.count}
+                                        {e.unpaid > 0 && <span className="text-red-400"> (не оплачено: {e.unpaid})</span>}
+                                    </span>
+                                    <span className="font-mono shrink-0">
+                                        {formatMoney(-e.money)}
+                                        {e.resources.size > 0 && <span className="text-slate-500"> + {formatGoods(e.resources)}</span>}
+                                    </span>
+                                </div>
+                            ))}
+                            {upkeep.unpaidUnits > 0 && <div className="text-red-400">Без жалованья простаивают юниты: {upkeep.unpaidUnits}</div>}
+                            {upkeep.degraded.length > 0 && <div className="text-red-400">Пришли в упадок участки дорог: {upkeep.degraded.length}</div>}
+                            {upkeep.entries.length === 0 && <div className="text-slate-600 italic">Нечего содержать</div>}
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                        {report.cities.map(c => <CityReportCard key={c.cityId} report={c} />)}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default TurnReportModal;
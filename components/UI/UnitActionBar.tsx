@@ -1,6 +1,6 @@
 
 import React from 'react';
-import { Hammer, MapPin, Briefcase, Anchor, TrainFront, Moon, Bot, Filter, BrainCircuit, Brain } from 'lucide-react';
+import { Hammer, MapPin, Briefcase, Anchor, TrainFront, Moon, Bot, Filter, BrainCircuit, Brain, Landmark } from 'lucide-react';
 import { UnitType } from '../../Entities/Unit';
 import { Prospector, ProspectFilter, ResourceImprover, Engineer, EngineerPriority, EngineerTerrainFilter } from '../../Entities/CivilianUnit';
 import { getUnitName } from '../../utils/Localization';
@@ -166,6 +166,15 @@ const UnitActionBar: React.FC<UnitActionBarProps> = ({ selectedUnit, predictedYi
                         <Anchor size={18} />
                         <span>Порт</span>
                     </button>
+                    <button 
+                        onClick={() => onAction('found_city')}
+                        disabled={selectedUnit.movesLeft <= 0}
+                        className="action-btn"
+                        title="Основать город на Депо ($2000, 2 Пилмат, 2 Сталь; 2 переселенца и 4 Консервы из столицы)"
+                    >
+                        <Landmark size={18} />
+                        <span>Город</span>
+                    </button>
                 </div>
                 
                 <div className="flex gap-2 w-full">
@@ -366,6 +375,7 @@ const UnitActionBar: React.FC<UnitActionBarProps> = ({ selectedUnit, predictedYi
                         <span className="text-xs text-amber-400 font-bold uppercase">{getUnitName(selectedUnit.type)}</span>
                         {selectedUnit.isSleeping && <span className="text-[10px] bg-indigo-900 text-indigo-200 px-1 rounded">ZZZ</span>}
                         {selectedUnit.isAutomated && <span className="text-[10px] bg-emerald-900 text-emerald-200 px-1 rounded">AUTO</span>}
+                        {selectedUnit.isUnpaid && <span className="text-[10px] bg-red-900 text-red-200 px-1 rounded" title="Содержание не оплачено: юнит простаивает">БЕЗ ЖАЛОВАНЬЯ</span>}
                     </div>
                     <span className="text-[10px] text-slate-400">ID: {selectedUnit.id}</span>
                 </div>
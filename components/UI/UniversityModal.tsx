@@ -1,20 +1,44 @@
 
-import React from 'react';
-import { X, School, Coins, Scroll, UserCheck, User } from 'lucide-react';
+import React, { useState } from 'react';
+import { X, School, Coins, Scroll, UserCheck, User, Lock, Hourglass, Plus, Hammer } from 'lucide-react';
 import { City } from '../../Entities/City';
 import { UnitType } from '../../Entities/Unit';
 import { ResourceType } from '../../Grid/GameMap';
 import { University } from '../../core/University';
+import { GameConfig } from '../../core/GameConfig';
+import { GameCommand } from '../../core/commands/Command';
+import { CancelTrainingCommand, ConstructBuildingCommand, ExpandBuildingCommand } from '../../core/commands/CityCommands';
+import { formatCost, getTechName } from '../../utils/Localization';
+import CitySelector from './CitySelector';
 
 interface UniversityModalProps {
-    capital: City | null;
+    city: City | null;
+    cities: City[];
+    onSelectCity: (cityId: string) => void;
     onClose: () => void;
     onRecruit: (type: UnitType) => void;
+    // Undoable city actions (cancel a course, build or expand the university)
+    onCommand: (command: GameCommand) => string | undefined;
+    technologies?: Set<string>;
     getSpriteSource?: (key: string) => string | null;
 }
 
-const UniversityModal: React.FC<UniversityModalProps> = ({ capital, onClose, onRecruit, getSpriteSource }) => {
-    
+const UniversityModal: React.FC<UniversityModalProps> = ({ city, cities, onSelectCity, onClose, onRecruit, onCommand, technologies, getSpriteSource }) => {
+    const [feedback, setFeedback] = useState<string | null>(null);
+
+    const capacity = city ? University.getCapacity(city) : 0;
+    const queue = city?.trainingQueue || [];
+    const buildingName = GameConfig.UNIVERSITY.BUILDING;
+
+    const handleCommand = (command: GameCommand) => {
+        setFeedback(onCommand(command) || null);
+    };
+
+    const handleBuild = () => {
+        if (!city) return;
+        handleCommand(capacity > 0 ? new ExpandBuildingCommand(city.id, buildingName) : new ConstructBuildingCommand(city.id, buildingName));
+    };
+
     // Updated Unit List
     const recruitableUnits = [
         { type: UnitType.ENGINEER, name: 'Инженер', desc: 'Строит дороги, ж/д и порты.', role: 'Строитель' },
@@ -29,7 +53,7 @@ const UniversityModal: React.FC<UniversityModalProps> = ({ capital, onClose, onR
 
     return (
         <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-md animate-in fade-in duration-200">
-            <div className="w-[800px] h-[600px] bg-[#f0e6d2] text-slate-800 rounded-lg shadow-2xl border-4 border-[#8b5a2b] flex flex-col font-serif relative">
+            <div className="w-[800px] h-[680px] bg-[#f0e6d2] text-slate-800 rounded-lg shadow-2xl border-4 border-[#8b5a2b] flex flex-col font-serif relative">
                 <button onClick={onClose} className="absolute top-2 right-2 p-2 hover:bg-red-500/10 rounded-full">
                     <X className="text-[#8b5a2b]" />
                 </button>
@@ -44,20 +68,65 @@ const UniversityModal: React.FC<UniversityModalProps> = ({ capital, onClose, onR
                     </div>
                     <div className="mt-4 flex gap-6 text-sm">
                         <span className="flex items-center gap-2 bg-white/50 px-3 py-1 rounded-full border border-[#cbbca0]">
-                            <Coins size={14}/> Бюджет: ${capital?.cash}
+                            <Coins size={14}/> Бюджет: ${city?.cash}
                         </span>
                         <span className="flex items-center gap-2 bg-white/50 px-3 py-1 rounded-full border border-[#cbbca0]">
-                            <Scroll size={14}/> Бумага: {capital?.inventory.get(ResourceType.PAPER) || 0}
+                            <Scroll size={14}/> Бумага: {city?.inventory.get(ResourceType.PAPER) || 0}
                         </span>
                         <span className="flex items-center gap-2 bg-white/50 px-3 py-1 rounded-full border border-[#cbbca0]">
-                            <UserCheck size={14}/> Доступно экспертов: {capital?.expertLabor}
+                            <UserCheck size={14}/> Доступно экспертов: {city?.expertLabor}
                         </span>
                     </div>
+                    <div className="mt-3">
+                        <CitySelector cities={cities} activeId={city?.id || null} onSelect={onSelectCity} theme="parchment" />
+                    </div>
+                </div>
+
+                <div className="px-8 py-3 border-b border-[#cbbca0] bg-[#ebe0c6] text-sm">
+                    <div className="flex items-center justify-between gap-4">
+                        <span className="flex items-center gap-2 font-bold text-[#5c3a1e]">
+                            <Hourglass size={14} /> Курсы: {Math.min(queue.length, capacity)}/{capacity} мест
+                        </span>
+                        {feedback && <span className="text-xs italic text-[#8b5a2b] truncate">{feedback}</span>}
+                        <button
+                            onClick={handleBuild}
+                            title={formatCost(capacity > 0 ? GameConfig.ECONOMY.EXPANSION.COST : GameConfig.ECONOMY.BUILDINGS[buildingName].cost)}
+                            className="flex items-center gap-1 shrink-0 bg-white/60 border border-[#cbbca0] px-3 py-1 rounded hover:bg-white text-xs font-bold uppercase text-[#5c3a1e]"
+                        >
+                            {capacity > 0 ? <><Plus size={12} /> Расширить</> : <><Hammer size={12} /> Построить</>}
+                        </button>
+                    </div>
+                    {queue.length === 0 && <p className="text-xs italic text-slate-500 mt-1">Никто не обучается</p>}
+                    <div className="mt-2 flex flex-col gap-1 max-h-28 overflow-y-auto custom-scrollbar">
+                        {queue.map((order, i) => {
+                            const done = order.turns - order.turnsLeft;
+                            const waiting = i >= capacity;
+                            return (
+                                <div key={order.id} className="flex items-center gap-3 text-xs">
+                                    <span className="w-28 font-bold text-[#5c3a1e] truncate">{University.getCourseName(order)}</span>
+                                    <div className="flex-1 h-2 bg-white/60 rounded border border-[#cbbca0] overflow-hidden">
+                                        <div className="h-full bg-[#8b5a2b]" style={{ width: `${100 * done / order.turns}%` }} />
+                                    </div>
+                                    <span className="w-24 text-right font-mono text-slate-600">
+                                        {waiting ? 'ждёт места' : `${order.turnsLeft} ход.`}
+                                    </span>
+                                    <button
+                                        onClick={() => city && handleCommand(new CancelTrainingCommand(city.id, order.id))}
+                                        title="Отменить (вернуть оплату)"
+                                        className="p-0.5 rounded hover:bg-red-500/10 text-[#8b5a2b]"
+                                    >
+                                        <X size={12} />
+                                    </button>
+                                </div>
+                            );
+                        })}
+                    </div>
                 </div>
 
                 <div className="flex-1 overflow-y-auto p-8 grid grid-cols-2 gap-4 custom-scrollbar">
                     {recruitableUnits.map(u => {
                         const spriteSrc = getSpriteSource ? getSpriteSource(`UNIT_${u.type}`) : null;
+                        const missingTech = technologies ? University.getMissingTech(u.type, technologies) : null;
                         
                         return (
                             <div key={u.type} className="bg-white p-3 rounded border border-[#cbbca0] shadow-sm hover:shadow-md transition-all flex flex-col justify-between">
@@ -77,17 +146,23 @@ const UniversityModal: React.FC<UniversityModalProps> = ({ capital, onClose, onR
                                             <span className="text-[10px] text-slate-500 bg-slate-100 px-2 py-0.5 rounded border border-slate-200 uppercase">{u.role}</span>
                                         </div>
                                         <p className="text-xs text-slate-600 leading-tight">{u.desc}</p>
+                                        {missingTech && (
+                                            <p className="text-[10px] text-red-700 mt-1 flex items-center gap-1">
+                                                <Lock size={10}/> Требуется: {getTechName(missingTech)}
+                                            </p>
+                                        )}
                                     </div>
                                 </div>
 
                                 <div className="flex justify-between items-center border-t border-slate-100 pt-3 mt-2">
                                     <div className="text-xs text-slate-500 flex flex-col font-mono">
-                                        {University.getUnitCost()}
+                                        {University.getUnitCost(u.type)}
+                                        <span>{University.getUnitTurns(u.type)} ход.</span>
                                     </div>
                                     <button 
                                         onClick={() => onRecruit(u.type)}
-                                        disabled={(capital?.expertLabor || 0) < 1}
-                                        title={`Стоимость: ${University.getUnitCost()}`}
+                                        disabled={(city?.expertLabor || 0) < (University.getCost(u.type).expertLabor || 0) || !!missingTech || capacity <= 0}
+                                        title={`Стоимость: ${University.getUnitCost(u.type)}`}
                                         className="bg-[#8b5a2b] text-white px-4 py-2 rounded hover:bg-[#6b4521] disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-xs font-bold uppercase"
                                     >
                                         Обучить
@@ -4,8 +4,9 @@ import { City } from '../Entities/City';
 import { Unit } from '../Entities/Unit';
 import { getHexDistance } from '../Grid/HexMath';
 import { TransportNetwork } from '../Logistics/TransportNetwork';
+import { NetworkAnalysis } from '../Logistics/NetworkAnalysis';
 import { getResourceName } from '../utils/Localization';
-import { GameConfig } from './GameConfig';
+import { GameConfig, getInputTypes } from './GameConfig';
 
 export const analyzeGameState = (
     map: GameMap, 
@@ -194,6 +195,13 @@ export const getStrategicAdvice = (
         }
     }
 
+    if (capital.happiness < GameConfig.HAPPINESS.NEUTRAL) {
+        adviceList.push({
+            message: `🟡 Настроение: ${Math.round(capital.happiness)}. Нужны одежда, мебель и предметы роскоши, иначе падает выработка.`,
+            priority: capital.happiness < GameConfig.HAPPINESS.UNREST ? Priority.HIGH : Priority.MEDIUM
+        });
+    }
+
     // --- 2. БАЗОВЫЕ РЕСУРСЫ (Maslow Level 2) ---
     const wood = capital.inventory.get(ResourceType.WOOD) || 0;
     const lumber = capital.inventory.get(ResourceType.LUMBER) || 0;
@@ -237,14 +245,13 @@ export const getStrategicAdvice = (
         const target = capital.productionTargets.get(recipe.name) || 0;
         
         const inputStatus = recipe.inputs.map(input => {
-            const stock = capital.inventory.get(input.type) || 0;
-            const altStock = input.alternative ? (capital.inventory.get(input.alternative) || 0) : 0;
-            return { type: input.type, has: stock + altStock, needed: input.amount };
+            const has = getInputTypes(input).reduce((sum, type) => sum + (capital.inventory.get(type) || 0), 0);
+            return { type: input.type, has, needed: input.amount };
         });
 
         const hasInputs = inputStatus.every(i => i.has >= i.needed * 5); // Есть запас
         const isStarved = inputStatus.some(i => i.has < i.needed); // Прямо сейчас не хватит на 1 цикл
-        const outName = getResourceName(recipe.output);
+        const outName = getResourceName(recipe.outputs[0].type);
         const buildName = recipe.building;
 
         if (target > 0 && isStarved) {
@@ -281,6 +288,16 @@ export const getStrategicAdvice = (
             priority: Priority.HIGH
         });
     }
+
+    // Single tiles that several stations depend on
+    const bottlenecks = NetworkAnalysis.findArticulationPoints(map, network).filter(p => p.stranded.length > 1);
+    if (bottlenecks.length > 0) {
+        const worst = bottlenecks[0];
+        adviceList.push({
+            message: `🟡 Узкие места сети: ${bottlenecks.length}. Потеря клетки (${worst.hex.q}, ${worst.hex.r}) отрежет станций: ${worst.stranded.length}. Проложите обходные пути.`,
+            priority: Priority.MEDIUM
+        });
+    }
     
     if (capital.cash < 200) {
          adviceList.push({
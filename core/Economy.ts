@@ -1,25 +1,60 @@
 
 import { City } from "../Entities/City";
 import { ResourceType } from "../Grid/GameMap";
-import { GameConfig, CostConfig } from "./GameConfig";
+import { GameConfig, CostConfig, getInputTypes } from "./GameConfig";
+import { ProductionPlanner } from "./ProductionPlanner";
+import { PopulationSystem } from "./systems/PopulationSystem";
+import { StorageSystem } from "./systems/StorageSystem";
+import { HappinessSystem } from "./systems/HappinessSystem";
+import { University } from "./University";
+import { CityTurnReport, ProductionLimit } from "./TurnReport";
+import { getTechName } from "../utils/Localization";
+
+const FOOD_TYPES = [ResourceType.WHEAT, ResourceType.FRUIT, ResourceType.MEAT, ResourceType.FISH, ResourceType.CANNED_FOOD];
 
 export class Economy {
     
+    /**
+     * Runs one city's economy phase and reports what happened.
+     * `reservedExperts` are busy with research this turn and do not work in production.
+     */
     public static processTurn(
         city: City, 
-        shippedGoods: Map<ResourceType, number>
-    ): void {
-        console.group("🏭 Economy Phase: " + city.name);
+        shippedGoods: Map<ResourceType, number>,
+        reservedExperts: number = 0
+    ): CityTurnReport {
+        const report: CityTurnReport = {
+            cityId: city.id,
+            cityName: city.name,
+            received: new Map(),
+            converted: [],
+            foodEaten: new Map(),
+            healthy: 0,
+            sick: 0,
+            starving: 0,
+            happiness: { before: city.happiness, after: city.happiness, diet: 0, goods: 0, demand: new Map(), consumed: new Map() },
+            laborAvailable: 0,
+            laborUsed: 0,
+            expertsReserved: 0,
+            recipes: [],
+            training: { completed: [], waiting: 0 },
+            population: { before: city.population, births: 0, immigrants: 0, departed: 0, after: city.population, housing: PopulationSystem.getHousingCapacity(city) },
+            storage: { capacity: StorageSystem.getCapacity(city), spoiled: new Map(), overflow: new Map() },
+            cash: { start: city.cash, conversion: 0, market: 0, upkeep: 0, taxes: 0, debt: 0, other: 0, end: city.cash }
+        };
 
         // 1. Update Inventory from Transport (Handle Gold/Gems -> Cash conversion)
         shippedGoods.forEach((amount, type) => {
+            if (amount <= 0) return;
             const conversionValue = GameConfig.ECONOMY.CASH_CONVERSION[type];
             if (conversionValue) {
                 const totalCash = amount * conversionValue;
                 city.cash += totalCash;
-                console.log(`Converted ${amount} ${ResourceType[type]} to $${totalCash}`);
+                report.converted.push({ resource: type, amount, cash: totalCash });
+                report.cash.conversion += totalCash;
             } else {
                 city.addResource(type, amount);
+                report.received.set(type, amount);
             }
         });
 
@@ -29,12 +64,16 @@ export class Economy {
         let sickPop = 0;
         let starvingPop = 0;
 
+        // Planner reserves are off limits for the diet, consumer goods and recipe inputs alike
+        const reserves = ProductionPlanner.getReserves(city);
+        const usable = (type: ResourceType) => Math.max(0, (city.inventory.get(type) || 0) - (reserves.get(type) || 0));
+
         // Inventory Refs
-        let grain = city.inventory.get(ResourceType.WHEAT) || 0;
-        let fruit = city.inventory.get(ResourceType.FRUIT) || 0;
-        let meat = city.inventory.get(ResourceType.MEAT) || 0;
-        let fish = city.inventory.get(ResourceType.FISH) || 0;
-        let canned = city.inventory.get(ResourceType.CANNED_FOOD) || 0;
+        let grain = usable(ResourceType.WHEAT);
+        let fruit = usable(ResourceType.FRUIT);
+        let meat = usable(ResourceType.MEAT);
+        let fish = usable(ResourceType.FISH);
+        let canned = usable(ResourceType.CANNED_FOOD);
 
         // Calculate Needs
         // 50% Grain, 25% Fruit, 25% Meat/Fish
@@ -94,15 +133,16 @@ export class Economy {
         }
 
         // Apply Consumption Back to Inventory
-        city.inventory.set(ResourceType.WHEAT, grain);
-        city.inventory.set(ResourceType.FRUIT, fruit);
-        city.inventory.set(ResourceType.MEAT, meat);
-        city.inventory.set(ResourceType.FISH, fish);
-        city.inventory.set(ResourceType.CANNED_FOOD, canned);
+        const left = [grain, fruit, meat, fish, canned];
+        FOOD_TYPES.forEach((type, i) => {
+            const amount = usable(type) - left[i];
+            if (amount <= 0) return;
+            report.foodEaten.set(type, amount);
+            city.consumeResource(type, amount);
+        });
 
         // Apply Starvation
         if (starvingPop > 0) {
-            console.warn(`WARNING: ${starvingPop} people died of starvation.`);
             let toKill = starvingPop;
             while (toKill > 0) {
                 if (city.workforce.untrained > 0) city.workforce.untrained--;
@@ -114,24 +154,37 @@ export class Economy {
             }
         }
 
+        // Consumer goods and morale (content workers produce more)
+        report.happiness = HappinessSystem.processTurn(city, { healthy: healthyPop, sick: sickPop, starving: starvingPop }, reserves);
+
         // Calculate Available Labor Points
         const healthRatio = (city.population > 0) ? (healthyPop / city.population) : 0;
+        // Starvation may have taken some of the researchers
+        const researchers = Math.min(reservedExperts, city.workforce.expert);
         
         let availableLabor = (
             (city.workforce.untrained * 1) + 
             (city.workforce.trained * 2) + 
-            (city.workforce.expert * 4)
-        ) * healthRatio;
+            ((city.workforce.expert - researchers) * 4)
+        ) * healthRatio * HappinessSystem.getLaborFactor(city);
 
         availableLabor = Math.floor(availableLabor);
-        console.log(`Pop: ${city.population} | Healthy: ${healthyPop}, Sick: ${sickPop}, Starved: ${starvingPop}`);
-        console.log(`Labor Points: ${availableLabor} (Health Ratio: ${Math.round(healthRatio*100)}%)`);
+        report.healthy = healthyPop;
+        report.sick = sickPop;
+        report.starving = starvingPop;
+        report.laborAvailable = availableLabor;
+        report.expertsReserved = researchers;
 
         // 3. Production Cycle
+        // The planner sees this turn's real stock and healthy labor
+        if (city.autoPlan) {
+            ProductionPlanner.apply(city, availableLabor);
+        }
+
         const buildingUsage = new Map<string, number>();
 
-        for (const recipe of GameConfig.ECONOMY.RECIPES) {
-            // Check Target by RECIPE NAME (Allows multiple recipes for same output, e.g., Canned Food)
+        // Scarce labor and inputs go to HIGH priority recipes first
+        for (const recipe of city.getRecipeOrder()) {
             const desiredRuns = city.productionTargets.get(recipe.name) || 0;
             
             if (desiredRuns <= 0) continue;
@@ -140,23 +193,19 @@ export class Economy {
             const currentUsage = buildingUsage.get(recipe.building) || 0;
             const remainingCap = buildingCap - currentUsage;
 
-            if (remainingCap <= 0) continue;
+            if (remainingCap <= 0) {
+                report.recipes.push({ recipe: recipe.name, target: desiredRuns, runs: 0, consumed: new Map(), produced: new Map(), limit: 'CAPACITY' });
+                continue;
+            }
 
             // Cap target by remaining building capacity
             const cappedRuns = Math.min(desiredRuns, remainingCap);
 
-            // Check Inputs
+            // Check Inputs (any substitute counts, e.g. Wool OR Cotton)
             let maxInputRuns = cappedRuns;
             
             for (const input of recipe.inputs) {
-                let stock = city.inventory.get(input.type) || 0;
-                
-                // Handle Alternative (e.g., Wool OR Cotton)
-                if (input.alternative) {
-                    const altStock = city.inventory.get(input.alternative) || 0;
-                    stock += altStock; 
-                }
-
+                const stock = getInputTypes(input).reduce((sum, type) => sum + usable(type), 0);
                 const possible = Math.floor(stock / input.amount);
                 maxInputRuns = Math.min(maxInputRuns, possible);
             }
@@ -165,49 +214,65 @@ export class Economy {
             const maxLaborRuns = Math.floor(availableLabor / recipe.laborCost);
             
             // Final Runs
-            const actualRuns = Math.min(cappedRuns, maxInputRuns, maxLaborRuns);
+            const actualRuns = Math.max(0, Math.min(cappedRuns, maxInputRuns, maxLaborRuns));
+
+            let limit: ProductionLimit = 'NONE';
+            if (actualRuns < desiredRuns) {
+                if (maxInputRuns === actualRuns && maxInputRuns < cappedRuns) limit = 'INPUTS';
+                else if (maxLaborRuns === actualRuns && maxLaborRuns < cappedRuns) limit = 'LABOR';
+                else limit = 'CAPACITY';
+            }
+
+            const consumed = new Map<ResourceType, number>();
+            const produced = new Map<ResourceType, number>();
 
             if (actualRuns > 0) {
-                // Consume Inputs
+                // Consume Inputs in preference order
                 for (const input of recipe.inputs) {
                     let needed = actualRuns * input.amount;
-                    
-                    // Consume primary first
-                    let primaryStock = city.inventory.get(input.type) || 0;
-                    if (primaryStock >= needed) {
-                        city.inventory.set(input.type, primaryStock - needed);
-                    } else {
-                        // Consume all primary
-                        city.inventory.set(input.type, 0);
-                        needed -= primaryStock;
-                        
-                        // Consume alternative if exists
-                        if (input.alternative) {
-                            let altStock = city.inventory.get(input.alternative) || 0;
-                            city.inventory.set(input.alternative, altStock - needed);
-                        }
+                    for (const type of getInputTypes(input)) {
+                        if (needed <= 0) break;
+                        const used = Math.min(usable(type), needed);
+                        if (used <= 0) continue;
+                        city.consumeResource(type, used);
+                        consumed.set(type, (consumed.get(type) || 0) + used);
+                        needed -= used;
                     }
                 }
 
-                // Produce Output
-                const producedAmount = actualRuns * recipe.outputAmount;
-                city.addResource(recipe.output, producedAmount);
+                // Produce the main output and by-products
+                for (const output of recipe.outputs) {
+                    const amount = actualRuns * output.amount;
+                    city.addResource(output.type, amount);
+                    produced.set(output.type, (produced.get(output.type) || 0) + amount);
+                }
 
                 // Deduct Costs
                 availableLabor -= (actualRuns * recipe.laborCost);
                 buildingUsage.set(recipe.building, currentUsage + actualRuns);
-                
-                console.log(`Produced ${producedAmount} ${ResourceType[recipe.output]} via ${recipe.name}`);
+                report.laborUsed += actualRuns * recipe.laborCost;
             }
+
+            report.recipes.push({ recipe: recipe.name, target: desiredRuns, runs: actualRuns, consumed, produced, limit });
         }
 
-        console.groupEnd();
+        // 4. University courses (graduates work from next turn, units are placed by the caller)
+        report.training = University.processTurn(city);
+
+        // 5. Spoilage and warehouse limits
+        report.storage = StorageSystem.processTurn(city);
+
+        // 6. Births, immigration and decline (newcomers start working next turn)
+        report.population = PopulationSystem.processTurn(city, { healthy: healthyPop, sick: sickPop, starving: starvingPop }, report.population.before);
+
+        report.cash.end = city.cash;
+        return report;
     }
 
     // --- Actions ---
 
     // Helper to check and consume generic costs
-    private static tryPayCost(city: City, cost: CostConfig): string | null {
+    public static tryPayCost(city: City, cost: CostConfig): string | null {
         if (cost.money && city.cash < cost.money) {
             return `Недостаточно средств ($${cost.money})`;
         }
@@ -233,7 +298,29 @@ export class Economy {
         return null;
     }
 
+    /**
+     * Why a building cannot be constructed in the city, or null if it can (costs not checked).
+     */
+    public static canConstruct(city: City, buildingName: string, technologies: Set<string>): string | null {
+        const def = GameConfig.ECONOMY.BUILDINGS[buildingName];
+        if (!def) return `Ошибка: неизвестное здание ${buildingName}.`;
+        if ((city.buildingLevels.get(buildingName) || 0) > 0) return `Ошибка: ${buildingName} уже построен.`;
+        if (def.tech && !technologies.has(def.tech)) return `Требуется технология '${getTechName(def.tech)}'.`;
+        return null;
+    }
+
+    public static constructBuilding(city: City, buildingName: string, technologies: Set<string>): string {
+        const reason = this.canConstruct(city, buildingName, technologies);
+        if (reason) return reason;
+        const error = this.tryPayCost(city, GameConfig.ECONOMY.BUILDINGS[buildingName].cost);
+        if (error) return error;
+
+        city.buildingLevels.set(buildingName, 1);
+        return `Построено: ${buildingName} (Ур. 1)`;
+    }
+
     public static expandBuilding(city: City, buildingName: string): string {
+        if ((city.buildingLevels.get(buildingName) || 0) <= 0) return `Нет здания: сначала постройте ${buildingName}.`;
         const cost = GameConfig.ECONOMY.EXPANSION.COST;
         const error = this.tryPayCost(city, cost);
         if (error) return error;
@@ -245,6 +332,9 @@ export class Economy {
     }
 
     public static recruitWorker(city: City): string {
+        if (PopulationSystem.getFreeHousing(city) <= 0) {
+            return `Нет жилья: город вмещает ${PopulationSystem.getHousingCapacity(city)} чел.`;
+        }
         const cost = GameConfig.ECONOMY.WORKER.RECRUIT_COST;
         const error = this.tryPayCost(city, cost);
         if (error) return error;
@@ -255,28 +345,36 @@ export class Economy {
         return "Нанят рабочий (Необученный)";
     }
 
+    public static expandHousing(city: City): string {
+        const error = this.tryPayCost(city, GameConfig.POPULATION.HOUSING_UPGRADE);
+        if (error) return error;
+
+        city.housingLevel++;
+        return `Построено жильё (Ур. ${city.housingLevel}, ${PopulationSystem.getHousingCapacity(city)} чел.)`;
+    }
+
     public static trainWorker(city: City, targetLevel: 'trained' | 'expert'): string {
         const cost = targetLevel === 'trained' 
             ? GameConfig.ECONOMY.WORKER.TRAIN_TRAINED_COST 
             : GameConfig.ECONOMY.WORKER.TRAIN_EXPERT_COST;
 
+        if (University.getCapacity(city) <= 0) return `Нет здания: сначала постройте ${GameConfig.UNIVERSITY.BUILDING}.`;
+
+        // The student stops working until the course ends
         if (targetLevel === 'trained') {
             if (city.workforce.untrained <= 0) return "Нет необученных рабочих";
             const error = this.tryPayCost(city, cost);
             if (error) return error;
 
             city.workforce.untrained--;
-            city.workforce.trained++;
-            return "Обучен рабочий (Специалист)";
         } else {
             if (city.workforce.trained <= 0) return "Нет специалистов для обучения";
             const error = this.tryPayCost(city, cost);
             if (error) return error;
 
             city.workforce.trained--;
-            city.workforce.expert++;
-            return "Обучен рабочий (Эксперт)";
         }
+        return University.enroll(city, { kind: 'WORKER', level: targetLevel }, cost, GameConfig.UNIVERSITY.WORKER_TURNS[targetLevel]);
     }
 
     public static buildTransportCapacity(city: City): string {
@@ -288,8 +386,15 @@ export class Economy {
         
         city.transportCapacity += GameConfig.ECONOMY.TRANSPORT.CAPACITY_INCREASE;
         
-        return "Построены вагоны (+5 Транспорт)";
+        return `Построены вагоны (+${GameConfig.ECONOMY.TRANSPORT.CAPACITY_INCREASE} Транспорт)`;
+    }
+
+    public static buildMerchantShip(city: City): string {
+        const error = this.tryPayCost(city, GameConfig.ECONOMY.FLEET.BUILD_COST);
+        if (error) return error;
+
+        city.fleetCapacity += GameConfig.ECONOMY.FLEET.CARGO_PER_SHIP;
+
+        return `Построено торговое судно (+${GameConfig.ECONOMY.FLEET.CARGO_PER_SHIP} Трюм)`;
     }
 }
-// For compatibility with imports
-export const RECIPES = GameConfig.ECONOMY.RECIPES;
@@ -5,16 +5,25 @@ import { MapRenderer } from '../Renderer/MapRenderer';
 import { CameraInput } from '../Input/CameraInput';
 import { Hex, getHexNeighbors, areHexesEqual, hexToString } from '../Grid/HexMath';
 import { TransportNetwork } from '../Logistics/TransportNetwork';
+import { NetworkAnalysis, NetworkReport } from '../Logistics/NetworkAnalysis';
 import { City } from '../Entities/City';
 import { Unit, UnitType } from '../Entities/Unit';
 import { Pathfinder } from '../Grid/Pathfinding';
-import { analyzeGameState, getStrategicAdvice } from './AIAnalysis';
 import { ISO_FACTOR } from '../Renderer/RenderUtils';
 
-import { CityManager } from './managers/CityManager';
+import { GameState } from './GameState';
+import { GameConfig } from './GameConfig';
+import { CityManager, ShipmentPlan, TransportOptions } from './managers/CityManager';
 import { UnitManager } from './managers/UnitManager';
 import { ActionSystem } from './systems/ActionSystem';
-import { SimulationSystem } from './systems/SimulationSystem';
+import { SaveSystem } from './systems/SaveSystem';
+import { CommandHistoryInfo } from './commands/CommandHistory';
+import { ResearchState } from './systems/ResearchSystem';
+import { MarketState, MarketSide } from './systems/MarketSystem';
+import { TreasuryState, DebtKind } from './systems/TreasurySystem';
+import { RuleSetData } from './rules/RuleSet';
+import { TurnReport } from './TurnReport';
+import { ProspectFilter, EngineerPriority, EngineerTerrainFilter } from '../Entities/CivilianUnit';
 
 import { WebGLContext, GPUResourceRegistry } from '../Renderer/core/Core';
 // Fix: Import `ChunkLayer` to resolve 'Cannot find name' error.
@@ -27,8 +36,15 @@ export interface HoverInfo {
   tileData: TileData | null;
   yields: Map<ResourceType, number> | null;
   isConnected: boolean;
+  // Station that collects the tile's yield (null when none does)
+  collector: Hex | null;
+  // Haul cost from the capital (Infinity when not connected)
+  transportCost: number;
 }
 
+// Analysis overlays drawn over the map
+export type MapMode = 'NONE' | 'CATCHMENTS' | 'HEATMAP';
+
 export class Game {
   private canvas: HTMLCanvasElement;
   private overlayCanvas: HTMLCanvasElement | null;
@@ -37,20 +53,11 @@ export class Game {
   private drawingContext: WebGLContext;
   private loop: GameLoop;
   
-  public map: GameMap;
+  // Headless simulation (map, logistics, managers, turn resolution)
+  public state: GameState;
+
   public mapRenderer: MapRenderer;
-  public transportNetwork: TransportNetwork;
   public input: CameraInput;
-  public pathfinder: Pathfinder;
-  
-  public cityManager: CityManager;
-  public unitManager: UnitManager;
-  public actions: ActionSystem;
-
-  public technologies: Set<string> = new Set(['Basic Tools']);
-
-  public turn: number = 1;
-  public year: number = 1815;
   
   public previewHighlightHex: Hex | null = null;
   public isExternalPreviewActive: boolean = false;
@@ -71,6 +78,10 @@ export class Game {
     zoom: 1.0 
   };
 
+  // Analysis map mode; its overlay is rebuilt lazily after the map changes
+  public mapMode: MapMode = 'NONE';
+  private overlayStale: boolean = true;
+
   public hoveredHex: Hex | null = null;
   private lastHoveredHex: Hex | null = null;
   
@@ -86,7 +97,7 @@ export class Game {
   // Quality Manager
   private qualityManager: QualityManager;
 
-  constructor(canvas: HTMLCanvasElement, overlayCanvas: HTMLCanvasElement | null, callback?: any) {
+  constructor(canvas: HTMLCanvasElement, overlayCanvas: HTMLCanvasElement | null, callback?: any, seed?: number, rules?: RuleSetData) {
     this.canvas = canvas;
     this.overlayCanvas = overlayCanvas;
     
@@ -121,22 +132,16 @@ export class Game {
     this.camera.width = canvas.width;
     this.camera.height = canvas.height;
 
-    this.map = new GameMap(100, 100);
-    this.transportNetwork = new TransportNetwork(this.map); 
+    // Seeded generation: passing the same seed reproduces the same world
+    this.state = new GameState({ width: 100, height: 100, seed, rules, events: callback });
     
     // Set hexSize to match 128px width: width = size * sqrt(3) => size = 128 / sqrt(3)
     this.mapRenderer = new MapRenderer(this.map, 128 / Math.sqrt(3));
     if (this.overlayCtx) {
         this.mapRenderer.setOverlayContext(this.overlayCtx);
     }
-
-    this.pathfinder = new Pathfinder(this.map);
-    
-    this.cityManager = new CityManager(this.map, this.transportNetwork);
-    this.unitManager = new UnitManager(this.map, this.pathfinder);
-    
-    // Initialize Systems
-    this.actions = new ActionSystem(this);
+    this.mapRenderer.setTerritoryColors(Game.getTerritoryColors());
+    this.map.onTileChanged(() => { this.overlayStale = true; });
 
     // Input listeners
     this.input = new CameraInput(this, this.canvas);
@@ -145,6 +150,58 @@ export class Game {
     this.init();
   }
 
+  /**
+   * Switches to an analysis map mode, or back to the plain map if it is already on. Returns the new mode.
+   */
+  public toggleMapMode(mode: MapMode): MapMode {
+      this.mapMode = this.mapMode === mode ? 'NONE' : mode;
+      this.overlayStale = true;
+      this.mapRenderer.setCatchmentOverlay(null);
+      this.mapRenderer.setHeatmapOverlay(null);
+      return this.mapMode;
+  }
+
+  private refreshOverlay() {
+      if (this.mapMode === 'CATCHMENTS') this.refreshCatchments();
+      else if (this.mapMode === 'HEATMAP') this.refreshHeatmap();
+      this.overlayStale = false;
+  }
+
+  private refreshCatchments() {
+      const catchments = this.cityManager.getCatchments();
+      // Golden-angle hues keep neighbouring stations apart
+      const stations = catchments.stations.map((s, i) => ({ hex: s.station, color: `hsl(${Math.round(i * 137.5) % 360}, 75%, 55%)`, tiles: s.tiles }));
+      this.mapRenderer.setCatchmentOverlay({
+          tiles: stations.flatMap(s => s.tiles.map(hex => ({ hex, color: s.color }))),
+          stations: stations.map(({ hex, color }) => ({ hex, color })),
+          uncovered: catchments.uncovered
+      });
+  }
+
+  // Cost of reaching each connected tile from the capital, with the tiles the network hangs on
+  private refreshHeatmap() {
+      this.transportNetwork.update();
+      const tiles: { hex: Hex; cost: number }[] = [];
+      let maxCost = 0;
+      for (let r = 0; r < this.map.height; r++) {
+          for (let c = 0; c < this.map.width; c++) {
+              const hex = { q: c - (r - (r & 1)) / 2, r };
+              const cost = this.transportNetwork.getTransportCost(hex);
+              if (cost === Infinity) continue;
+              tiles.push({ hex, cost });
+              maxCost = Math.max(maxCost, cost);
+          }
+      }
+      const bottlenecks = NetworkAnalysis.findArticulationPoints(this.map, this.transportNetwork).map(p => p.hex);
+      this.mapRenderer.setHeatmapOverlay({ tiles, maxCost, bottlenecks });
+  }
+
+  private static getTerritoryColors(): Record<number, string> {
+      const colors: Record<number, string> = { [GameConfig.EMPIRES.PLAYER_ID]: GameConfig.EMPIRES.PLAYER_COLOR };
+      for (const rival of GameConfig.EMPIRES.RIVALS) colors[rival.id] = rival.color;
+      return colors;
+  }
+
   // --- Context Handling ---
 
   private handleContextLost(e: Event) {
@@ -170,15 +227,15 @@ export class Game {
   // --- Clone and Simulation Logic ---
 
   /**
-   * Creates a deep clone of the game via the Simulation System.
+   * Creates a headless deep clone of the simulation state.
    * Useful for AI planning or "What If" scenarios.
    */
-  public cloneDeep(): Game {
-      return SimulationSystem.createDeepClone(this);
+  public cloneDeep(): GameState {
+      return this.state.cloneDeep();
   }
 
   public simulateTurn(unitActions: {unitId: string, action: string}[]): any {
-      return SimulationSystem.simulateTurn(this, unitActions);
+      return this.state.simulateTurn(unitActions);
   }
 
   // --- Initialization ---
@@ -193,9 +250,6 @@ export class Game {
         this.mapRenderer.setContext(nativeCtx);
     }
 
-    this.transportNetwork.findAndSetCapital();
-    this.spawnInitialEntities();
-
     // Async initialization of renderer (heavy erosion calc)
     await this.mapRenderer.initializeTerrain(this.reportLoading.bind(this));
 
@@ -241,6 +295,70 @@ export class Game {
       this.reportLoading(100, "Готово!");
   }
 
+  // --- Save / Load ---
+
+  /**
+   * Serializes the complete session (map, cities, units, techs, calendar) to a versioned JSON string.
+   */
+  public saveGame(): string {
+      return SaveSystem.serialize(this.state);
+  }
+
+  /**
+   * Restores a session produced by saveGame. Returns a user-facing status message.
+   */
+  public async loadGame(json: string): Promise<string> {
+      let data;
+      try {
+          data = SaveSystem.parse(json);
+      } catch (e: any) {
+          return e.message;
+      }
+
+      this.isReady = false;
+      this.reportLoading(0, "Загрузка сохранения...");
+
+      try {
+          SaveSystem.apply(this.state, data);
+      } catch (e: any) {
+          // Nothing was written, the current session goes on
+          this.isReady = true;
+          this.reportLoading(100, "Готово!");
+          return e.message;
+      }
+
+      const capital = this.cityManager.capital;
+      if (capital) {
+          this.transportNetwork.setCapital(capital.location);
+      } else {
+          this.transportNetwork.findAndSetCapital();
+      }
+      this.transportNetwork.markDirty();
+      this.overlayStale = true;
+
+      // Map layers were replaced wholesale, rebuild all visuals
+      this.mapRenderer.chunkManager.invalidateAll(ChunkLayer.BASE);
+      this.mapRenderer.chunkManager.invalidateAll(ChunkLayer.INFRA);
+      await this.mapRenderer.initializeTerrain(this.reportLoading.bind(this));
+
+      if (capital) {
+          const point = this.getHexPixelPos(capital.location);
+          this.camera.x = point.x - (this.camera.width / (2 * this.camera.zoom));
+          this.camera.y = point.y - (this.camera.height / (2 * this.camera.zoom));
+      }
+
+      this.reportLoading(100, "Готово!");
+      this.isReady = true;
+
+      if (this.stateCallback) {
+          this.stateCallback.onTurnChange(this.turn, this.year);
+          this.stateCallback.onSelectionChange(null);
+          this.triggerCapitalUpdate();
+      }
+
+      return `Игра загружена (${this.year} г.).`;
+  }
+
   public resize(width: number, height: number) {
     this.camera.width = width;
     this.camera.height = height;
@@ -259,112 +377,119 @@ export class Game {
      return {x, y};
   }
 
-  private spawnInitialEntities() {
-      let capitalHex: Hex | null = null;
-
-      for(let r=0; r<this.map.height; r++) {
-          for(let c=0; c<this.map.width; c++) {
-             const q = c - (r - (r&1)) / 2;
-             const tile = this.map.getTile(q, r);
-             if (tile?.improvement === ImprovementType.CITY) {
-                 capitalHex = { q, r };
-                 break;
-             }
-          }
-          if (capitalHex) break;
-      }
-
-      if (capitalHex) {
-          this.cityManager.spawnCapital(capitalHex);
-          this.unitManager.spawnInitialUnits(capitalHex);
-      }
-  }
-
-  // --- Getters & Proxies ---
-
-  public get cities(): City[] { return this.cityManager.cities; }
-  public get units(): Unit[] { return this.unitManager.units; }
-  public get selectedUnit(): Unit | null { return this.unitManager.selectedUnit; }
-  public get selectedHex(): Hex | null { return this.unitManager.selectedHex; }
+  // --- State Proxies ---
+
+  public get map(): GameMap { return this.state.map; }
+  public get transportNetwork(): TransportNetwork { return this.state.transportNetwork; }
+  public get pathfinder(): Pathfinder { return this.state.pathfinder; }
+  public get cityManager(): CityManager { return this.state.cityManager; }
+  public get unitManager(): UnitManager { return this.state.unitManager; }
+  public get actions(): ActionSystem { return this.state.actions; }
+  public get technologies(): Set<string> { return this.state.technologies; }
+  public get research(): ResearchState { return this.state.research; }
+  public get market(): MarketState { return this.state.market; }
+  public get treasury(): TreasuryState { return this.state.treasury; }
+  public get reports(): TurnReport[] { return this.state.reports; }
+  public get turn(): number { return this.state.turn; }
+  public get year(): number { return this.state.year; }
+
+  public get cities(): City[] { return this.state.cities; }
+  public get units(): Unit[] { return this.state.units; }
+  public get selectedUnit(): Unit | null { return this.state.selectedUnit; }
+  public get selectedHex(): Hex | null { return this.state.selectedHex; }
+  public get seed(): number { return this.state.seed; }
 
   public getVRAMStats(): string {
       return GPUResourceRegistry.getInstance().toDebugString();
   }
 
-  // Action Proxies (Delegated to ActionSystem)
-  public recruitUnit(type: UnitType): string {
-      return this.actions.recruitUnit(type);
+  // Action Proxies (Delegated to GameState)
+  public recruitUnit(type: UnitType, cityId?: string): string {
+      return this.state.recruitUnit(type, cityId);
   }
 
   public disbandSelectedUnit() {
-      this.actions.disbandSelectedUnit();
+      this.state.disbandSelectedUnit();
   }
 
   public setCityProduction(resource: ResourceType, isActive: boolean) {
-      this.actions.setCityProduction(resource, isActive);
+      this.state.setCityProduction(resource, isActive);
   }
 
   public doUnitAction(action: string) {
-      return this.actions.doUnitAction(action);
+      return this.state.doUnitAction(action);
   }
 
-  public doProspect() { return this.actions.doProspect(); }
-  public doBuildRoad() { return this.actions.doBuildRoad(); }
-  public doBuildDepot() { return this.actions.doBuildDepot(); }
-  public doBuildPort() { return this.actions.doBuildPort(); }
-  public doImproveResource() { return this.actions.doImproveResource(); }
-  public doBuyLand() { return this.actions.doBuyLand(); }
+  public doProspect() { return this.state.doProspect(); }
+  public doBuildRoad() { return this.state.doBuildRoad(); }
+  public doBuildDepot() { return this.state.doBuildDepot(); }
+  public doBuildPort() { return this.state.doBuildPort(); }
+  public doImproveResource() { return this.state.doImproveResource(); }
+  public doBuyLand() { return this.state.doBuyLand(); }
+  public doFoundCity() { return this.state.doFoundCity(); }
   
   public buildImprovement(type: ImprovementType) {
-      this.actions.buildImprovement(type);
+      this.state.buildImprovement(type);
   }
 
   // --- State & UI Interaction ---
 
-  public getTransportOptions(): Map<ResourceType, number> {
-      return this.cityManager.getTransportOptions();
+  public getTransportOptions(): TransportOptions {
+      return this.state.getTransportOptions();
   }
 
-  public getSavedTransportAllocations(): Map<ResourceType, number> {
-      return this.cityManager.getCapitalTransportSettings();
+  public getSavedTransportAllocations(): ShipmentPlan {
+      return this.state.getSavedTransportAllocations();
   }
 
-  public toggleSleep() {
-      this.unitManager.toggleSleep();
-      if (this.stateCallback) this.stateCallback.onSelectionChange(this.selectedUnit);
+  public planTransport(): ShipmentPlan {
+      return this.state.planTransport();
   }
 
-  public toggleAuto() {
-      this.unitManager.toggleAuto(this.cityManager.capital, this.technologies);
-      if (this.stateCallback) this.stateCallback.onSelectionChange(this.selectedUnit);
+  public isTransportAutomatic(): boolean {
+      return this.state.isTransportAutomatic();
   }
 
-  public setProspectorFilter(filter: any) {
-      this.unitManager.setProspectorFilter(filter);
-      if (this.stateCallback) this.stateCallback.onSelectionChange(this.selectedUnit);
+  public analyzeNetwork(): NetworkReport {
+      return this.state.analyzeNetwork();
   }
 
-  public setImproverFilter(filter: ResourceType | 'ALL') {
-      this.unitManager.setImproverFilter(filter);
-      if (this.stateCallback) this.stateCallback.onSelectionChange(this.selectedUnit);
-  }
+  public toggleSleep() { this.state.toggleSleep(); }
+  public toggleAuto() { this.state.toggleAuto(); }
+  public setProspectorFilter(filter: ProspectFilter) { this.state.setProspectorFilter(filter); }
+  public setImproverFilter(filter: ResourceType | 'ALL') { this.state.setImproverFilter(filter); }
+  public setEngineerPriority(priority: EngineerPriority) { this.state.setEngineerPriority(priority); }
+  public setEngineerTerrain(terrain: EngineerTerrainFilter) { this.state.setEngineerTerrain(terrain); }
 
-  public setEngineerPriority(priorityVal: string) {
-      this.unitManager.setEngineerPriority(priorityVal);
-      if (this.stateCallback) this.stateCallback.onSelectionChange(this.selectedUnit);
-  }
+  // --- Undo / Redo (current turn only) ---
+
+  public undo(): string | undefined { return this.state.undo(); }
+  public redo(): string | undefined { return this.state.redo(); }
+  public getHistoryInfo(): CommandHistoryInfo { return this.state.commands.getInfo(); }
 
-  public setEngineerTerrain(terrainVal: string) {
-      this.unitManager.setEngineerTerrain(terrainVal);
-      if (this.stateCallback) this.stateCallback.onSelectionChange(this.selectedUnit);
+  // --- Research ---
+
+  public queueResearch(techId: string): string | undefined { return this.state.queueResearch(techId); }
+  public cancelResearch(techId: string): string | undefined { return this.state.cancelResearch(techId); }
+
+  // --- Market ---
+
+  public placeMarketOrder(cityId: string, resource: ResourceType, side: MarketSide, amount: number): string | undefined {
+      return this.state.placeMarketOrder(cityId, resource, side, amount);
   }
+  public cancelMarketOrder(orderId: number): string | undefined { return this.state.cancelMarketOrder(orderId); }
+
+  // --- Treasury ---
+
+  public borrow(kind: DebtKind, offerIndex: number): string | undefined { return this.state.borrow(kind, offerIndex); }
+  public repayDebt(debtId: number): string | undefined { return this.state.repayDebt(debtId); }
 
   public setWindStrength(val: number) {
       this.windStrength = Math.max(0, Math.min(2.0, val));
   }
 
   public findNextActiveUnit(): Unit | null {
-      return this.unitManager.findNextActiveUnit();
+      return this.state.findNextActiveUnit();
   }
 
   public checkActiveUnits(): Unit | null {
@@ -377,38 +502,24 @@ export class Game {
       this.camera.y = pos.y - (this.camera.height / (2 * this.camera.zoom));
   }
 
-  public resolveTurn(shippedGoods: Map<ResourceType, number>) {
-    this.turn++;
-    this.year += 1;
-    
-    this.transportNetwork.update();
-    this.cityManager.processTurn(shippedGoods);
-
-    this.unitManager.processTurn(this.cityManager.capital, this.technologies, this.transportNetwork);
-
-    if (this.stateCallback) {
-      this.stateCallback.onTurnChange(this.turn, this.year);
-      this.stateCallback.onSelectionChange(this.selectedUnit); 
-      this.triggerCapitalUpdate();
-    }
+  public resolveTurn(shipments: ShipmentPlan) {
+    this.state.resolveTurn(shipments);
   }
 
   public getGatheredResources(hex: Hex, type: ImprovementType): Map<ResourceType, number> {
-      return this.cityManager.getGatheredResources(hex, type);
+      return this.state.getGatheredResources(hex, type);
   }
 
   public getPotentialYield(hex: Hex, type: ImprovementType): Map<ResourceType, number> {
-      return this.getGatheredResources(hex, type);
+      return this.state.getPotentialYield(hex, type);
   }
 
   public selectUnitAt(hex: Hex) {
-    this.unitManager.selectUnitAt(hex);
-    if (this.stateCallback) this.stateCallback.onSelectionChange(this.selectedUnit);
+    this.state.selectUnitAt(hex);
   }
   
   public selectUnit(unit: Unit) {
-      this.unitManager.selectUnit(unit);
-      if (this.stateCallback) this.stateCallback.onSelectionChange(this.selectedUnit);
+      this.state.selectUnit(unit);
   }
 
   public setPreviewHighlight(hex: Hex | null) {
@@ -417,29 +528,25 @@ export class Game {
   }
 
   public moveSelectedUnit(targetHex: Hex) {
-    this.unitManager.moveSelectedUnit(targetHex);
-    if (this.stateCallback) this.stateCallback.onSelectionChange(this.selectedUnit);
+    this.state.moveSelectedUnit(targetHex);
   }
 
   public getGameStateAnalysis(): any {
-      return analyzeGameState(this.map, this.cities, this.units, this.year);
+      return this.state.getGameStateAnalysis();
   }
 
   public getGameWarnings(): string[] {
-      this.transportNetwork.update();
-      return getStrategicAdvice(this.map, this.cities, this.transportNetwork);
+      return this.state.getGameWarnings();
   }
 
   // --- Exposed Callbacks for Sub-Systems ---
 
   public triggerCapitalUpdate() {
-      if (this.stateCallback && this.cities.length > 0) {
-          this.stateCallback.onCapitalUpdate(this.cities[0]);
-      }
+      this.state.triggerCapitalUpdate();
   }
   
   public triggerSelectionUpdate() {
-      if (this.stateCallback) this.stateCallback.onSelectionChange(this.selectedUnit);
+      this.state.triggerSelectionUpdate();
   }
 
   // --- Main Loop ---
@@ -468,6 +575,7 @@ export class Game {
 
     this.input.update(deltaTime);
     this.unitManager.update(deltaTime);
+    this.state.rivals.forEach(r => r.unitManager.update(deltaTime));
     this.mapRenderer.update(deltaTime);
 
     if (this.hoveredHex !== this.lastHoveredHex) {
@@ -491,12 +599,18 @@ export class Game {
                 }
 
                 const isConnected = this.transportNetwork.isConnectedToCapital(this.hoveredHex);
+                const hovered = this.hoveredHex;
+                const collector = yields && yields.size > 0
+                    ? this.cityManager.getCatchments().stations.find(s => s.tiles.some(t => areHexesEqual(t, hovered)))?.station || null
+                    : null;
 
                 this.stateCallback.onHoverChange({ 
                     hex: this.hoveredHex, 
                     tileData: tile,
                     yields,
-                    isConnected
+                    isConnected,
+                    collector,
+                    transportCost: this.transportNetwork.getTransportCost(this.hoveredHex)
                 });
 
                 if (!this.isExternalPreviewActive) {
@@ -533,7 +647,7 @@ export class Game {
         if (fpsEl) fpsEl.innerText = Math.round(fps).toString();
         
         const entEl = document.getElementById('debug-entities');
-        if (entEl) entEl.innerText = (this.cities.length + this.units.length).toString();
+        if (entEl) entEl.innerText = (this.state.allCities.length + this.state.allUnits.length).toString();
 
         this.frameCount = 0;
         this.fpsTimeAccumulator = 0;
@@ -565,12 +679,14 @@ export class Game {
 
     if (!this.isReady) return;
 
+    if (this.mapMode !== 'NONE' && this.overlayStale) this.refreshOverlay();
+
     // Pass the raw context (Canvas2D or WebGL) to the map renderer
     this.mapRenderer.render(
         this.drawingContext.getNativeContext(), 
         this.camera, 
-        this.cities, 
-        this.units, 
+        this.state.allCities, 
+        this.state.allUnits, 
         this.selectedUnit, 
         this.unitManager.validMovesCache,
         this.unitManager.currentPathCache,
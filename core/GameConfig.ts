@@ -1,219 +1,351 @@
 import { ResourceType, ImprovementType } from '../Grid/GameMap';
+import { RuleSetParser, RuleSetData } from './rules/RuleSet';
+import defaultRuleSet from './rules/default.json';
+
+export interface RecipeInput {
+    type: ResourceType;
+    amount: number;
+    // Substitutes used once `type` runs out, in order of preference
+    alternatives?: ResourceType[];
+}
+
+export interface RecipeOutput {
+    type: ResourceType;
+    amount: number;
+}
 
 export interface Recipe {
     name: string;
     building: string;
-    inputs: { type: ResourceType; amount: number; alternative?: ResourceType }[];
-    output: ResourceType;
-    outputAmount: number;
+    inputs: RecipeInput[];
+    // The first output is the main product, the rest are by-products
+    outputs: RecipeOutput[];
     laborCost: number;
 }
 
+// Player-set order in which a city's recipes get labor and inputs
+export type RecipePriority = 'HIGH' | 'NORMAL' | 'LOW';
+
+// Resources that satisfy an input, most preferred first
+export const getInputTypes = (input: RecipeInput): ResourceType[] => [input.type, ...(input.alternatives || [])];
+
 export interface CostConfig {
     money?: number;
     resources?: { type: ResourceType; amount: number }[];
     expertLabor?: number;
 }
 
+export interface TechDefinition {
+    // Stable key, stored in GameState.technologies and checked by gameplay code
+    id: string;
+    name: string;
+    description: string;
+    prerequisites: string[];
+    turns: number;
+    // Paid from the capital every turn of research. Experts are occupied, not consumed.
+    costPerTurn: CostConfig;
+}
+
+export interface BuildingDefinition {
+    // Construction cost of level 1 (further levels use ECONOMY.EXPANSION)
+    cost: CostConfig;
+    // Technology id needed before construction
+    tech?: string;
+}
+
+// Borrowing option offered by the treasury
+export interface DebtOffer {
+    amount: number;
+    turns: number;
+    interest: number;
+}
+
+// Player goal for the production planner, in priority order
+export type ProductionGoal =
+    | { kind: 'MAXIMIZE'; resource: ResourceType }
+    // Keep at least `amount` in stock: never consume below it, produce up to it when short
+    | { kind: 'RESERVE'; resource: ResourceType; amount: number };
+
+// Tie-breaker for a tile inside several stations' collection zones
+// (CHEAPEST haul per unit, NEAREST station, CITY before depots and ports)
+export type CatchmentRule = 'CHEAPEST' | 'NEAREST' | 'CITY';
+
+// Player rule for the transport planner, in priority order
+export type TransportRule =
+    // Inputs the city's production targets need beyond its stock
+    | { kind: 'INPUTS' }
+    // As much of the resource as the wagons and fleet can carry
+    | { kind: 'ALL'; resource: ResourceType }
+    // The resources in equal amounts (iron and coal for steel)
+    | { kind: 'RATIO'; resources: ResourceType[] };
+
+export interface RivalDefinition {
+    // Player id written to TileData.owner, City.ownerId and Unit.ownerId
+    id: number;
+    name: string;
+    capitalName: string;
+    // Territory color on the map
+    color: string;
+}
+
+// Rule values (recipes, buildings, costs, prices) come from a JSON rule-set; see core/rules.
+// RuleSystem.apply swaps them for another rule-set when a game starts or a save is loaded.
+export const DEFAULT_RULE_SET = defaultRuleSet as RuleSetData;
+const DEFAULT_RULES = RuleSetParser.parse(DEFAULT_RULE_SET);
+
 export const GameConfig = {
     CITY: {
-        INITIAL_CASH: 10000,
-        INITIAL_POPULATION: {
-            untrained: 6,
-            trained: 4,
-            expert: 2
+        INITIAL_CASH: DEFAULT_RULES.initialCash,
+        INITIAL_POPULATION: DEFAULT_RULES.initialPopulation,
+        INITIAL_INVENTORY: DEFAULT_RULES.initialInventory,
+        INITIAL_BUILDINGS: DEFAULT_RULES.initialBuildings,
+        // Upgrading a connected Depot into a new city (Engineer action)
+        FOUNDING: {
+            COST: DEFAULT_RULES.costs.foundCity,
+            // Taken from the paying city and carried to the new one
+            PROVISIONS: [{ type: ResourceType.CANNED_FOOD, amount: 4 }],
+            SETTLERS: 2, // Untrained workers moved from the paying city
+            MIN_DISTANCE: 5, // Hexes to the nearest city
+            TRANSPORT_CAPACITY: 5,
+            INITIAL_BUILDINGS: [
+                { name: "Lumber Mill", level: 1 },
+                { name: "Food Processing Plant", level: 1 },
+            ],
+            NAMES: ['Новый Берлин', 'Портобург', 'Железногорск', 'Лесоград', 'Угольск', 'Северск', 'Приморск', 'Степноград']
+        }
+    },
+    POPULATION: {
+        HOUSING_PER_LEVEL: 16, // People a city can house per housing level
+        HOUSING_UPGRADE: DEFAULT_RULES.costs.housing,
+        GROWTH_RATE: 0.05, // Births per healthy person and turn
+        GROWTH_MIN_HEALTH: 0.9, // Share of healthy people needed for births
+        IMMIGRATION: {
+            // Consumer goods that attract settlers; the scarcest one counts
+            GOODS: [ResourceType.CLOTHING, ResourceType.FURNITURE],
+            GOODS_PER_CAPITA: 0.25, // Stock per person of each good that draws one immigrant a turn
+            MAX_PER_TURN: 2
         },
-        INITIAL_INVENTORY: [
-            // Recommended Slice
-            { type: ResourceType.WHEAT, amount: 0 }, // Not specified in slice, assuming 0 or low
-            { type: ResourceType.FRUIT, amount: 0 },
-            { type: ResourceType.MEAT, amount: 0 },
-            { type: ResourceType.FISH, amount: 0 },
-            
-            { type: ResourceType.LUMBER, amount: 40 },
-            { type: ResourceType.STEEL, amount: 30 },
-            { type: ResourceType.CANNED_FOOD, amount: 80 },
-            { type: ResourceType.PAPER, amount: 10 },
-            { type: ResourceType.FABRIC, amount: 10 },
-            
-            { type: ResourceType.WOOD, amount: 20 },
-            { type: ResourceType.COAL, amount: 0 },
-            { type: ResourceType.IRON, amount: 0 },
-            
-            // Others
-            { type: ResourceType.GOLD, amount: 0 },
-            { type: ResourceType.FURNITURE, amount: 0 },
-            { type: ResourceType.CLOTHING, amount: 0 },
-            { type: ResourceType.ARMAMENTS, amount: 0 },
-            { type: ResourceType.WOOL, amount: 0 },
-            { type: ResourceType.COTTON, amount: 0 },
-            { type: ResourceType.SPICE, amount: 0 },
-            { type: ResourceType.OIL, amount: 0 },
-            { type: ResourceType.GEMS, amount: 0 },
-        ],
-        INITIAL_BUILDINGS: [
-             { name: "Lumber Mill", level: 6 }, // Handles Lumber + Paper
-             { name: "Textile Mill", level: 4 },
-             { name: "Steel Mill", level: 2 },
-             { name: "Furniture Factory", level: 2 },
-             { name: "Clothing Factory", level: 2 },
-             { name: "Metal Works", level: 2 },
-             { name: "Food Processing Plant", level: 4 },
-        ]
+        SICKNESS_THRESHOLD: 0.3, // Share of sick people that makes a turn count as an epidemic
+        SICKNESS_GRACE_TURNS: 2 // Epidemic turns in a row before people start leaving, one per turn
     },
-    ECONOMY: {
-        CASH_CONVERSION: {
-            [ResourceType.GOLD]: 200,
-            [ResourceType.GEMS]: 500
+    HAPPINESS: {
+        INITIAL: 50,
+        // Morale of a well-fed city without consumer goods: no bonus and no penalty
+        NEUTRAL: 50,
+        // Consumer goods used every turn per person (rounded up); each good weighs the same
+        DEMAND: {
+            [ResourceType.CLOTHING]: 0.1,
+            [ResourceType.FURNITURE]: 0.05,
+            [ResourceType.LUXURY_GOODS]: 0.02
         } as Record<number, number>,
-        RECIPES: [
-            {
-                name: "Пиломатериалы (Lumber)",
-                building: "Lumber Mill",
-                inputs: [{ type: ResourceType.WOOD, amount: 2 }],
-                output: ResourceType.LUMBER,
-                outputAmount: 1,
-                laborCost: 1
-            },
-            {
-                name: "Бумага (Paper)",
-                building: "Lumber Mill",
-                inputs: [{ type: ResourceType.WOOD, amount: 2 }],
-                output: ResourceType.PAPER,
-                outputAmount: 1,
-                laborCost: 1
-            },
-            {
-                name: "Ткань (Fabric)",
-                building: "Textile Mill",
-                inputs: [{ type: ResourceType.WOOL, amount: 2, alternative: ResourceType.COTTON }], 
-                output: ResourceType.FABRIC,
-                outputAmount: 1,
-                laborCost: 1
-            },
-            {
-                name: "Одежда (Clothing)",
-                building: "Clothing Factory",
-                inputs: [{ type: ResourceType.FABRIC, amount: 2 }], 
-                output: ResourceType.CLOTHING,
-                outputAmount: 1,
-                laborCost: 1
-            },
-            {
-                name: "Мебель (Furniture)",
-                building: "Furniture Factory",
-                inputs: [{ type: ResourceType.LUMBER, amount: 2 }],
-                output: ResourceType.FURNITURE,
-                outputAmount: 1,
-                laborCost: 1
-            },
-            {
-                name: "Сталь (Steel)",
-                building: "Steel Mill",
-                inputs: [
-                    { type: ResourceType.IRON, amount: 1 },
-                    { type: ResourceType.COAL, amount: 1 }
-                ],
-                output: ResourceType.STEEL,
-                outputAmount: 1,
-                laborCost: 1
-            },
-            {
-                name: "Вооружение (Armaments)",
-                building: "Metal Works",
-                inputs: [{ type: ResourceType.STEEL, amount: 2 }],
-                output: ResourceType.ARMAMENTS,
-                outputAmount: 1,
-                laborCost: 1
-            },
-            // Canned Food - Plant-based
-            {
-                name: "Консервы (Раст.)",
-                building: "Food Processing Plant",
-                inputs: [
-                    { type: ResourceType.WHEAT, amount: 2, alternative: ResourceType.FRUIT },
-                ],
-                output: ResourceType.CANNED_FOOD,
-                outputAmount: 2,
-                laborCost: 1
-            },
-            // Canned Food - Meat-based
-            {
-                name: "Консервы (Мясн.)",
-                building: "Food Processing Plant",
-                inputs: [
-                    { type: ResourceType.MEAT, amount: 2, alternative: ResourceType.FISH },
-                ],
-                output: ResourceType.CANNED_FOOD,
-                outputAmount: 2,
-                laborCost: 1
-            }
-        ] as Recipe[],
+        SICK_DIET: 0.5, // A sick person counts as half fed
+        ADJUSTMENT: 0.5, // Share of the gap to the target morale closed every turn
+        LABOR_EFFECT: 0.2, // Labor change at 0 and 100 morale (-20% / +20%)
+        GROWTH_EFFECT: 0.5, // Birth rate change at 0 and 100 morale
+        UNREST: 25 // Below this morale no settlers move in
+    },
+    STORAGE: {
+        WAREHOUSE: "Warehouse",
+        BASE_CAPACITY: 50, // Units of each resource a city can keep without a warehouse
+        CAPACITY_PER_LEVEL: 50, // Extra units of each resource per warehouse level
+        // Share of the stock that rots at the end of every turn; goods not listed keep forever
+        SPOILAGE: {
+            [ResourceType.WHEAT]: 0.1,
+            [ResourceType.FRUIT]: 0.2,
+            [ResourceType.MEAT]: 0.2,
+            [ResourceType.FISH]: 0.25
+        } as Record<number, number>
+    },
+    UNIVERSITY: {
+        BUILDING: "University",
+        // Courses run at the same time, one per university level; the rest wait their turn
+        WORKER_TURNS: { trained: 2, expert: 3 },
+        UNIT_TURNS: 2, // Civilian specialists
+        SOLDIER_TURNS: 1
+    },
+    ECONOMY: {
+        CASH_CONVERSION: DEFAULT_RULES.cashConversion,
+        RECIPES: DEFAULT_RULES.recipes,
+        // Every building a city can own. Missing ones are constructed at level 1 for `cost`.
+        BUILDINGS: DEFAULT_RULES.buildings,
         EXPANSION: {
-            COST: {
-                 resources: [
-                     { type: ResourceType.LUMBER, amount: 1 },
-                     { type: ResourceType.STEEL, amount: 1 }
-                 ],
-                 money: 0
-            } as CostConfig
+            COST: DEFAULT_RULES.costs.buildingExpansion
         },
         WORKER: {
-            RECRUIT_COST: {
-                resources: [
-                    { type: ResourceType.CANNED_FOOD, amount: 1 },
-                    { type: ResourceType.CLOTHING, amount: 1 },
-                    { type: ResourceType.FURNITURE, amount: 1 }
-                ]
-            } as CostConfig,
-            TRAIN_TRAINED_COST: {
-                money: 100,
-                resources: [{ type: ResourceType.PAPER, amount: 1 }]
-            } as CostConfig,
-            TRAIN_EXPERT_COST: {
-                money: 200,
-                resources: [{ type: ResourceType.PAPER, amount: 1 }]
-            } as CostConfig
+            RECRUIT_COST: DEFAULT_RULES.costs.recruitWorker,
+            TRAIN_TRAINED_COST: DEFAULT_RULES.costs.trainTrained,
+            TRAIN_EXPERT_COST: DEFAULT_RULES.costs.trainExpert
         },
         TRANSPORT: {
-            BUILD_COST: {
-                money: 0,
-                resources: [
-                    { type: ResourceType.LUMBER, amount: 1 },
-                    { type: ResourceType.STEEL, amount: 1 }
-                ]
-            } as CostConfig,
-            CAPACITY_INCREASE: 5
+            BUILD_COST: DEFAULT_RULES.costs.transportCapacity,
+            CAPACITY_INCREASE: DEFAULT_RULES.transportCapacityIncrease,
+            // Route cost of entering a tile; productive improvements count as roads, SEA is per water tile
+            MOVE_COST: { RAIL: 1, ROAD: 2, SEA: 0.5 },
+            // On road hauls a unit fills one wagon up to this route cost, then one more every DISTANCE_PER_WAGON
+            FREE_DISTANCE: 6,
+            DISTANCE_PER_WAGON: 10,
+            // Units a station can send per turn by the slowest track on its route
+            STATION_THROUGHPUT: { RAIL: 30, ROAD: 10, SEA: 20 },
+            // Collection zone radius around a station
+            CATCHMENT_RADIUS: { CITY: 2, STATION: 1 },
+            // A tile in several zones goes to the station winning the first rule that tells them apart;
+            // full ties go to the station found first on the map
+            OVERLAP_RULES: ['CHEAPEST', 'NEAREST', 'CITY'] as CatchmentRule[]
+        },
+        // Merchant ships carry everything that crosses water, one unit of cargo per unit of goods
+        FLEET: {
+            BUILD_COST: DEFAULT_RULES.costs.merchantShip,
+            CARGO_PER_SHIP: DEFAULT_RULES.shipCargo
         }
     },
+    TREASURY: {
+        // Income tax per person and turn by workforce tier, paid into the city's cash
+        TAX_PER_WORKER: { untrained: 2, trained: 5, expert: 10 },
+        // Loans are repaid in equal installments; `interest` is the total over the whole term
+        LOAN_OFFERS: [
+            { amount: 2000, turns: 10, interest: 0.1 },
+            { amount: 5000, turns: 15, interest: 0.2 },
+            { amount: 10000, turns: 20, interest: 0.35 }
+        ] as DebtOffer[],
+        // Bonds pay `interest` of the face value every turn and the face value at maturity
+        BOND_OFFERS: [
+            { amount: 3000, turns: 10, interest: 0.02 },
+            { amount: 8000, turns: 20, interest: 0.03 }
+        ] as DebtOffer[],
+        MAX_DEBTS: 4,
+        // Turns the capital may stay in the red before creditors seize goods
+        BANKRUPTCY_GRACE_TURNS: 2,
+        HISTORY_LENGTH: 30 // Turns of income/expense history kept
+    },
+    PLANNER: {
+        // Goals a new city starts with (planning itself stays off until the player enables it)
+        DEFAULT_GOALS: [
+            { kind: 'RESERVE', resource: ResourceType.CANNED_FOOD, amount: 20 },
+            { kind: 'MAXIMIZE', resource: ResourceType.STEEL },
+            { kind: 'MAXIMIZE', resource: ResourceType.LUMBER }
+        ] as ProductionGoal[]
+    },
+    TRANSPORT_PLANNER: {
+        // Rules a new city starts with (the modal keeps opening until the player turns on auto mode)
+        DEFAULT_RULES: [
+            { kind: 'INPUTS' },
+            { kind: 'ALL', resource: ResourceType.WHEAT },
+            { kind: 'ALL', resource: ResourceType.FRUIT },
+            { kind: 'ALL', resource: ResourceType.MEAT },
+            { kind: 'ALL', resource: ResourceType.FISH }
+        ] as TransportRule[]
+    },
+    MARKET: {
+        // Price of one unit when world supply and demand are balanced
+        BASE_PRICES: DEFAULT_RULES.marketPrices,
+        SELL_RATIO: 0.8, // Sellers get this share of the price; the gap keeps buy-and-resell unprofitable
+        DEPTH: 50, // Net units traded in a turn that move the price by ELASTICITY
+        ELASTICITY: 0.1,
+        REVERSION: 0.1, // Share of the gap to the base price closed every turn
+        MIN_PRICE_FACTOR: 0.25,
+        MAX_PRICE_FACTOR: 4,
+        HISTORY_LENGTH: 30 // Turns of price history kept
+    },
     UNITS: {
         CONSTRUCTION: {
-            COST: {
-                money: 1000,
-                resources: [{ type: ResourceType.PAPER, amount: 1 }],
-                expertLabor: 1
-            } as CostConfig
+            COST: DEFAULT_RULES.costs.civilianUnit
+        },
+        // Soldiers are equipped from the armory instead of trained by experts
+        MILITARY: {
+            COST: DEFAULT_RULES.costs.soldier
         }
     },
-    INFRASTRUCTURE: {
-        [ImprovementType.ROAD]: {
-            money: 100,
-            resources: [{ type: ResourceType.WOOD, amount: 1 }]
-        } as CostConfig,
-        [ImprovementType.RAILROAD]: {
-            money: 200,
-            resources: [{ type: ResourceType.LUMBER, amount: 1 }, { type: ResourceType.STEEL, amount: 1 }]
-        } as CostConfig,
-        [ImprovementType.DEPOT]: {
-            money: 500,
-            resources: [{ type: ResourceType.LUMBER, amount: 1 }, { type: ResourceType.STEEL, amount: 1 }]
-        } as CostConfig,
-        [ImprovementType.PORT]: {
-            money: 1000,
-            resources: [{ type: ResourceType.LUMBER, amount: 2 }, { type: ResourceType.STEEL, amount: 1 }]
-        } as CostConfig
+    INFRASTRUCTURE: DEFAULT_RULES.infrastructure,
+    // Paid by the capital every turn: infrastructure nearest to it first, then units
+    UPKEEP: {
+        UNITS: DEFAULT_RULES.upkeepUnits,
+        IMPROVEMENTS: DEFAULT_RULES.upkeepImprovements,
+        // What unpaid infrastructure falls back to
+        DEGRADES_TO: {
+            [ImprovementType.RAILROAD]: ImprovementType.ROAD,
+            [ImprovementType.ROAD]: ImprovementType.NONE,
+            [ImprovementType.DEPOT]: ImprovementType.ROAD,
+            [ImprovementType.PORT]: ImprovementType.NONE
+        } as Partial<Record<ImprovementType, ImprovementType>>,
+        DEGRADE_PER_TURN: 2 // Unpaid tiles that fall apart each turn, farthest from the capital first
     },
     ACTIONS: {
-        BUY_LAND: { money: 500 } as CostConfig
+        BUY_LAND: DEFAULT_RULES.costs.buyLand
+    },
+    RESEARCH: {
+        STARTING_TECHNOLOGIES: ['Basic Tools'],
+        TECHNOLOGIES: [
+            {
+                id: 'Basic Tools',
+                name: 'Базовые инструменты',
+                description: 'Фермы, шахты и дороги.',
+                prerequisites: [],
+                turns: 0,
+                costPerTurn: {}
+            },
+            {
+                id: 'Feed Grasses',
+                name: 'Кормовые травы',
+                description: 'Открывает Пастуха: ранчо для шерсти и скота.',
+                prerequisites: ['Basic Tools'],
+                turns: 3,
+                costPerTurn: { money: 100, resources: [{ type: ResourceType.PAPER, amount: 1 }] }
+            },
+            {
+                id: 'Railroad Transport',
+                name: 'Железные дороги',
+                description: 'Инженеры строят ж/д вместо дорог и модернизируют старые дороги.',
+                prerequisites: ['Basic Tools'],
+                turns: 5,
+                costPerTurn: { money: 200, resources: [{ type: ResourceType.PAPER, amount: 1 }], expertLabor: 1 }
+            },
+            {
+                id: 'Iron Railroad Bridges',
+                name: 'Железные мосты',
+                description: 'Открывает Лесника: лесопилки на лесных клетках.',
+                prerequisites: ['Railroad Transport'],
+                turns: 4,
+                costPerTurn: { money: 200, resources: [{ type: ResourceType.PAPER, amount: 1 }, { type: ResourceType.STEEL, amount: 1 }] }
+            },
+            {
+                id: 'Oil Drilling',
+                name: 'Бурение нефти',
+                description: 'Открывает Буровика: нефтяные вышки, и нефтеперегонный завод.',
+                prerequisites: ['Railroad Transport', 'Feed Grasses'],
+                turns: 6,
+                costPerTurn: { money: 300, resources: [{ type: ResourceType.PAPER, amount: 2 }], expertLabor: 1 }
+            }
+        ] as TechDefinition[]
+    },
+    EMPIRES: {
+        PLAYER_ID: 1,
+        PLAYER_COLOR: '#f59e0b',
+        RIVALS: [
+            { id: 2, name: 'Северная Империя', capitalName: 'Нордхафен', color: '#dc2626' },
+            { id: 3, name: 'Южное Королевство', capitalName: 'Сан-Лукас', color: '#2563eb' }
+        ] as RivalDefinition[],
+        TERRITORY_RADIUS: 3, // Land claimed around every capital at the start
+        MIN_CAPITAL_DISTANCE: 25, // Hexes between starting capitals
+        AI: {
+            MAX_UNITS: 8,
+            RECRUIT_RESERVE: 3000, // Cash kept back when recruiting
+            RESEARCH_ORDER: ['Railroad Transport', 'Feed Grasses', 'Iron Railroad Bridges', 'Oil Drilling'],
+            // Production planner goals of every rival city
+            PRODUCTION_GOALS: [
+                { kind: 'RESERVE', resource: ResourceType.CANNED_FOOD, amount: 20 },
+                { kind: 'RESERVE', resource: ResourceType.PAPER, amount: 10 },
+                { kind: 'MAXIMIZE', resource: ResourceType.STEEL },
+                { kind: 'MAXIMIZE', resource: ResourceType.LUMBER },
+                { kind: 'MAXIMIZE', resource: ResourceType.CLOTHING },
+                { kind: 'MAXIMIZE', resource: ResourceType.FURNITURE }
+            ] as ProductionGoal[],
+            MARKET_SURPLUS: 40, // Stock above this is sold on the world market
+            // Building materials bought back up to these levels when cash allows
+            MARKET_RESTOCK: [
+                { type: ResourceType.STEEL, amount: 10 },
+                { type: ResourceType.LUMBER, amount: 10 },
+                { type: ResourceType.PAPER, amount: 5 }
+            ]
+        }
     }
-};
\ No newline at end of file
+};
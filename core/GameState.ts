@@ -0,0 +1,447 @@
+import { GameMap, ImprovementType, ResourceType } from '../Grid/GameMap';
+import { Hex } from '../Grid/HexMath';
+import { Pathfinder } from '../Grid/Pathfinding';
+import { TransportNetwork } from '../Logistics/TransportNetwork';
+import { NetworkAnalysis, NetworkReport } from '../Logistics/NetworkAnalysis';
+import { City } from '../Entities/City';
+import { Unit, UnitType } from '../Entities/Unit';
+import { analyzeGameState, getStrategicAdvice } from './AIAnalysis';
+
+import { CityManager, ShipmentPlan, TransportOptions } from './managers/CityManager';
+import { UnitManager } from './managers/UnitManager';
+import { ActionSystem } from './systems/ActionSystem';
+import { SimulationSystem } from './systems/SimulationSystem';
+import { ResearchSystem, ResearchState, ResearchTurnResult } from './systems/ResearchSystem';
+import { MarketSystem, MarketState, MarketSide, MarketTurnResult } from './systems/MarketSystem';
+import { UpkeepSystem } from './systems/UpkeepSystem';
+import { TreasurySystem, TreasuryState, DebtKind, FinanceRecord } from './systems/TreasurySystem';
+import { RuleSystem } from './systems/RuleSystem';
+import { RuleSetData } from './rules/RuleSet';
+import { GameConfig } from './GameConfig';
+import { TransportPlanner } from './TransportPlanner';
+import { GameCommand } from './commands/Command';
+import { CommandHistory, CommandHistoryInfo } from './commands/CommandHistory';
+import { QueueResearchCommand, CancelResearchCommand } from './commands/ResearchCommands';
+import { PlaceMarketOrderCommand, CancelMarketOrderCommand } from './commands/MarketCommands';
+import { BorrowCommand, RepayDebtCommand } from './commands/TreasuryCommands';
+import { ProspectFilter, EngineerPriority, EngineerTerrainFilter } from '../Entities/CivilianUnit';
+import { RivalEmpire } from './RivalEmpire';
+import { SeededRandom, hashSeed } from '../utils/Random';
+import { TurnReport, CityTurnReport, CityCashReport } from './TurnReport';
+
+// Turn reports kept for the UI (not saved)
+const REPORT_HISTORY = 20;
+
+/**
+ * Notifications emitted by the simulation. All optional, so a headless
+ * state (tests, AI planning, batch runs) can simply omit them.
+ */
+export interface GameStateEvents {
+  onTurnChange?: (turn: number, year: number) => void;
+  onSelectionChange?: (unit: Unit | null) => void;
+  onCapitalUpdate?: (city: City) => void;
+  onHistoryChange?: (info: CommandHistoryInfo) => void;
+  onResearchUpdate?: (result: ResearchTurnResult) => void;
+  // The player's own trades of the turn
+  onMarketUpdate?: (result: MarketTurnResult) => void;
+  onTurnReport?: (report: TurnReport) => void;
+}
+
+export interface GameStateOptions {
+  width?: number;
+  height?: number;
+  seed?: number;
+  // Use an existing map instead of generating one (clones, tests)
+  map?: GameMap;
+  // Place the capital's starting units and the rival empires. Disabled for clones that copy them over.
+  spawnEntities?: boolean;
+  // Rule-set to play with; omitted keeps the active one (clones, headless runs)
+  rules?: RuleSetData;
+  events?: GameStateEvents;
+}
+
+/**
+ * GameState
+ * The headless game engine: world, logistics, managers, actions and turn resolution.
+ * Has no canvas/DOM dependencies, so it can be constructed and driven in Node.
+ * The rendering `Game` wraps one instance of it.
+ */
+export class GameState {
+  public map: GameMap;
+  public transportNetwork: TransportNetwork;
+  public pathfinder: Pathfinder;
+
+  public cityManager: CityManager;
+  public unitManager: UnitManager;
+  public actions: ActionSystem;
+  // Undo/redo of player commands within the current turn
+  public commands: CommandHistory;
+
+  public technologies: Set<string> = new Set(GameConfig.RESEARCH.STARTING_TECHNOLOGIES);
+  public research: ResearchState = ResearchSystem.createState();
+
+  // World market shared by all empires
+  public market: MarketState = MarketSystem.createState();
+
+  // Player's debts and finance history
+  public treasury: TreasuryState = TreasurySystem.createState();
+
+  // Computer-controlled empires sharing the map
+  public rivals: RivalEmpire[] = [];
+
+  // Player's turn reports, oldest first
+  public reports: TurnReport[] = [];
+
+  public turn: number = 1;
+  public year: number = 1815;
+
+  public events: GameStateEvents;
+
+  constructor(options: GameStateOptions = {}) {
+    this.events = options.events || {};
+    // Before anything reads GameConfig: cities, prices and costs all come from the rules
+    if (options.rules) {
+      RuleSystem.apply(options.rules);
+      // Field initializers priced the market with the previous rules
+      this.market = MarketSystem.createState();
+    }
+
+    this.map = options.map || new GameMap(options.width ?? 100, options.height ?? 100, options.seed);
+    this.transportNetwork = new TransportNetwork(this.map);
+    this.pathfinder = new Pathfinder(this.map);
+
+    this.cityManager = new CityManager(this.map, this.transportNetwork);
+    this.unitManager = new UnitManager(this.map, this.pathfinder);
+
+    this.actions = new ActionSystem(this);
+    this.commands = new CommandHistory(info => {
+      if (this.events.onHistoryChange) this.events.onHistoryChange(info);
+    });
+
+    this.transportNetwork.findAndSetCapital();
+    if (options.spawnEntities !== false) {
+      this.spawnInitialEntities();
+      this.spawnRivals();
+    }
+  }
+
+  private spawnInitialEntities() {
+      let capitalHex: Hex | null = null;
+
+      for(let r=0; r<this.map.height; r++) {
+          for(let c=0; c<this.map.width; c++) {
+             const q = c - (r - (r&1)) / 2;
+             const tile = this.map.getTile(q, r);
+             if (tile?.improvement === ImprovementType.CITY) {
+                 capitalHex = { q, r };
+                 break;
+             }
+          }
+          if (capitalHex) break;
+      }
+
+      if (capitalHex) {
+          this.cityManager.spawnCapital(capitalHex);
+          this.unitManager.spawnInitialUnits(capitalHex);
+          this.map.claimTerritory(capitalHex, GameConfig.EMPIRES.TERRITORY_RADIUS, GameConfig.EMPIRES.PLAYER_ID);
+      }
+  }
+
+  /**
+   * Places every configured rival far from the existing capitals.
+   * Uses its own seeded stream, so the same world seed gives the same rivals.
+   */
+  private spawnRivals() {
+      const rng = new SeededRandom(hashSeed(this.map.seed, 'rivals'));
+      const capitals = this.cities.map(c => c.location);
+
+      for (const definition of GameConfig.EMPIRES.RIVALS) {
+          const site = RivalEmpire.findCapitalSite(this.map, capitals, rng);
+          if (!site) continue;
+
+          const rival = new RivalEmpire(this.map, definition);
+          rival.spawn(site);
+          this.rivals.push(rival);
+          capitals.push(site);
+      }
+  }
+
+  // --- Clone and Simulation Logic ---
+
+  /**
+   * Creates a deep clone of the state via the Simulation System.
+   * Useful for AI planning or "What If" scenarios.
+   */
+  public cloneDeep(): GameState {
+      return SimulationSystem.createDeepClone(this);
+  }
+
+  public simulateTurn(unitActions: {unitId: string, action: string}[]): any {
+      return SimulationSystem.simulateTurn(this, unitActions);
+  }
+
+  // --- Getters ---
+
+  public get cities(): City[] { return this.cityManager.cities; }
+  public get units(): Unit[] { return this.unitManager.units; }
+  public get selectedUnit(): Unit | null { return this.unitManager.selectedUnit; }
+  public get selectedHex(): Hex | null { return this.unitManager.selectedHex; }
+  public get seed(): number { return this.map.seed; }
+
+  // Everything on the map, rivals included (rendering)
+  public get allCities(): City[] { return [...this.cities, ...this.rivals.flatMap(r => r.cities)]; }
+  public get allUnits(): Unit[] { return [...this.units, ...this.rivals.flatMap(r => r.units)]; }
+
+  // Action Proxies (Delegated to ActionSystem)
+  public recruitUnit(type: UnitType, cityId?: string): string {
+      return this.actions.recruitUnit(type, cityId);
+  }
+
+  public disbandSelectedUnit() {
+      this.actions.disbandSelectedUnit();
+  }
+
+  public setCityProduction(resource: ResourceType, isActive: boolean) {
+      this.actions.setCityProduction(resource, isActive);
+  }
+
+  public doUnitAction(action: string) {
+      return this.actions.doUnitAction(action);
+  }
+
+  public doProspect() { return this.actions.doProspect(); }
+  public doBuildRoad() { return this.actions.doBuildRoad(); }
+  public doBuildDepot() { return this.actions.doBuildDepot(); }
+  public doBuildPort() { return this.actions.doBuildPort(); }
+  public doImproveResource() { return this.actions.doImproveResource(); }
+  public doBuyLand() { return this.actions.doBuyLand(); }
+  public doFoundCity() { return this.actions.doFoundCity(); }
+
+  public buildImprovement(type: ImprovementType) {
+      this.actions.buildImprovement(type);
+  }
+
+  // --- Commands (Undo / Redo) ---
+
+  public executeCommand(command: GameCommand): string | undefined {
+      return this.actions.execute(command);
+  }
+
+  public undo(): string | undefined {
+      return this.actions.undo();
+  }
+
+  public redo(): string | undefined {
+      return this.actions.redo();
+  }
+
+  // --- Research ---
+
+  public queueResearch(techId: string): string | undefined {
+      return this.executeCommand(new QueueResearchCommand(techId));
+  }
+
+  public cancelResearch(techId: string): string | undefined {
+      return this.executeCommand(new CancelResearchCommand(techId));
+  }
+
+  // --- Market ---
+
+  public placeMarketOrder(cityId: string, resource: ResourceType, side: MarketSide, amount: number): string | undefined {
+      return this.executeCommand(new PlaceMarketOrderCommand(cityId, resource, side, amount));
+  }
+
+  public cancelMarketOrder(orderId: number): string | undefined {
+      return this.executeCommand(new CancelMarketOrderCommand(orderId));
+  }
+
+  // --- Treasury ---
+
+  public borrow(kind: DebtKind, offerIndex: number): string | undefined {
+      return this.executeCommand(new BorrowCommand(kind, offerIndex));
+  }
+
+  public repayDebt(debtId: number): string | undefined {
+      return this.executeCommand(new RepayDebtCommand(debtId));
+  }
+
+  // --- Unit Control ---
+
+  public toggleSleep() { this.actions.toggleSleep(); }
+  public toggleAuto() { this.actions.toggleAuto(); }
+  public setProspectorFilter(filter: ProspectFilter) { this.actions.setUnitFilter({ kind: 'PROSPECT', value: filter }); }
+  public setImproverFilter(filter: ResourceType | 'ALL') { this.actions.setUnitFilter({ kind: 'RESOURCE', value: filter }); }
+  public setEngineerPriority(priority: EngineerPriority) { this.actions.setUnitFilter({ kind: 'ENGINEER_PRIORITY', value: priority }); }
+  public setEngineerTerrain(terrain: EngineerTerrainFilter) { this.actions.setUnitFilter({ kind: 'ENGINEER_TERRAIN', value: terrain }); }
+
+  public findNextActiveUnit(): Unit | null {
+      return this.unitManager.findNextActiveUnit();
+  }
+
+  public selectUnitAt(hex: Hex) {
+    this.unitManager.selectUnitAt(hex);
+    this.triggerSelectionUpdate();
+  }
+
+  public selectUnit(unit: Unit) {
+      this.unitManager.selectUnit(unit);
+      this.triggerSelectionUpdate();
+  }
+
+  public moveSelectedUnit(targetHex: Hex) {
+    this.actions.moveSelectedUnit(targetHex);
+  }
+
+  // --- Economy & Turn ---
+
+  public getTransportOptions(): TransportOptions {
+      return this.cityManager.getTransportOptions();
+  }
+
+  public getSavedTransportAllocations(): ShipmentPlan {
+      return this.cityManager.getTransportSettings();
+  }
+
+  /**
+   * Shipments the connected cities' transport rules ask for.
+   */
+  public planTransport(): ShipmentPlan {
+      return TransportPlanner.plan(this.cityManager.getConnectedCities(), this.getTransportOptions());
+  }
+
+  // The transport phase needs no player input once every connected city ships by its rules
+  public isTransportAutomatic(): boolean {
+      return this.cityManager.getConnectedCities().every(c => c.autoTransport);
+  }
+
+  public resolveTurn(shipments: ShipmentPlan) {
+    const resolvedTurn = this.turn;
+    const resolvedYear = this.year;
+    const startCash = new Map(this.cities.map(c => [c.id, c.cash]));
+
+    this.turn++;
+    this.year += 1;
+
+    // Past turns are final
+    this.commands.clear();
+
+    // Orders settle before production, so bought inputs can be used this turn
+    for (const rival of this.rivals) {
+        rival.planTrades(this.market);
+    }
+    const market = this.settleMarket();
+
+    this.transportNetwork.update();
+    // Research is paid before production: its experts are not available to the factories
+    const researchPayment = ResearchSystem.payTurn(this);
+    const cityReports = this.cityManager.processTurn(shipments, researchPayment.reservedExperts);
+    for (const report of cityReports) {
+        const city = this.cityManager.getCity(report.cityId);
+        if (city) this.unitManager.addGraduates(city, report.training.completed, this.turn);
+    }
+    const research = ResearchSystem.processTurn(this, researchPayment);
+
+    const capital = this.cityManager.capital;
+    const upkeep = UpkeepSystem.processTurn(this.map, GameConfig.EMPIRES.PLAYER_ID, capital, this.unitManager.units);
+    this.unitManager.processTurn(capital, this.technologies, this.transportNetwork);
+    const treasury = TreasurySystem.processTurn(this.treasury, this.cities, capital, this.market);
+
+    // Rivals move after the player; their building may claim land next to our network
+    for (const rival of this.rivals) {
+        rival.processTurn(this.turn);
+    }
+
+    // Cash is settled last: research and units pay after the economy phase
+    for (const report of cityReports) {
+        const cash = report.cash;
+        const city = this.cityManager.getCity(report.cityId);
+        cash.start = startCash.get(report.cityId) ?? cash.start;
+        cash.market = market.trades
+            .filter(t => t.cityId === report.cityId)
+            .reduce((sum, t) => sum + (t.side === 'SELL' ? t.total : -t.total), 0);
+        const isCapital = city !== undefined && city === capital;
+        cash.upkeep = isCapital ? -upkeep.paid : 0;
+        cash.taxes = treasury.taxes.get(report.cityId) || 0;
+        cash.debt = isCapital ? -treasury.debtService : 0;
+        // Goods seized from a bankrupt capital count as forced sales
+        if (isCapital) cash.market += treasury.seized.reduce((sum, s) => sum + s.cash, 0);
+        cash.end = city ? city.cash : cash.end;
+        cash.other = cash.end - cash.start - cash.conversion - cash.market - cash.upkeep - cash.taxes - cash.debt;
+    }
+    TreasurySystem.recordHistory(this.treasury, this.summarizeFinances(resolvedTurn, resolvedYear, cityReports));
+
+    const report: TurnReport = { turn: resolvedTurn, year: resolvedYear, cities: cityReports, market, research, upkeep, treasury };
+    this.reports = [...this.reports, report].slice(-REPORT_HISTORY);
+
+    if (this.events.onTurnChange) this.events.onTurnChange(this.turn, this.year);
+    if (this.events.onResearchUpdate) this.events.onResearchUpdate(research);
+    if (this.events.onMarketUpdate) this.events.onMarketUpdate(market);
+    if (this.events.onTurnReport) this.events.onTurnReport(report);
+    this.triggerSelectionUpdate();
+    this.triggerCapitalUpdate();
+  }
+
+  private summarizeFinances(turn: number, year: number, cityReports: CityTurnReport[]): FinanceRecord {
+      const sum = (pick: (cash: CityCashReport) => number) => cityReports.reduce((total, r) => total + pick(r.cash), 0);
+      return {
+          turn,
+          year,
+          cashStart: sum(c => c.start),
+          taxes: sum(c => c.taxes),
+          conversion: sum(c => c.conversion),
+          market: sum(c => c.market),
+          upkeep: sum(c => c.upkeep),
+          debt: sum(c => c.debt),
+          other: sum(c => c.other),
+          cashEnd: sum(c => c.end)
+      };
+  }
+
+  /**
+   * Settles every empire's orders and returns the part of the result that concerns the player.
+   */
+  private settleMarket(): MarketTurnResult {
+      const result = MarketSystem.settle(this.market, this.allCities);
+      const own = new Set(this.cities.map(c => c.id));
+      return {
+          trades: result.trades.filter(t => own.has(t.cityId)),
+          shortfalls: result.shortfalls.filter(s => own.has(s.order.cityId))
+      };
+  }
+
+  public getGatheredResources(hex: Hex, type: ImprovementType): Map<ResourceType, number> {
+      return this.cityManager.getGatheredResources(hex, type);
+  }
+
+  public getPotentialYield(hex: Hex, type: ImprovementType): Map<ResourceType, number> {
+      return this.getGatheredResources(hex, type);
+  }
+
+  public getGameStateAnalysis(): any {
+      return analyzeGameState(this.map, this.cities, this.units, this.year);
+  }
+
+  public getGameWarnings(): string[] {
+      this.transportNetwork.update();
+      return getStrategicAdvice(this.map, this.cities, this.transportNetwork);
+  }
+
+  /**
+   * Bottleneck tiles of the player's network and road plans for uncollected improvements.
+   */
+  public analyzeNetwork(): NetworkReport {
+      return NetworkAnalysis.analyze(this.map, this.transportNetwork, this.cityManager, GameConfig.EMPIRES.PLAYER_ID);
+  }
+
+  // --- Event Triggers ---
+
+  public triggerCapitalUpdate() {
+      if (this.events.onCapitalUpdate && this.cities.length > 0) {
+          this.events.onCapitalUpdate(this.cities[0]);
+      }
+  }
+
+  public triggerSelectionUpdate() {
+      if (this.events.onSelectionChange) this.events.onSelectionChange(this.selectedUnit);
+  }
+}
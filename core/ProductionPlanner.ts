@@ -0,0 +1,212 @@
+import { City } from '../Entities/City';
+import { ResourceType } from '../Grid/GameMap';
+import { ProductionGoal, Recipe, RecipeInput, getInputTypes } from './GameConfig';
+import { getResourceName } from '../utils/Localization';
+
+export interface ProductionPlan {
+    // Runs per recipe name, ready for City.productionTargets (every recipe has an entry)
+    targets: Map<string, number>;
+    laborUsed: number;
+    // Expected net stock change per resource when the plan runs
+    netOutput: Map<ResourceType, number>;
+}
+
+// Working copy of what is left while runs are being added
+interface PlanState {
+    // Recipes in the order the economy runs them (shared between copies)
+    recipes: Recipe[];
+    stock: Map<ResourceType, number>;
+    // Amounts that later goals may not consume (reserves and earlier goals' output)
+    locked: Map<ResourceType, number>;
+    capacity: Map<string, number>;
+    labor: number;
+    runs: number[];
+}
+
+/**
+ * ProductionPlanner
+ * Turns a city's goals into recipe targets. Goals are served in order; intermediate goods
+ * (lumber for furniture, steel for armaments) are planned on demand from recipes that run
+ * earlier in Economy.processTurn (recipe priority, then rule-set order), so everything planned
+ * can actually be made in one turn.
+ */
+export class ProductionPlanner {
+
+    /**
+     * Computes targets for the given labor budget (the economy passes the healthy labor of the turn).
+     */
+    public static plan(city: City, labor: number = city.labor, goals: ProductionGoal[] = city.productionGoals): ProductionPlan {
+        const recipes = city.getRecipeOrder();
+        let state: PlanState = {
+            recipes,
+            stock: new Map(city.inventory),
+            locked: new Map(),
+            capacity: new Map(city.buildingLevels),
+            labor,
+            runs: recipes.map(() => 0)
+        };
+
+        // Reserves protect stock from every goal, including the ones listed before them
+        for (const goal of goals) {
+            if (goal.kind === 'RESERVE') this.lock(state, goal.resource, goal.amount);
+        }
+
+        for (const goal of goals) {
+            const before = state.stock.get(goal.resource) || 0;
+            const target = goal.kind === 'RESERVE' ? goal.amount : Infinity;
+
+            // One unit at a time, each attempt on a copy, until the chain runs dry
+            while ((state.stock.get(goal.resource) || 0) < target) {
+                const attempt = this.copy(state);
+                if (!this.produce(attempt, goal.resource, 1, recipes.length)) break;
+                state = attempt;
+            }
+
+            if (goal.kind === 'MAXIMIZE') {
+                this.lock(state, goal.resource, (state.stock.get(goal.resource) || 0) - before);
+            }
+        }
+
+        const targets = new Map<string, number>();
+        recipes.forEach((r, i) => targets.set(r.name, state.runs[i]));
+
+        const netOutput = new Map<ResourceType, number>();
+        state.stock.forEach((amount, type) => {
+            const delta = amount - (city.inventory.get(type) || 0);
+            if (delta !== 0) netOutput.set(type, delta);
+        });
+
+        return { targets, laborUsed: labor - state.labor, netOutput };
+    }
+
+    /**
+     * Stock the city's RESERVE goals hold back while it plans automatically: neither production
+     * (substitutes included) nor the people's food and consumer goods may dip into it.
+     */
+    public static getReserves(city: City): Map<ResourceType, number> {
+        const reserves = new Map<ResourceType, number>();
+        if (!city.autoPlan) return reserves;
+        for (const goal of city.productionGoals) {
+            if (goal.kind === 'RESERVE') reserves.set(goal.resource, (reserves.get(goal.resource) || 0) + goal.amount);
+        }
+        return reserves;
+    }
+
+    /**
+     * Writes a fresh plan into the city's targets.
+     */
+    public static apply(city: City, labor?: number): string {
+        if (city.productionGoals.length === 0) return "Нет целей производства.";
+
+        const plan = this.plan(city, labor);
+        city.productionTargets = plan.targets;
+
+        const parts: string[] = [];
+        plan.netOutput.forEach((amount, type) => {
+            if (amount > 0) parts.push(`+${amount} ${getResourceName(type)}`);
+        });
+        return parts.length > 0 ? `План производства: ${parts.join(', ')}` : "План производства: нечего производить.";
+    }
+
+    // --- Search ---
+
+    /**
+     * Adds runs until `amount` more of `resource` is in stock, using only recipes before `beforeIndex`.
+     */
+    private static produce(state: PlanState, resource: ResourceType, amount: number, beforeIndex: number): boolean {
+        let made = 0;
+
+        while (made < amount) {
+            let progressed = false;
+            for (let i = 0; i < beforeIndex; i++) {
+                // By-products count too (paper from the lumber mill)
+                const output = state.recipes[i].outputs.find(o => o.type === resource);
+                if (!output) continue;
+                const attempt = this.copy(state);
+                if (this.addRun(attempt, i)) {
+                    Object.assign(state, attempt);
+                    made += output.amount;
+                    progressed = true;
+                    break;
+                }
+            }
+            if (!progressed) return false;
+        }
+        return true;
+    }
+
+    // Makes a missing input from the first substitute that can be produced (coal, then fuel)
+    private static produceInput(state: PlanState, input: RecipeInput, amount: number, beforeIndex: number): boolean {
+        for (const type of getInputTypes(input)) {
+            const attempt = this.copy(state);
+            if (this.produce(attempt, type, amount, beforeIndex)) {
+                Object.assign(state, attempt);
+                return true;
+            }
+        }
+        return false;
+    }
+
+    // One more run of recipe `index`, producing missing inputs first
+    private static addRun(state: PlanState, index: number): boolean {
+        const recipe = state.recipes[index];
+        if ((state.capacity.get(recipe.building) || 0) < 1) return false;
+        if (state.labor < recipe.laborCost) return false;
+
+        for (const input of recipe.inputs) {
+            const missing = input.amount - this.freeInput(state, input);
+            if (missing > 0 && !this.produceInput(state, input, missing, index)) return false;
+            // Labor or capacity may have gone into the inputs
+            if ((state.capacity.get(recipe.building) || 0) < 1 || state.labor < recipe.laborCost) return false;
+        }
+        // Making a later input may have used up an earlier one
+        for (const input of recipe.inputs) {
+            if (this.freeInput(state, input) < input.amount) return false;
+        }
+
+        for (const input of recipe.inputs) {
+            // Same order as the economy: substitutes in preference order
+            let needed = input.amount;
+            for (const type of getInputTypes(input)) {
+                const used = Math.min(needed, this.free(state, type));
+                this.take(state, type, used);
+                needed -= used;
+            }
+        }
+
+        for (const output of recipe.outputs) {
+            state.stock.set(output.type, (state.stock.get(output.type) || 0) + output.amount);
+        }
+        state.capacity.set(recipe.building, (state.capacity.get(recipe.building) || 0) - 1);
+        state.labor -= recipe.laborCost;
+        state.runs[index]++;
+        return true;
+    }
+
+    private static free(state: PlanState, type: ResourceType): number {
+        return Math.max(0, (state.stock.get(type) || 0) - (state.locked.get(type) || 0));
+    }
+
+    private static freeInput(state: PlanState, input: RecipeInput): number {
+        return getInputTypes(input).reduce((sum, type) => sum + this.free(state, type), 0);
+    }
+
+    private static take(state: PlanState, type: ResourceType, amount: number) {
+        if (amount > 0) state.stock.set(type, (state.stock.get(type) || 0) - amount);
+    }
+
+    private static lock(state: PlanState, type: ResourceType, amount: number) {
+        if (amount > 0) state.locked.set(type, (state.locked.get(type) || 0) + amount);
+    }
+
+    private static copy(state: PlanState): PlanState {
+        return {
+            recipes: state.recipes,
+            stock: new Map(state.stock),
+            locked: new Map(state.locked),
+            capacity: new Map(state.capacity),
+            labor: state.labor,
+            runs: [...state.runs]
+        };
+    }
+}
@@ -0,0 +1,292 @@
+import { GameMap, ImprovementType, ResourceType, TerrainType } from '../Grid/GameMap';
+import { Hex, getHexDistance, getHexNeighbors } from '../Grid/HexMath';
+import { Pathfinder } from '../Grid/Pathfinding';
+import { TransportNetwork } from '../Logistics/TransportNetwork';
+import { City } from '../Entities/City';
+import { Unit, UnitType } from '../Entities/Unit';
+import { CivilianUnit } from '../Entities/CivilianUnit';
+import { CityManager, ShipmentPlan, ShipmentLoad } from './managers/CityManager';
+import { UnitManager } from './managers/UnitManager';
+import { ResearchSystem, ResearchState } from './systems/ResearchSystem';
+import { MarketSystem, MarketState } from './systems/MarketSystem';
+import { PopulationSystem } from './systems/PopulationSystem';
+import { UpkeepSystem } from './systems/UpkeepSystem';
+import { TreasurySystem } from './systems/TreasurySystem';
+import { Economy } from './Economy';
+import { University } from './University';
+import { GameConfig, RivalDefinition } from './GameConfig';
+import { SeededRandom } from '../utils/Random';
+
+// Units a rival trains, in order. Types still locked by research are skipped.
+const RECRUIT_ORDER: UnitType[] = [
+    UnitType.ENGINEER, UnitType.MINER, UnitType.FARMER, UnitType.PROSPECTOR,
+    UnitType.ENGINEER, UnitType.RANCHER, UnitType.FORESTER, UnitType.DRILLER
+];
+
+// Food keeps the workforce healthy, so it rides first
+const SHIPPING_PRIORITY: ResourceType[] = [
+    ResourceType.WHEAT, ResourceType.FRUIT, ResourceType.MEAT, ResourceType.FISH,
+    ResourceType.GOLD, ResourceType.GEMS, ResourceType.COAL, ResourceType.IRON, ResourceType.WOOD
+];
+
+/**
+ * RivalEmpire
+ * A computer-controlled empire sharing the map with the player. It has its own capital,
+ * transport network, economy, research and automated civilians, and acts once per turn
+ * from GameState.resolveTurn.
+ */
+export class RivalEmpire {
+    public readonly definition: RivalDefinition;
+
+    public transportNetwork: TransportNetwork;
+    public pathfinder: Pathfinder;
+    public cityManager: CityManager;
+    public unitManager: UnitManager;
+
+    public technologies: Set<string> = new Set(GameConfig.RESEARCH.STARTING_TECHNOLOGIES);
+    public research: ResearchState = ResearchSystem.createState();
+
+    private map: GameMap;
+
+    constructor(map: GameMap, definition: RivalDefinition) {
+        this.map = map;
+        this.definition = definition;
+
+        this.transportNetwork = new TransportNetwork(map, definition.id);
+        this.pathfinder = new Pathfinder(map);
+        this.cityManager = new CityManager(map, this.transportNetwork, definition.id);
+        this.unitManager = new UnitManager(map, this.pathfinder, definition.id);
+    }
+
+    /**
+     * Config entry for an empire id. Unknown ids (e.g. from a save made with other rules) get a neutral one.
+     */
+    public static getDefinition(id: number): RivalDefinition {
+        return GameConfig.EMPIRES.RIVALS.find(r => r.id === id)
+            || { id, name: `Империя ${id}`, capitalName: `Столица ${id}`, color: '#94a3b8' };
+    }
+
+    /**
+     * Picks a random land tile at least MIN_CAPITAL_DISTANCE away from the given capitals.
+     * When the map is too crowded for that, the tile farthest from them is used instead.
+     */
+    public static findCapitalSite(map: GameMap, capitals: Hex[], rng: SeededRandom): Hex | null {
+        const minDistance = GameConfig.EMPIRES.MIN_CAPITAL_DISTANCE;
+        const candidates: Hex[] = [];
+        let fallback: Hex | null = null;
+        let fallbackDistance = -1;
+
+        for (let r = 0; r < map.height; r++) {
+            for (let c = 0; c < map.width; c++) {
+                const q = c - (r - (r & 1)) / 2;
+                const tile = map.getTile(q, r);
+                if (!tile || tile.owner !== 0 || tile.improvement !== ImprovementType.NONE) continue;
+                if (tile.terrain === TerrainType.WATER || tile.terrain === TerrainType.MOUNTAIN) continue;
+
+                // Needs dry land all around to grow from
+                const neighbors = getHexNeighbors({ q, r });
+                if (!neighbors.every(n => map.isValid(n.q, n.r) && map.getTile(n.q, n.r)?.terrain !== TerrainType.WATER)) continue;
+
+                const distance = capitals.length > 0
+                    ? Math.min(...capitals.map(h => getHexDistance(h, { q, r })))
+                    : Infinity;
+
+                if (distance >= minDistance) candidates.push({ q, r });
+                if (distance > fallbackDistance) {
+                    fallbackDistance = distance;
+                    fallback = { q, r };
+                }
+            }
+        }
+
+        if (candidates.length > 0) return candidates[rng.nextInt(candidates.length)];
+        return fallback;
+    }
+
+    public get id(): number { return this.definition.id; }
+    public get name(): string { return this.definition.name; }
+    public get color(): string { return this.definition.color; }
+    public get capital(): City | null { return this.cityManager.capital; }
+    public get cities(): City[] { return this.cityManager.cities; }
+    public get units(): Unit[] { return this.unitManager.units; }
+
+    /**
+     * Builds the capital at `hex`, claims the land around it and places the starting units.
+     */
+    public spawn(hex: Hex) {
+        this.map.setTile(hex.q, hex.r, {
+            terrain: TerrainType.PLAINS,
+            resource: ResourceType.NONE,
+            improvement: ImprovementType.CITY,
+            improvementLevel: 1,
+            isHidden: false
+        });
+        this.map.claimTerritory(hex, GameConfig.EMPIRES.TERRITORY_RADIUS, this.id);
+
+        this.cityManager.spawnCapital(hex, this.definition.capitalName);
+        this.unitManager.spawnInitialUnits(hex);
+        this.transportNetwork.setCapital(hex);
+    }
+
+    public cloneDeep(newMap: GameMap): RivalEmpire {
+        const clone = new RivalEmpire(newMap, this.definition);
+        clone.cityManager = this.cityManager.cloneDeep(newMap, clone.transportNetwork);
+        clone.unitManager = this.unitManager.cloneDeep(newMap, clone.pathfinder);
+        clone.technologies = new Set(this.technologies);
+        clone.research = ResearchSystem.cloneState(this.research);
+        if (clone.capital) clone.transportNetwork.setCapital(clone.capital.location);
+        return clone;
+    }
+
+    /**
+     * One full turn: plan, ship goods, run the economy and research, then move civilians.
+     */
+    public processTurn(turn: number) {
+        const capital = this.capital;
+        if (!capital) return;
+
+        this.transportNetwork.update();
+
+        this.planProduction();
+        this.planResearch();
+        this.trainWorkforce(capital);
+        this.buildHousing();
+        this.recruit(capital);
+
+        const researchPayment = ResearchSystem.payTurn(this);
+        const reports = this.cityManager.processTurn(this.planShipments(), researchPayment.reservedExperts);
+        for (const report of reports) {
+            const city = this.cityManager.getCity(report.cityId);
+            if (city) this.unitManager.addGraduates(city, report.training.completed, turn);
+        }
+        for (const city of this.cityManager.cities) TreasurySystem.collectTaxes(city);
+        ResearchSystem.processTurn(this, researchPayment);
+
+        UpkeepSystem.processTurn(this.map, this.id, capital, this.unitManager.units);
+
+        // Nobody takes manual control of rival units, so idle civilians go back to work
+        for (const u of this.unitManager.units) {
+            if (u instanceof CivilianUnit) u.isAutomated = true;
+        }
+        this.unitManager.processTurn(capital, this.technologies, this.transportNetwork);
+    }
+
+    /**
+     * Places this turn's market orders: surplus goes up for sale, missing building materials are bought.
+     * Called by GameState before the market settles, i.e. before processTurn.
+     */
+    public planTrades(market: MarketState) {
+        const ai = GameConfig.EMPIRES.AI;
+        const capital = this.capital;
+        if (!capital) return;
+
+        for (const city of this.cityManager.cities) {
+            city.inventory.forEach((amount, type) => {
+                const surplus = amount - ai.MARKET_SURPLUS;
+                if (surplus > 0 && MarketSystem.isTraded(type)) MarketSystem.placeOrder(market, city, type, 'SELL', surplus);
+            });
+        }
+
+        let budget = capital.cash - ai.RECRUIT_RESERVE;
+        for (const { type, amount } of ai.MARKET_RESTOCK) {
+            const missing = amount - (capital.inventory.get(type) || 0);
+            const cost = missing * MarketSystem.getBuyPrice(market, type);
+            if (missing <= 0 || cost > budget) continue;
+            MarketSystem.placeOrder(market, capital, type, 'BUY', missing);
+            budget -= cost;
+        }
+    }
+
+    // --- Planning ---
+
+    // Rival cities let the production planner pick their targets each turn
+    private planProduction() {
+        for (const city of this.cityManager.cities) {
+            if (city.autoPlan) continue;
+            city.productionGoals = GameConfig.EMPIRES.AI.PRODUCTION_GOALS.map(g => ({ ...g }));
+            city.autoPlan = true;
+        }
+    }
+
+    private planResearch() {
+        if (this.research.queue.length > 0) return;
+        const next = GameConfig.EMPIRES.AI.RESEARCH_ORDER.find(id => ResearchSystem.canQueue(this, id) === null);
+        if (next) ResearchSystem.enqueue(this, next);
+    }
+
+    // Units and research both need experts; keep two around
+    private trainWorkforce(capital: City) {
+        if (capital.workforce.expert >= 2) return;
+        if (capital.trainingQueue.some(o => o.kind === 'WORKER')) return;
+        if (capital.cash < GameConfig.EMPIRES.AI.RECRUIT_RESERVE) return;
+
+        if (capital.workforce.trained > 0) {
+            Economy.trainWorker(capital, 'expert');
+        } else {
+            Economy.trainWorker(capital, 'trained');
+        }
+    }
+
+    // Full cities stop growing; build more homes once the treasury allows it
+    private buildHousing() {
+        for (const city of this.cityManager.cities) {
+            if (PopulationSystem.getFreeHousing(city) > 0) continue;
+            if (city.cash < GameConfig.EMPIRES.AI.RECRUIT_RESERVE) continue;
+            Economy.expandHousing(city);
+        }
+    }
+
+    private recruit(capital: City) {
+        const ai = GameConfig.EMPIRES.AI;
+        const cost = GameConfig.UNITS.CONSTRUCTION.COST;
+        // One unit course at a time, so the owned counts below stay right
+        if (University.getQueuedUnits(capital).length > 0) return;
+        if (this.unitManager.units.length >= ai.MAX_UNITS) return;
+        if (capital.cash < ai.RECRUIT_RESERVE + (cost.money || 0)) return;
+        // Leave an expert for research
+        if (capital.workforce.expert <= (cost.expertLabor || 0)) return;
+
+        const owned = new Map<string, number>();
+        for (const u of this.unitManager.units) owned.set(u.type, (owned.get(u.type) || 0) + 1);
+
+        // First slot in the order that is not filled yet
+        const wanted = new Map<string, number>();
+        const type = RECRUIT_ORDER.find(t => {
+            wanted.set(t, (wanted.get(t) || 0) + 1);
+            return wanted.get(t)! > (owned.get(t) || 0) && !University.getMissingTech(t, this.technologies);
+        });
+        if (type) this.unitManager.recruitUnit(type, capital, this.technologies);
+    }
+
+    /**
+     * Fills each connected city's wagons greedily, most important goods first.
+     */
+    private planShipments(): ShipmentPlan {
+        const plan: ShipmentPlan = new Map();
+        const options = this.cityManager.getTransportOptions();
+        const available = new Map<ResourceType, number>();
+        options.forEach((supply, type) => available.set(type, supply.amount));
+
+        const rank = (type: ResourceType) => {
+            const i = SHIPPING_PRIORITY.indexOf(type);
+            return i === -1 ? SHIPPING_PRIORITY.length : i;
+        };
+        const order = Array.from(available.keys()).sort((a, b) => rank(a) - rank(b));
+
+        for (const city of this.cityManager.getConnectedCities()) {
+            const goods = new Map<ResourceType, number>();
+            const free: ShipmentLoad = { wagons: city.transportCapacity, cargo: city.fleetCapacity };
+
+            for (const type of order) {
+                const amount = Math.min(available.get(type) || 0, CityManager.getShipmentLimit(type, free, options));
+                if (amount <= 0) continue;
+                goods.set(type, amount);
+                available.set(type, (available.get(type) || 0) - amount);
+                free.wagons -= amount * options.get(type)!.wagonsPerUnit;
+                free.cargo -= amount * options.get(type)!.cargoPerUnit;
+            }
+            plan.set(city.id, goods);
+        }
+        return plan;
+    }
+}
@@ -0,0 +1,126 @@
+import { City } from '../Entities/City';
+import { ResourceType } from '../Grid/GameMap';
+import { TransportRule, getInputTypes } from './GameConfig';
+import { CityManager, ShipmentLoad, ShipmentPlan, TransportOptions } from './managers/CityManager';
+
+// Working copy of one city's loading while its rules are applied
+interface LoadState {
+    options: TransportOptions;
+    // Supply no city has claimed yet (shared between the cities)
+    pool: Map<ResourceType, number>;
+    free: ShipmentLoad;
+    goods: Map<ResourceType, number>;
+}
+
+// An input the production targets are short of; substitutes in preference order
+interface MissingInput {
+    types: ResourceType[];
+    amount: number;
+}
+
+/**
+ * TransportPlanner
+ * Turns the cities' transport rules into a shipment plan. Cities are served in the given
+ * order (capital first) from one shared supply, each within its own wagons and fleet cargo.
+ * Rules are applied in order; capacity they leave over stays empty.
+ */
+export class TransportPlanner {
+
+    public static plan(cities: City[], options: TransportOptions): ShipmentPlan {
+        const pool = new Map<ResourceType, number>();
+        options.forEach((supply, type) => pool.set(type, supply.amount));
+
+        const plan: ShipmentPlan = new Map();
+        for (const city of cities) {
+            const state: LoadState = {
+                options,
+                pool,
+                free: { wagons: city.transportCapacity, cargo: city.fleetCapacity },
+                goods: new Map()
+            };
+            for (const rule of city.transportRules) this.applyRule(state, city, rule);
+            plan.set(city.id, state.goods);
+        }
+        return plan;
+    }
+
+    /**
+     * Inputs the city's current production targets would consume beyond its stock.
+     * Recipes are walked in the order the economy runs them, so lumber made this turn covers furniture.
+     */
+    public static getMissingInputs(city: City): MissingInput[] {
+        const stock = new Map(city.inventory);
+        const usage = new Map<string, number>();
+        const missing: MissingInput[] = [];
+
+        for (const recipe of city.getRecipeOrder()) {
+            const used = usage.get(recipe.building) || 0;
+            const runs = Math.min(city.productionTargets.get(recipe.name) || 0, (city.buildingLevels.get(recipe.building) || 0) - used);
+            if (runs <= 0) continue;
+            usage.set(recipe.building, used + runs);
+
+            for (const input of recipe.inputs) {
+                let needed = runs * input.amount;
+                for (const type of getInputTypes(input)) {
+                    const taken = Math.min(needed, stock.get(type) || 0);
+                    stock.set(type, (stock.get(type) || 0) - taken);
+                    needed -= taken;
+                }
+                if (needed > 0) missing.push({ types: getInputTypes(input), amount: needed });
+            }
+            for (const output of recipe.outputs) {
+                stock.set(output.type, (stock.get(output.type) || 0) + runs * output.amount);
+            }
+        }
+        return missing;
+    }
+
+    private static applyRule(state: LoadState, city: City, rule: TransportRule) {
+        switch (rule.kind) {
+            case 'INPUTS':
+                for (const input of this.getMissingInputs(city)) {
+                    let needed = input.amount;
+                    for (const type of input.types) needed -= this.ship(state, type, needed);
+                }
+                break;
+            case 'ALL':
+                this.ship(state, rule.resource, Infinity);
+                break;
+            case 'RATIO':
+                this.shipRatio(state, rule.resources);
+                break;
+        }
+    }
+
+    // Equal amounts of every resource, as many sets as the supply and capacity allow
+    private static shipRatio(state: LoadState, resources: ResourceType[]) {
+        if (resources.length === 0) return;
+        let sets = Infinity;
+        let wagons = 0;
+        let cargo = 0;
+        for (const type of resources) {
+            const supply = state.options.get(type);
+            sets = Math.min(sets, state.pool.get(type) || 0);
+            wagons += supply?.wagonsPerUnit ?? 1;
+            cargo += supply?.cargoPerUnit ?? 0;
+        }
+        if (wagons > 0) sets = Math.min(sets, Math.floor(state.free.wagons / wagons + 1e-9));
+        if (cargo > 0) sets = Math.min(sets, Math.floor(state.free.cargo / cargo + 1e-9));
+        if (sets <= 0) return;
+        for (const type of resources) this.ship(state, type, sets);
+    }
+
+    // Loads up to `amount` of a resource; returns how much fit
+    private static ship(state: LoadState, type: ResourceType, amount: number): number {
+        const supply = state.options.get(type);
+        if (!supply || amount <= 0) return 0;
+        const loaded = Math.min(amount, state.pool.get(type) || 0, CityManager.getShipmentLimit(type, state.free, state.options));
+        if (loaded <= 0) return 0;
+
+        state.goods.set(type, (state.goods.get(type) || 0) + loaded);
+        state.pool.set(type, (state.pool.get(type) || 0) - loaded);
+        state.free.wagons -= loaded * supply.wagonsPerUnit;
+        state.free.cargo -= loaded * supply.cargoPerUnit;
+        return loaded;
+    }
+}
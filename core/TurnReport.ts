@@ -0,0 +1,110 @@
+import { ResourceType } from '../Grid/GameMap';
+import { MarketTurnResult } from './systems/MarketSystem';
+import { ResearchTurnResult } from './systems/ResearchSystem';
+import { UpkeepReport } from './systems/UpkeepSystem';
+import { TreasuryTurnResult } from './systems/TreasurySystem';
+import { TrainingOrder } from '../Entities/City';
+
+// What stopped a recipe from reaching its target
+export type ProductionLimit = 'NONE' | 'CAPACITY' | 'INPUTS' | 'LABOR';
+
+export interface RecipeRunReport {
+    recipe: string;
+    target: number;
+    runs: number;
+    // Inputs actually used, substitutes included
+    consumed: Map<ResourceType, number>;
+    // Main output and by-products
+    produced: Map<ResourceType, number>;
+    limit: ProductionLimit;
+}
+
+export interface CityCashReport {
+    start: number;
+    // Gold and gems turned into money on arrival
+    conversion: number;
+    market: number;
+    // Units and infrastructure (paid by the capital)
+    upkeep: number;
+    taxes: number;
+    // Loan installments and bond coupons (paid by the capital)
+    debt: number;
+    // Everything else (research, recruiting by rivals, ...)
+    other: number;
+    end: number;
+}
+
+// Population change after the diet phase
+export interface PopulationReport {
+    // At the start of the turn, before anyone starved
+    before: number;
+    births: number;
+    immigrants: number;
+    // People who left a city that stayed sick for too long
+    departed: number;
+    after: number;
+    housing: number;
+}
+
+// Morale change from the diet and consumer goods
+export interface HappinessReport {
+    before: number;
+    after: number;
+    // Share of people fed (sick count half) and of consumer demand met, 0-1
+    diet: number;
+    goods: number;
+    demand: Map<ResourceType, number>;
+    consumed: Map<ResourceType, number>;
+}
+
+// Goods lost at the end of the turn
+export interface StorageReport {
+    // Units of each resource the city can keep
+    capacity: number;
+    spoiled: Map<ResourceType, number>;
+    // Stock above capacity that was thrown away
+    overflow: Map<ResourceType, number>;
+}
+
+// University courses that ended this turn
+export interface TrainingReport {
+    completed: TrainingOrder[];
+    // Courses still waiting for a free place
+    waiting: number;
+}
+
+/**
+ * One city's economy phase: deliveries, diet, labor and production.
+ */
+export interface CityTurnReport {
+    cityId: string;
+    cityName: string;
+    received: Map<ResourceType, number>;
+    converted: { resource: ResourceType; amount: number; cash: number }[];
+    foodEaten: Map<ResourceType, number>;
+    healthy: number;
+    sick: number;
+    // People who got no food at all; each of them dies
+    starving: number;
+    happiness: HappinessReport;
+    laborAvailable: number;
+    laborUsed: number;
+    // Experts kept out of production by research
+    expertsReserved: number;
+    recipes: RecipeRunReport[];
+    training: TrainingReport;
+    population: PopulationReport;
+    storage: StorageReport;
+    cash: CityCashReport;
+}
+
+export interface TurnReport {
+    // Turn that was resolved (the new turn is turn + 1)
+    turn: number;
+    year: number;
+    cities: CityTurnReport[];
+    market: MarketTurnResult;
+    research: ResearchTurnResult;
+    upkeep: UpkeepReport;
+    treasury: TreasuryTurnResult;
+}
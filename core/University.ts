@@ -1,63 +1,90 @@
 
 import { Unit, UnitType } from '../Entities/Unit';
 import { Engineer, Prospector, ResourceImprover, Developer } from '../Entities/CivilianUnit';
-import { City } from '../Entities/City';
+import { City, TrainingOrder } from '../Entities/City';
 import { Hex } from '../Grid/HexMath';
-import { GameConfig } from './GameConfig';
+import { GameConfig, CostConfig } from './GameConfig';
+import { TrainingReport } from './TurnReport';
+import { formatCost, getResourceName, getTechName, getUnitName } from '../utils/Localization';
 
-interface CreationResult {
-    success: boolean;
-    unit?: Unit;
-    message: string;
-}
+// Unit types that must be unlocked through research
+const REQUIRED_TECH: Partial<Record<UnitType, string>> = {
+    [UnitType.RANCHER]: 'Feed Grasses',
+    [UnitType.FORESTER]: 'Iron Railroad Bridges',
+    [UnitType.DRILLER]: 'Oil Drilling'
+};
+
+type Course = { kind: 'WORKER'; level: 'trained' | 'expert' } | { kind: 'UNIT'; unitType: UnitType };
 
 export class University {
     
-    public static getUnitCost(): string {
-        const c = GameConfig.UNITS.CONSTRUCTION.COST;
-        const parts = [];
-        if (c.money) parts.push(`$${c.money}`);
-        if (c.resources) {
-            c.resources.forEach(r => parts.push(`${r.amount} Paper`)); // simplified text for now
-        }
-        if (c.expertLabor) parts.push(`${c.expertLabor} Expert`);
-        return parts.join(', ');
+    /**
+     * Soldiers need armaments; every other unit is trained by an expert.
+     */
+    public static getCost(type: UnitType): CostConfig {
+        return type === UnitType.SOLDIER ? GameConfig.UNITS.MILITARY.COST : GameConfig.UNITS.CONSTRUCTION.COST;
     }
 
-    public static createUnit(
-        type: UnitType, 
-        city: City, 
-        spawnHex: Hex, 
-        techs: Set<string>, 
-        nextId: string
-    ): CreationResult {
-        
-        const cost = GameConfig.UNITS.CONSTRUCTION.COST;
+    public static getUnitCost(type: UnitType): string {
+        return formatCost(this.getCost(type));
+    }
+
+    /**
+     * Returns the id of the technology required to train this unit type, or null if none is missing.
+     */
+    public static getMissingTech(type: UnitType, techs: Set<string>): string | null {
+        const required = REQUIRED_TECH[type];
+        return required && !techs.has(required) ? required : null;
+    }
+
+    public static getUnitTurns(type: UnitType): number {
+        return type === UnitType.SOLDIER ? GameConfig.UNIVERSITY.SOLDIER_TURNS : GameConfig.UNIVERSITY.UNIT_TURNS;
+    }
+
+    /**
+     * Courses that can run at the same time (one per university level).
+     */
+    public static getCapacity(city: City): number {
+        return city.buildingLevels.get(GameConfig.UNIVERSITY.BUILDING) || 0;
+    }
+
+    public static getCourseName(order: TrainingOrder): string {
+        if (order.kind === 'UNIT') return getUnitName(order.unitType);
+        return order.level === 'trained' ? 'Специалист' : 'Эксперт';
+    }
+
+    /**
+     * Units of each type already enrolled (they are not on the map yet).
+     */
+    public static getQueuedUnits(city: City): UnitType[] {
+        return city.trainingQueue.flatMap(o => o.kind === 'UNIT' ? [o.unitType] : []);
+    }
+
+    /**
+     * Pays for a unit and enrolls it; the unit appears on the city tile when the course ends.
+     */
+    public static enrollUnit(type: UnitType, city: City, techs: Set<string>): string {
+        if (this.getCapacity(city) <= 0) return `Нет здания: сначала постройте ${GameConfig.UNIVERSITY.BUILDING}.`;
+
+        const cost = University.getCost(type);
 
         // 1. Basic Costs
-        if (cost.money && city.cash < cost.money) return { success: false, message: `Недостаточно денег ($${cost.money}).` };
+        if (cost.money && city.cash < cost.money) return `Недостаточно денег ($${cost.money}).`;
         
         if (cost.resources) {
             for (const r of cost.resources) {
                 const stock = city.inventory.get(r.type) || 0;
-                if (stock < r.amount) return { success: false, message: `Нет ресурса (ID ${r.type}) для обучения.` };
+                if (stock < r.amount) return `Нет ресурса (${getResourceName(r.type)}) для обучения.`;
             }
         }
 
-        if (cost.expertLabor && city.workforce.expert < cost.expertLabor) return { success: false, message: "Нет свободных Экспертов (Expert Labor)." };
+        if (cost.expertLabor && city.workforce.expert < cost.expertLabor) return "Нет свободных Экспертов (Expert Labor).";
 
-        // 2. Tech Checks (Temporarily disabled per request)
-        /*
-        if (type === UnitType.RANCHER && !techs.has('Feed Grasses')) {
-             return { success: false, message: "Требуется технология 'Feed Grasses'." };
-        }
-        if (type === UnitType.FORESTER && !techs.has('Iron Railroad Bridges')) {
-             return { success: false, message: "Требуется технология 'Iron Railroad Bridges'." };
+        // 2. Tech Checks
+        const missingTech = University.getMissingTech(type, techs);
+        if (missingTech) {
+             return `Требуется технология '${getTechName(missingTech)}'.`;
         }
-        if (type === UnitType.DRILLER && !techs.has('Oil Drilling')) {
-             return { success: false, message: "Требуется технология 'Oil Drilling'." };
-        }
-        */
         
         // 3. Deduction
         if (cost.money) city.cash -= cost.money;
@@ -68,35 +95,84 @@ export class University {
         }
         if (cost.expertLabor) city.workforce.expert -= cost.expertLabor;
 
-        // 4. Instantiation
-        let unit: Unit;
-        
+        // 4. Enrollment
+        return this.enroll(city, { kind: 'UNIT', unitType: type }, cost, this.getUnitTurns(type));
+    }
+
+    /**
+     * Adds an already paid course to the queue.
+     */
+    public static enroll(city: City, course: Course, cost: CostConfig, turns: number): string {
+        const id = city.trainingQueue.reduce((max, o) => Math.max(max, o.id), 0) + 1;
+        const order = { ...course, id, turns, turnsLeft: turns, cost: { ...cost, resources: cost.resources?.map(r => ({ ...r })) } } as TrainingOrder;
+        city.trainingQueue.push(order);
+
+        const waiting = city.trainingQueue.length > this.getCapacity(city) ? ', ждёт места' : '';
+        return `Начато обучение: ${this.getCourseName(order)} (${turns} ход.${waiting})`;
+    }
+
+    /**
+     * Drops a course and refunds it, returning the student to the workforce.
+     */
+    public static cancel(city: City, orderId: number): string {
+        const order = city.trainingQueue.find(o => o.id === orderId);
+        if (!order) return "Ошибка: курс не найден.";
+
+        city.trainingQueue = city.trainingQueue.filter(o => o !== order);
+        const { cost } = order;
+        if (cost.money) city.cash += cost.money;
+        if (cost.resources) {
+            for (const r of cost.resources) city.addResource(r.type, r.amount);
+        }
+        if (cost.expertLabor) city.workforce.expert += cost.expertLabor;
+        if (order.kind === 'WORKER') {
+            city.workforce[order.level === 'trained' ? 'untrained' : 'trained']++;
+        }
+        return `Обучение отменено: ${this.getCourseName(order)}`;
+    }
+
+    /**
+     * Advances the courses that have a place; graduated workers rejoin the workforce at once,
+     * finished units are returned for the unit manager to place.
+     */
+    public static processTurn(city: City): TrainingReport {
+        const capacity = this.getCapacity(city);
+        const completed: TrainingOrder[] = [];
+
+        city.trainingQueue.slice(0, capacity).forEach(order => {
+            order.turnsLeft--;
+            if (order.turnsLeft > 0) return;
+            completed.push(order);
+            if (order.kind === 'WORKER') city.workforce[order.level]++;
+        });
+        city.trainingQueue = city.trainingQueue.filter(o => !completed.includes(o));
+
+        return { completed, waiting: Math.max(0, city.trainingQueue.length - capacity) };
+    }
+
+    /**
+     * Creates a unit instance of the correct class for the given type (no costs applied).
+     * Also used by the save system to rebuild units.
+     */
+    public static instantiateUnit(type: UnitType, id: string, hex: Hex, ownerId: number): Unit {
         switch(type) {
             case UnitType.ENGINEER:
-                unit = new Engineer(nextId, spawnHex, city.ownerId);
-                break;
+                return new Engineer(id, hex, ownerId);
             case UnitType.PROSPECTOR:
-                unit = new Prospector(nextId, spawnHex, city.ownerId);
-                break;
+                return new Prospector(id, hex, ownerId);
             case UnitType.DEVELOPER:
-                unit = new Developer(nextId, spawnHex, city.ownerId);
-                break;
+                return new Developer(id, hex, ownerId);
             case UnitType.FARMER:
             case UnitType.MINER:
             case UnitType.RANCHER:
             case UnitType.FORESTER:
             case UnitType.DRILLER:
-                unit = new ResourceImprover(nextId, type, spawnHex, city.ownerId);
-                break;
+                return new ResourceImprover(id, type, hex, ownerId);
             case UnitType.SOLDIER:
-                unit = new Unit(nextId, UnitType.SOLDIER, spawnHex, city.ownerId);
-                break;
             default:
                 // Fallback for soldiers or generics
-                unit = new Unit(nextId, type, spawnHex, city.ownerId);
+                return new Unit(id, type, hex, ownerId);
         }
-
-        return { success: true, unit, message: "Юнит обучен!" };
     }
 
     public static disbandUnit(unit: Unit, city: City): void {
@@ -0,0 +1,271 @@
+import { GameState } from '../GameState';
+import { GameCommand } from './Command';
+import { Economy } from '../Economy';
+import { ProductionPlanner } from '../ProductionPlanner';
+import { University } from '../University';
+import { GameConfig, ProductionGoal, RecipePriority, TransportRule } from '../GameConfig';
+import { City } from '../../Entities/City';
+import { UnitType } from '../../Entities/Unit';
+import { getUnitName } from '../../utils/Localization';
+
+/**
+ * Base for commands acting on a city's economy (by id, so they stay valid after undo/redo).
+ */
+abstract class CityCommand extends GameCommand {
+    public readonly cityId: string;
+
+    constructor(cityId: string) {
+        super();
+        this.cityId = cityId;
+    }
+
+    protected getCity(state: GameState): City | null {
+        return state.cityManager.cities.find(c => c.id === this.cityId) || null;
+    }
+
+    public validate(state: GameState): string | null {
+        if (!this.getCity(state)) return "Ошибка: город не найден.";
+        return null;
+    }
+}
+
+export class ExpandBuildingCommand extends CityCommand {
+    public readonly building: string;
+    public readonly label: string;
+
+    constructor(cityId: string, building: string) {
+        super(cityId);
+        this.building = building;
+        this.label = `Расширение: ${building}`;
+    }
+
+    protected perform(state: GameState): string | undefined {
+        return Economy.expandBuilding(this.getCity(state)!, this.building);
+    }
+}
+
+export class ConstructBuildingCommand extends CityCommand {
+    public readonly building: string;
+    public readonly label: string;
+
+    constructor(cityId: string, building: string) {
+        super(cityId);
+        this.building = building;
+        this.label = `Строительство: ${building}`;
+    }
+
+    public validate(state: GameState): string | null {
+        return super.validate(state) || Economy.canConstruct(this.getCity(state)!, this.building, state.technologies);
+    }
+
+    protected perform(state: GameState): string | undefined {
+        return Economy.constructBuilding(this.getCity(state)!, this.building, state.technologies);
+    }
+}
+
+export class RecruitWorkerCommand extends CityCommand {
+    public readonly label = "Найм рабочего";
+
+    protected perform(state: GameState): string | undefined {
+        return Economy.recruitWorker(this.getCity(state)!);
+    }
+}
+
+export class ExpandHousingCommand extends CityCommand {
+    public readonly label = "Постройка жилья";
+
+    protected perform(state: GameState): string | undefined {
+        return Economy.expandHousing(this.getCity(state)!);
+    }
+}
+
+export class TrainWorkerCommand extends CityCommand {
+    public readonly level: 'trained' | 'expert';
+    public readonly label: string;
+
+    constructor(cityId: string, level: 'trained' | 'expert') {
+        super(cityId);
+        this.level = level;
+        this.label = level === 'trained' ? "Обучение специалиста" : "Обучение эксперта";
+    }
+
+    protected perform(state: GameState): string | undefined {
+        return Economy.trainWorker(this.getCity(state)!, this.level);
+    }
+}
+
+export class BuildTransportCapacityCommand extends CityCommand {
+    public readonly label = "Постройка вагонов";
+
+    protected perform(state: GameState): string | undefined {
+        return Economy.buildTransportCapacity(this.getCity(state)!);
+    }
+}
+
+export class BuildMerchantShipCommand extends CityCommand {
+    public readonly label = "Постройка судна";
+
+    protected perform(state: GameState): string | undefined {
+        return Economy.buildMerchantShip(this.getCity(state)!);
+    }
+}
+
+export class RecruitUnitCommand extends CityCommand {
+    public readonly unitType: UnitType;
+    public readonly label: string;
+
+    constructor(cityId: string, unitType: UnitType) {
+        super(cityId);
+        this.unitType = unitType;
+        this.label = `Найм: ${getUnitName(unitType)}`;
+    }
+
+    protected perform(state: GameState): string | undefined {
+        return state.unitManager.recruitUnit(this.unitType, this.getCity(state)!, state.technologies);
+    }
+}
+
+export class SetProductionGoalsCommand extends CityCommand {
+    public readonly goals: ProductionGoal[];
+    public readonly autoPlan: boolean;
+    public readonly label = "Цели производства";
+
+    constructor(cityId: string, goals: ProductionGoal[], autoPlan: boolean) {
+        super(cityId);
+        this.goals = goals.map(g => ({ ...g }));
+        this.autoPlan = autoPlan;
+    }
+
+    public validate(state: GameState): string | null {
+        const error = super.validate(state);
+        if (error) return error;
+        if (this.goals.some(g => g.kind === 'RESERVE' && (!Number.isInteger(g.amount) || g.amount < 0))) {
+            return "Ошибка: резерв должен быть целым неотрицательным числом.";
+        }
+        return null;
+    }
+
+    protected perform(state: GameState): string | undefined {
+        const city = this.getCity(state)!;
+        city.productionGoals = this.goals.map(g => ({ ...g }));
+        city.autoPlan = this.autoPlan;
+        return this.autoPlan ? "Автопланирование включено" : "Цели производства сохранены";
+    }
+}
+
+export class ApplyProductionPlanCommand extends CityCommand {
+    public readonly label = "План производства";
+
+    protected perform(state: GameState): string | undefined {
+        return ProductionPlanner.apply(this.getCity(state)!);
+    }
+}
+
+export class SetTransportRulesCommand extends CityCommand {
+    public readonly rules: TransportRule[];
+    public readonly autoTransport: boolean;
+    public readonly label = "Правила транспорта";
+
+    constructor(cityId: string, rules: TransportRule[], autoTransport: boolean) {
+        super(cityId);
+        this.rules = rules.map(City.copyRule);
+        this.autoTransport = autoTransport;
+    }
+
+    public validate(state: GameState): string | null {
+        const error = super.validate(state);
+        if (error) return error;
+        if (this.rules.some(r => r.kind === 'RATIO' && new Set(r.resources).size < 2)) {
+            return "Ошибка: для пропорции нужны два разных ресурса.";
+        }
+        return null;
+    }
+
+    protected perform(state: GameState): string | undefined {
+        const city = this.getCity(state)!;
+        city.transportRules = this.rules.map(City.copyRule);
+        city.autoTransport = this.autoTransport;
+        return this.autoTransport ? "Автоматический транспорт включён" : "Правила транспорта сохранены";
+    }
+}
+
+export class SetProductionTargetCommand extends CityCommand {
+    public readonly recipeName: string;
+    public readonly target: number;
+    public readonly label = "Объём производства";
+
+    constructor(cityId: string, recipeName: string, target: number) {
+        super(cityId);
+        this.recipeName = recipeName;
+        this.target = target;
+    }
+
+    public validate(state: GameState): string | null {
+        const error = super.validate(state);
+        if (error) return error;
+        if (!GameConfig.ECONOMY.RECIPES.some(r => r.name === this.recipeName)) {
+            return `Ошибка: нет рецепта "${this.recipeName}".`;
+        }
+        if (!Number.isInteger(this.target)) return "Ошибка: объём должен быть целым числом.";
+        return null;
+    }
+
+    protected perform(state: GameState): string | undefined {
+        const city = this.getCity(state)!;
+        const building = GameConfig.ECONOMY.RECIPES.find(r => r.name === this.recipeName)!.building;
+
+        // The building's other recipes keep their share; this one gets at most what is left
+        let othersAssigned = 0;
+        GameConfig.ECONOMY.RECIPES.forEach(r => {
+            if (r.building === building && r.name !== this.recipeName) {
+                othersAssigned += city.productionTargets.get(r.name) || 0;
+            }
+        });
+        const available = Math.max(0, (city.buildingLevels.get(building) || 0) - othersAssigned);
+
+        city.productionTargets.set(this.recipeName, Math.min(Math.max(0, this.target), available));
+        return undefined;
+    }
+}
+
+export class SetRecipePriorityCommand extends CityCommand {
+    public readonly recipeName: string;
+    public readonly priority: RecipePriority;
+    public readonly label = "Приоритет рецепта";
+
+    constructor(cityId: string, recipeName: string, priority: RecipePriority) {
+        super(cityId);
+        this.recipeName = recipeName;
+        this.priority = priority;
+    }
+
+    public validate(state: GameState): string | null {
+        const error = super.validate(state);
+        if (error) return error;
+        if (!GameConfig.ECONOMY.RECIPES.some(r => r.name === this.recipeName)) {
+            return `Ошибка: нет рецепта "${this.recipeName}".`;
+        }
+        return null;
+    }
+
+    protected perform(state: GameState): string | undefined {
+        const city = this.getCity(state)!;
+        if (this.priority === 'NORMAL') city.recipePriorities.delete(this.recipeName);
+        else city.recipePriorities.set(this.recipeName, this.priority);
+        return undefined;
+    }
+}
+
+export class CancelTrainingCommand extends CityCommand {
+    public readonly orderId: number;
+    public readonly label = "Отмена обучения";
+
+    constructor(cityId: string, orderId: number) {
+        super(cityId);
+        this.orderId = orderId;
+    }
+
+    protected perform(state: GameState): string | undefined {
+        return University.cancel(this.getCity(state)!, this.orderId);
+    }
+}
@@ -0,0 +1,55 @@
+import { GameState } from '../GameState';
+import { StateSnapshot } from './StateSnapshot';
+
+export interface CommandResult {
+    success: boolean;
+    message?: string;
+}
+
+/**
+ * Base class for all player commands.
+ * Subclasses implement validate() and perform(); undo/redo replay the difference between
+ * the snapshots taken around perform(), so a command only needs to describe what it changes,
+ * and edits made after it (by this or other code) are left alone.
+ */
+export abstract class GameCommand {
+    // Short Russian label for UI ("Отменить: ...")
+    public abstract readonly label: string;
+
+    private before: StateSnapshot | null = null;
+    private after: StateSnapshot | null = null;
+
+    /**
+     * Returns an error message if the command cannot be executed, otherwise null.
+     */
+    public abstract validate(state: GameState): string | null;
+
+    /**
+     * Applies the command. Returns a user-facing message (may describe a failure).
+     */
+    protected abstract perform(state: GameState): string | undefined;
+
+    public execute(state: GameState): CommandResult {
+        const error = this.validate(state);
+        if (error) return { success: false, message: error };
+
+        const before = StateSnapshot.capture(state);
+        const message = this.perform(state);
+        const after = StateSnapshot.capture(state);
+
+        // Actions that were refused inside the entity (e.g. not enough money) leave no trace
+        if (before.equals(after)) return { success: false, message };
+
+        this.before = before;
+        this.after = after;
+        return { success: true, message };
+    }
+
+    public undo(state: GameState) {
+        if (this.before && this.after) StateSnapshot.revert(state, this.after, this.before);
+    }
+
+    public redo(state: GameState) {
+        if (this.before && this.after) StateSnapshot.revert(state, this.before, this.after);
+    }
+}
@@ -0,0 +1,76 @@
+import { GameState } from '../GameState';
+import { GameCommand, CommandResult } from './Command';
+
+export interface CommandHistoryInfo {
+    canUndo: boolean;
+    canRedo: boolean;
+    undoLabel: string | null;
+    redoLabel: string | null;
+}
+
+/**
+ * Undo/redo stacks for the current turn.
+ * Cleared when the turn resolves (or a save is loaded): past turns are final.
+ */
+export class CommandHistory {
+    private static readonly MAX_DEPTH = 50;
+
+    private undoStack: GameCommand[] = [];
+    private redoStack: GameCommand[] = [];
+    private onChange?: (info: CommandHistoryInfo) => void;
+
+    constructor(onChange?: (info: CommandHistoryInfo) => void) {
+        this.onChange = onChange;
+    }
+
+    public execute(command: GameCommand, state: GameState): CommandResult {
+        const result = command.execute(state);
+        if (result.success) {
+            this.undoStack.push(command);
+            if (this.undoStack.length > CommandHistory.MAX_DEPTH) this.undoStack.shift();
+            this.redoStack = [];
+            this.notify();
+        }
+        return result;
+    }
+
+    public undo(state: GameState): string | undefined {
+        const command = this.undoStack.pop();
+        if (!command) return "Нечего отменять.";
+        command.undo(state);
+        this.redoStack.push(command);
+        this.notify();
+        return `Отменено: ${command.label}`;
+    }
+
+    public redo(state: GameState): string | undefined {
+        const command = this.redoStack.pop();
+        if (!command) return "Нечего повторять.";
+        command.redo(state);
+        this.undoStack.push(command);
+        this.notify();
+        return `Повторено: ${command.label}`;
+    }
+
+    public clear() {
+        if (this.undoStack.length === 0 && this.redoStack.length === 0) return;
+        this.undoStack = [];
+        this.redoStack = [];
+        this.notify();
+    }
+
+    public getInfo(): CommandHistoryInfo {
+        const undoTop = this.undoStack[this.undoStack.length - 1];
+        const redoTop = this.redoStack[this.redoStack.length - 1];
+        return {
+            canUndo: !!undoTop,
+            canRedo: !!redoTop,
+            undoLabel: undoTop ? undoTop.label : null,
+            redoLabel: redoTop ? redoTop.label : null
+        };
+    }
+
+    private notify() {
+        if (this.onChange) this.onChange(this.getInfo());
+    }
+}
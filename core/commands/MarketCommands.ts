@@ -0,0 +1,52 @@
+import { GameState } from '../GameState';
+import { GameCommand } from './Command';
+import { MarketSystem, MarketSide } from '../systems/MarketSystem';
+import { ResourceType } from '../../Grid/GameMap';
+import { getResourceName } from '../../utils/Localization';
+
+export class PlaceMarketOrderCommand extends GameCommand {
+    public readonly cityId: string;
+    public readonly resource: ResourceType;
+    public readonly side: MarketSide;
+    public readonly amount: number;
+    public readonly label: string;
+
+    constructor(cityId: string, resource: ResourceType, side: MarketSide, amount: number) {
+        super();
+        this.cityId = cityId;
+        this.resource = resource;
+        this.side = side;
+        this.amount = amount;
+        this.label = `${side === 'BUY' ? 'Покупка' : 'Продажа'}: ${getResourceName(resource)}`;
+    }
+
+    public validate(state: GameState): string | null {
+        const city = state.cityManager.cities.find(c => c.id === this.cityId);
+        if (!city) return "Ошибка: город не найден.";
+        return MarketSystem.canPlace(state.market, city, this.resource, this.side, this.amount);
+    }
+
+    protected perform(state: GameState): string | undefined {
+        const city = state.cityManager.cities.find(c => c.id === this.cityId)!;
+        return MarketSystem.placeOrder(state.market, city, this.resource, this.side, this.amount);
+    }
+}
+
+export class CancelMarketOrderCommand extends GameCommand {
+    public readonly orderId: number;
+    public readonly label = "Отмена заявки";
+
+    constructor(orderId: number) {
+        super();
+        this.orderId = orderId;
+    }
+
+    public validate(state: GameState): string | null {
+        if (!state.market.orders.some(o => o.id === this.orderId)) return "Нет: заявка не найдена.";
+        return null;
+    }
+
+    protected perform(state: GameState): string | undefined {
+        return MarketSystem.cancelOrder(state.market, this.orderId);
+    }
+}
@@ -0,0 +1,43 @@
+import { GameState } from '../GameState';
+import { GameCommand } from './Command';
+import { ResearchSystem } from '../systems/ResearchSystem';
+import { getTechName } from '../../utils/Localization';
+
+export class QueueResearchCommand extends GameCommand {
+    public readonly techId: string;
+    public readonly label: string;
+
+    constructor(techId: string) {
+        super();
+        this.techId = techId;
+        this.label = `Исследование: ${getTechName(techId)}`;
+    }
+
+    public validate(state: GameState): string | null {
+        return ResearchSystem.canQueue(state, this.techId);
+    }
+
+    protected perform(state: GameState): string | undefined {
+        return ResearchSystem.enqueue(state, this.techId);
+    }
+}
+
+export class CancelResearchCommand extends GameCommand {
+    public readonly techId: string;
+    public readonly label: string;
+
+    constructor(techId: string) {
+        super();
+        this.techId = techId;
+        this.label = `Отмена исследования: ${getTechName(techId)}`;
+    }
+
+    public validate(state: GameState): string | null {
+        if (!state.research.queue.includes(this.techId)) return "Нет: технология не в очереди.";
+        return null;
+    }
+
+    protected perform(state: GameState): string | undefined {
+        return ResearchSystem.dequeue(state, this.techId);
+    }
+}
@@ -0,0 +1,173 @@
+import { GameState } from '../GameState';
+import { City, CitySaveData } from '../../Entities/City';
+import { UnitSaveData } from '../../Entities/Unit';
+import { MapLayerName, MAP_LAYER_NAMES, TileData } from '../../Grid/GameMap';
+import { offsetToAxial } from '../../Grid/HexMath';
+import { SaveSystem } from '../systems/SaveSystem';
+
+// Layer name -> TileData field conversion for boolean layers
+const BOOLEAN_LAYERS = new Set<MapLayerName>(['isHidden', 'isProspected']);
+
+// Top-level field -> JSON of its value; the unit of comparison and of revert
+type Fields = Record<string, string>;
+
+const toFields = (data: object): Fields => {
+    const fields: Fields = {};
+    for (const [key, value] of Object.entries(data)) fields[key] = JSON.stringify(value);
+    return fields;
+};
+
+const sameFields = (a: Fields, b: Fields): boolean => {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => a[key] === b[key]);
+};
+
+// Fields whose value differs between `from` and `to`, parsed from `to`
+const changedFields = (from: Fields, to: Fields): Record<string, unknown> => {
+    const changed: Record<string, unknown> = {};
+    for (const key of Object.keys(to)) {
+        if (from[key] !== to[key]) changed[key] = JSON.parse(to[key]);
+    }
+    return changed;
+};
+
+const sameEntities = (a: Map<string, Fields>, b: Map<string, Fields>): boolean => {
+    if (a.size !== b.size) return false;
+    const ids = Array.from(b.keys());
+    return Array.from(a.keys()).every((id, i) => id === ids[i] && sameFields(a.get(id)!, b.get(id)!));
+};
+
+/**
+ * Reverts a list of entities by id: entities added between `from` and `to` are dropped,
+ * removed ones come back at their old position, and changed ones are patched in place
+ * field by field, so anything changed since (outside the command) survives.
+ */
+const revertEntities = <T extends { id: string }>(
+    list: T[],
+    from: Map<string, Fields>,
+    to: Map<string, Fields>,
+    patch: (entity: T, changed: Record<string, unknown>) => void,
+    create: (fields: Fields) => T
+): T[] => {
+    const result = list.filter(e => to.has(e.id) || !from.has(e.id));
+    const order = Array.from(to.keys());
+
+    order.forEach((id, position) => {
+        const fields = to.get(id)!;
+        const before = from.get(id);
+        const entity = result.find(e => e.id === id);
+        if (!before) {
+            // Missing in `from`: bring it back unless it already exists again
+            if (!entity) result.splice(Math.min(position, result.length), 0, create(fields));
+        } else if (entity) {
+            const changed = changedFields(before, fields);
+            if (Object.keys(changed).length > 0) patch(entity, changed);
+        }
+        // In both snapshots but gone now: removed outside the command, not ours to bring back
+    });
+    return result;
+};
+
+const parseFields = <T>(fields: Fields): T => {
+    const data: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(fields)) data[key] = JSON.parse(value);
+    return data as T;
+};
+
+/**
+ * Captures the mutable parts of a GameState (map layers, cities, units, research, market orders, debts, selection)
+ * so a command can be rolled back or re-applied within the turn.
+ */
+export class StateSnapshot {
+    private layers: Record<MapLayerName, Uint8Array>;
+    private cities: Map<string, Fields>;
+    private units: Map<string, Fields>;
+    private research: Fields;
+    // Prices only move during turn resolution, so pending orders are all a command can change
+    private marketOrders: Fields;
+    private treasury: Fields;
+    private selectedUnitId: string | null;
+
+    private constructor(layers: Record<MapLayerName, Uint8Array>, cities: Map<string, Fields>, units: Map<string, Fields>, research: Fields, marketOrders: Fields, treasury: Fields, selectedUnitId: string | null) {
+        this.layers = layers;
+        this.cities = cities;
+        this.units = units;
+        this.research = research;
+        this.marketOrders = marketOrders;
+        this.treasury = treasury;
+        this.selectedUnitId = selectedUnitId;
+    }
+
+    public static capture(state: GameState): StateSnapshot {
+        return new StateSnapshot(
+            state.map.exportLayers(),
+            new Map(state.cityManager.cities.map(c => [c.id, toFields(c.toSaveData())])),
+            new Map(state.unitManager.units.map(u => [u.id, toFields(u.toSaveData())])),
+            toFields(state.research),
+            toFields({ orders: state.market.orders, nextOrderId: state.market.nextOrderId }),
+            toFields(state.treasury),
+            state.unitManager.selectedUnit?.id || null
+        );
+    }
+
+    /**
+     * True if both snapshots describe the same game state (selection is ignored).
+     */
+    public equals(other: StateSnapshot): boolean {
+        if (!sameEntities(this.cities, other.cities) || !sameEntities(this.units, other.units)) return false;
+        if (!sameFields(this.research, other.research) || !sameFields(this.marketOrders, other.marketOrders)) return false;
+        if (!sameFields(this.treasury, other.treasury)) return false;
+        for (const name of MAP_LAYER_NAMES) {
+            const a = this.layers[name];
+            const b = other.layers[name];
+            for (let i = 0; i < a.length; i++) {
+                if (a[i] !== b[i]) return false;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Moves the state from `from` to `to` by applying only what differs between the two snapshots
+     * (a command's own changes). Tiles go through setTile so renderer chunks and transport networks refresh;
+     * cities and units are patched in place.
+     */
+    public static revert(state: GameState, from: StateSnapshot, to: StateSnapshot) {
+        const map = state.map;
+        for (let idx = 0; idx < map.size; idx++) {
+            let diff: Partial<Record<MapLayerName, number | boolean>> | null = null;
+            for (const name of MAP_LAYER_NAMES) {
+                const value = to.layers[name][idx];
+                if (from.layers[name][idx] === value) continue;
+                if (!diff) diff = {};
+                diff[name] = BOOLEAN_LAYERS.has(name) ? value === 1 : value;
+            }
+            if (diff) {
+                const hex = offsetToAxial({ col: idx % map.width, row: Math.floor(idx / map.width) });
+                map.setTile(hex.q, hex.r, diff as Partial<TileData>);
+            }
+        }
+
+        state.cityManager.cities = revertEntities(state.cityManager.cities, from.cities, to.cities,
+            (city, changed) => city.applySaveData({ ...city.toSaveData(), ...changed }),
+            fields => City.fromSaveData(parseFields<CitySaveData>(fields)));
+        state.unitManager.units = revertEntities(state.unitManager.units, from.units, to.units,
+            (unit, changed) => unit.restoreSaveData({ ...unit.toSaveData(), ...changed }),
+            fields => SaveSystem.restoreUnit(parseFields<UnitSaveData>(fields)));
+
+        Object.assign(state.research, changedFields(from.research, to.research));
+        Object.assign(state.market, changedFields(from.marketOrders, to.marketOrders));
+        Object.assign(state.treasury, changedFields(from.treasury, to.treasury));
+
+        const selected = to.selectedUnitId
+            ? state.unitManager.units.find(u => u.id === to.selectedUnitId)
+            : null;
+        if (selected) {
+            state.unitManager.selectUnit(selected);
+        } else {
+            state.unitManager.selectedUnit = null;
+            state.unitManager.validMovesCache = [];
+            state.unitManager.currentPathCache = [];
+        }
+    }
+}
@@ -0,0 +1,42 @@
+import { GameState } from '../GameState';
+import { GameCommand } from './Command';
+import { TreasurySystem, DebtKind } from '../systems/TreasurySystem';
+
+export class BorrowCommand extends GameCommand {
+    public readonly kind: DebtKind;
+    public readonly offerIndex: number;
+    public readonly label: string;
+
+    constructor(kind: DebtKind, offerIndex: number) {
+        super();
+        this.kind = kind;
+        this.offerIndex = offerIndex;
+        this.label = kind === 'LOAN' ? "Заём" : "Выпуск облигаций";
+    }
+
+    public validate(state: GameState): string | null {
+        return TreasurySystem.canBorrow(state.treasury, state.cityManager.capital, this.kind, this.offerIndex);
+    }
+
+    protected perform(state: GameState): string | undefined {
+        return TreasurySystem.borrow(state.treasury, state.cityManager.capital!, this.kind, this.offerIndex);
+    }
+}
+
+export class RepayDebtCommand extends GameCommand {
+    public readonly debtId: number;
+    public readonly label = "Погашение долга";
+
+    constructor(debtId: number) {
+        super();
+        this.debtId = debtId;
+    }
+
+    public validate(state: GameState): string | null {
+        return TreasurySystem.canRepay(state.treasury, state.cityManager.capital, this.debtId);
+    }
+
+    protected perform(state: GameState): string | undefined {
+        return TreasurySystem.repay(state.treasury, state.cityManager.capital!, this.debtId);
+    }
+}
@@ -0,0 +1,46 @@
+import { GameState } from '../GameState';
+import { GameConfig } from '../GameConfig';
+import { ExpandBuildingCommand, SetProductionTargetCommand } from './CityCommands';
+
+export interface UndoCheckResult {
+    passed: boolean;
+    failures: string[];
+}
+
+/**
+ * Regression check for undo/redo: reverting a command must leave edits made after it alone.
+ * Expands a building, changes a production target behind the history's back, then undoes
+ * and redoes the expansion. Run it with `npm run check:undo`, or from the browser console of the dev server:
+ *   (await import('/core/commands/UndoCheck.ts')).runUndoCheck()
+ */
+export function runUndoCheck(seed: number = 1): UndoCheckResult {
+    const failures: string[] = [];
+    const expect = (ok: boolean, what: string) => { if (!ok) failures.push(what); };
+
+    const state = new GameState({ seed });
+    const city = state.cities[0];
+    city.cash = 100000;
+    const recipe = GameConfig.ECONOMY.RECIPES.find(r => (city.buildingLevels.get(r.building) || 0) > 0)!;
+    const level = city.buildingLevels.get(recipe.building)!;
+
+    state.executeCommand(new ExpandBuildingCommand(city.id, recipe.building));
+    expect(city.buildingLevels.get(recipe.building) === level + 1, 'расширение не выполнено');
+
+    // Uncommanded edit after the command
+    city.productionTargets.set(recipe.name, 3);
+
+    state.undo();
+    expect(state.cities[0] === city, 'отмена заменила объект города');
+    expect(city.buildingLevels.get(recipe.building) === level, 'отмена не вернула уровень здания');
+    expect(city.productionTargets.get(recipe.name) === 3, 'отмена потеряла объём производства');
+
+    state.redo();
+    expect(city.buildingLevels.get(recipe.building) === level + 1, 'повтор не вернул расширение');
+    expect(city.productionTargets.get(recipe.name) === 3, 'повтор потерял объём производства');
+
+    state.executeCommand(new SetProductionTargetCommand(city.id, recipe.name, 1));
+    state.undo();
+    expect(city.productionTargets.get(recipe.name) === 3, 'отмена не вернула объём производства');
+
+    return { passed: failures.length === 0, failures };
+}
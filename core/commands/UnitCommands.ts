@@ -0,0 +1,276 @@
+import { GameState } from '../GameState';
+import { GameCommand } from './Command';
+import { Unit } from '../../Entities/Unit';
+import { City } from '../../Entities/City';
+import {
+    CivilianUnit, Engineer, Prospector, ResourceImprover, Developer,
+    ProspectFilter, EngineerPriority, EngineerTerrainFilter
+} from '../../Entities/CivilianUnit';
+import { ImprovementType, ResourceType } from '../../Grid/GameMap';
+import { Hex } from '../../Grid/HexMath';
+import { getImprovementName, getUnitName } from '../../utils/Localization';
+
+/**
+ * Base for commands targeting a single unit (by id, so they stay valid after undo/redo).
+ * Unit actions in UnitManager operate on the selection, so the unit is selected first.
+ */
+abstract class UnitCommand extends GameCommand {
+    public readonly unitId: string;
+
+    constructor(unitId: string) {
+        super();
+        this.unitId = unitId;
+    }
+
+    protected getUnit(state: GameState): Unit | null {
+        return state.unitManager.units.find(u => u.id === this.unitId) || null;
+    }
+
+    protected getCapital(state: GameState): City | null {
+        return state.cityManager.cities[0] || null;
+    }
+
+    public validate(state: GameState): string | null {
+        if (!this.getUnit(state)) return "Ошибка: юнит не найден.";
+        return null;
+    }
+
+    protected selectTarget(state: GameState): Unit {
+        const unit = this.getUnit(state)!;
+        if (state.unitManager.selectedUnit !== unit) {
+            state.unitManager.selectUnit(unit);
+        }
+        return unit;
+    }
+}
+
+export class MoveUnitCommand extends UnitCommand {
+    public readonly label = "Перемещение";
+    public readonly target: Hex;
+
+    constructor(unitId: string, target: Hex) {
+        super(unitId);
+        this.target = { ...target };
+    }
+
+    public validate(state: GameState): string | null {
+        const base = super.validate(state);
+        if (base) return base;
+        const unit = this.getUnit(state)!;
+        if (unit.isWorking) return "Нет: юнит занят работой.";
+        if (unit.movesLeft <= 0) return "Нет очков движения.";
+        return null;
+    }
+
+    protected perform(state: GameState): string | undefined {
+        this.selectTarget(state);
+        state.unitManager.moveSelectedUnit(this.target);
+        return undefined;
+    }
+}
+
+export type BuildableImprovement = ImprovementType.ROAD | ImprovementType.DEPOT | ImprovementType.PORT;
+
+export class BuildImprovementCommand extends UnitCommand {
+    public readonly improvement: BuildableImprovement;
+    public readonly label: string;
+
+    constructor(unitId: string, improvement: BuildableImprovement) {
+        super(unitId);
+        this.improvement = improvement;
+        this.label = `Стройка: ${getImprovementName(improvement)}`;
+    }
+
+    public validate(state: GameState): string | null {
+        const base = super.validate(state);
+        if (base) return base;
+        if (!(this.getUnit(state) instanceof Engineer)) return "Ошибка: строить может только инженер.";
+        if (!this.getCapital(state)) return "Нет столицы.";
+        return null;
+    }
+
+    protected perform(state: GameState): string | undefined {
+        this.selectTarget(state);
+        const city = this.getCapital(state)!;
+        if (this.improvement === ImprovementType.ROAD) {
+            // Same rule as automated engineers: with railroads researched, roads are laid as rail
+            return state.technologies.has('Railroad Transport')
+                ? state.unitManager.doBuildRailroad(city)
+                : state.unitManager.doBuildRoad(city);
+        }
+        if (this.improvement === ImprovementType.DEPOT) return state.unitManager.doBuildDepot(city);
+        return state.unitManager.doBuildPort(city);
+    }
+}
+
+export class ProspectCommand extends UnitCommand {
+    public readonly label = "Разведка";
+
+    public validate(state: GameState): string | null {
+        const base = super.validate(state);
+        if (base) return base;
+        if (!(this.getUnit(state) instanceof Prospector)) return "Ошибка: разведку ведёт только геолог.";
+        return null;
+    }
+
+    protected perform(state: GameState): string | undefined {
+        this.selectTarget(state);
+        return state.unitManager.doProspect();
+    }
+}
+
+export class ImproveResourceCommand extends UnitCommand {
+    public readonly label = "Улучшение ресурса";
+
+    public validate(state: GameState): string | null {
+        const base = super.validate(state);
+        if (base) return base;
+        if (!(this.getUnit(state) instanceof ResourceImprover)) return "Ошибка: юнит не умеет улучшать ресурсы.";
+        return null;
+    }
+
+    protected perform(state: GameState): string | undefined {
+        this.selectTarget(state);
+        return state.unitManager.doImproveResource(state.technologies);
+    }
+}
+
+export class BuyLandCommand extends UnitCommand {
+    public readonly label = "Покупка земли";
+
+    public validate(state: GameState): string | null {
+        const base = super.validate(state);
+        if (base) return base;
+        if (!(this.getUnit(state) instanceof Developer)) return "Ошибка: землю покупает только риелтор.";
+        if (!this.getCapital(state)) return "Нет столицы.";
+        return null;
+    }
+
+    protected perform(state: GameState): string | undefined {
+        this.selectTarget(state);
+        return state.unitManager.doBuyLand(this.getCapital(state)!);
+    }
+}
+
+export class FoundCityCommand extends UnitCommand {
+    public readonly label = "Основание города";
+
+    public validate(state: GameState): string | null {
+        const base = super.validate(state);
+        if (base) return base;
+        const unit = this.getUnit(state)!;
+        if (!(unit instanceof Engineer)) return "Ошибка: город основывает только инженер.";
+        if (unit.movesLeft <= 0) return "Нет очков движения.";
+        if (!this.getCapital(state)) return "Нет столицы.";
+        return state.cityManager.canFoundCity(unit.location);
+    }
+
+    protected perform(state: GameState): string | undefined {
+        const unit = this.selectTarget(state);
+        const result = state.cityManager.foundCity(unit.location, this.getCapital(state)!);
+        if (result.success) unit.movesLeft = 0;
+        return result.message;
+    }
+}
+
+export class ToggleSleepCommand extends UnitCommand {
+    public readonly label = "Сон";
+
+    protected perform(state: GameState): string | undefined {
+        this.selectTarget(state);
+        state.unitManager.toggleSleep();
+        return undefined;
+    }
+}
+
+export class ToggleAutoCommand extends UnitCommand {
+    public readonly label = "Автоматизация";
+
+    public validate(state: GameState): string | null {
+        const base = super.validate(state);
+        if (base) return base;
+        if (!(this.getUnit(state) instanceof CivilianUnit)) return "Ошибка: автоматизация доступна только гражданским.";
+        return null;
+    }
+
+    protected perform(state: GameState): string | undefined {
+        this.selectTarget(state);
+        state.unitManager.toggleAuto(state.cityManager.capital, state.technologies);
+        return undefined;
+    }
+}
+
+export class ToggleAdviceCommand extends UnitCommand {
+    public readonly label = "Советы инженеру";
+
+    public validate(state: GameState): string | null {
+        const base = super.validate(state);
+        if (base) return base;
+        if (!(this.getUnit(state) instanceof Engineer)) return "Ошибка: юнит не инженер.";
+        return null;
+    }
+
+    protected perform(state: GameState): string | undefined {
+        (this.getUnit(state) as Engineer).toggleHeedAdvice();
+        return undefined;
+    }
+}
+
+export type UnitFilter =
+    | { kind: 'PROSPECT'; value: ProspectFilter }
+    | { kind: 'RESOURCE'; value: ResourceType | 'ALL' }
+    | { kind: 'ENGINEER_PRIORITY'; value: EngineerPriority }
+    | { kind: 'ENGINEER_TERRAIN'; value: EngineerTerrainFilter };
+
+export class SetUnitFilterCommand extends UnitCommand {
+    public readonly label = "Фильтр автоматизации";
+    public readonly filter: UnitFilter;
+
+    constructor(unitId: string, filter: UnitFilter) {
+        super(unitId);
+        this.filter = filter;
+    }
+
+    public validate(state: GameState): string | null {
+        const base = super.validate(state);
+        if (base) return base;
+        const unit = this.getUnit(state);
+        switch (this.filter.kind) {
+            case 'PROSPECT':
+                return unit instanceof Prospector ? null : "Ошибка: фильтр только для геолога.";
+            case 'RESOURCE':
+                return unit instanceof ResourceImprover ? null : "Ошибка: фильтр только для улучшателей.";
+            case 'ENGINEER_PRIORITY':
+            case 'ENGINEER_TERRAIN':
+                return unit instanceof Engineer ? null : "Ошибка: фильтр только для инженера.";
+        }
+    }
+
+    protected perform(state: GameState): string | undefined {
+        this.selectTarget(state);
+        switch (this.filter.kind) {
+            case 'PROSPECT': state.unitManager.setProspectorFilter(this.filter.value); break;
+            case 'RESOURCE': state.unitManager.setImproverFilter(this.filter.value); break;
+            case 'ENGINEER_PRIORITY': state.unitManager.setEngineerPriority(this.filter.value); break;
+            case 'ENGINEER_TERRAIN': state.unitManager.setEngineerTerrain(this.filter.value); break;
+        }
+        return undefined;
+    }
+}
+
+export class DisbandUnitCommand extends UnitCommand {
+    public readonly label = "Роспуск юнита";
+
+    public validate(state: GameState): string | null {
+        const base = super.validate(state);
+        if (base) return base;
+        if (!this.getCapital(state)) return "Нет столицы.";
+        return null;
+    }
+
+    protected perform(state: GameState): string | undefined {
+        const unit = this.selectTarget(state);
+        state.unitManager.disbandSelectedUnit(state.cityManager.capital);
+        return `Распущен: ${getUnitName(unit.type)}`;
+    }
+}
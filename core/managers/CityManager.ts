@@ -1,22 +1,92 @@
 
 import { City } from '../../Entities/City';
 import { GameMap, ImprovementType, ResourceType } from '../../Grid/GameMap';
-import { Hex, hexToString, getHexRange } from '../../Grid/HexMath';
-import { TransportNetwork } from '../../Logistics/TransportNetwork';
+import { Hex, getHexRange, getHexDistance, offsetToAxial } from '../../Grid/HexMath';
+import { TransportNetwork, RouteMode } from '../../Logistics/TransportNetwork';
 import { Economy } from '../Economy';
+import { GameConfig, CatchmentRule } from '../GameConfig';
+import { CityTurnReport } from '../TurnReport';
+
+// Goods shipped this turn per receiving city (key = city id)
+export type ShipmentPlan = Map<string, Map<ResourceType, number>>;
+
+// What one station sends of a resource every turn
+export interface SupplySource {
+    station: Hex;
+    amount: number;
+    mode: RouteMode;
+    distance: number; // Route cost to the capital
+    wagonsPerUnit: number;
+    cargoPerUnit: number; // Fleet cargo; goods that cross water go by ship instead of by wagon
+}
+
+/**
+ * Connected supply of one resource. A shipment of it takes `wagonsPerUnit`
+ * wagons and `cargoPerUnit` fleet cargo per unit, averaged over its sources.
+ */
+export interface ResourceSupply {
+    amount: number;
+    wagonsPerUnit: number;
+    cargoPerUnit: number;
+    // Units the stations gather but cannot send on (throughput limit)
+    blocked: number;
+    sources: SupplySource[];
+    // Stations holding units back, and how many
+    blockedAt: { station: Hex; amount: number }[];
+}
+
+export type TransportOptions = Map<ResourceType, ResourceSupply>;
+
+/**
+ * A connected station's collection zone once overlaps are resolved.
+ */
+export interface StationCatchment {
+    station: Hex;
+    kind: ImprovementType; // CITY, DEPOT or PORT
+    mode: RouteMode;
+    distance: number;
+    wagonsPerUnit: number;
+    cargoPerUnit: number;
+    tiles: Hex[]; // Productive tiles it collects
+    gathered: Map<ResourceType, number>;
+    sent: Map<ResourceType, number>; // What its throughput lets through
+}
+
+export interface CatchmentMap {
+    stations: StationCatchment[];
+    // Productive tiles owned by this empire that no connected station collects; unowned land
+    // is left out (stations collect it too, but most of it is wilderness nobody works)
+    uncovered: Hex[];
+}
+
+// Wagons and fleet cargo taken (or still free) in a city
+export interface ShipmentLoad {
+    wagons: number;
+    cargo: number;
+}
+
+interface FoundingResult {
+    success: boolean;
+    city?: City;
+    message: string;
+}
 
 export class CityManager {
     public cities: City[] = [];
     private map: GameMap;
     private transportNetwork: TransportNetwork;
+    private ownerId: number;
+    // Last getCatchments result and the map and network revisions it was computed at
+    private catchmentCache: { mapRevision: number; networkRevision: number; catchments: CatchmentMap } | null = null;
 
-    constructor(map: GameMap, transportNetwork: TransportNetwork) {
+    constructor(map: GameMap, transportNetwork: TransportNetwork, ownerId: number = GameConfig.EMPIRES.PLAYER_ID) {
         this.map = map;
         this.transportNetwork = transportNetwork;
+        this.ownerId = ownerId;
     }
 
     public cloneDeep(newMap: GameMap, newNetwork: TransportNetwork): CityManager {
-        const clone = new CityManager(newMap, newNetwork);
+        const clone = new CityManager(newMap, newNetwork, this.ownerId);
         clone.cities = this.cities.map(c => c.cloneDeep());
         return clone;
     }
@@ -25,86 +95,366 @@ export class CityManager {
         return this.cities.length > 0 ? this.cities[0] : null;
     }
 
-    public spawnCapital(hex: Hex) {
+    public spawnCapital(hex: Hex, name: string = 'Новая Вена') {
         if (this.cities.length === 0) {
-            const capital = new City('city-1', 'Новая Вена', hex);
+            const capital = new City(`${this.idPrefix}city-1`, name, hex, this.ownerId);
             this.cities.push(capital);
         }
     }
 
+    // Rival cities get a prefix so ids stay unique across empires
+    private get idPrefix(): string {
+        return this.ownerId === GameConfig.EMPIRES.PLAYER_ID ? '' : `e${this.ownerId}-`;
+    }
+
+    public getCity(id: string): City | null {
+        return this.cities.find(c => c.id === id) || null;
+    }
+
+    /**
+     * Cities that can receive goods: the capital plus cities connected to its network.
+     */
+    public getConnectedCities(): City[] {
+        this.transportNetwork.update();
+        return this.cities.filter((c, i) => i === 0 || this.transportNetwork.isConnectedToCapital(c.location));
+    }
+
+    public canFoundCity(hex: Hex): string | null {
+        const tile = this.map.getTile(hex.q, hex.r);
+        if (!tile) return "Ошибка карты";
+        if (tile.improvement !== ImprovementType.DEPOT) return "Нет Депо: город основывается на месте станции.";
+
+        this.transportNetwork.update();
+        if (!this.transportNetwork.isConnectedToCapital(hex)) return "Нет связи со столицей.";
+
+        const minDistance = GameConfig.CITY.FOUNDING.MIN_DISTANCE;
+        if (this.cities.some(c => getHexDistance(c.location, hex) < minDistance)) {
+            return `Нет места: до другого города меньше ${minDistance} клеток.`;
+        }
+        return null;
+    }
+
+    /**
+     * Upgrades the Depot at `hex` into a new city. Cost and settlers are paid by `founder`.
+     */
+    public foundCity(hex: Hex, founder: City): FoundingResult {
+        const error = this.canFoundCity(hex);
+        if (error) return { success: false, message: error };
+
+        const config = GameConfig.CITY.FOUNDING;
+        if (founder.workforce.untrained < config.SETTLERS) {
+            return { success: false, message: `Недостаточно необученных рабочих для переселения (${config.SETTLERS}).` };
+        }
+        for (const p of config.PROVISIONS) {
+            if ((founder.inventory.get(p.type) || 0) < p.amount) {
+                return { success: false, message: `Недостаточно провизии для переселенцев (Тип ${p.type}: ${p.amount}).` };
+            }
+        }
+        const payError = Economy.tryPayCost(founder, config.COST);
+        if (payError) return { success: false, message: payError };
+
+        founder.workforce.untrained -= config.SETTLERS;
+        founder.population -= config.SETTLERS;
+
+        const city = new City(this.nextCityId(), this.nextCityName(), { ...hex }, founder.ownerId);
+        city.cash = 0;
+        city.workforce = { untrained: config.SETTLERS, trained: 0, expert: 0 };
+        city.population = config.SETTLERS;
+        city.inventory.forEach((_, type) => city.inventory.set(type, 0));
+        for (const p of config.PROVISIONS) {
+            founder.consumeResource(p.type, p.amount);
+            city.addResource(p.type, p.amount);
+        }
+        city.buildingLevels = new Map(config.INITIAL_BUILDINGS.map(b => [b.name, b.level]));
+        city.transportCapacity = config.TRANSPORT_CAPACITY;
+        this.cities.push(city);
+
+        this.map.setTile(hex.q, hex.r, { improvement: ImprovementType.CITY, improvementLevel: 1 });
+        this.map.claimTerritory(hex, 2, founder.ownerId);
+
+        return { success: true, city, message: `Основан город: ${city.name}` };
+    }
+
+    private nextCityId(): string {
+        let max = 0;
+        const prefix = `${this.idPrefix}city-`;
+        for (const c of this.cities) {
+            const n = parseInt(c.id.replace(prefix, ''), 10);
+            if (Number.isFinite(n)) max = Math.max(max, n);
+        }
+        return `${prefix}${max + 1}`;
+    }
+
+    private nextCityName(): string {
+        const used = new Set(this.cities.map(c => c.name));
+        return GameConfig.CITY.FOUNDING.NAMES.find(n => !used.has(n)) || `Город ${this.cities.length + 1}`;
+    }
+
     public setProduction(resource: ResourceType, isActive: boolean) {
         // Legacy: This method is deprecated as production is now managed via sliders (float targets) 
         // in City.productionTargets rather than boolean flags.
         // No-op to maintain type compatibility if called by old code.
     }
 
-    public processTurn(shippedGoods: Map<ResourceType, number>) {
-        if (this.capital) {
+    /**
+     * Runs every city's economy (diet, labor, production) with the goods shipped to it.
+     * `reservedExperts` (city id -> experts) are held back from production for research.
+     */
+    public processTurn(shipments: ShipmentPlan, reservedExperts: Map<string, number> = new Map()): CityTurnReport[] {
+        const delivered = this.clampShipments(shipments);
+        return this.cities.map(city => {
+            const goods = delivered.get(city.id) || new Map<ResourceType, number>();
             // Save settings for next turn
-            this.capital.lastTransportSettings = new Map(shippedGoods);
-            Economy.processTurn(this.capital, shippedGoods);
-        }
+            city.lastTransportSettings = new Map(goods);
+            return Economy.processTurn(city, goods, reservedExperts.get(city.id) || 0);
+        });
     }
 
-    public getTransportOptions(): Map<ResourceType, number> {
+    public getTransportOptions(): TransportOptions {
         return this.calculateConnectedResources();
     }
+
+    /**
+     * Wagons and fleet cargo a city needs to haul `goods`; long road hauls take more than one wagon per unit.
+     */
+    public static getShipmentLoad(goods: Map<ResourceType, number>, options: TransportOptions): ShipmentLoad {
+        let wagons = 0;
+        let cargo = 0;
+        goods.forEach((amount, type) => {
+            const supply = options.get(type);
+            wagons += amount * (supply?.wagonsPerUnit ?? 1);
+            cargo += amount * (supply?.cargoPerUnit ?? 0);
+        });
+        return { wagons: Math.ceil(wagons - 1e-9), cargo: Math.ceil(cargo - 1e-9) };
+    }
+
+    /**
+     * Most units of a resource that still fit into the `free` wagons and cargo.
+     */
+    public static getShipmentLimit(type: ResourceType, free: ShipmentLoad, options: TransportOptions): number {
+        const supply = options.get(type);
+        const perWagon = supply?.wagonsPerUnit ?? 1;
+        const perCargo = supply?.cargoPerUnit ?? 0;
+        const byWagons = perWagon > 0 ? Math.floor(free.wagons / perWagon + 1e-9) : Infinity;
+        const byCargo = perCargo > 0 ? Math.floor(free.cargo / perCargo + 1e-9) : Infinity;
+        return Math.max(0, Math.min(byWagons, byCargo));
+    }
+
+    // Trims a plan to the connected supply and each connected city's wagons and fleet
+    private clampShipments(shipments: ShipmentPlan): ShipmentPlan {
+        const options = this.calculateConnectedResources();
+        const pool = new Map<ResourceType, number>();
+        options.forEach((supply, type) => pool.set(type, supply.amount));
+
+        const plan: ShipmentPlan = new Map();
+        for (const city of this.getConnectedCities()) {
+            const goods = new Map<ResourceType, number>();
+            const free: ShipmentLoad = { wagons: city.transportCapacity, cargo: city.fleetCapacity };
+            // Wagons are filled in ResourceType order, whatever order the plan was built in
+            const requests = Array.from(shipments.get(city.id)?.entries() || []).sort(([a], [b]) => a - b);
+            requests.forEach(([type, requested]) => {
+                const amount = Math.min(requested, pool.get(type) || 0, CityManager.getShipmentLimit(type, free, options));
+                if (amount <= 0) return;
+                goods.set(type, amount);
+                pool.set(type, (pool.get(type) || 0) - amount);
+                free.wagons -= amount * options.get(type)!.wagonsPerUnit;
+                free.cargo -= amount * options.get(type)!.cargoPerUnit;
+            });
+            plan.set(city.id, goods);
+        }
+        return plan;
+    }
     
-    public getCapitalTransportSettings(): Map<ResourceType, number> {
-        return this.capital ? new Map(this.capital.lastTransportSettings) : new Map();
+    public getTransportSettings(): ShipmentPlan {
+        const plan: ShipmentPlan = new Map();
+        for (const city of this.cities) {
+            plan.set(city.id, new Map(city.lastTransportSettings));
+        }
+        return plan;
     }
 
-    private calculateConnectedResources(): Map<ResourceType, number> {
-        const available = new Map<ResourceType, number>();
-  
-        if (this.cities.length === 0) return available;
+    /**
+     * Which connected station collects each productive tile. A tile inside several zones is
+     * assigned by GameConfig.ECONOMY.TRANSPORT.OVERLAP_RULES, so every tile is counted once.
+     * The result is cached until the map or the network changes; callers must not modify it.
+     */
+    public getCatchments(): CatchmentMap {
+        if (this.cities.length === 0) return { stations: [], uncovered: [] };
         this.transportNetwork.update();
-  
-        const gatheredHexes = new Set<string>();
-  
+
+        const mapRevision = this.map.getRevision();
+        const networkRevision = this.transportNetwork.getRevision();
+        const cache = this.catchmentCache;
+        if (cache && cache.mapRevision === mapRevision && cache.networkRevision === networkRevision) return cache.catchments;
+
+        const catchments = this.computeCatchments();
+        this.catchmentCache = { mapRevision, networkRevision, catchments };
+        return catchments;
+    }
+
+    private computeCatchments(): CatchmentMap {
+        const result: CatchmentMap = { stations: [], uncovered: [] };
+
+        const transport = GameConfig.ECONOMY.TRANSPORT;
+        // Productive tile index -> its station so far
+        const claims = new Map<number, { hex: Hex; yields: Map<ResourceType, number>; station: StationCatchment }>();
+
         // Rule: Resources are collected by Stations (City, Depot, Port)
-        // Zone: Station Tile + Range (City=2, Others=1)
-        
-        // Iterate over map to find Stations
-        for(let r=0; r<this.map.height; r++) {
-            for(let c=0; c<this.map.width; c++) {
-                const q = c - (r - (r&1)) / 2;
+        for (let r = 0; r < this.map.height; r++) {
+            for (let c = 0; c < this.map.width; c++) {
+                const q = c - (r - (r & 1)) / 2;
                 const tile = this.map.getTile(q, r);
-                if (!tile) continue;
-  
-                const isStation = tile.improvement === ImprovementType.CITY || 
-                                  tile.improvement === ImprovementType.DEPOT || 
-                                  tile.improvement === ImprovementType.PORT;
-  
-                if (isStation) {
-                    // Station must be connected to Capital Network to function
-                    // (Depots via Rail/Road, Ports via Water if Capital has access)
-                    if (this.transportNetwork.isConnectedToCapital({q, r})) {
-                        
-                        // Collection Zone: Radius 2 for City, 1 for others
-                        const radius = tile.improvement === ImprovementType.CITY ? 2 : 1;
-                        const collectionZone = getHexRange({q, r}, radius);
-                        
-                        for (const target of collectionZone) {
-                            if (!this.map.isValid(target.q, target.r)) continue;
-                            
-                            const key = hexToString(target);
-                            if (gatheredHexes.has(key)) continue; // Prevent double counting
-                            
-                            const yields = this.getTileYield(target);
-                            if (yields.size > 0) {
-                                gatheredHexes.add(key);
-                                yields.forEach((amount, type) => {
-                                    const current = available.get(type) || 0;
-                                    available.set(type, current + amount);
-                                });
-                            }
-                        }
+                if (!tile || !CityManager.isStation(tile.improvement)) continue;
+
+                // Station must be connected to Capital Network to function
+                // (Depots via Rail/Road, Ports via a sea the Capital's ports share)
+                const mode = this.transportNetwork.getRouteMode({ q, r });
+                if (!mode) continue;
+
+                const distance = this.transportNetwork.getTransportCost({ q, r });
+                // Rail hauls take one wagon per unit at any distance, road hauls more the longer they get;
+                // goods that cross water travel in the fleet's holds
+                const station: StationCatchment = {
+                    station: { q, r },
+                    kind: tile.improvement,
+                    mode,
+                    distance,
+                    wagonsPerUnit: mode === 'ROAD'
+                        ? 1 + Math.max(0, distance - transport.FREE_DISTANCE) / transport.DISTANCE_PER_WAGON
+                        : mode === 'SEA' ? 0 : 1,
+                    cargoPerUnit: mode === 'SEA' ? 1 : 0,
+                    tiles: [],
+                    gathered: new Map(),
+                    sent: new Map()
+                };
+                result.stations.push(station);
+
+                for (const target of getHexRange({ q, r }, CityManager.getCatchmentRadius(tile.improvement))) {
+                    if (!this.map.isValid(target.q, target.r)) continue;
+                    // Foreign land inside our collection zone is not ours to harvest
+                    if (this.map.isForeignTerritory(target.q, target.r, this.ownerId)) continue;
+
+                    const idx = this.map.getIndex(target.q, target.r);
+                    const claim = claims.get(idx);
+                    if (claim) {
+                        if (this.winsOverlap(station, claim.station, target)) claim.station = station;
+                        continue;
                     }
+                    const yields = this.getTileYield(target);
+                    if (yields.size > 0) claims.set(idx, { hex: target, yields, station });
                 }
             }
         }
-  
+
+        claims.forEach(({ hex, yields, station }) => {
+            station.tiles.push(hex);
+            yields.forEach((amount, type) => station.gathered.set(type, (station.gathered.get(type) || 0) + amount));
+        });
+
+        // Units beyond a station's throughput stay where they are
+        for (const station of result.stations) {
+            station.sent = CityManager.splitThroughput(station.gathered, transport.STATION_THROUGHPUT[station.mode]);
+        }
+
+        // Our own productive land that nothing collects
+        for (let idx = 0; idx < this.map.size; idx++) {
+            const hex = offsetToAxial({ col: idx % this.map.width, row: Math.floor(idx / this.map.width) });
+            if (claims.has(idx) || this.map.getOwner(hex.q, hex.r) !== this.ownerId) continue;
+            if (this.getTileYield(hex).size > 0) result.uncovered.push(hex);
+        }
+
+        return result;
+    }
+
+    /**
+     * Shares a station's throughput evenly between the resources it gathers: a resource below its
+     * share sends everything and leaves the rest to the others. Units an even split cannot divide
+     * go out in ResourceType order, so the result never depends on the order tiles were found in.
+     */
+    private static splitThroughput(gathered: Map<ResourceType, number>, throughput: number): Map<ResourceType, number> {
+        const sent = new Map<ResourceType, number>();
+        const byType = Array.from(gathered.keys()).sort((a, b) => a - b);
+        const bySize = [...byType].sort((a, b) => gathered.get(a)! - gathered.get(b)! || a - b);
+
+        // Resources that fit into their share go in full, the others split what is left evenly
+        let left = throughput;
+        let i = 0;
+        for (; i < bySize.length && gathered.get(bySize[i])! <= Math.floor(left / (bySize.length - i)); i++) {
+            sent.set(bySize[i], gathered.get(bySize[i])!);
+            left -= gathered.get(bySize[i])!;
+        }
+        const share = i < bySize.length ? Math.floor(left / (bySize.length - i)) : 0;
+        for (; i < bySize.length; i++) {
+            sent.set(bySize[i], share);
+            left -= share;
+        }
+        for (const type of byType) {
+            const extra = Math.min(gathered.get(type)! - sent.get(type)!, left);
+            sent.set(type, sent.get(type)! + extra);
+            left -= extra;
+        }
+
+        byType.forEach(type => { if (sent.get(type) === 0) sent.delete(type); });
+        return sent;
+    }
+
+    /**
+     * The catchment of the connected station on `hex`, or null.
+     */
+    public getStationCatchment(hex: Hex): StationCatchment | null {
+        return this.getCatchments().stations.find(s => s.station.q === hex.q && s.station.r === hex.r) || null;
+    }
+
+    public static isStation(type: ImprovementType): boolean {
+        return type === ImprovementType.CITY || type === ImprovementType.DEPOT || type === ImprovementType.PORT;
+    }
+
+    // Cities gather further than depots and ports
+    public static getCatchmentRadius(type: ImprovementType): number {
+        const radius = GameConfig.ECONOMY.TRANSPORT.CATCHMENT_RADIUS;
+        return type === ImprovementType.CITY ? radius.CITY : radius.STATION;
+    }
+
+    // Whether `challenger` takes `tile` from its current station
+    private winsOverlap(challenger: StationCatchment, holder: StationCatchment, tile: Hex): boolean {
+        const score = (s: StationCatchment, rule: CatchmentRule): number => {
+            switch (rule) {
+                case 'CHEAPEST': return s.wagonsPerUnit + s.cargoPerUnit;
+                case 'NEAREST': return getHexDistance(s.station, tile);
+                case 'CITY': return s.kind === ImprovementType.CITY ? 0 : 1;
+            }
+        };
+        for (const rule of GameConfig.ECONOMY.TRANSPORT.OVERLAP_RULES) {
+            const a = score(challenger, rule);
+            const b = score(holder, rule);
+            if (Math.abs(a - b) > 1e-9) return a < b;
+        }
+        return false;
+    }
+
+    private calculateConnectedResources(): TransportOptions {
+        const available: TransportOptions = new Map();
+
+        for (const station of this.getCatchments().stations) {
+            const { mode, distance, wagonsPerUnit, cargoPerUnit } = station;
+            station.gathered.forEach((amount, type) => {
+                const sent = station.sent.get(type) || 0;
+                const supply = available.get(type) || { amount: 0, wagonsPerUnit: 0, cargoPerUnit: 0, blocked: 0, sources: [], blockedAt: [] };
+                supply.blocked += amount - sent;
+                if (amount > sent) supply.blockedAt.push({ station: station.station, amount: amount - sent });
+                if (sent > 0) {
+                    const total = supply.amount + sent;
+                    supply.wagonsPerUnit = (supply.wagonsPerUnit * supply.amount + wagonsPerUnit * sent) / total;
+                    supply.cargoPerUnit = (supply.cargoPerUnit * supply.amount + cargoPerUnit * sent) / total;
+                    supply.amount = total;
+                    supply.sources.push({ station: station.station, amount: sent, mode, distance, wagonsPerUnit, cargoPerUnit });
+                }
+                available.set(type, supply);
+            });
+        }
+
+        // Cheapest sources first
+        available.forEach(supply => supply.sources.sort((a, b) => (a.wagonsPerUnit + a.cargoPerUnit) - (b.wagonsPerUnit + b.cargoPerUnit)));
         return available;
     }
 
@@ -112,10 +462,15 @@ export class CityManager {
         // Used by UI to preview potential yields when building something
         const gathered = new Map<ResourceType, number>();
         
-        // If building a Station (or inspecting one), preview the Radius yield
-        if (type === ImprovementType.CITY || type === ImprovementType.DEPOT || type === ImprovementType.PORT) {
-            const radius = type === ImprovementType.CITY ? 2 : 1;
-            const neighbors = getHexRange(hex, radius);
+        // A working station shows what it actually collects once overlaps are resolved
+        if (CityManager.isStation(type) && this.map.getTile(hex.q, hex.r)?.improvement === type) {
+            const catchment = this.getStationCatchment(hex);
+            if (catchment) return new Map(catchment.gathered);
+        }
+
+        // If building a Station (or inspecting an idle one), preview the Radius yield
+        if (CityManager.isStation(type)) {
+            const neighbors = getHexRange(hex, CityManager.getCatchmentRadius(type));
             for (const tHex of neighbors) {
                 const y = this.getTileYield(tHex);
                 y.forEach((amt, t) => {
@@ -124,17 +479,12 @@ export class CityManager {
                 });
             }
         } else {
-            // If building an improvement (e.g. Lumber Mill), show its direct yield
-            const original = this.map.getTile(hex.q, hex.r)?.improvement;
-            const originalLvl = this.map.getTile(hex.q, hex.r)?.improvementLevel;
-
-            if (this.map.getTile(hex.q, hex.r)) {
-               // Temporarily set improvement to preview yield (Assume Level 1 for preview)
-               this.map.setTile(hex.q, hex.r, { improvement: type, improvementLevel: 1 });
-               const y = this.getTileYield(hex);
+            // If building an improvement (e.g. Lumber Mill), show its direct yield (Assume Level 1 for preview);
+            // the map is left untouched so cached catchments and routes stay valid
+            const tile = this.map.getTile(hex.q, hex.r);
+            if (tile) {
+               const y = this.getYield(tile.resource, type, 1);
                y.forEach((amt, t) => gathered.set(t, amt));
-               // Revert
-               this.map.setTile(hex.q, hex.r, { improvement: original, improvementLevel: originalLvl });
             }
         }
         
@@ -142,13 +492,14 @@ export class CityManager {
     }
 
     public getTileYield(hex: Hex): Map<ResourceType, number> {
-        const y = new Map<ResourceType, number>();
         const tile = this.map.getTile(hex.q, hex.r);
-        if (!tile) return y;
-  
-        const lvl = tile.improvementLevel || 0; // 0=None, 1=Basic, 2=Advanced, 3=Expert
-        const res = tile.resource;
-        const imp = tile.improvement;
+        if (!tile) return new Map<ResourceType, number>();
+        return this.getYield(tile.resource, tile.improvement, tile.improvementLevel || 0);
+    }
+
+    // lvl: 0=None, 1=Basic, 2=Advanced, 3=Expert
+    private getYield(res: ResourceType, imp: ImprovementType, lvl: number): Map<ResourceType, number> {
+        const y = new Map<ResourceType, number>();
 
         // --- Surface Resources ---
         // Base Yield: 1
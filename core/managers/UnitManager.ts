@@ -2,10 +2,11 @@
 import { UnitType } from '../../Entities/Unit';
 import { Engineer, Prospector, ResourceImprover, Developer, CivilianUnit, ProspectFilter, EngineerPriority, EngineerTerrainFilter } from '../../Entities/CivilianUnit';
 import { University } from '../University';
+import { GameConfig } from '../GameConfig';
 import { GameMap, TerrainType, ImprovementType, ResourceType } from '../../Grid/GameMap';
 import { Pathfinder } from '../../Grid/Pathfinding';
 import { Hex } from '../../Grid/HexMath';
-import { City } from '../../Entities/City';
+import { City, TrainingOrder } from '../../Entities/City';
 import { TransportNetwork } from '../../Logistics/TransportNetwork';
 
 export class UnitManager {
@@ -19,14 +20,21 @@ export class UnitManager {
 
     private map: GameMap;
     private pathfinder: Pathfinder;
+    private ownerId: number;
 
-    constructor(map: GameMap, pathfinder: Pathfinder) {
+    constructor(map: GameMap, pathfinder: Pathfinder, ownerId: number = GameConfig.EMPIRES.PLAYER_ID) {
         this.map = map;
         this.pathfinder = pathfinder;
+        this.ownerId = ownerId;
+    }
+
+    // Rival units get a prefix so ids stay unique across empires
+    private get idPrefix(): string {
+        return this.ownerId === GameConfig.EMPIRES.PLAYER_ID ? '' : `e${this.ownerId}-`;
     }
 
     public cloneDeep(newMap: GameMap, newPathfinder: Pathfinder): UnitManager {
-        const clone = new UnitManager(newMap, newPathfinder);
+        const clone = new UnitManager(newMap, newPathfinder, this.ownerId);
         clone.units = this.units.map(u => u.cloneDeep());
         // Selection state is not strictly needed for simulation, but we can copy it or leave null
         return clone;
@@ -41,30 +49,29 @@ export class UnitManager {
          const neighbors = neighborsRaw.filter(n => this.map.isValid(n.q, n.r) && this.map.getTile(n.q, n.r)?.terrain !== TerrainType.WATER && this.map.getTile(n.q, n.r)?.terrain !== TerrainType.MOUNTAIN);
           
          if (neighbors.length > 0) {
-           this.units.push(new Engineer('unit-eng-1', neighbors[0]));
+           this.units.push(new Engineer(`${this.idPrefix}unit-eng-1`, neighbors[0], this.ownerId));
          }
          if (neighbors.length > 1) {
-            this.units.push(new Prospector('unit-geo-1', neighbors[1]));
+            this.units.push(new Prospector(`${this.idPrefix}unit-geo-1`, neighbors[1], this.ownerId));
          }
          if (neighbors.length > 2) {
-            this.units.push(new ResourceImprover('unit-miner-1', UnitType.MINER, neighbors[2]));
+            this.units.push(new ResourceImprover(`${this.idPrefix}unit-miner-1`, UnitType.MINER, neighbors[2], this.ownerId));
          }
     }
 
-    public recruitUnit(type: UnitType, city: City, turn: number, technologies: Set<string>): string {
-        const result = University.createUnit(
-            type, 
-            city, 
-            city.location, 
-            technologies, 
-            `unit-${turn}-${this.units.length}`
-        );
-  
-        if (result.success && result.unit) {
-            this.units.push(result.unit);
-            return result.message;
+    public recruitUnit(type: UnitType, city: City, technologies: Set<string>): string {
+        return University.enrollUnit(type, city, technologies);
+    }
+
+    /**
+     * Places units whose university course ended this turn on their city's tile.
+     */
+    public addGraduates(city: City, completed: TrainingOrder[], turn: number) {
+        for (const order of completed) {
+            if (order.kind !== 'UNIT') continue;
+            const id = `${this.idPrefix}unit-${turn}-${this.units.length}`;
+            this.units.push(University.instantiateUnit(order.unitType, id, { ...city.location }, city.ownerId));
         }
-        return result.message;
     }
 
     public disbandSelectedUnit(city: City | null) {
@@ -153,27 +160,15 @@ export class UnitManager {
         }
     }
 
-    public setEngineerPriority(priorityVal: string) {
+    public setEngineerPriority(priority: EngineerPriority) {
         if (this.selectedUnit && this.selectedUnit instanceof Engineer) {
-            let parsed: EngineerPriority;
-            if (priorityVal === 'GENERAL') {
-                parsed = 'GENERAL';
-            } else {
-                parsed = parseInt(priorityVal) as ResourceType;
-            }
-            this.selectedUnit.setPriority(parsed);
+            this.selectedUnit.setPriority(priority);
         }
     }
 
-    public setEngineerTerrain(terrainVal: string) {
+    public setEngineerTerrain(terrain: EngineerTerrainFilter) {
         if (this.selectedUnit && this.selectedUnit instanceof Engineer) {
-            let parsed: EngineerTerrainFilter;
-            if (terrainVal === 'ALL') {
-                parsed = 'ALL';
-            } else {
-                parsed = parseInt(terrainVal) as TerrainType;
-            }
-            this.selectedUnit.setTerrainFilter(parsed);
+            this.selectedUnit.setTerrainFilter(terrain);
         }
     }
     
@@ -202,6 +197,10 @@ export class UnitManager {
     public processTurn(capital: City | null, techs: Set<string>, transportNetwork: TransportNetwork) {
          // Process Automation & Reset Units
         this.units.forEach(u => {
+            if (u.isUnpaid) {
+                u.movesLeft = 0;
+                return;
+            }
             // Automation Logic
             if (u.isAutomated && u instanceof CivilianUnit) {
                 u.resetTurn(); // Give moves first
@@ -230,6 +229,11 @@ export class UnitManager {
         return this.selectedUnit.buildRoad(this.map, city);
     }
   
+    public doBuildRailroad(city: City): string | undefined {
+        if (!this.selectedUnit || !(this.selectedUnit instanceof Engineer)) return;
+        return this.selectedUnit.buildRailroad(this.map, city);
+    }
+  
     public doBuildDepot(city: City): string | undefined {
         if (!this.selectedUnit || !(this.selectedUnit instanceof Engineer)) return;
         return this.selectedUnit.buildDepot(this.map, city);
@@ -249,15 +253,4 @@ export class UnitManager {
         if (!this.selectedUnit || !(this.selectedUnit instanceof Developer)) return;
         return this.selectedUnit.buyLand(this.map, city);
     }
-
-    public buildImprovement(type: ImprovementType, city: City) {
-        if (this.selectedUnit && this.selectedUnit instanceof Engineer) {
-            if (type === ImprovementType.ROAD) this.selectedUnit.buildRoad(this.map, city);
-            else if (type === ImprovementType.DEPOT) this.selectedUnit.buildDepot(this.map, city);
-            else if (type === ImprovementType.PORT) this.selectedUnit.buildPort(this.map, city);
-            
-            // Note: Caller needs to mark transport dirty
-            this.validMovesCache = []; 
-        }
-    }
 }
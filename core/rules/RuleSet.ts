@@ -0,0 +1,436 @@
+import { ResourceType, ImprovementType } from '../../Grid/GameMap';
+import { UnitType } from '../../Entities/Unit';
+import type { Recipe, CostConfig, BuildingDefinition } from '../GameConfig';
+import type { Workforce } from '../../Entities/City';
+
+/*
+ * JSON shape of a rule-set file. Resources, units and improvements are referred to
+ * by their enum names ("WHEAT", "SOLDIER", "ROAD") so files stay readable and stable.
+ */
+
+export interface CostData {
+    money?: number;
+    // Resource name -> amount
+    resources?: Record<string, number>;
+    expertLabor?: number;
+}
+
+export interface RecipeData {
+    name: string;
+    building: string;
+    // Substitutes are tried in order: resource, then each alternative
+    inputs: { resource: string; amount: number; alternatives?: string[] }[];
+    // First output is the main product, the rest are by-products
+    outputs: { resource: string; amount: number }[];
+    laborCost: number;
+}
+
+export const COST_KEYS = [
+    'buildingExpansion', 'recruitWorker', 'trainTrained', 'trainExpert', 'transportCapacity', 'merchantShip',
+    'housing', 'foundCity', 'civilianUnit', 'soldier', 'buyLand'
+] as const;
+export type CostKey = typeof COST_KEYS[number];
+
+export interface RuleSetData {
+    name: string;
+    description?: string;
+    city?: {
+        initialCash?: number;
+        initialPopulation?: Workforce;
+        initialInventory?: Record<string, number>;
+        // Building name -> level
+        initialBuildings?: Record<string, number>;
+    };
+    buildings?: Record<string, { cost: CostData; tech?: string }>;
+    // Run in this order every turn
+    recipes?: RecipeData[];
+    costs?: Partial<Record<CostKey, CostData>>;
+    transportCapacityIncrease?: number;
+    // Fleet cargo one merchant ship adds
+    shipCargo?: number;
+    // Improvement name -> construction cost
+    infrastructure?: Record<string, CostData>;
+    upkeep?: {
+        units?: Record<string, CostData>;
+        improvements?: Record<string, CostData>;
+    };
+    // Resource name -> cash per unit delivered
+    cashConversion?: Record<string, number>;
+    // Resource name -> base world market price
+    marketPrices?: Record<string, number>;
+}
+
+// A validated rule-set in the types the engine uses
+export interface Rules {
+    name: string;
+    description: string;
+    initialCash: number;
+    initialPopulation: Workforce;
+    initialInventory: { type: ResourceType; amount: number }[];
+    initialBuildings: { name: string; level: number }[];
+    buildings: Record<string, BuildingDefinition>;
+    recipes: Recipe[];
+    costs: Record<CostKey, CostConfig>;
+    transportCapacityIncrease: number;
+    shipCargo: number;
+    infrastructure: Record<number, CostConfig>;
+    upkeepUnits: Record<UnitType, CostConfig>;
+    upkeepImprovements: Partial<Record<ImprovementType, CostConfig>>;
+    cashConversion: Record<number, number>;
+    marketPrices: Record<number, number>;
+}
+
+const TOP_LEVEL_KEYS = ['name', 'description', 'city', 'buildings', 'recipes', 'costs', 'transportCapacityIncrease', 'shipCargo', 'infrastructure', 'upkeep', 'cashConversion', 'marketPrices'];
+const CITY_KEYS = ['initialCash', 'initialPopulation', 'initialInventory', 'initialBuildings'];
+// Improvements the engineer can build; each needs a price
+const BUILDABLE_IMPROVEMENTS = ['ROAD', 'RAILROAD', 'DEPOT', 'PORT'];
+
+// Keys a merge never copies: they would reach the prototype chain instead of the data
+const UNSAFE_KEYS = ['__proto__', 'constructor', 'prototype'];
+
+const isObject = (value: unknown): value is Record<string, any> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Own members only, so inherited names like "constructor" are not taken for enum members
+const memberOf = (enumObject: object, name: string): unknown =>
+    Object.hasOwn(enumObject, name) ? (enumObject as Record<string, unknown>)[name] : undefined;
+
+const resourceOf = (name: string): ResourceType | undefined => {
+    const value = memberOf(ResourceType, name);
+    return typeof value === 'number' && value !== ResourceType.NONE ? value : undefined;
+};
+
+const improvementOf = (name: string): ImprovementType | undefined => {
+    const value = memberOf(ImprovementType, name);
+    return typeof value === 'number' && value !== ImprovementType.NONE ? value : undefined;
+};
+
+const unitOf = (name: string): UnitType | undefined => {
+    const value = memberOf(UnitType, name);
+    return typeof value === 'string' ? value as UnitType : undefined;
+};
+
+/**
+ * Collects every problem of a rule-set with the path to the offending value,
+ * so a modder can fix a file in one go instead of error by error.
+ */
+class RuleSetValidator {
+    public errors: string[] = [];
+
+    constructor(private technologies: string[] | null) {}
+
+    public validate(data: unknown) {
+        if (!isObject(data)) {
+            this.error('', 'правила должны быть JSON-объектом');
+            return;
+        }
+        this.unknownKeys('', data, TOP_LEVEL_KEYS);
+        if (typeof data.name !== 'string' || data.name.trim() === '') this.error('name', 'нужно непустое название');
+        if (data.description !== undefined && typeof data.description !== 'string') this.error('description', 'ожидается строка');
+
+        const buildings = isObject(data.buildings) ? data.buildings : {};
+        this.section(data, 'buildings', () => this.buildings(data.buildings));
+        this.section(data, 'city', () => this.city(data.city, buildings));
+        this.section(data, 'recipes', () => this.recipes(data.recipes, buildings));
+        this.section(data, 'costs', () => {
+            this.unknownKeys('costs', data.costs, COST_KEYS);
+            COST_KEYS.forEach(key => this.cost(`costs.${key}`, data.costs[key]));
+        });
+        this.section(data, 'transportCapacityIncrease', () => this.amount('transportCapacityIncrease', data.transportCapacityIncrease));
+        this.section(data, 'shipCargo', () => this.positive('shipCargo', data.shipCargo));
+        this.section(data, 'infrastructure', () => {
+            this.keyedCosts('infrastructure', data.infrastructure, improvementOf, 'неизвестное улучшение');
+            BUILDABLE_IMPROVEMENTS.forEach(name => {
+                if (!Object.hasOwn(data.infrastructure, name)) this.error(`infrastructure.${name}`, 'нужна цена строительства');
+            });
+        });
+        this.section(data, 'upkeep', () => {
+            this.unknownKeys('upkeep', data.upkeep, ['units', 'improvements']);
+            if (!isObject(data.upkeep.units)) this.error('upkeep.units', 'ожидается объект');
+            else {
+                this.keyedCosts('upkeep.units', data.upkeep.units, unitOf, 'неизвестный юнит');
+                Object.keys(UnitType).forEach(name => {
+                    if (!Object.hasOwn(data.upkeep.units, name)) this.error(`upkeep.units.${name}`, 'нужно содержание юнита');
+                });
+            }
+            if (!isObject(data.upkeep.improvements)) this.error('upkeep.improvements', 'ожидается объект');
+            else this.keyedCosts('upkeep.improvements', data.upkeep.improvements, improvementOf, 'неизвестное улучшение');
+        });
+        this.section(data, 'cashConversion', () => this.prices('cashConversion', data.cashConversion));
+        this.section(data, 'marketPrices', () => this.prices('marketPrices', data.marketPrices));
+    }
+
+    // Every section is required in a complete rule-set (partial files are merged with the default first)
+    private section(data: Record<string, any>, key: string, check: () => void) {
+        if (data[key] === undefined) {
+            this.error(key, 'раздел отсутствует');
+            return;
+        }
+        if (!['recipes', 'transportCapacityIncrease', 'shipCargo'].includes(key) && !isObject(data[key])) {
+            this.error(key, 'ожидается объект');
+            return;
+        }
+        check();
+    }
+
+    private city(city: Record<string, any>, buildings: Record<string, any>) {
+        this.unknownKeys('city', city, CITY_KEYS);
+        this.amount('city.initialCash', city.initialCash);
+
+        if (!isObject(city.initialPopulation)) this.error('city.initialPopulation', 'ожидается объект');
+        else ['untrained', 'trained', 'expert'].forEach(tier => this.amount(`city.initialPopulation.${tier}`, city.initialPopulation[tier]));
+
+        if (!isObject(city.initialInventory)) this.error('city.initialInventory', 'ожидается объект');
+        else this.resourceAmounts('city.initialInventory', city.initialInventory);
+
+        if (!isObject(city.initialBuildings)) this.error('city.initialBuildings', 'ожидается объект');
+        else {
+            Object.entries(city.initialBuildings).forEach(([name, level]) => {
+                if (!Object.hasOwn(buildings, name)) this.error(`city.initialBuildings.${name}`, 'неизвестное здание');
+                this.amount(`city.initialBuildings.${name}`, level);
+            });
+        }
+    }
+
+    private buildings(buildings: Record<string, any>) {
+        Object.entries(buildings).forEach(([name, def]) => {
+            const path = `buildings.${name}`;
+            if (!isObject(def)) {
+                this.error(path, 'ожидается объект');
+                return;
+            }
+            this.unknownKeys(path, def, ['cost', 'tech']);
+            this.cost(`${path}.cost`, def.cost);
+            if (def.tech !== undefined) {
+                if (typeof def.tech !== 'string') this.error(`${path}.tech`, 'ожидается строка');
+                else if (this.technologies && !this.technologies.includes(def.tech)) this.error(`${path}.tech`, `неизвестная технология "${def.tech}"`);
+            }
+        });
+    }
+
+    private recipes(recipes: unknown, buildings: Record<string, any>) {
+        if (!Array.isArray(recipes)) {
+            this.error('recipes', 'ожидается массив');
+            return;
+        }
+        const names = new Set<string>();
+        recipes.forEach((recipe, i) => {
+            const path = `recipes[${i}]`;
+            if (!isObject(recipe)) {
+                this.error(path, 'ожидается объект');
+                return;
+            }
+            this.unknownKeys(path, recipe, ['name', 'building', 'inputs', 'outputs', 'laborCost']);
+            if (typeof recipe.name !== 'string' || recipe.name.trim() === '') this.error(`${path}.name`, 'нужно непустое название');
+            else if (names.has(recipe.name)) this.error(`${path}.name`, `рецепт "${recipe.name}" уже есть`);
+            else names.add(recipe.name);
+
+            if (typeof recipe.building !== 'string' || !Object.hasOwn(buildings, recipe.building)) {
+                this.error(`${path}.building`, `неизвестное здание "${recipe.building}"`);
+            }
+            if (!Array.isArray(recipe.inputs) || recipe.inputs.length === 0) {
+                this.error(`${path}.inputs`, 'нужен хотя бы один ингредиент');
+            } else {
+                recipe.inputs.forEach((input: any, j: number) => {
+                    const inputPath = `${path}.inputs[${j}]`;
+                    if (!isObject(input)) {
+                        this.error(inputPath, 'ожидается объект');
+                        return;
+                    }
+                    this.unknownKeys(inputPath, input, ['resource', 'amount', 'alternatives']);
+                    this.resource(`${inputPath}.resource`, input.resource);
+                    if (input.alternatives !== undefined) {
+                        if (!Array.isArray(input.alternatives)) {
+                            this.error(`${inputPath}.alternatives`, 'ожидается массив ресурсов');
+                        } else {
+                            input.alternatives.forEach((alt: unknown, k: number) => {
+                                this.resource(`${inputPath}.alternatives[${k}]`, alt);
+                                if (alt === input.resource || input.alternatives.indexOf(alt) !== k) {
+                                    this.error(`${inputPath}.alternatives[${k}]`, `ресурс "${alt}" указан дважды`);
+                                }
+                            });
+                        }
+                    }
+                    this.positive(`${inputPath}.amount`, input.amount);
+                });
+            }
+            if (!Array.isArray(recipe.outputs) || recipe.outputs.length === 0) {
+                this.error(`${path}.outputs`, 'нужен хотя бы один продукт');
+            } else {
+                recipe.outputs.forEach((output: any, j: number) => {
+                    const outputPath = `${path}.outputs[${j}]`;
+                    if (!isObject(output)) {
+                        this.error(outputPath, 'ожидается объект');
+                        return;
+                    }
+                    this.unknownKeys(outputPath, output, ['resource', 'amount']);
+                    this.resource(`${outputPath}.resource`, output.resource);
+                    if (recipe.outputs.findIndex((o: any) => o?.resource === output.resource) !== j) {
+                        this.error(`${outputPath}.resource`, `продукт "${output.resource}" указан дважды`);
+                    }
+                    this.positive(`${outputPath}.amount`, output.amount);
+                });
+            }
+            this.amount(`${path}.laborCost`, recipe.laborCost);
+        });
+    }
+
+    private cost(path: string, cost: unknown) {
+        if (!isObject(cost)) {
+            this.error(path, 'нужна стоимость');
+            return;
+        }
+        this.unknownKeys(path, cost, ['money', 'resources', 'expertLabor']);
+        if (cost.money !== undefined) this.amount(`${path}.money`, cost.money);
+        if (cost.expertLabor !== undefined) this.amount(`${path}.expertLabor`, cost.expertLabor);
+        if (cost.resources !== undefined) {
+            if (!isObject(cost.resources)) this.error(`${path}.resources`, 'ожидается объект');
+            else this.resourceAmounts(`${path}.resources`, cost.resources);
+        }
+    }
+
+    private keyedCosts(path: string, costs: Record<string, any>, lookup: (name: string) => unknown, unknownMessage: string) {
+        Object.entries(costs).forEach(([name, cost]) => {
+            if (lookup(name) === undefined) this.error(`${path}.${name}`, `${unknownMessage} "${name}"`);
+            else this.cost(`${path}.${name}`, cost);
+        });
+    }
+
+    private prices(path: string, prices: Record<string, any>) {
+        Object.entries(prices).forEach(([name, price]) => {
+            this.resource(`${path}.${name}`, name);
+            this.positive(`${path}.${name}`, price);
+        });
+    }
+
+    private resourceAmounts(path: string, amounts: Record<string, any>) {
+        Object.entries(amounts).forEach(([name, amount]) => {
+            this.resource(`${path}.${name}`, name);
+            this.amount(`${path}.${name}`, amount);
+        });
+    }
+
+    private resource(path: string, name: unknown) {
+        if (typeof name !== 'string' || resourceOf(name) === undefined) this.error(path, `неизвестный ресурс "${name}"`);
+    }
+
+    private amount(path: string, value: unknown) {
+        if (typeof value !== 'number' || !Number.isFinite(value)) this.error(path, 'ожидается число');
+        else if (value < 0) this.error(path, `отрицательное значение ${value}`);
+    }
+
+    private positive(path: string, value: unknown) {
+        if (typeof value !== 'number' || !Number.isFinite(value)) this.error(path, 'ожидается число');
+        else if (value <= 0) this.error(path, `значение должно быть больше нуля (${value})`);
+    }
+
+    private unknownKeys(path: string, value: Record<string, any>, allowed: readonly string[]) {
+        Object.keys(value).forEach(key => {
+            if (!allowed.includes(key)) this.error(path ? `${path}.${key}` : key, 'неизвестный параметр');
+        });
+    }
+
+    private error(path: string, message: string) {
+        this.errors.push(path ? `${path}: ${message}` : message);
+    }
+}
+
+export class RuleSetParser {
+
+    /**
+     * Problems of a complete rule-set, empty when it can be parsed.
+     * `technologies` enables the check of building tech ids.
+     */
+    public static validate(data: unknown, technologies: string[] | null = null): string[] {
+        const validator = new RuleSetValidator(technologies);
+        validator.validate(data);
+        return validator.errors;
+    }
+
+    /**
+     * Converts a rule-set into engine types. Throws with the list of problems if it is invalid.
+     */
+    public static parse(data: RuleSetData, technologies: string[] | null = null): Rules {
+        const errors = this.validate(data, technologies);
+        if (errors.length > 0) {
+            throw new Error(`Ошибка в правилах "${data?.name ?? '?'}":\n${errors.join('\n')}`);
+        }
+
+        // Sections are present after validation
+        const city = data.city!;
+        const costs = data.costs!;
+        const upkeep = data.upkeep!;
+
+        return {
+            name: data.name,
+            description: data.description ?? '',
+            initialCash: city.initialCash!,
+            initialPopulation: { ...city.initialPopulation! },
+            initialInventory: Object.entries(city.initialInventory!).map(([name, amount]) => ({ type: resourceOf(name)!, amount })),
+            initialBuildings: Object.entries(city.initialBuildings!).map(([name, level]) => ({ name, level })),
+            buildings: Object.fromEntries(Object.entries(data.buildings!).map(([name, def]) => [
+                name,
+                def.tech ? { cost: this.parseCost(def.cost), tech: def.tech } : { cost: this.parseCost(def.cost) }
+            ])),
+            recipes: data.recipes!.map(r => ({
+                name: r.name,
+                building: r.building,
+                inputs: r.inputs.map(i => i.alternatives && i.alternatives.length > 0
+                    ? { type: resourceOf(i.resource)!, amount: i.amount, alternatives: i.alternatives.map(a => resourceOf(a)!) }
+                    : { type: resourceOf(i.resource)!, amount: i.amount }),
+                outputs: r.outputs.map(o => ({ type: resourceOf(o.resource)!, amount: o.amount })),
+                laborCost: r.laborCost
+            })),
+            costs: Object.fromEntries(COST_KEYS.map(key => [key, this.parseCost(costs[key]!)])) as Record<CostKey, CostConfig>,
+            transportCapacityIncrease: data.transportCapacityIncrease!,
+            shipCargo: data.shipCargo!,
+            infrastructure: this.parseKeyedCosts(data.infrastructure!, improvementOf),
+            upkeepUnits: this.parseKeyedCosts(upkeep.units!, unitOf) as Record<UnitType, CostConfig>,
+            upkeepImprovements: this.parseKeyedCosts(upkeep.improvements!, improvementOf),
+            cashConversion: this.parsePrices(data.cashConversion!),
+            marketPrices: this.parsePrices(data.marketPrices!)
+        };
+    }
+
+    /**
+     * Overlays a partial rule-set on a base one: objects are merged key by key,
+     * arrays (recipes) and plain values are replaced. Prototype keys (UNSAFE_KEYS) are skipped.
+     */
+    public static merge(base: RuleSetData, overrides: RuleSetData): RuleSetData {
+        const mergeValue = (a: any, b: any): any => {
+            if (!isObject(a) || !isObject(b)) return b === undefined ? a : b;
+            const own = (source: Record<string, any>, key: string) => Object.hasOwn(source, key) ? source[key] : undefined;
+            const result: Record<string, any> = {};
+            new Set([...Object.keys(a), ...Object.keys(b)]).forEach(key => {
+                if (!UNSAFE_KEYS.includes(key)) result[key] = mergeValue(own(a, key), own(b, key));
+            });
+            return result;
+        };
+        return mergeValue(base, overrides);
+    }
+
+    // Zero amounts let a partial rule-set drop an ingredient of a merged cost
+    private static parseCost(cost: CostData): CostConfig {
+        const result: CostConfig = {};
+        if (cost.money !== undefined) result.money = cost.money;
+        if (cost.expertLabor !== undefined) result.expertLabor = cost.expertLabor;
+        if (cost.resources) {
+            result.resources = Object.entries(cost.resources)
+                .filter(([, amount]) => amount > 0)
+                .map(([name, amount]) => ({ type: resourceOf(name)!, amount }));
+        }
+        return result;
+    }
+
+    private static parseKeyedCosts<K extends string | number>(costs: Record<string, CostData>, lookup: (name: string) => K | undefined): Record<K, CostConfig> {
+        const result = {} as Record<K, CostConfig>;
+        Object.entries(costs).forEach(([name, cost]) => { result[lookup(name)!] = this.parseCost(cost); });
+        return result;
+    }
+
+    private static parsePrices(prices: Record<string, number>): Record<number, number> {
+        const result: Record<number, number> = {};
+        Object.entries(prices).forEach(([name, price]) => { result[resourceOf(name)!] = price; });
+        return result;
+    }
+}
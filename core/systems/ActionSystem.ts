@@ -1,28 +1,109 @@
-
-import { Game } from '../Game';
+import { GameState } from '../GameState';
 import { UnitType } from '../../Entities/Unit';
-import { ImprovementType, ResourceType } from '../../Grid/GameMap';
+import { ProspectFilter } from '../../Entities/CivilianUnit';
+import { ImprovementType, ResourceType, TerrainType } from '../../Grid/GameMap';
+import { Hex } from '../../Grid/HexMath';
+import { GameCommand } from '../commands/Command';
+import {
+    MoveUnitCommand, BuildImprovementCommand, BuildableImprovement, ProspectCommand, ImproveResourceCommand,
+    BuyLandCommand, ToggleSleepCommand, ToggleAutoCommand, ToggleAdviceCommand, SetUnitFilterCommand, DisbandUnitCommand, FoundCityCommand, UnitFilter
+} from '../commands/UnitCommands';
+import { RecruitUnitCommand } from '../commands/CityCommands';
 
 export class ActionSystem {
-    private game: Game;
+    private game: GameState;
 
-    constructor(game: Game) {
+    constructor(game: GameState) {
         this.game = game;
     }
 
-    public recruitUnit(type: UnitType): string {
-        if (this.game.cityManager.cities.length === 0) return "Нет столицы.";
-        const msg = this.game.unitManager.recruitUnit(type, this.game.cityManager.cities[0], this.game.turn, this.game.technologies);
-        this.game.triggerCapitalUpdate();
+    /**
+     * Translates a UI action string (e.g. 'road', 'set_res_filter_3') into a typed command
+     * for the given unit. Returns null for unknown actions.
+     */
+    public static parseUnitAction(action: string, unitId: string): GameCommand | null {
+        // Command Switch
+        if (action === 'prospect') return new ProspectCommand(unitId);
+        if (action === 'road') return new BuildImprovementCommand(unitId, ImprovementType.ROAD);
+        if (action === 'depot') return new BuildImprovementCommand(unitId, ImprovementType.DEPOT);
+        if (action === 'port') return new BuildImprovementCommand(unitId, ImprovementType.PORT);
+        if (action === 'improve') return new ImproveResourceCommand(unitId);
+        if (action === 'buyland') return new BuyLandCommand(unitId);
+        if (action === 'found_city') return new FoundCityCommand(unitId);
+
+        // State Toggles
+        if (action === 'sleep') return new ToggleSleepCommand(unitId);
+        if (action === 'auto') return new ToggleAutoCommand(unitId);
+        if (action === 'toggle_advice') return new ToggleAdviceCommand(unitId);
+
+        // Filter Actions
+        if (action.startsWith('set_filter_')) {
+            const value = action.replace('set_filter_', '') as ProspectFilter;
+            return new SetUnitFilterCommand(unitId, { kind: 'PROSPECT', value });
+        }
+
+        if (action.startsWith('set_res_filter_')) {
+            const val = action.replace('set_res_filter_', '');
+            const value = val === 'ALL' ? 'ALL' : parseInt(val) as ResourceType;
+            return new SetUnitFilterCommand(unitId, { kind: 'RESOURCE', value });
+        }
+
+        if (action.startsWith('set_eng_priority_')) {
+            const val = action.replace('set_eng_priority_', '');
+            const value = val === 'GENERAL' ? 'GENERAL' : parseInt(val) as ResourceType;
+            return new SetUnitFilterCommand(unitId, { kind: 'ENGINEER_PRIORITY', value });
+        }
+
+        if (action.startsWith('set_eng_terrain_')) {
+            const val = action.replace('set_eng_terrain_', '');
+            const value = val === 'ALL' ? 'ALL' : parseInt(val) as TerrainType;
+            return new SetUnitFilterCommand(unitId, { kind: 'ENGINEER_TERRAIN', value });
+        }
+
+        return null;
+    }
+
+    /**
+     * Runs a command through the undo history and refreshes dependants.
+     */
+    public execute(command: GameCommand): string | undefined {
+        const result = this.game.commands.execute(command, this.game);
+        this.refresh();
+        return result.message;
+    }
+
+    public undo(): string | undefined {
+        const msg = this.game.commands.undo(this.game);
+        this.refresh();
         return msg;
     }
 
-    public disbandSelectedUnit() {
-        this.game.unitManager.disbandSelectedUnit(this.game.cityManager.capital);
+    public redo(): string | undefined {
+        const msg = this.game.commands.redo(this.game);
+        this.refresh();
+        return msg;
+    }
+
+    private refresh() {
         this.game.triggerSelectionUpdate();
         this.game.triggerCapitalUpdate();
     }
 
+    private executeOnSelected(factory: (unitId: string) => GameCommand): string | undefined {
+        const u = this.game.selectedUnit;
+        if (!u) return;
+        return this.execute(factory(u.id));
+    }
+
+    public recruitUnit(type: UnitType, cityId?: string): string {
+        if (this.game.cityManager.cities.length === 0) return "Нет столицы.";
+        return this.execute(new RecruitUnitCommand(cityId || this.game.cityManager.cities[0].id, type)) || "";
+    }
+
+    public disbandSelectedUnit() {
+        this.executeOnSelected(id => new DisbandUnitCommand(id));
+    }
+
     public setCityProduction(resource: ResourceType, isActive: boolean) {
         this.game.cityManager.setProduction(resource, isActive);
         this.game.triggerCapitalUpdate();
@@ -32,112 +113,57 @@ export class ActionSystem {
         const u = this.game.selectedUnit;
         if (!u) return;
 
-        // Command Switch
-        if (action === 'prospect') return this.doProspect();
-        if (action === 'road') return this.doBuildRoad();
-        if (action === 'depot') return this.doBuildDepot();
-        if (action === 'port') return this.doBuildPort();
-        if (action === 'improve') return this.doImproveResource();
-        if (action === 'buyland') return this.doBuyLand();
-        
-        // State Toggles
-        if (action === 'sleep') {
-            this.game.toggleSleep();
-            return;
-        }
-        if (action === 'auto') {
-            this.game.toggleAuto();
-            return;
-        }
-        
-        // Filter Actions
-        if (action.startsWith('set_filter_')) {
-            const filter = action.replace('set_filter_', '') as any;
-            this.game.setProspectorFilter(filter);
-            return;
-        }
+        const command = ActionSystem.parseUnitAction(action, u.id);
+        if (!command) return;
+        return this.execute(command);
+    }
 
-        if (action.startsWith('set_res_filter_')) {
-            const val = action.replace('set_res_filter_', '');
-            const filter = val === 'ALL' ? 'ALL' : parseInt(val) as ResourceType;
-            this.game.setImproverFilter(filter);
-            return;
-        }
+    public toggleSleep() {
+        this.executeOnSelected(id => new ToggleSleepCommand(id));
+    }
 
-        if (action.startsWith('set_eng_priority_')) {
-            const val = action.replace('set_eng_priority_', '');
-            this.game.setEngineerPriority(val);
-            return;
-        }
+    public toggleAuto() {
+        this.executeOnSelected(id => new ToggleAutoCommand(id));
+    }
 
-        if (action.startsWith('set_eng_terrain_')) {
-            const val = action.replace('set_eng_terrain_', '');
-            this.game.setEngineerTerrain(val);
-            return;
-        }
+    public setUnitFilter(filter: UnitFilter) {
+        this.executeOnSelected(id => new SetUnitFilterCommand(id, filter));
+    }
 
-        if (action === 'toggle_advice') {
-            if (u && u.type === UnitType.ENGINEER) {
-                // @ts-ignore
-                if (u.toggleHeedAdvice) u.toggleHeedAdvice();
-                this.game.triggerSelectionUpdate();
-            }
-            return;
-        }
+    public moveSelectedUnit(target: Hex) {
+        this.executeOnSelected(id => new MoveUnitCommand(id, target));
     }
 
     public doProspect(): string | undefined {
-        const msg = this.game.unitManager.doProspect();
-        this.game.triggerSelectionUpdate();
-        return msg;
+        return this.executeOnSelected(id => new ProspectCommand(id));
     }
-  
+
     public doBuildRoad(): string | undefined {
-        if (this.game.cities.length === 0) return;
-        const msg = this.game.unitManager.doBuildRoad(this.game.cities[0]);
-        this.game.transportNetwork.markDirty();
-        this.game.triggerSelectionUpdate();
-        this.game.triggerCapitalUpdate(); 
-        return msg;
+        return this.executeOnSelected(id => new BuildImprovementCommand(id, ImprovementType.ROAD));
     }
-  
+
     public doBuildDepot(): string | undefined {
-        if (this.game.cities.length === 0) return;
-        const msg = this.game.unitManager.doBuildDepot(this.game.cities[0]);
-        this.game.transportNetwork.markDirty();
-        this.game.triggerSelectionUpdate();
-        this.game.triggerCapitalUpdate();
-        return msg;
+        return this.executeOnSelected(id => new BuildImprovementCommand(id, ImprovementType.DEPOT));
     }
-  
+
     public doBuildPort(): string | undefined {
-        if (this.game.cities.length === 0) return;
-        const msg = this.game.unitManager.doBuildPort(this.game.cities[0]);
-        this.game.transportNetwork.markDirty();
-        this.game.triggerSelectionUpdate();
-        this.game.triggerCapitalUpdate();
-        return msg;
+        return this.executeOnSelected(id => new BuildImprovementCommand(id, ImprovementType.PORT));
     }
-  
+
     public doImproveResource(): string | undefined {
-        const msg = this.game.unitManager.doImproveResource(this.game.technologies);
-        this.game.triggerSelectionUpdate();
-        return msg;
+        return this.executeOnSelected(id => new ImproveResourceCommand(id));
     }
-    
+
     public doBuyLand(): string | undefined {
-        if (this.game.cities.length === 0) return;
-        const msg = this.game.unitManager.doBuyLand(this.game.cities[0]);
-        this.game.triggerSelectionUpdate();
-        this.game.triggerCapitalUpdate();
-        return msg;
+        return this.executeOnSelected(id => new BuyLandCommand(id));
+    }
+
+    public doFoundCity(): string | undefined {
+        return this.executeOnSelected(id => new FoundCityCommand(id));
     }
 
     public buildImprovement(type: ImprovementType) {
-        if (this.game.cities.length > 0) {
-            this.game.unitManager.buildImprovement(type, this.game.cities[0]);
-            this.game.transportNetwork.markDirty();
-            this.game.triggerSelectionUpdate();
-        }
+        if (type !== ImprovementType.ROAD && type !== ImprovementType.DEPOT && type !== ImprovementType.PORT) return;
+        this.executeOnSelected(id => new BuildImprovementCommand(id, type as BuildableImprovement));
     }
 }
@@ -0,0 +1,73 @@
+import { GameConfig } from '../GameConfig';
+import { City } from '../../Entities/City';
+import { ResourceType } from '../../Grid/GameMap';
+import { HappinessReport } from '../TurnReport';
+import type { HealthCount } from './PopulationSystem';
+
+export class HappinessSystem {
+
+    /**
+     * Consumer goods the city wants this turn.
+     */
+    public static getDemand(city: City): Map<ResourceType, number> {
+        const demand = new Map<ResourceType, number>();
+        if (city.population <= 0) return demand;
+        Object.entries(GameConfig.HAPPINESS.DEMAND).forEach(([type, perCapita]) => {
+            demand.set(Number(type) as ResourceType, Math.ceil(city.population * perCapita));
+        });
+        return demand;
+    }
+
+    // -1 at zero morale, 0 at neutral, +1 at full morale
+    private static getMood(city: City): number {
+        const { NEUTRAL } = GameConfig.HAPPINESS;
+        return city.happiness >= NEUTRAL
+            ? (city.happiness - NEUTRAL) / (100 - NEUTRAL)
+            : (city.happiness - NEUTRAL) / NEUTRAL;
+    }
+
+    public static getLaborFactor(city: City): number {
+        return 1 + GameConfig.HAPPINESS.LABOR_EFFECT * this.getMood(city);
+    }
+
+    public static getGrowthFactor(city: City): number {
+        return 1 + GameConfig.HAPPINESS.GROWTH_EFFECT * this.getMood(city);
+    }
+
+    /**
+     * Consumes consumer goods and moves morale towards what the diet and the goods deserve.
+     * Runs after the diet phase, so the new morale already applies to this turn's labor.
+     * Stock held back by `reserves` is not consumed.
+     */
+    public static processTurn(city: City, health: HealthCount, reserves: Map<ResourceType, number> = new Map()): HappinessReport {
+        const cfg = GameConfig.HAPPINESS;
+        const report: HappinessReport = {
+            before: city.happiness,
+            after: city.happiness,
+            diet: 0,
+            goods: 0,
+            demand: this.getDemand(city),
+            consumed: new Map()
+        };
+
+        const people = health.healthy + health.sick + health.starving;
+        report.diet = people > 0 ? (health.healthy + health.sick * cfg.SICK_DIET) / people : 0;
+
+        let satisfied = 0;
+        report.demand.forEach((wanted, type) => {
+            const used = Math.min(wanted, Math.max(0, (city.inventory.get(type) || 0) - (reserves.get(type) || 0)));
+            if (used > 0) {
+                city.consumeResource(type, used);
+                report.consumed.set(type, used);
+            }
+            satisfied += wanted > 0 ? used / wanted : 1;
+        });
+        report.goods = report.demand.size > 0 ? satisfied / report.demand.size : 0;
+
+        const target = report.diet * cfg.NEUTRAL + report.goods * (100 - cfg.NEUTRAL);
+        // Kept fractional: rounding every step would stall half a point short of the target
+        city.happiness += (target - city.happiness) * cfg.ADJUSTMENT;
+        report.after = city.happiness;
+        return report;
+    }
+}
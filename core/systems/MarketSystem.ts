@@ -0,0 +1,190 @@
+import { GameConfig } from '../GameConfig';
+import { City } from '../../Entities/City';
+import { ResourceType } from '../../Grid/GameMap';
+import { getResourceName } from '../../utils/Localization';
+
+export type MarketSide = 'BUY' | 'SELL';
+
+export interface MarketOrder {
+    id: number;
+    cityId: string;
+    resource: ResourceType;
+    side: MarketSide;
+    amount: number;
+}
+
+export interface MarketState {
+    // Current price per ResourceType
+    prices: Record<number, number>;
+    // Price at the end of each past turn, oldest first (the last entry is the current price)
+    history: Record<number, number[]>;
+    // Orders waiting for the next turn resolution
+    orders: MarketOrder[];
+    nextOrderId: number;
+}
+
+export interface MarketTrade {
+    cityId: string;
+    resource: ResourceType;
+    side: MarketSide;
+    amount: number;
+    total: number;
+}
+
+export interface MarketTurnResult {
+    trades: MarketTrade[];
+    // Orders that could only be partly filled (not enough cash or goods at settlement)
+    shortfalls: { order: MarketOrder; filled: number }[];
+}
+
+export class MarketSystem {
+
+    public static createState(): MarketState {
+        const prices: Record<number, number> = {};
+        const history: Record<number, number[]> = {};
+        for (const type of this.getTradedResources()) {
+            prices[type] = GameConfig.MARKET.BASE_PRICES[type];
+            history[type] = [prices[type]];
+        }
+        return { prices, history, orders: [], nextOrderId: 1 };
+    }
+
+    public static cloneState(market: MarketState): MarketState {
+        const history: Record<number, number[]> = {};
+        for (const key of Object.keys(market.history)) history[Number(key)] = [...market.history[Number(key)]];
+        return {
+            prices: { ...market.prices },
+            history,
+            orders: market.orders.map(o => ({ ...o })),
+            nextOrderId: market.nextOrderId
+        };
+    }
+
+    public static getTradedResources(): ResourceType[] {
+        return Object.keys(GameConfig.MARKET.BASE_PRICES).map(k => Number(k) as ResourceType);
+    }
+
+    public static isTraded(type: ResourceType): boolean {
+        return GameConfig.MARKET.BASE_PRICES[type] !== undefined;
+    }
+
+    // Price paid per unit when buying
+    public static getBuyPrice(market: MarketState, type: ResourceType): number {
+        return Math.round(market.prices[type] ?? GameConfig.MARKET.BASE_PRICES[type] ?? 0);
+    }
+
+    // Price received per unit when selling
+    public static getSellPrice(market: MarketState, type: ResourceType): number {
+        return Math.floor((market.prices[type] ?? GameConfig.MARKET.BASE_PRICES[type] ?? 0) * GameConfig.MARKET.SELL_RATIO);
+    }
+
+    /**
+     * Returns an error message if the order cannot be placed, null otherwise.
+     * Cash and stock are checked again at settlement; this only catches hopeless orders early.
+     */
+    public static canPlace(market: MarketState, city: City, resource: ResourceType, side: MarketSide, amount: number): string | null {
+        if (!Number.isInteger(amount) || amount <= 0) return "Ошибка: количество должно быть больше нуля.";
+        if (!this.isTraded(resource)) return "Нет: этот товар не продается на рынке.";
+
+        if (side === 'BUY') {
+            const cost = amount * this.getBuyPrice(market, resource);
+            if (city.cash < cost) return `Недостаточно средств: нужно $${cost}.`;
+        } else {
+            const stock = city.inventory.get(resource) || 0;
+            if (stock < amount) return `Недостаточно товара: на складе ${stock} ${getResourceName(resource)}.`;
+        }
+        return null;
+    }
+
+    /**
+     * Places an order for the next turn. A city keeps one order per resource,
+     * so a new order replaces the previous one.
+     */
+    public static placeOrder(market: MarketState, city: City, resource: ResourceType, side: MarketSide, amount: number): string {
+        const error = this.canPlace(market, city, resource, side, amount);
+        if (error) return error;
+
+        market.orders = market.orders.filter(o => !(o.cityId === city.id && o.resource === resource));
+        market.orders.push({ id: market.nextOrderId++, cityId: city.id, resource, side, amount });
+
+        const verb = side === 'BUY' ? 'купить' : 'продать';
+        const price = side === 'BUY' ? this.getBuyPrice(market, resource) : this.getSellPrice(market, resource);
+        return `Заявка: ${verb} ${amount} ${getResourceName(resource)} по ~$${price} (${city.name})`;
+    }
+
+    public static cancelOrder(market: MarketState, orderId: number): string {
+        const order = market.orders.find(o => o.id === orderId);
+        if (!order) return "Нет: заявка не найдена.";
+
+        market.orders = market.orders.filter(o => o.id !== orderId);
+        return `Заявка отменена: ${getResourceName(order.resource)}`;
+    }
+
+    /**
+     * Fills all orders at the current prices, then moves prices by the net volume traded.
+     * Sales go first so their proceeds can pay for the same city's purchases.
+     * Orders of unknown cities are dropped.
+     */
+    public static settle(market: MarketState, cities: City[]): MarketTurnResult {
+        const result: MarketTurnResult = { trades: [], shortfalls: [] };
+        const demand = new Map<ResourceType, number>();
+        const supply = new Map<ResourceType, number>();
+
+        const sorted = [...market.orders].sort((a, b) => (a.side === b.side ? 0 : a.side === 'SELL' ? -1 : 1));
+        for (const order of sorted) {
+            const city = cities.find(c => c.id === order.cityId);
+            if (!city) continue;
+
+            let filled: number;
+            let total: number;
+            if (order.side === 'SELL') {
+                const price = this.getSellPrice(market, order.resource);
+                filled = Math.min(order.amount, city.inventory.get(order.resource) || 0);
+                total = filled * price;
+                city.consumeResource(order.resource, filled);
+                city.cash += total;
+                supply.set(order.resource, (supply.get(order.resource) || 0) + filled);
+            } else {
+                const price = this.getBuyPrice(market, order.resource);
+                filled = price > 0 ? Math.min(order.amount, Math.floor(city.cash / price)) : order.amount;
+                total = filled * price;
+                city.cash -= total;
+                city.addResource(order.resource, filled);
+                demand.set(order.resource, (demand.get(order.resource) || 0) + filled);
+            }
+
+            if (filled > 0) {
+                result.trades.push({ cityId: city.id, resource: order.resource, side: order.side, amount: filled, total });
+            }
+            if (filled < order.amount) result.shortfalls.push({ order, filled });
+        }
+
+        market.orders = [];
+        this.updatePrices(market, demand, supply);
+        return result;
+    }
+
+    /**
+     * Net demand pushes a price up, net supply pushes it down; every price also drifts
+     * back toward its base so a one-off dump does not ruin a market forever.
+     */
+    private static updatePrices(market: MarketState, demand: Map<ResourceType, number>, supply: Map<ResourceType, number>) {
+        const cfg = GameConfig.MARKET;
+
+        for (const type of this.getTradedResources()) {
+            const base = cfg.BASE_PRICES[type];
+            const net = (demand.get(type) || 0) - (supply.get(type) || 0);
+
+            let price = market.prices[type] ?? base;
+            price *= 1 + cfg.ELASTICITY * net / cfg.DEPTH;
+            price += (base - price) * cfg.REVERSION;
+            price = Math.max(base * cfg.MIN_PRICE_FACTOR, Math.min(base * cfg.MAX_PRICE_FACTOR, price));
+            price = Math.round(price * 100) / 100;
+
+            market.prices[type] = price;
+            const history = market.history[type] || [];
+            history.push(price);
+            market.history[type] = history.slice(-cfg.HISTORY_LENGTH);
+        }
+    }
+}
@@ -0,0 +1,95 @@
+import { GameConfig } from '../GameConfig';
+import { City } from '../../Entities/City';
+import { PopulationReport } from '../TurnReport';
+import { HappinessSystem } from './HappinessSystem';
+
+// Outcome of the diet phase that drives population change
+export interface HealthCount {
+    healthy: number;
+    sick: number;
+    starving: number;
+}
+
+export class PopulationSystem {
+
+    public static getHousingCapacity(city: City): number {
+        return city.housingLevel * GameConfig.POPULATION.HOUSING_PER_LEVEL;
+    }
+
+    public static getFreeHousing(city: City): number {
+        return Math.max(0, this.getHousingCapacity(city) - city.population);
+    }
+
+    /**
+     * Births, immigration and decline at the end of a city's economy phase.
+     * Newcomers join as untrained workers; people leaving take untrained workers first.
+     * `before` is the population at the start of the turn, so the report counts starvation deaths too.
+     */
+    public static processTurn(city: City, health: HealthCount, before: number): PopulationReport {
+        const cfg = GameConfig.POPULATION;
+        const report: PopulationReport = {
+            before,
+            births: 0,
+            immigrants: 0,
+            departed: 0,
+            after: city.population,
+            housing: this.getHousingCapacity(city)
+        };
+        if (city.population <= 0) return report;
+
+        const total = health.healthy + health.sick + health.starving;
+        const healthRatio = total > 0 ? health.healthy / total : 0;
+        const sickRatio = total > 0 ? (health.sick + health.starving) / total : 0;
+
+        // Natural growth: only a well-fed city has children; fractions carry over
+        if (health.starving === 0 && healthRatio >= cfg.GROWTH_MIN_HEALTH) {
+            city.growthProgress += health.healthy * cfg.GROWTH_RATE * HappinessSystem.getGrowthFactor(city);
+            const births = Math.min(Math.floor(city.growthProgress), this.getFreeHousing(city));
+            if (births > 0) {
+                city.growthProgress -= births;
+                this.addPeople(city, births);
+                report.births = births;
+            }
+        }
+        // A full city does not bank growth it cannot house
+        if (this.getFreeHousing(city) === 0) city.growthProgress = Math.min(city.growthProgress, 1);
+
+        // Immigration: settlers follow the scarcest consumer good, but avoid unrest
+        const perCapita = Math.min(...cfg.IMMIGRATION.GOODS.map(g => (city.inventory.get(g) || 0) / city.population));
+        const immigrants = Math.min(
+            Math.floor(perCapita / cfg.IMMIGRATION.GOODS_PER_CAPITA),
+            cfg.IMMIGRATION.MAX_PER_TURN,
+            this.getFreeHousing(city)
+        );
+        if (immigrants > 0 && city.happiness >= GameConfig.HAPPINESS.UNREST) {
+            this.addPeople(city, immigrants);
+            report.immigrants = immigrants;
+        }
+
+        // Prolonged sickness: after a few bad turns people start to leave
+        if (sickRatio >= cfg.SICKNESS_THRESHOLD) {
+            city.sickTurns++;
+            if (city.sickTurns > cfg.SICKNESS_GRACE_TURNS && city.population > 1) {
+                this.removePerson(city);
+                report.departed = 1;
+            }
+        } else {
+            city.sickTurns = 0;
+        }
+
+        report.after = city.population;
+        return report;
+    }
+
+    private static addPeople(city: City, count: number) {
+        city.workforce.untrained += count;
+        city.population += count;
+    }
+
+    private static removePerson(city: City) {
+        if (city.workforce.untrained > 0) city.workforce.untrained--;
+        else if (city.workforce.trained > 0) city.workforce.trained--;
+        else if (city.workforce.expert > 0) city.workforce.expert--;
+        city.population--;
+    }
+}
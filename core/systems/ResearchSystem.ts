@@ -0,0 +1,172 @@
+import { GameConfig, CostConfig, TechDefinition } from '../GameConfig';
+import { City } from '../../Entities/City';
+import { getTechName, getResourceName } from '../../utils/Localization';
+import { CityManager } from '../managers/CityManager';
+
+export interface ResearchState {
+    // Technologies waiting to be researched; the head is in progress
+    queue: string[];
+    // Turns invested per tech id (kept when a tech is dequeued)
+    progress: Record<string, number>;
+}
+
+export interface ResearchTurnResult {
+    completed: string[];
+    // Set when the current research could not be paid for this turn
+    stalled: string | null;
+}
+
+// This turn's research bill, settled before production
+export interface ResearchPayment {
+    techId: string | null; // Paid for and advances this turn
+    stalled: string | null;
+    // Experts working on it, per city id; they cannot staff production this turn
+    reservedExperts: Map<string, number>;
+}
+
+export type TechStatus = 'known' | 'queued' | 'available' | 'locked';
+
+// Anything with a research queue: the player's GameState or a rival empire
+export interface ResearchOwner {
+    technologies: Set<string>;
+    research: ResearchState;
+    cityManager: CityManager;
+}
+
+export class ResearchSystem {
+
+    public static createState(): ResearchState {
+        return { queue: [], progress: {} };
+    }
+
+    public static cloneState(research: ResearchState): ResearchState {
+        return { queue: [...research.queue], progress: { ...research.progress } };
+    }
+
+    public static getTech(id: string): TechDefinition | undefined {
+        return GameConfig.RESEARCH.TECHNOLOGIES.find(t => t.id === id);
+    }
+
+    public static getStatus(state: ResearchOwner, id: string): TechStatus {
+        if (state.technologies.has(id)) return 'known';
+        if (state.research.queue.includes(id)) return 'queued';
+        const tech = this.getTech(id);
+        if (tech && tech.prerequisites.every(p => state.technologies.has(p))) return 'available';
+        return 'locked';
+    }
+
+    /**
+     * Returns an error message if the tech cannot be queued, null otherwise.
+     * Prerequisites may be either researched or queued earlier.
+     */
+    public static canQueue(state: ResearchOwner, id: string): string | null {
+        const tech = this.getTech(id);
+        if (!tech) return "Ошибка: неизвестная технология.";
+        if (state.technologies.has(id)) return "Нет: технология уже изучена.";
+        if (state.research.queue.includes(id)) return "Нет: технология уже в очереди.";
+
+        for (const p of tech.prerequisites) {
+            if (!state.technologies.has(p) && !state.research.queue.includes(p)) {
+                return `Требуется технология '${getTechName(p)}'.`;
+            }
+        }
+        return null;
+    }
+
+    public static enqueue(state: ResearchOwner, id: string): string {
+        const error = this.canQueue(state, id);
+        if (error) return error;
+
+        state.research.queue.push(id);
+        return `В очереди исследований: ${getTechName(id)}`;
+    }
+
+    /**
+     * Removes a tech from the queue together with queued techs that depend on it.
+     * Invested progress is kept.
+     */
+    public static dequeue(state: ResearchOwner, id: string): string {
+        const queue = state.research.queue;
+        if (!queue.includes(id)) return "Нет: технология не в очереди.";
+
+        const removed = new Set([id]);
+        for (const queued of queue) {
+            const tech = this.getTech(queued);
+            if (tech && tech.prerequisites.some(p => removed.has(p))) removed.add(queued);
+        }
+        state.research.queue = queue.filter(t => !removed.has(t));
+
+        return `Исследование отменено: ${getTechName(id)}`;
+    }
+
+    /**
+     * Pays this turn's research from the capital before production, so the decision is made once:
+     * money and resources are deducted now and the experts are kept out of the labor pass
+     * (per city id; only the capital pays). processTurn then advances what was paid for.
+     */
+    public static payTurn(state: ResearchOwner): ResearchPayment {
+        const payment: ResearchPayment = { techId: null, stalled: null, reservedExperts: new Map() };
+        const capital = state.cityManager.cities[0];
+        if (!capital) return payment;
+
+        // Drop entries that became invalid (e.g. loaded from an older rule set)
+        state.research.queue = state.research.queue.filter(id => this.getTech(id) && !state.technologies.has(id));
+
+        const id = state.research.queue[0];
+        if (!id) return payment;
+        const tech = this.getTech(id)!;
+
+        const error = this.canPayTurn(capital, tech.costPerTurn);
+        if (error) {
+            payment.stalled = `${error} для исследования '${tech.name}'.`;
+            return payment;
+        }
+        this.deduct(capital, tech.costPerTurn);
+        if (tech.costPerTurn.expertLabor) payment.reservedExperts.set(capital.id, tech.costPerTurn.expertLabor);
+        payment.techId = id;
+        return payment;
+    }
+
+    /**
+     * Advances the tech paid for by payTurn by one turn.
+     */
+    public static processTurn(state: ResearchOwner, payment: ResearchPayment): ResearchTurnResult {
+        const result: ResearchTurnResult = { completed: [], stalled: payment.stalled };
+        const id = payment.techId;
+        if (!id) return result;
+        const tech = this.getTech(id)!;
+
+        const progress = (state.research.progress[id] || 0) + 1;
+        state.research.progress[id] = progress;
+
+        if (progress >= tech.turns) {
+            state.technologies.add(id);
+            state.research.queue = state.research.queue.filter(q => q !== id);
+            delete state.research.progress[id];
+            result.completed.push(id);
+        }
+
+        return result;
+    }
+
+    private static canPayTurn(city: City, cost: CostConfig): string | null {
+        if (cost.money && city.cash < cost.money) return `Недостаточно средств ($${cost.money})`;
+        if (cost.expertLabor && city.workforce.expert < cost.expertLabor) return "Недостаточно экспертов";
+        if (cost.resources) {
+            for (const res of cost.resources) {
+                if ((city.inventory.get(res.type) || 0) < res.amount) return `Недостаточно ресурсов (${getResourceName(res.type)}: ${res.amount})`;
+            }
+        }
+        return null;
+    }
+
+    // Experts are not paid here: they are kept out of this turn's production instead
+    private static deduct(city: City, cost: CostConfig) {
+        if (cost.money) city.cash -= cost.money;
+        if (cost.resources) {
+            for (const res of cost.resources) {
+                city.consumeResource(res.type, res.amount);
+            }
+        }
+    }
+}
@@ -0,0 +1,78 @@
+import { GameConfig, DEFAULT_RULE_SET } from '../GameConfig';
+import { RuleSetParser, RuleSetData } from '../rules/RuleSet';
+import scarcityRuleSet from '../rules/scarcity.json';
+
+/**
+ * Picks the rule-set a game is played with. Rule-sets may be partial: whatever a file
+ * leaves out keeps the default value. The active one is written into GameConfig, so
+ * only one rule-set is in effect at a time.
+ */
+export class RuleSystem {
+    // Offered when starting a new game; the first one is the default
+    public static readonly BUILT_IN: RuleSetData[] = [DEFAULT_RULE_SET, scarcityRuleSet as RuleSetData];
+
+    private static active: RuleSetData = DEFAULT_RULE_SET;
+
+    public static getActive(): RuleSetData {
+        return this.active;
+    }
+
+    /**
+     * Problems of a rule-set once merged with the default, empty when it can be played.
+     */
+    public static validate(data: RuleSetData): string[] {
+        return RuleSetParser.validate(this.resolve(data), GameConfig.RESEARCH.TECHNOLOGIES.map(t => t.id));
+    }
+
+    /**
+     * Reads a rule-set file. Returns the list of problems instead of the data if it is unusable.
+     */
+    public static load(json: string): { rules: RuleSetData | null; errors: string[] } {
+        let data: RuleSetData;
+        try {
+            data = JSON.parse(json);
+        } catch (e: any) {
+            return { rules: null, errors: [`Ошибка: файл не является JSON (${e.message}).`] };
+        }
+        const errors = this.validate(data);
+        return { rules: errors.length > 0 ? null : data, errors };
+    }
+
+    /**
+     * Makes `data` the rules of the game. Throws if it is invalid; GameConfig is then left untouched.
+     */
+    public static apply(data: RuleSetData) {
+        const rules = RuleSetParser.parse(this.resolve(data), GameConfig.RESEARCH.TECHNOLOGIES.map(t => t.id));
+
+        GameConfig.CITY.INITIAL_CASH = rules.initialCash;
+        GameConfig.CITY.INITIAL_POPULATION = rules.initialPopulation;
+        GameConfig.CITY.INITIAL_INVENTORY = rules.initialInventory;
+        GameConfig.CITY.INITIAL_BUILDINGS = rules.initialBuildings;
+        GameConfig.CITY.FOUNDING.COST = rules.costs.foundCity;
+        GameConfig.POPULATION.HOUSING_UPGRADE = rules.costs.housing;
+        GameConfig.ECONOMY.CASH_CONVERSION = rules.cashConversion;
+        GameConfig.ECONOMY.RECIPES = rules.recipes;
+        GameConfig.ECONOMY.BUILDINGS = rules.buildings;
+        GameConfig.ECONOMY.EXPANSION.COST = rules.costs.buildingExpansion;
+        GameConfig.ECONOMY.WORKER.RECRUIT_COST = rules.costs.recruitWorker;
+        GameConfig.ECONOMY.WORKER.TRAIN_TRAINED_COST = rules.costs.trainTrained;
+        GameConfig.ECONOMY.WORKER.TRAIN_EXPERT_COST = rules.costs.trainExpert;
+        GameConfig.ECONOMY.TRANSPORT.BUILD_COST = rules.costs.transportCapacity;
+        GameConfig.ECONOMY.TRANSPORT.CAPACITY_INCREASE = rules.transportCapacityIncrease;
+        GameConfig.ECONOMY.FLEET.BUILD_COST = rules.costs.merchantShip;
+        GameConfig.ECONOMY.FLEET.CARGO_PER_SHIP = rules.shipCargo;
+        GameConfig.MARKET.BASE_PRICES = rules.marketPrices;
+        GameConfig.UNITS.CONSTRUCTION.COST = rules.costs.civilianUnit;
+        GameConfig.UNITS.MILITARY.COST = rules.costs.soldier;
+        GameConfig.INFRASTRUCTURE = rules.infrastructure;
+        GameConfig.UPKEEP.UNITS = rules.upkeepUnits;
+        GameConfig.UPKEEP.IMPROVEMENTS = rules.upkeepImprovements;
+        GameConfig.ACTIONS.BUY_LAND = rules.costs.buyLand;
+
+        this.active = data;
+    }
+
+    private static resolve(data: RuleSetData): RuleSetData {
+        return data === DEFAULT_RULE_SET ? data : RuleSetParser.merge(DEFAULT_RULE_SET, data);
+    }
+}
@@ -0,0 +1,426 @@
+import { deflateSync, inflateSync, strFromU8, strToU8 } from 'fflate';
+import { GameState } from '../GameState';
+import { City, CitySaveData } from '../../Entities/City';
+import { Unit, UnitSaveData, UnitType } from '../../Entities/Unit';
+import { MapLayerName, MAP_LAYER_NAMES } from '../../Grid/GameMap';
+import { University } from '../University';
+import { GameConfig, DEFAULT_RULE_SET } from '../GameConfig';
+import { ResearchSystem, ResearchState } from './ResearchSystem';
+import { RivalEmpire } from '../RivalEmpire';
+import { MarketSystem, MarketState } from './MarketSystem';
+import { TreasurySystem, TreasuryState } from './TreasurySystem';
+import { RuleSystem } from './RuleSystem';
+import { RuleSetData } from '../rules/RuleSet';
+
+/**
+ * Current save format version. Bump it whenever SaveData changes shape
+ * and register a migration from the previous version below.
+ */
+export const SAVE_FORMAT_VERSION = 15;
+
+export interface MapSaveData {
+    width: number;
+    height: number;
+    // World seed (null for saves made before seeds existed)
+    seed: number | null;
+    // Each layer is deflate-compressed and base64 encoded
+    layers: Record<MapLayerName, string>;
+}
+
+export interface RivalSaveData {
+    id: number;
+    technologies: string[];
+    research: ResearchState;
+    cities: CitySaveData[];
+    units: UnitSaveData[];
+}
+
+export interface SaveData {
+    version: number;
+    savedAt: string;
+    turn: number;
+    year: number;
+    technologies: string[];
+    research: ResearchState;
+    map: MapSaveData;
+    cities: CitySaveData[];
+    units: UnitSaveData[];
+    rivals: RivalSaveData[];
+    market: MarketState;
+    treasury: TreasuryState;
+    // Rule-set the game is played with; null for the built-in default
+    rules: RuleSetData | null;
+}
+
+/**
+ * Migration hooks. Key = version the data is migrated FROM.
+ * Each step must return data in the format of (key + 1).
+ */
+const MIGRATIONS: Record<number, (data: any) => any> = {
+    // v1 -> v2: world seed added to map data
+    1: (data) => ({ ...data, version: 2, map: { ...data.map, seed: null } }),
+    // v2 -> v3: research queue added
+    2: (data) => ({ ...data, version: 3, research: ResearchSystem.createState() }),
+    // v3 -> v4: rival empires added (older worlds have none)
+    3: (data) => ({ ...data, version: 4, rivals: [] }),
+    // v4 -> v5: world market added (prices start at their base)
+    4: (data) => ({ ...data, version: 5, market: MarketSystem.createState() }),
+    // v5 -> v6: production planner goals on every city (planning off)
+    5: (data) => {
+        const withGoals = (c: any) => ({ ...c, productionGoals: GameConfig.PLANNER.DEFAULT_GOALS, autoPlan: false });
+        return {
+            ...data,
+            version: 6,
+            cities: data.cities.map(withGoals),
+            rivals: data.rivals.map((r: any) => ({ ...r, cities: r.cities.map(withGoals) }))
+        };
+    },
+    // v6 -> v7: housing and population growth (existing people all get a home)
+    6: (data) => {
+        const withHousing = (c: any) => ({
+            ...c,
+            housingLevel: Math.max(1, Math.ceil(c.population / GameConfig.POPULATION.HOUSING_PER_LEVEL)),
+            growthProgress: 0,
+            sickTurns: 0
+        });
+        return {
+            ...data,
+            version: 7,
+            cities: data.cities.map(withHousing),
+            rivals: data.rivals.map((r: any) => ({ ...r, cities: r.cities.map(withHousing) }))
+        };
+    },
+    // v7 -> v8: treasury added (no debts, empty history)
+    7: (data) => ({ ...data, version: 8, treasury: TreasurySystem.createState() }),
+    // v8 -> v9: storage limits (existing cities get a warehouse so their stock survives the first turn)
+    8: (data) => {
+        const withWarehouse = (c: any) => {
+            const buildings = new Map<string, number>(c.buildingLevels);
+            if (!buildings.get(GameConfig.STORAGE.WAREHOUSE)) buildings.set(GameConfig.STORAGE.WAREHOUSE, 1);
+            return { ...c, buildingLevels: Array.from(buildings.entries()) };
+        };
+        return {
+            ...data,
+            version: 9,
+            cities: data.cities.map(withWarehouse),
+            rivals: data.rivals.map((r: any) => ({ ...r, cities: r.cities.map(withWarehouse) }))
+        };
+    },
+    // v9 -> v10: rule-sets (older games used the default rules)
+    9: (data) => ({ ...data, version: 10, rules: null }),
+    // v10 -> v11: recipes with several substitutes and outputs, per-recipe priorities
+    10: (data) => {
+        const convertRecipe = ({ output, outputAmount, ...recipe }: any) => ({
+            ...recipe,
+            inputs: recipe.inputs.map(({ alternative, ...input }: any) => alternative ? { ...input, alternatives: [alternative] } : input),
+            outputs: [{ resource: output, amount: outputAmount }]
+        });
+        // The default rules merged both canned food recipes into one
+        const mergeCanned = (targets: [string, number][]) => {
+            const merged = new Map<string, number>();
+            for (const [name, runs] of targets) {
+                const key = name === 'Консервы (Раст.)' || name === 'Консервы (Мясн.)' ? 'Консервы' : name;
+                merged.set(key, (merged.get(key) || 0) + runs);
+            }
+            return Array.from(merged.entries());
+        };
+        const upgradeCity = (c: any) => ({
+            ...c,
+            productionTargets: data.rules ? c.productionTargets : mergeCanned(c.productionTargets),
+            recipePriorities: []
+        });
+        const rules = data.rules?.recipes ? { ...data.rules, recipes: data.rules.recipes.map(convertRecipe) } : data.rules;
+        return {
+            ...data,
+            version: 11,
+            rules,
+            cities: data.cities.map(upgradeCity),
+            rivals: data.rivals.map((r: any) => ({ ...r, cities: r.cities.map(upgradeCity) }))
+        };
+    },
+    // v11 -> v12: timed university courses (existing cities get a university to train in)
+    11: (data) => {
+        const withUniversity = (c: any) => {
+            const buildings = new Map<string, number>(c.buildingLevels);
+            if (!buildings.get(GameConfig.UNIVERSITY.BUILDING)) buildings.set(GameConfig.UNIVERSITY.BUILDING, 1);
+            return { ...c, buildingLevels: Array.from(buildings.entries()), trainingQueue: [] };
+        };
+        return {
+            ...data,
+            version: 12,
+            cities: data.cities.map(withUniversity),
+            rivals: data.rivals.map((r: any) => ({ ...r, cities: r.cities.map(withUniversity) }))
+        };
+    },
+    // v12 -> v13: city morale
+    12: (data) => {
+        const withHappiness = (c: any) => ({ ...c, happiness: GameConfig.HAPPINESS.INITIAL });
+        return {
+            ...data,
+            version: 13,
+            cities: data.cities.map(withHappiness),
+            rivals: data.rivals.map((r: any) => ({ ...r, cities: r.cities.map(withHappiness) }))
+        };
+    },
+    // v13 -> v14: merchant fleet
+    13: (data) => {
+        const withFleet = (c: any) => ({ ...c, fleetCapacity: 0 });
+        return {
+            ...data,
+            version: 14,
+            cities: data.cities.map(withFleet),
+            rivals: data.rivals.map((r: any) => ({ ...r, cities: r.cities.map(withFleet) }))
+        };
+    },
+    // v14 -> v15: transport planner rules (auto mode off)
+    14: (data) => {
+        const withRules = (c: any) => ({ ...c, transportRules: GameConfig.TRANSPORT_PLANNER.DEFAULT_RULES, autoTransport: false });
+        return {
+            ...data,
+            version: 15,
+            cities: data.cities.map(withRules),
+            rivals: data.rivals.map((r: any) => ({ ...r, cities: r.cities.map(withRules) }))
+        };
+    }
+};
+
+export class SaveSystem {
+
+    /**
+     * Captures the complete game state into a versioned JSON string.
+     */
+    public static serialize(game: GameState): string {
+        const layers = game.map.exportLayers();
+        const encoded = {} as Record<MapLayerName, string>;
+        for (const name of MAP_LAYER_NAMES) {
+            encoded[name] = this.encodeLayer(layers[name]);
+        }
+
+        const data: SaveData = {
+            version: SAVE_FORMAT_VERSION,
+            savedAt: new Date().toISOString(),
+            turn: game.turn,
+            year: game.year,
+            technologies: Array.from(game.technologies),
+            research: ResearchSystem.cloneState(game.research),
+            map: {
+                width: game.map.width,
+                height: game.map.height,
+                seed: game.map.seed,
+                layers: encoded
+            },
+            cities: game.cityManager.cities.map(c => c.toSaveData()),
+            units: game.unitManager.units.map(u => u.toSaveData()),
+            rivals: game.rivals.map(r => ({
+                id: r.id,
+                technologies: Array.from(r.technologies),
+                research: ResearchSystem.cloneState(r.research),
+                cities: r.cities.map(c => c.toSaveData()),
+                units: r.units.map(u => u.toSaveData())
+            })),
+            market: MarketSystem.cloneState(game.market),
+            treasury: TreasurySystem.cloneState(game.treasury),
+            rules: RuleSystem.getActive() === DEFAULT_RULE_SET ? null : RuleSystem.getActive()
+        };
+
+        return JSON.stringify(data);
+    }
+
+    /**
+     * Parses a save string and upgrades it to the current format version.
+     * Throws an Error with a user-facing message if the data is unusable.
+     */
+    public static parse(json: string): SaveData {
+        let data: any;
+        try {
+            data = JSON.parse(json);
+        } catch (e) {
+            throw new Error("Ошибка: файл сохранения повреждён.");
+        }
+
+        if (!data || typeof data.version !== 'number') {
+            throw new Error("Ошибка: неизвестный формат сохранения.");
+        }
+        if (data.version > SAVE_FORMAT_VERSION) {
+            throw new Error(`Ошибка: сохранение создано более новой версией игры (v${data.version}).`);
+        }
+
+        while (data.version < SAVE_FORMAT_VERSION) {
+            const migrate = MIGRATIONS[data.version];
+            if (!migrate) {
+                throw new Error(`Ошибка: нет миграции для версии сохранения v${data.version}.`);
+            }
+            try {
+                data = migrate(data);
+            } catch (e) {
+                throw new Error(`Ошибка: сохранение v${data.version} повреждено.`);
+            }
+        }
+
+        const problem = this.findProblem(data);
+        if (problem) {
+            throw new Error(`Ошибка: сохранение повреждено (${problem}).`);
+        }
+
+        return data as SaveData;
+    }
+
+    // First thing in the data that does not match SaveData, or null
+    private static findProblem(data: any): string | null {
+        const isObject = (v: unknown) => typeof v === 'object' && v !== null && !Array.isArray(v);
+        const isNumber = (v: unknown) => typeof v === 'number' && Number.isFinite(v);
+        const isHex = (v: any) => isObject(v) && isNumber(v.q) && isNumber(v.r);
+        const isStringArray = (v: unknown) => Array.isArray(v) && v.every(x => typeof x === 'string');
+        const isResearch = (v: any) => isObject(v) && isStringArray(v.queue) && isObject(v.progress);
+        const isCity = (c: any) => isObject(c) && typeof c.id === 'string' && isHex(c.location) && isObject(c.workforce) &&
+            ['inventory', 'productionQueue', 'productionTargets', 'productionGoals', 'recipePriorities', 'trainingQueue',
+                'buildingLevels', 'lastTransportSettings', 'transportRules'].every(key => Array.isArray(c[key]));
+        // Every saved field present must have the type its unit class expects
+        const isUnit = (u: any) => isObject(u) && typeof u.id === 'string' && Object.values(UnitType).includes(u.type) &&
+            isNumber(u.ownerId) && isHex(u.location) &&
+            Object.entries(University.instantiateUnit(u.type, u.id, u.location, u.ownerId).getSaveFields())
+                .every(([key, check]) => !Object.hasOwn(u, key) || check(u[key]));
+
+        if (!isNumber(data.turn) || !isNumber(data.year)) return 'ход';
+        if (!isStringArray(data.technologies) || !isResearch(data.research)) return 'исследования';
+
+        const map = data.map;
+        if (!isObject(map) || !Number.isInteger(map.width) || !Number.isInteger(map.height) || map.width <= 0 || map.height <= 0) return 'размер карты';
+        if (map.seed !== null && !isNumber(map.seed)) return 'зерно карты';
+        if (!isObject(map.layers)) return 'слои карты';
+        for (const name of MAP_LAYER_NAMES) {
+            if (typeof map.layers[name] !== 'string') return `нет слоя карты '${name}'`;
+            try {
+                if (this.decodeLayer(map.layers[name]).length !== map.width * map.height) return `слой карты '${name}' другого размера`;
+            } catch (e) {
+                return `слой карты '${name}'`;
+            }
+        }
+
+        if (!Array.isArray(data.cities) || !data.cities.every(isCity)) return 'города';
+        if (!Array.isArray(data.units) || !data.units.every(isUnit)) return 'юниты';
+        if (!Array.isArray(data.rivals) || !data.rivals.every((r: any) => isObject(r) && isNumber(r.id) &&
+            isStringArray(r.technologies) && isResearch(r.research) &&
+            Array.isArray(r.cities) && r.cities.every(isCity) && Array.isArray(r.units) && r.units.every(isUnit))) return 'соперники';
+        if (!isObject(data.market) || !isObject(data.market.prices) || !isObject(data.market.history) || !Array.isArray(data.market.orders)) return 'рынок';
+        if (!isObject(data.treasury) || !Array.isArray(data.treasury.debts) || !Array.isArray(data.treasury.history)) return 'казна';
+        if (data.rules !== null && !isObject(data.rules)) return 'правила';
+        return null;
+    }
+
+    /**
+     * Writes parsed save data into an existing game state.
+     * The map keeps its identity so renderer/network/pathfinder references stay valid.
+     * Everything is decoded before the state is touched; if anything fails the game is left
+     * as it was, including the rule-set.
+     */
+    public static apply(game: GameState, data: SaveData) {
+        if (data.map.width !== game.map.width || data.map.height !== game.map.height) {
+            throw new Error(`Ошибка: размер карты сохранения (${data.map.width}x${data.map.height}) не совпадает с текущим.`);
+        }
+
+        // Cities and rivals are built from the save's rules, so they go in first and are put back on failure
+        const previousRules = RuleSystem.getActive();
+        RuleSystem.apply(data.rules ?? DEFAULT_RULE_SET);
+
+        const rivals: RivalEmpire[] = [];
+        let layers: Record<MapLayerName, Uint8Array>;
+        let cities: City[];
+        let units: Unit[];
+        let research: ResearchState;
+        let market: MarketState;
+        let treasury: TreasuryState;
+        try {
+            layers = this.decodeLayers(data.map, game.map.size);
+            research = ResearchSystem.cloneState(data.research);
+            market = MarketSystem.cloneState(data.market);
+            treasury = TreasurySystem.cloneState(data.treasury);
+            cities = data.cities.map(c => City.fromSaveData(c));
+            units = data.units.map(u => this.restoreUnit(u));
+            for (const r of data.rivals) rivals.push(this.restoreRival(game, r));
+        } catch (e: any) {
+            // Networks of the half-built rivals would keep listening to the map
+            rivals.forEach(r => r.transportNetwork.dispose());
+            RuleSystem.apply(previousRules);
+            // Our own messages are meant for the player; anything else is broken data
+            throw typeof e?.message === 'string' && e.message.startsWith('Ошибка') ? e : new Error("Ошибка: данные сохранения повреждены.");
+        }
+
+        game.map.importLayers(layers);
+        if (data.map.seed !== null) {
+            game.map.seed = data.map.seed;
+        }
+
+        game.turn = data.turn;
+        game.year = data.year;
+        game.technologies = new Set(data.technologies);
+        game.research = research;
+
+        game.cityManager.cities = cities;
+
+        game.unitManager.units = units;
+        game.unitManager.selectedUnit = null;
+        game.unitManager.selectedHex = null;
+        game.unitManager.validMovesCache = [];
+        game.unitManager.currentPathCache = [];
+
+        // The old rivals' networks would keep listening to the map
+        game.rivals.forEach(r => r.transportNetwork.dispose());
+        game.rivals = rivals;
+        game.market = market;
+        game.treasury = treasury;
+
+        // Undo history and turn reports refer to the previous session
+        game.commands.clear();
+        game.reports = [];
+    }
+
+    // Every layer, checked against the map size
+    private static decodeLayers(map: MapSaveData, size: number): Record<MapLayerName, Uint8Array> {
+        const layers = {} as Record<MapLayerName, Uint8Array>;
+        for (const name of MAP_LAYER_NAMES) {
+            const encoded = map.layers[name];
+            if (typeof encoded !== 'string') {
+                throw new Error(`Ошибка: в сохранении нет слоя карты '${name}'.`);
+            }
+            let layer: Uint8Array;
+            try {
+                layer = this.decodeLayer(encoded);
+            } catch (e) {
+                throw new Error(`Ошибка: слой карты '${name}' повреждён.`);
+            }
+            if (layer.length !== size) {
+                throw new Error(`Ошибка: слой карты '${name}' не совпадает с размером карты.`);
+            }
+            layers[name] = layer;
+        }
+        return layers;
+    }
+
+    private static restoreRival(game: GameState, data: RivalSaveData): RivalEmpire {
+        const rival = new RivalEmpire(game.map, RivalEmpire.getDefinition(data.id));
+        rival.technologies = new Set(data.technologies);
+        rival.research = ResearchSystem.cloneState(data.research);
+        rival.cityManager.cities = data.cities.map(c => City.fromSaveData(c));
+        rival.unitManager.units = data.units.map(u => this.restoreUnit(u));
+        if (rival.capital) rival.transportNetwork.setCapital(rival.capital.location);
+        return rival;
+    }
+
+    /**
+     * Rebuilds a unit of the correct class from its saved data.
+     */
+    public static restoreUnit(data: UnitSaveData): Unit {
+        const unit = University.instantiateUnit(data.type, data.id, data.location, data.ownerId);
+        unit.restoreSaveData(data);
+        return unit;
+    }
+
+    private static encodeLayer(layer: Uint8Array): string {
+        return btoa(strFromU8(deflateSync(layer), true));
+    }
+
+    private static decodeLayer(encoded: string): Uint8Array {
+        return inflateSync(strToU8(atob(encoded), true));
+    }
+}
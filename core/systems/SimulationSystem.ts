@@ -1,43 +1,34 @@
 
-import { Game } from '../Game';
+import { GameState } from '../GameState';
 import { Unit } from '../../Entities/Unit';
-import { Pathfinder } from '../../Grid/Pathfinding';
-import { TransportNetwork } from '../../Logistics/TransportNetwork';
-import { ActionSystem } from './ActionSystem';
+import { ResearchSystem } from './ResearchSystem';
+import { MarketSystem } from './MarketSystem';
+import { TreasurySystem } from './TreasurySystem';
 
 export class SimulationSystem {
     
     /**
-     * Creates a deep copy of the Game instance for simulation purposes.
-     * This bypasses the constructor to avoid canvas/DOM dependencies.
+     * Creates a deep copy of the GameState for simulation purposes.
+     * The clone is headless and silent (no event callbacks).
      */
-    public static createDeepClone(original: Game): Game {
-        // Create a shallow Game instance (without canvas/loop)
-        const clone = Object.create(Game.prototype);
+    public static createDeepClone(original: GameState): GameState {
+        // 1. Deep Clone Map, dependencies are re-created around it
+        const clone = new GameState({ map: original.map.cloneDeep(), spawnEntities: false });
         
-        // 1. Deep Clone Map
-        clone.map = original.map.cloneDeep();
-        
-        // 2. Re-create Dependencies with new Map
-        clone.pathfinder = new Pathfinder(clone.map);
-        clone.transportNetwork = new TransportNetwork(clone.map);
-        
-        // 3. Deep Clone Managers
+        // 2. Deep Clone Managers
         clone.cityManager = original.cityManager.cloneDeep(clone.map, clone.transportNetwork);
         clone.unitManager = original.unitManager.cloneDeep(clone.map, clone.pathfinder);
-        
-        // 4. Re-create Action System with new context
-        clone.actions = new ActionSystem(clone);
+        // The clone's network picked the first city tile on the map; keep the real capital
+        if (clone.cityManager.capital) clone.transportNetwork.setCapital(clone.cityManager.capital.location);
+        clone.rivals = original.rivals.map(r => r.cloneDeep(clone.map));
 
-        // 5. Copy Primitives & Simple Objects
+        // 3. Copy Primitives & Simple Objects
         clone.turn = original.turn;
         clone.year = original.year;
         clone.technologies = new Set(original.technologies);
-        clone.windStrength = original.windStrength;
-        clone.time = original.time;
-        
-        // No rendering or input needed for simulation
-        clone.isReady = true; 
+        clone.research = ResearchSystem.cloneState(original.research);
+        clone.market = MarketSystem.cloneState(original.market);
+        clone.treasury = TreasurySystem.cloneState(original.treasury);
         
         return clone;
     }
@@ -46,7 +37,7 @@ export class SimulationSystem {
      * Simulates a turn given a list of actions, returning the resulting game state analysis.
      * This runs on a deep clone and does not affect the actual game.
      */
-    public static simulateTurn(sourceGame: Game, unitActions: {unitId: string, action: string}[]): any {
+    public static simulateTurn(sourceGame: GameState, unitActions: {unitId: string, action: string}[]): any {
         const clone = this.createDeepClone(sourceGame);
         
         // 1. Execute Actions
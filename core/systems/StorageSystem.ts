@@ -0,0 +1,36 @@
+import { GameConfig } from '../GameConfig';
+import { City } from '../../Entities/City';
+import { ResourceType } from '../../Grid/GameMap';
+import { StorageReport } from '../TurnReport';
+
+export class StorageSystem {
+
+    public static getCapacity(city: City): number {
+        const cfg = GameConfig.STORAGE;
+        return cfg.BASE_CAPACITY + (city.buildingLevels.get(cfg.WAREHOUSE) || 0) * cfg.CAPACITY_PER_LEVEL;
+    }
+
+    public static getSpoilageRate(type: ResourceType): number {
+        return GameConfig.STORAGE.SPOILAGE[type] || 0;
+    }
+
+    /**
+     * Perishable food rots first, then everything above the warehouse capacity is lost.
+     */
+    public static processTurn(city: City): StorageReport {
+        const report: StorageReport = { capacity: this.getCapacity(city), spoiled: new Map(), overflow: new Map() };
+
+        city.inventory.forEach((stock, type) => {
+            if (stock <= 0) return;
+
+            const spoiled = Math.ceil(stock * this.getSpoilageRate(type));
+            if (spoiled > 0) report.spoiled.set(type, spoiled);
+
+            const overflow = Math.max(0, stock - spoiled - report.capacity);
+            if (overflow > 0) report.overflow.set(type, overflow);
+
+            city.inventory.set(type, stock - spoiled - overflow);
+        });
+        return report;
+    }
+}
@@ -0,0 +1,207 @@
+import { GameConfig, DebtOffer } from '../GameConfig';
+import { City } from '../../Entities/City';
+import { ResourceType } from '../../Grid/GameMap';
+import { MarketSystem, MarketState } from './MarketSystem';
+
+export type DebtKind = 'LOAN' | 'BOND';
+
+export interface Debt {
+    id: number;
+    kind: DebtKind;
+    principal: number;
+    interest: number;
+    turns: number;
+    turnsLeft: number;
+}
+
+// One turn of the empire's income and expenses (all cities together, signed like CityCashReport)
+export interface FinanceRecord {
+    turn: number;
+    year: number;
+    cashStart: number;
+    taxes: number;
+    conversion: number;
+    market: number;
+    upkeep: number;
+    debt: number;
+    other: number;
+    cashEnd: number;
+}
+
+export interface TreasuryState {
+    debts: Debt[];
+    nextDebtId: number;
+    // Turns in a row the capital ended in the red
+    bankruptTurns: number;
+    history: FinanceRecord[];
+}
+
+export interface TreasuryTurnResult {
+    // Tax collected per city id
+    taxes: Map<string, number>;
+    debtService: number;
+    // Debts fully paid off this turn
+    repaid: Debt[];
+    // Goods sold off by creditors while bankrupt
+    seized: { resource: ResourceType; amount: number; cash: number }[];
+    bankrupt: boolean;
+}
+
+export class TreasurySystem {
+
+    public static createState(): TreasuryState {
+        return { debts: [], nextDebtId: 1, bankruptTurns: 0, history: [] };
+    }
+
+    public static cloneState(treasury: TreasuryState): TreasuryState {
+        return {
+            debts: treasury.debts.map(d => ({ ...d })),
+            nextDebtId: treasury.nextDebtId,
+            bankruptTurns: treasury.bankruptTurns,
+            history: treasury.history.map(r => ({ ...r }))
+        };
+    }
+
+    public static getOffers(kind: DebtKind): DebtOffer[] {
+        return kind === 'LOAN' ? GameConfig.TREASURY.LOAN_OFFERS : GameConfig.TREASURY.BOND_OFFERS;
+    }
+
+    // --- Taxes ---
+
+    public static getTax(city: City): number {
+        const rates = GameConfig.TREASURY.TAX_PER_WORKER;
+        return city.workforce.untrained * rates.untrained
+            + city.workforce.trained * rates.trained
+            + city.workforce.expert * rates.expert;
+    }
+
+    public static collectTaxes(city: City): number {
+        const tax = this.getTax(city);
+        city.cash += tax;
+        return tax;
+    }
+
+    // --- Debts ---
+
+    /**
+     * What the debt costs this turn: an installment for loans, the coupon (plus face value at maturity) for bonds.
+     */
+    public static getPayment(debt: Debt): number {
+        if (debt.kind === 'LOAN') return Math.ceil(debt.principal * (1 + debt.interest) / debt.turns);
+        return Math.ceil(debt.principal * debt.interest) + (debt.turnsLeft <= 1 ? debt.principal : 0);
+    }
+
+    /**
+     * Amount needed to settle the debt early: the unpaid principal plus the current turn's interest,
+     * so borrowing and repaying within a turn is never free. Interest for later turns is waived.
+     */
+    public static getPayoff(debt: Debt): number {
+        if (debt.kind === 'LOAN') return Math.ceil(debt.principal * (debt.turnsLeft + debt.interest) / debt.turns);
+        return debt.principal + Math.ceil(debt.principal * debt.interest);
+    }
+
+    public static getTotalPayoff(treasury: TreasuryState): number {
+        return treasury.debts.reduce((sum, d) => sum + this.getPayoff(d), 0);
+    }
+
+    public static canBorrow(treasury: TreasuryState, capital: City | null, kind: DebtKind, offerIndex: number): string | null {
+        if (!capital) return "Ошибка: нет столицы.";
+        if (!this.getOffers(kind)[offerIndex]) return "Ошибка: неизвестное предложение.";
+        if (treasury.bankruptTurns > 0 || capital.cash < 0) return "Нет: банки не дают в долг банкроту.";
+        if (treasury.debts.length >= GameConfig.TREASURY.MAX_DEBTS) return `Нет: не больше ${GameConfig.TREASURY.MAX_DEBTS} долгов одновременно.`;
+        return null;
+    }
+
+    public static borrow(treasury: TreasuryState, capital: City, kind: DebtKind, offerIndex: number): string {
+        const error = this.canBorrow(treasury, capital, kind, offerIndex);
+        if (error) return error;
+
+        const offer = this.getOffers(kind)[offerIndex];
+        const debt: Debt = { id: treasury.nextDebtId++, kind, principal: offer.amount, interest: offer.interest, turns: offer.turns, turnsLeft: offer.turns };
+        treasury.debts.push(debt);
+        capital.cash += offer.amount;
+
+        return kind === 'LOAN'
+            ? `Получен заём $${offer.amount} на ${offer.turns} ходов (платёж $${this.getPayment(debt)}/ход)`
+            : `Выпущены облигации на $${offer.amount} (купон $${this.getPayment(debt)}/ход, погашение через ${offer.turns} ходов)`;
+    }
+
+    public static canRepay(treasury: TreasuryState, capital: City | null, debtId: number): string | null {
+        if (!capital) return "Ошибка: нет столицы.";
+        const debt = treasury.debts.find(d => d.id === debtId);
+        if (!debt) return "Нет: долг не найден.";
+        const payoff = this.getPayoff(debt);
+        if (capital.cash < payoff) return `Недостаточно средств: нужно $${payoff}.`;
+        return null;
+    }
+
+    public static repay(treasury: TreasuryState, capital: City, debtId: number): string {
+        const error = this.canRepay(treasury, capital, debtId);
+        if (error) return error;
+
+        const debt = treasury.debts.find(d => d.id === debtId)!;
+        const payoff = this.getPayoff(debt);
+        capital.cash -= payoff;
+        treasury.debts = treasury.debts.filter(d => d.id !== debtId);
+        return `Долг погашен досрочно: $${payoff}`;
+    }
+
+    // --- Turn ---
+
+    /**
+     * Collects taxes in every city, then services debts from the capital.
+     * Installments are due even without the cash: a capital in the red for longer than
+     * BANKRUPTCY_GRACE_TURNS has its goods sold off at market prices until the deficit is covered.
+     */
+    public static processTurn(treasury: TreasuryState, cities: City[], capital: City | null, market: MarketState): TreasuryTurnResult {
+        const result: TreasuryTurnResult = { taxes: new Map(), debtService: 0, repaid: [], seized: [], bankrupt: false };
+
+        for (const city of cities) {
+            result.taxes.set(city.id, this.collectTaxes(city));
+        }
+        if (!capital) return result;
+
+        for (const debt of treasury.debts) {
+            const payment = this.getPayment(debt);
+            capital.cash -= payment;
+            result.debtService += payment;
+            debt.turnsLeft--;
+            if (debt.turnsLeft <= 0) result.repaid.push(debt);
+        }
+        treasury.debts = treasury.debts.filter(d => d.turnsLeft > 0);
+
+        if (capital.cash >= 0) {
+            treasury.bankruptTurns = 0;
+            return result;
+        }
+
+        treasury.bankruptTurns++;
+        result.bankrupt = true;
+        if (treasury.bankruptTurns > GameConfig.TREASURY.BANKRUPTCY_GRACE_TURNS) {
+            result.seized = this.seizeGoods(capital, market);
+        }
+        return result;
+    }
+
+    // Most valuable goods go first so as little as possible is taken
+    private static seizeGoods(capital: City, market: MarketState): { resource: ResourceType; amount: number; cash: number }[] {
+        const seized: { resource: ResourceType; amount: number; cash: number }[] = [];
+        const goods = Array.from(capital.inventory.entries())
+            .filter(([type, amount]) => amount > 0 && MarketSystem.getSellPrice(market, type) > 0)
+            .sort((a, b) => MarketSystem.getSellPrice(market, b[0]) - MarketSystem.getSellPrice(market, a[0]));
+
+        for (const [type, stock] of goods) {
+            if (capital.cash >= 0) break;
+            const price = MarketSystem.getSellPrice(market, type);
+            const amount = Math.min(stock, Math.ceil(-capital.cash / price));
+            capital.inventory.set(type, stock - amount);
+            capital.cash += amount * price;
+            seized.push({ resource: type, amount, cash: amount * price });
+        }
+        return seized;
+    }
+
+    public static recordHistory(treasury: TreasuryState, record: FinanceRecord) {
+        treasury.history = [...treasury.history, record].slice(-GameConfig.TREASURY.HISTORY_LENGTH);
+    }
+}
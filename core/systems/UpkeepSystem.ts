@@ -0,0 +1,124 @@
+import { GameConfig, CostConfig } from '../GameConfig';
+import { GameMap, ImprovementType, ResourceType } from '../../Grid/GameMap';
+import { Hex, getHexDistance } from '../../Grid/HexMath';
+import { City } from '../../Entities/City';
+import { Unit } from '../../Entities/Unit';
+import { Economy } from '../Economy';
+import { getImprovementName, getUnitName } from '../../utils/Localization';
+
+// One line of the budget: all units of a type or all tiles with an improvement
+export interface UpkeepEntry {
+    name: string;
+    count: number;
+    money: number;
+    resources: Map<ResourceType, number>;
+    // How many of them could not be paid
+    unpaid: number;
+}
+
+export interface UpkeepReport {
+    entries: UpkeepEntry[];
+    // Money actually paid by the capital
+    paid: number;
+    // Money the empire owed
+    due: number;
+    unpaidUnits: number;
+    // Tiles whose improvement fell apart this turn
+    degraded: Hex[];
+}
+
+// Something that costs upkeep, in payment order
+interface UpkeepItem {
+    entry: string;
+    cost: CostConfig;
+    unit?: Unit;
+    hex?: Hex;
+    distance: number;
+}
+
+export class UpkeepSystem {
+
+    /**
+     * Charges the capital for the empire's infrastructure and units.
+     * Unpaid units are idle until the next payment; up to DEGRADE_PER_TURN unpaid tiles degrade.
+     */
+    public static processTurn(map: GameMap, ownerId: number, capital: City | null, units: Unit[]): UpkeepReport {
+        const items = this.collect(map, ownerId, capital, units);
+        const report = this.createReport(items);
+        const entries = new Map(report.entries.map(e => [e.name, e]));
+        const unpaidTiles: UpkeepItem[] = [];
+
+        for (const item of items) {
+            const paid = capital !== null && Economy.tryPayCost(capital, item.cost) === null;
+            if (paid) report.paid += item.cost.money || 0;
+            else entries.get(item.entry)!.unpaid++;
+
+            if (item.unit) {
+                item.unit.isUnpaid = !paid;
+                if (!paid) report.unpaidUnits++;
+            } else if (!paid) {
+                unpaidTiles.push(item);
+            }
+        }
+
+        const degrades = GameConfig.UPKEEP.DEGRADES_TO;
+        unpaidTiles
+            .sort((a, b) => b.distance - a.distance)
+            .slice(0, GameConfig.UPKEEP.DEGRADE_PER_TURN)
+            .forEach(item => {
+                const hex = item.hex!;
+                const tile = map.getTile(hex.q, hex.r)!;
+                const next = degrades[tile.improvement as ImprovementType] ?? ImprovementType.NONE;
+                map.setTile(hex.q, hex.r, { improvement: next, improvementLevel: next === ImprovementType.NONE ? 0 : 1 });
+                report.degraded.push(hex);
+            });
+
+        return report;
+    }
+
+    // Infrastructure nearest to the capital is paid first: it carries the most traffic
+    private static collect(map: GameMap, ownerId: number, capital: City | null, units: Unit[]): UpkeepItem[] {
+        const tiles: UpkeepItem[] = [];
+        for (let r = 0; r < map.height; r++) {
+            for (let c = 0; c < map.width; c++) {
+                const q = c - (r - (r & 1)) / 2;
+                const tile = map.getTile(q, r);
+                if (!tile || tile.owner !== ownerId) continue;
+                const cost = GameConfig.UPKEEP.IMPROVEMENTS[tile.improvement as ImprovementType];
+                if (!cost) continue;
+                tiles.push({
+                    entry: getImprovementName(tile.improvement),
+                    cost,
+                    hex: { q, r },
+                    distance: capital ? getHexDistance(capital.location, { q, r }) : 0
+                });
+            }
+        }
+        tiles.sort((a, b) => a.distance - b.distance);
+
+        const unitItems: UpkeepItem[] = units.map(u => ({
+            entry: getUnitName(u.type),
+            cost: GameConfig.UPKEEP.UNITS[u.type as keyof typeof GameConfig.UPKEEP.UNITS] ?? {},
+            unit: u,
+            distance: 0
+        }));
+        return [...tiles, ...unitItems];
+    }
+
+    private static createReport(items: UpkeepItem[]): UpkeepReport {
+        const entries = new Map<string, UpkeepEntry>();
+        let due = 0;
+        for (const item of items) {
+            let entry = entries.get(item.entry);
+            if (!entry) {
+                entry = { name: item.entry, count: 0, money: 0, resources: new Map(), unpaid: 0 };
+                entries.set(item.entry, entry);
+            }
+            entry.count++;
+            entry.money += item.cost.money || 0;
+            item.cost.resources?.forEach(r => entry!.resources.set(r.type, (entry!.resources.get(r.type) || 0) + r.amount));
+            due += item.cost.money || 0;
+        }
+        return { entries: Array.from(entries.values()), paid: 0, due, unpaidUnits: 0, degraded: [] };
+    }
+}
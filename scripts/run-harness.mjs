@@ -0,0 +1,26 @@
+// Runs a dev harness (benchmark or check) under Node through Vite's module loader,
+// so the TypeScript sources load exactly as in the dev server.
+//   node scripts/run-harness.mjs <module> <export> [numeric args...]
+import { createServer } from 'vite';
+
+const [modulePath, exportName, ...args] = process.argv.slice(2);
+if (!modulePath || !exportName) {
+    console.error('Usage: node scripts/run-harness.mjs <module> <export> [numeric args...]');
+    process.exit(1);
+}
+
+const server = await createServer({
+    appType: 'custom',
+    logLevel: 'error',
+    server: { middlewareMode: true, hmr: false }
+});
+
+try {
+    const module = await server.ssrLoadModule(modulePath);
+    const result = module[exportName](...args.map(Number));
+    console.log(JSON.stringify(result, null, 2));
+    // Checks report { passed }; a failure fails the script
+    if (result && result.passed === false) process.exitCode = 1;
+} finally {
+    await server.close();
+}
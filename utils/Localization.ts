@@ -1,7 +1,7 @@
 
 import { TerrainType, ResourceType, ImprovementType } from '../Grid/GameMap';
 import { UnitType } from '../Entities/Unit';
-import { CostConfig } from '../core/GameConfig';
+import { CostConfig, GameConfig } from '../core/GameConfig';
 
 export const getTerrainName = (t: TerrainType) => {
     switch(t) {
@@ -41,6 +41,8 @@ export const getResourceName = (r: ResourceType) => {
         case ResourceType.SPICE: return 'Пряности';
         case ResourceType.FABRIC: return 'Ткань';
         case ResourceType.ARMAMENTS: return 'Оружие';
+        case ResourceType.FUEL: return 'Топливо';
+        case ResourceType.LUXURY_GOODS: return 'Роскошь';
         default: return '';
     }
 };
@@ -78,6 +80,16 @@ export const getUnitName = (type: string) => {
     }
 };
 
+export const getTechName = (id: string) => {
+    return GameConfig.RESEARCH.TECHNOLOGIES.find(t => t.id === id)?.name || id;
+};
+
+export const getOwnerName = (ownerId: number) => {
+    if (ownerId === 0) return 'Ничья земля';
+    if (ownerId === GameConfig.EMPIRES.PLAYER_ID) return 'Наша земля';
+    return GameConfig.EMPIRES.RIVALS.find(r => r.id === ownerId)?.name || `Империя ${ownerId}`;
+};
+
 export const formatCost = (cost: CostConfig): string => {
     const parts: string[] = [];
     if (cost.money && cost.money > 0) parts.push(`$${cost.money}`);
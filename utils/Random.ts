@@ -0,0 +1,56 @@
+/* eslint-disable no-bitwise */
+// utils/Random.ts
+
+/**
+ * Small deterministic PRNG (mulberry32).
+ * Same seed => same sequence, on every machine.
+ */
+export class SeededRandom {
+    private state: number;
+
+    constructor(seed: number) {
+        this.state = seed >>> 0;
+    }
+
+    /** Returns a float in [0, 1). Drop-in replacement for Math.random(). */
+    next(): number {
+        let t = (this.state = (this.state + 0x6D2B79F5) >>> 0);
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    /** Returns an integer in [0, max). */
+    nextInt(max: number): number {
+        return Math.floor(this.next() * max);
+    }
+}
+
+/**
+ * Mixes a base seed with extra values (coordinates, names) into a new 32-bit seed.
+ * Used to derive independent, stable sub-streams (per tile, per cluster...).
+ */
+export function hashSeed(seed: number, ...parts: (number | string)[]): number {
+    let h = (seed >>> 0) ^ 0x9E3779B9;
+    const mix = (v: number) => {
+        h = Math.imul(h ^ v, 0x85EBCA6B);
+        h ^= h >>> 13;
+        h = Math.imul(h, 0xC2B2AE35);
+        h ^= h >>> 16;
+    };
+    for (const part of parts) {
+        if (typeof part === 'number') {
+            mix(part | 0);
+        } else {
+            for (let i = 0; i < part.length; i++) mix(part.charCodeAt(i));
+        }
+    }
+    return h >>> 0;
+}
+
+/**
+ * Creates a fresh non-zero seed for a new world.
+ */
+export function createRandomSeed(): number {
+    return (Math.floor(Math.random() * 0xFFFFFFFF) >>> 0) || 1;
+}